@@ -11,10 +11,10 @@
  * - Frequency-compensated comparison showing symbol corrections
  */
 
-import { parseWavFile } from './wav-io.js';
-import { AUDIO, PHONE_MODE, WIDEBAND_MODE, setAudioMode, TONE_FREQUENCIES, type AudioMode } from '../src/utils/constants.js';
+import { readAudioFile } from './wav-io.js';
+import { AUDIO, AUDIO_MODES, setAudioMode, getAudioMode, TONE_FREQUENCIES, type AudioMode } from '../src/utils/constants.js';
 import { ChirpDetector } from '../src/lib/chirp.js';
-import { detectToneSoft, type SoftDetectionResult } from '../src/decode/soft-decision.js';
+import { detectToneSoft, detectMultitoneSoft, type SoftDetectionResult } from '../src/decode/soft-decision.js';
 import { FrequencyOffsetTracker, type FrequencyOffsetResult, type ToneMeasurement } from '../src/decode/freq-offset.js';
 
 interface AnalyzeOptions {
@@ -70,7 +70,7 @@ export async function analyzeCommand(
 
   try {
     log(`Analyzing ${filePath}...`);
-    const { samples, sampleRate } = parseWavFile(filePath);
+    const { samples, sampleRate } = await readAudioFile(filePath);
     const duration = samples.length / sampleRate;
     log(`Sample rate: ${sampleRate} Hz, Duration: ${duration.toFixed(1)}s`);
     log('');
@@ -89,6 +89,8 @@ export async function analyzeCommand(
       if (result.detected) {
         chirpDetected = true;
         chirpEndSample = result.chirpEndSample;
+        // Ultrasonic symbols can only be read with its own tones
+        if (result.mode === 'ultrasonic') setAudioMode('ultrasonic');
         break;
       }
     }
@@ -104,23 +106,16 @@ export async function analyzeCommand(
     const symbolSamples = Math.floor((AUDIO.SYMBOL_DURATION_MS / 1000) * sampleRate);
     const calibStartSample = chirpDetected ? chirpEndSample : 0;
 
-    // Try both modes
-    const modes: { mode: AudioMode; calib: number[]; sync: number[]; calibRepeats: number; maxTone: number }[] = [
-      {
-        mode: 'phone',
-        calib: PHONE_MODE.CALIBRATION_TONES,
-        sync: PHONE_MODE.SYNC_PATTERN,
-        calibRepeats: PHONE_MODE.CALIBRATION_REPEATS,
-        maxTone: PHONE_MODE.NUM_TONES - 1,
-      },
-      {
-        mode: 'wideband',
-        calib: WIDEBAND_MODE.CALIBRATION_TONES,
-        sync: WIDEBAND_MODE.SYNC_PATTERN,
-        calibRepeats: WIDEBAND_MODE.CALIBRATION_REPEATS,
-        maxTone: WIDEBAND_MODE.NUM_TONES - 1,
-      },
-    ];
+    // Try every mode (ultrasonic shares phone's patterns on its own tones,
+    // so it is only tried when its chirp was detected)
+    const candidateModes: AudioMode[] = getAudioMode() === 'ultrasonic' ? ['ultrasonic'] : ['phone', 'wideband', 'multitone'];
+    const modes = candidateModes.map(mode => ({
+      mode,
+      calib: AUDIO_MODES[mode].CALIBRATION_TONES,
+      sync: AUDIO_MODES[mode].SYNC_PATTERN,
+      calibRepeats: AUDIO_MODES[mode].CALIBRATION_REPEATS,
+      maxTone: AUDIO_MODES[mode].NUM_TONES - 1,
+    }));
 
     // Extract soft symbols from chirp end onwards
     const maxSymbols = Math.min(500, Math.floor((samples.length - calibStartSample) / symbolSamples));
@@ -206,7 +201,7 @@ export async function analyzeCommand(
       // Set the detected mode so TONE_FREQUENCIES is correct
       setAudioMode(detectedMode);
 
-      const modeConfig = detectedMode === 'phone' ? PHONE_MODE : WIDEBAND_MODE;
+      const modeConfig = AUDIO_MODES[detectedMode];
       const calibRepeats = modeConfig.CALIBRATION_REPEATS;
       const calibTones = modeConfig.CALIBRATION_TONES;
       const calibSymbolCount = calibTones.length * calibRepeats;
@@ -229,6 +224,15 @@ export async function analyzeCommand(
       }
     }
 
+    // Multitone data symbols carry every subcarrier at once: re-detect them
+    const detectDataSymbol = detectedMode === 'multitone' ? detectMultitoneSoft : detectToneSoft;
+    if (detectedMode === 'multitone') {
+      for (let i = syncEndIdx; i < softResults.length; i++) {
+        const start = calibStartSample + i * symbolSamples;
+        softResults[i] = detectMultitoneSoft(samples.slice(start, start + symbolSamples), sampleRate);
+      }
+    }
+
     // Step 5: Per-symbol spectral dump for header region
     let headerSymbolDump: SymbolDump[] | undefined;
     let symbolsFlipped = 0;
@@ -255,7 +259,7 @@ export async function analyzeCommand(
         let compensatedDecision: number | undefined;
 
         if (symbolChunk.length >= symbolSamples * 0.8 && Math.abs(freqOffsetResult.offsetHz) >= 5) {
-          const compensated = detectToneSoft(symbolChunk, sampleRate, freqOffsetResult.offsetHz);
+          const compensated = detectDataSymbol(symbolChunk, sampleRate, freqOffsetResult.offsetHz);
           compensatedDecision = compensated.hardDecision;
           if (compensatedDecision !== original.hardDecision) {
             symbolsFlipped++;
@@ -0,0 +1,88 @@
+/**
+ * ARQ session files for the CLI
+ *
+ * "send --arq" saves what is needed to resend frames later; "send --reply"
+ * loads it to answer the receiver's NACK.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { FRAME, isAudioMode, type AudioMode } from '../src/utils/constants.js';
+import type { RetransmitContext } from '../src/encode/index.js';
+import { isFECProfile } from '../src/encode/v3-fec.js';
+
+const SESSION_FILE_VERSION = 1;
+
+export interface ArqSession {
+  mode: AudioMode;
+  context: RetransmitContext;
+}
+
+/**
+ * Write a session file (payloads are stored as base64)
+ */
+export function writeArqSession(filePath: string, session: ArqSession): void {
+  const { context } = session;
+  const json = {
+    version: SESSION_FILE_VERSION,
+    mode: session.mode,
+    sessionId: context.sessionId,
+    originalLength: context.originalLength,
+    compressed: context.compressed,
+    encrypted: context.encrypted,
+    publicKey: context.publicKey,
+    signed: context.signed,
+    kdfEnvelope: context.kdfEnvelope,
+    metadata: context.metadata,
+    bundle: context.bundle,
+    compressionAlgo: context.compressionAlgo,
+    compactConfig: context.compactConfig,
+    hasCrc32: context.hasCrc32,
+    fecProfile: context.fecProfile,
+    repairOverhead: context.repairOverhead,
+    sampleRate: context.sampleRate,
+    payloads: context.payloads.map(p => Buffer.from(p).toString('base64')),
+  };
+  writeFileSync(filePath, JSON.stringify(json, null, 2));
+}
+
+/**
+ * Read a session file written by writeArqSession
+ */
+export function readArqSession(filePath: string): ArqSession {
+  const json = JSON.parse(readFileSync(filePath, 'utf-8'));
+
+  if (json.version !== SESSION_FILE_VERSION
+    || !isAudioMode(json.mode)
+    || !isFECProfile(json.fecProfile)
+    || !Array.isArray(json.payloads)) {
+    throw new Error(`Not a valid ARQ session file: ${filePath}`);
+  }
+
+  return {
+    mode: json.mode,
+    context: {
+      sessionId: json.sessionId,
+      originalLength: json.originalLength,
+      compressed: json.compressed,
+      encrypted: json.encrypted,
+      // Session files written before public-key encryption or signatures existed have neither
+      publicKey: json.publicKey ?? false,
+      signed: json.signed ?? false,
+      // Session files written before the password envelope hold legacy-layout payloads
+      kdfEnvelope: json.kdfEnvelope ?? false,
+      // Session files written before metadata blocks or file bundles existed have neither
+      metadata: json.metadata ?? false,
+      bundle: json.bundle ?? false,
+      // Session files written before other compression algorithms existed used DEFLATE
+      compressionAlgo: json.compressionAlgo ?? FRAME.COMPRESSION_DEFLATE,
+      // Session files written before compact configs existed hold none
+      compactConfig: json.compactConfig ?? false,
+      hasCrc32: json.hasCrc32,
+      fecProfile: json.fecProfile,
+      // Session files written before repair frames existed have none
+      repairOverhead: json.repairOverhead ?? 0,
+      sampleRate: json.sampleRate,
+      payloads: json.payloads.map((p: string) => new Uint8Array(Buffer.from(p, 'base64'))),
+    },
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Compressed audio input and output for the CLI
+ *
+ * Voice messages from messengers arrive as OGG/Opus, M4A/AAC, AMR or MP3
+ * rather than WAV. These formats are recognised by their first bytes and
+ * handed to a decoder that turns them into mono 32-bit float PCM, which is
+ * then read like raw input. OGG/Opus, what messengers send voice notes
+ * in, is decoded in WebAssembly (opus-decoder); Node has no other
+ * audio codecs, so the other formats go through ffmpeg when it is
+ * installed. Output to OGG/Opus and AMR-NB, to send a transmission as a
+ * voice message, goes through ffmpeg as well.
+ */
+
+import { spawn, spawnSync } from 'child_process';
+import { once } from 'events';
+import { OpusDecoder, type OpusDecodedAudio } from 'opus-decoder';
+import { OggPacketReader, readOpusHead } from '../src/lib/ogg.js';
+
+/** A compressed audio format, recognised by its first bytes */
+export interface CompressedFormat {
+  id: string;
+  /** Display name */
+  name: string;
+  matches(header: Buffer): boolean;
+}
+
+// Bytes of a file needed to recognise every format (an OGG stream names
+// its codec in the first packet, at byte 28)
+export const FORMAT_HEADER_BYTES = 36;
+
+function startsWith(header: Buffer, magic: string, offset = 0): boolean {
+  return header.length >= offset + magic.length && header.toString('latin1', offset, offset + magic.length) === magic;
+}
+
+export const COMPRESSED_FORMATS: CompressedFormat[] = [
+  { id: 'opus', name: 'OGG/Opus', matches: header => startsWith(header, 'OggS') && startsWith(header, 'OpusHead', 28) },
+  // Any other OGG codec (Vorbis, FLAC, Speex)
+  { id: 'ogg', name: 'OGG', matches: header => startsWith(header, 'OggS') },
+  { id: 'm4a', name: 'M4A', matches: header => startsWith(header, 'ftyp', 4) },
+  { id: 'amr', name: 'AMR', matches: header => startsWith(header, '#!AMR') },
+  { id: 'webm', name: 'WebM', matches: header => startsWith(header, '\x1a\x45\xdf\xa3') },
+  { id: 'flac', name: 'FLAC', matches: header => startsWith(header, 'fLaC') },
+  {
+    id: 'aac',
+    name: 'AAC',
+    // ADTS sync word, layer 0
+    matches: header => header.length >= 2 && header[0] === 0xff && (header[1] & 0xf6) === 0xf0,
+  },
+  {
+    id: 'mp3',
+    name: 'MP3',
+    // ID3 tag, or an MPEG audio frame sync with a valid layer
+    matches: header => startsWith(header, 'ID3') ||
+      (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0 && (header[1] & 0x06) !== 0),
+  },
+];
+
+/**
+ * Find the compressed format of a file from its first bytes
+ * Returns undefined for WAV, raw PCM and anything unrecognised
+ */
+export function detectCompressedFormat(header: Buffer): CompressedFormat | undefined {
+  return COMPRESSED_FORMATS.find(format => format.matches(header));
+}
+
+/**
+ * Decodes compressed audio to mono 32-bit float little-endian PCM
+ */
+export interface AudioDecoder {
+  name: string;
+  /** Sample rate of the decoded audio (Hz) */
+  sampleRate: number;
+  /** Whether the decoder can be used here for the format */
+  supports(format: CompressedFormat): boolean;
+  /** Decode a whole file */
+  decode(data: Buffer, format: CompressedFormat): Promise<Buffer>;
+  /** Decode a stream, yielding PCM as the input arrives */
+  decodeStream(input: AsyncIterable<Buffer>, format: CompressedFormat): AsyncIterable<Buffer>;
+}
+
+/**
+ * ffmpeg, or the program NEDAGRAM_FFMPEG names
+ */
+function ffmpegCommand(): string {
+  return process.env.NEDAGRAM_FFMPEG || 'ffmpeg';
+}
+
+let ffmpegAvailable: boolean | undefined;
+
+function isFfmpegAvailable(): boolean {
+  if (ffmpegAvailable === undefined) {
+    ffmpegAvailable = spawnSync(ffmpegCommand(), ['-version'], { stdio: 'ignore' }).status === 0;
+  }
+  return ffmpegAvailable;
+}
+
+class FfmpegDecoder implements AudioDecoder {
+  readonly name = 'ffmpeg';
+  readonly sampleRate = 48000;
+
+  private get args(): string[] {
+    return ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', '-f', 'f32le', '-ac', '1', '-ar', String(this.sampleRate), 'pipe:1'];
+  }
+
+  supports(): boolean {
+    return isFfmpegAvailable();
+  }
+
+  async decode(data: Buffer, format: CompressedFormat): Promise<Buffer> {
+    const result = spawnSync(ffmpegCommand(), this.args, { input: data, maxBuffer: Infinity });
+    if (result.error || result.status !== 0) {
+      throw new Error(`ffmpeg could not decode the ${format.name} audio: ${lastLine(result.stderr) || result.error?.message}`);
+    }
+    return result.stdout;
+  }
+
+  async *decodeStream(input: AsyncIterable<Buffer>, format: CompressedFormat): AsyncGenerator<Buffer> {
+    const child = spawn(ffmpegCommand(), this.args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+    const exited = new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', resolve);
+    });
+    // ffmpeg may exit before reading all its input
+    child.stdin.on('error', () => {});
+
+    const feeding = (async () => {
+      for await (const chunk of input) {
+        if (!child.stdin.write(chunk)) {
+          await once(child.stdin, 'drain');
+        }
+      }
+      child.stdin.end();
+    })();
+    feeding.catch(() => child.stdin.destroy());
+
+    try {
+      for await (const chunk of child.stdout) {
+        yield chunk as Buffer;
+      }
+      const status = await exited;
+      if (status !== 0) {
+        throw new Error(`ffmpeg could not decode the ${format.name} audio: ${lastLine(stderr) || `exit code ${status}`}`);
+      }
+    } finally {
+      // Stop decoding once the reader is done with the stream
+      if (child.exitCode === null) child.kill();
+    }
+  }
+}
+
+function lastLine(text: Buffer | string | null): string {
+  return (text ?? '').toString().trim().split('\n').pop() ?? '';
+}
+
+/**
+ * OGG/Opus without ffmpeg: libopus compiled to WebAssembly (opus-decoder)
+ */
+class OggOpusDecoder implements AudioDecoder {
+  readonly name = 'opus';
+  readonly sampleRate = 48000;
+
+  supports(format: CompressedFormat): boolean {
+    return format.id === 'opus';
+  }
+
+  async decode(data: Buffer, format: CompressedFormat): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.decodeStream([data], format)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async *decodeStream(input: AsyncIterable<Buffer> | Iterable<Buffer>, format: CompressedFormat): AsyncGenerator<Buffer> {
+    const reader = new OggPacketReader();
+    let decoder: OpusDecoder | null = null;
+    // The comment header follows the identification header
+    let headersLeft = 2;
+
+    try {
+      for await (const chunk of input) {
+        const packets = reader.push(chunk);
+        if (!decoder && headersLeft === 2 && packets.length > 0) {
+          const head = readOpusHead(packets[0]);
+          if (!head) {
+            throw new Error(`The ${format.name} audio does not start with an Opus header`);
+          }
+          decoder = new OpusDecoder({
+            channels: head.channels,
+            preSkip: head.preSkip,
+            streamCount: head.streamCount,
+            coupledStreamCount: head.coupledStreamCount,
+            channelMappingTable: head.channelMapping,
+          });
+          await decoder.ready;
+        }
+
+        const skipped = Math.min(headersLeft, packets.length);
+        headersLeft -= skipped;
+        const audio = packets.slice(skipped);
+        if (decoder && audio.length > 0) {
+          const decoded = decoder.decodeFrames(audio);
+          if (decoded.samplesDecoded > 0) yield toMonoPcm(decoded);
+        }
+      }
+    } finally {
+      decoder?.free();
+    }
+  }
+}
+
+/**
+ * Mix decoded channels down to mono 32-bit float little-endian PCM
+ */
+function toMonoPcm({ channelData, samplesDecoded }: OpusDecodedAudio): Buffer {
+  const pcm = Buffer.alloc(samplesDecoded * 4);
+  for (let i = 0; i < samplesDecoded; i++) {
+    let sum = 0;
+    for (const channel of channelData) sum += channel[i];
+    pcm.writeFloatLE(sum / channelData.length, i * 4);
+  }
+  return pcm;
+}
+
+// Tried in order: OGG/Opus never needs ffmpeg
+const decoders: AudioDecoder[] = [new OggOpusDecoder(), new FfmpegDecoder()];
+
+/**
+ * Find a decoder for a compressed format
+ * Throws when none can be used here
+ */
+export function findAudioDecoder(format: CompressedFormat): AudioDecoder {
+  const decoder = decoders.find(candidate => candidate.supports(format));
+  if (!decoder) {
+    throw new Error(
+      `${format.name} audio needs ffmpeg to decode, and it was not found (only OGG/Opus decodes without it). ` +
+      'Install ffmpeg (or set NEDAGRAM_FFMPEG to its path), or convert the recording to WAV.'
+    );
+  }
+  return decoder;
+}
+
+/** A compressed format the CLI can write */
+export interface OutputFormat {
+  id: string;
+  /** Display name */
+  name: string;
+  extension: string;
+  /** Sample rate of the encoded audio (Hz) */
+  sampleRate: number;
+  /** Default and allowed bitrates (kbit/s) */
+  bitrate: number;
+  minBitrate: number;
+  maxBitrate: number;
+  /** Only bitrates the codec has modes for, when it has fixed modes */
+  bitrates?: number[];
+  /** ffmpeg codec arguments for a bitrate */
+  codecArgs(bitrate: number): string[];
+}
+
+export const OUTPUT_FORMATS: Record<string, OutputFormat> = {
+  // Opus as messengers send voice notes; the "audio" application keeps
+  // tones cleaner than the speech-tuned "voip"
+  ogg: {
+    id: 'ogg',
+    name: 'OGG/Opus',
+    extension: 'ogg',
+    sampleRate: 48000,
+    bitrate: 32,
+    minBitrate: 6,
+    maxBitrate: 256,
+    codecArgs: bitrate => ['-c:a', 'libopus', '-b:a', `${bitrate}k`, '-application', 'audio', '-f', 'ogg'],
+  },
+  // Narrowband, 8 kHz: only the phone mode fits
+  amr: {
+    id: 'amr',
+    name: 'AMR-NB',
+    extension: 'amr',
+    sampleRate: 8000,
+    bitrate: 12.2,
+    minBitrate: 4.75,
+    maxBitrate: 12.2,
+    bitrates: [4.75, 5.15, 5.9, 6.7, 7.4, 7.95, 10.2, 12.2],
+    codecArgs: bitrate => ['-c:a', 'libopencore_amrnb', '-b:a', `${bitrate}k`, '-f', 'amr'],
+  },
+};
+
+/**
+ * Encode mono samples to a compressed format with ffmpeg
+ * Throws when ffmpeg is missing or cannot encode the format
+ */
+export function encodeAudio(samples: Float32Array, sampleRate: number, format: OutputFormat, bitrate = format.bitrate): Buffer {
+  if (!isFfmpegAvailable()) {
+    throw new Error(
+      `${format.name} output needs ffmpeg to encode, and it was not found. ` +
+      'Install ffmpeg (or set NEDAGRAM_FFMPEG to its path), or write WAV.'
+    );
+  }
+
+  const args = [
+    '-hide_banner', '-loglevel', 'error',
+    '-f', 'f32le', '-ar', String(sampleRate), '-ac', '1', '-i', 'pipe:0',
+    '-ar', String(format.sampleRate), ...format.codecArgs(bitrate), 'pipe:1',
+  ];
+  const input = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+  const result = spawnSync(ffmpegCommand(), args, { input, maxBuffer: Infinity });
+  if (result.error || result.status !== 0) {
+    throw new Error(`ffmpeg could not encode ${format.name}: ${lastLine(result.stderr) || result.error?.message}`);
+  }
+  return result.stdout;
+}
@@ -2,30 +2,125 @@
  * CLI Decode Command
  */
 
-import { writeFileSync } from 'fs';
-import { parseWavFile } from './wav-io.js';
-import { Decoder } from '../src/decode/index.js';
+import { createReadStream, existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { writeWavFile, readAudioStream, sliceAudio, isRawFormat, type AudioStream, type RawFormat } from './wav-io.js';
+import { Decoder, type DecodeProgress } from '../src/decode/index.js';
+import { feedDecoder } from '../src/decode/feed.js';
+import { type PartialReception } from '../src/decode/deframe.js';
+import { countPartialFrames, parsePartialReceptions, serializePartialReceptions } from '../src/decode/partial.js';
+import { encodeArqMessage } from '../src/encode/index.js';
+import { type ArqMessage } from '../src/encode/arq.js';
+import { type SignatureInfo } from '../src/lib/crypto.js';
+import { readKeyArgument, readKeyring } from './keygen.js';
+import { DECODER_LOG_PREFIXES, formatTimestamp, scanTransmissions, type Transmission } from './scan.js';
+import { formatMetadata, getOutputPath, saveBundle } from './metadata.js';
+import { type MessageMetadata } from '../src/encode/metadata.js';
+import { type BundleFile } from '../src/encode/bundle.js';
+import { isText } from '../src/utils/helpers.js';
 
-interface DecodeOptions {
+/** How to read a recording (shared with "listen") */
+export interface RecordingOptions {
+  raw?: boolean;
+  rate: string;
+  format: string;
+}
+
+interface DecodeOptions extends RecordingOptions {
+  all?: boolean;
   output?: string;
+  /** Write the message byte for byte (detected automatically for non-text messages) */
+  binary?: boolean;
   password?: string;
+  key?: string;
+  /** Pre-shared keys, or files of them (--key-file, repeatable) */
+  keyFile?: string[];
   salvage?: boolean;
+  arq?: string;
+  partial?: string;
   quiet?: boolean;
   json?: boolean;
 }
 
+/** File argument that reads the recording from stdin */
+export const STDIN_PATH = '-';
+
+/** A file of a bundle, for JSON output */
+export interface BundleFileResult {
+  name: string;
+  bytes: number;
+  /** Content in base64 */
+  data: string;
+  /** Where it was saved */
+  output?: string;
+}
+
 interface DecodeResult {
   success: boolean;
-  message: string;
+  /** The message, or its bytes in base64 when binary (absent for a file bundle) */
+  message?: string;
+  binary: boolean;
   bytes: number;
   sha256: string;
   output?: string;
   encrypted: boolean;
   compressed: boolean;
+  /** Signer and validity, for signed messages */
+  signature?: SignatureInfo;
+  /** File name, type, time and label, when the sender included them */
+  metadata?: MessageMetadata;
+  /** Files of a bundle */
+  files?: BundleFileResult[];
+  reply?: string;
+}
+
+interface DecodedMessage {
+  data: Uint8Array;
+  text: string;
+  checksum: string;
+  encrypted: boolean;
+  sessionId: number;
+  sampleRate: number;
+  needsPassword?: boolean;
+  needsKey?: boolean;
+  keyId?: string;
+  signature?: SignatureInfo;
+  metadata?: MessageMetadata;
+  files?: BundleFile[];
+  stats: { originalSize: number; compressed: boolean };
+}
+
+/** A transmission found with --all, decoded or failed */
+interface ScannedMessage {
+  file: string;
+  /** Position in the recording where the transmission began and ended (seconds) */
+  start: number;
+  end: number;
+  success: boolean;
+  /** The message, or its bytes in base64 when binary (absent for a file bundle) */
+  message?: string;
+  binary?: boolean;
+  bytes?: number;
+  sha256?: string;
+  encrypted?: boolean;
+  compressed?: boolean;
+  signature?: SignatureInfo;
+  metadata?: MessageMetadata;
+  files?: BundleFileResult[];
+  error?: string;
+}
+
+/** Outcome of decoding one recording */
+interface FileDecode {
+  result?: DecodedMessage;
+  error?: Error;
+  /** NACK for the frames still missing (with --arq) */
+  nack?: { message: ArqMessage; audio: Float32Array; sampleRate: number };
+  /** Frames of messages that are not yet decoded */
+  partials: PartialReception[];
 }
 
 export async function decodeCommand(
-  filePath: string,
+  filePaths: string[],
   options: DecodeOptions
 ): Promise<void> {
   const log = options.quiet || options.json ? () => {} : console.error.bind(console);
@@ -35,7 +130,7 @@ export async function decodeCommand(
   if (options.quiet || options.json) {
     console.log = (...args: unknown[]) => {
       const msg = args[0];
-      if (typeof msg === 'string' && (msg.startsWith('[Decoder]') || msg.startsWith('[ChirpDetector]') || msg.startsWith('[Audio]'))) {
+      if (typeof msg === 'string' && DECODER_LOG_PREFIXES.some(prefix => msg.startsWith(prefix))) {
         return; // Suppress decoder debug logs
       }
       originalLog.apply(console, args);
@@ -43,116 +138,91 @@ export async function decodeCommand(
   }
 
   try {
-    // Parse WAV file
-    log(`Reading ${filePath}...`);
-    const { samples, sampleRate } = parseWavFile(filePath);
-    log(`Sample rate: ${sampleRate} Hz, Duration: ${(samples.length / sampleRate).toFixed(1)}s`);
-
-    // Create decoder
-    const decoder = new Decoder(sampleRate);
+    if (filePaths.filter(f => f === STDIN_PATH).length > 1) {
+      throw new Error('stdin ("-") can only be read once.');
+    }
+    validateRecordings(filePaths, options, 'decode');
+    if (options.key) {
+      options = { ...options, key: readKeyArgument(options.key, 'private') };
+    }
+    const preSharedKeys = options.keyFile?.length ? readKeyring(options.keyFile) : undefined;
+    if (preSharedKeys) {
+      options = { ...options, keyFile: preSharedKeys };
+    }
 
-    // Process in chunks to simulate streaming and allow progress updates
-    const chunkSize = Math.floor(sampleRate * 0.1); // 100ms chunks
-    let lastState = '';
+    if (options.all) {
+      if (options.output || options.arq || options.partial) {
+        throw new Error('--all cannot be combined with -o, --arq or --partial. Use "nedagram listen <file> -d <dir>" to save each message to a file.');
+      }
+      await decodeAll(filePaths, options, log);
+      return;
+    }
 
-    // Wrap in promise for async completion
-    const result = await new Promise<{ text: string; checksum: string; encrypted: boolean; needsPassword?: boolean; stats: { originalSize: number; compressed: boolean } }>((resolve, reject) => {
-      decoder.start(
-        (result) => {
-          resolve({
-            text: result.text,
-            checksum: result.checksum,
-            encrypted: result.encrypted,
-            needsPassword: result.needsPassword,
-            stats: result.stats as { originalSize: number; compressed: boolean },
-          });
-        },
-        (error) => {
-          reject(error);
-        }
-      );
+    // Frames saved by an earlier incomplete decode
+    let partials: PartialReception[] = [];
+    if (options.partial && existsSync(options.partial)) {
+      partials = parsePartialReceptions(readFileSync(options.partial, 'utf-8'));
+      log(`Resuming from ${options.partial} (${countPartialFrames(partials)} frames saved)`);
+    }
 
-      // Set password after start() since start() calls reset() which clears it
-      if (options.password) {
-        decoder.setPassword(options.password);
+    // Recordings of the same message are merged until one completes it
+    let result: DecodedMessage | undefined;
+    let error: Error | undefined;
+    let nack: FileDecode['nack'];
+    for (const [i, filePath] of filePaths.entries()) {
+      const decoded = await decodeFile(filePath, options, partials, log);
+      partials = decoded.partials;
+      nack = decoded.nack ?? nack;
+      if (decoded.result) {
+        result = decoded.result;
+        break;
       }
-
-      // Enable salvage mode for best-effort recovery
-      if (options.salvage) {
-        decoder.setSalvageMode(true);
-        log('Salvage mode enabled: relaxed thresholds, extended timeouts');
+      error = decoded.error;
+      if (i < filePaths.length - 1) {
+        log(`\n${error?.message} Trying ${filePaths[i + 1] === STDIN_PATH ? 'stdin' : filePaths[i + 1]} with the ${countPartialFrames(partials)} frames received so far.`);
       }
+    }
 
-      // Feed samples in chunks
-      let offset = 0;
-      let postFeedPolls = 0;
-      const MAX_POST_FEED_POLLS = 30; // 3 seconds max after all samples fed
-
-      const processChunk = () => {
-        if (offset >= samples.length) {
-          // All samples processed - poll for completion with a hard limit
-          postFeedPolls++;
-          const progress = decoder.progress.value;
-
-          if (progress.state === 'error') {
-            reject(new Error(progress.errorMessage || 'Decode failed'));
-            return;
-          }
-          if (progress.state === 'complete') {
-            return; // resolve was already called by decoder callback
-          }
-          if (postFeedPolls >= MAX_POST_FEED_POLLS) {
-            const state = progress.state;
-            let msg: string;
-            if (state === 'receiving_data') {
-              msg = `Decode failed: header OK but data frame incomplete (${progress.framesReceived}/${progress.totalFrames} frames). ` +
-                'Recording may be too short or signal too distorted.';
-            } else if (state === 'receiving_header') {
-              msg = progress.errorMessage
-                ? `Decode failed: ${progress.errorMessage}`
-                : 'Decode failed: could not decode header. Signal may be too distorted. Try: nedagram analyze <file>';
-            } else {
-              msg = 'Decode failed: could not recover signal from audio. Try: nedagram analyze <file>';
-            }
-            reject(new Error(msg));
-            return;
-          }
-
-          setTimeout(processChunk, 100);
-          return;
-        }
-
-        const end = Math.min(offset + chunkSize, samples.length);
-        const chunk = samples.slice(offset, end);
-        decoder.processSamples(chunk);
-
-        // Log progress
-        const progress = decoder.progress.value;
-        const stateStr = `${progress.state} ${progress.framesReceived}/${progress.totalFrames}`;
-        if (stateStr !== lastState && !options.quiet && !options.json) {
-          if (progress.state === 'detecting_preamble') {
-            process.stderr.write('\rDetecting preamble...');
-          } else if (progress.state === 'receiving_header') {
-            process.stderr.write('\rReceiving header...   ');
-          } else if (progress.state === 'receiving_data') {
-            process.stderr.write(`\rReceiving: ${progress.framesReceived}/${progress.totalFrames} frames`);
-          }
-          lastState = stateStr;
-        }
-
-        offset = end;
-
-        // Check if complete or error
-        if (progress.state === 'complete' || progress.state === 'error') {
-          return;
-        }
+    if (options.partial) {
+      if (partials.length > 0) {
+        writeFileSync(options.partial, serializePartialReceptions(partials));
+      } else if (existsSync(options.partial)) {
+        unlinkSync(options.partial);
+      }
+    }
 
-        // Process next chunk
-        setImmediate(processChunk);
-      };
+    if (!result) {
+      // Recording ended with frames missing: reply with a NACK
+      if (options.arq && nack) {
+        writeWavFile(options.arq, nack.audio, nack.sampleRate);
+        throw new Error(`Decode incomplete: ${nack.message.missingFrames.length} frames missing. ` +
+          `NACK written to ${options.arq} - play it to the sender.`);
+      }
+      if (options.partial && partials.length > 0) {
+        throw new Error(`${error?.message ?? 'Decode failed'}\n` +
+          `Saved ${countPartialFrames(partials)} received frames to ${options.partial}. ` +
+          `Decode another recording with --partial ${options.partial} to finish.`);
+      }
+      throw error ?? new Error('Decode failed');
+    }
 
-      processChunk();
-    });
+    // Handle files encrypted with a pre-shared key we do not hold
+    if (result.needsPassword && result.keyId) {
+      if (options.json) {
+        console.log(JSON.stringify({
+          success: false,
+          encrypted: true,
+          keyId: result.keyId,
+          error: `Encrypted with pre-shared key ${result.keyId}. Use --key-file with that key to decrypt.`,
+          bytes: result.stats.originalSize,
+        }, null, 2));
+        process.exit(1);
+      }
+      console.error(`\nThis file is encrypted with pre-shared key ${result.keyId}.`);
+      console.error('Use --key-file with that key (or a file of keys that includes it) to decrypt:');
+      console.error(`  nedagram decode --key-file <key file> ${filePaths.map(f => `"${f}"`).join(' ')}`);
+      process.exit(1);
+    }
 
     // Handle encrypted files that need a password
     if (result.needsPassword) {
@@ -167,23 +237,68 @@ export async function decodeCommand(
       }
       console.error('\nThis file is encrypted.');
       console.error('Use -p <password> to decrypt:');
-      console.error(`  nedagram decode -p <password> "${filePath}"`);
+      console.error(`  nedagram decode -p <password> ${filePaths.map(f => `"${f}"`).join(' ')}`);
       process.exit(1);
     }
 
+    // Handle files encrypted to a public key that need the private key
+    if (result.needsKey) {
+      if (options.json) {
+        console.log(JSON.stringify({
+          success: false,
+          encrypted: true,
+          error: 'File is encrypted to a public key. Use -k <private key> to decrypt.',
+          bytes: result.stats.originalSize,
+        }, null, 2));
+        process.exit(1);
+      }
+      console.error('\nThis file is encrypted to a public key.');
+      console.error('Use -k with the recipient\'s private key (or key file) to decrypt:');
+      console.error(`  nedagram decode -k <private key> ${filePaths.map(f => `"${f}"`).join(' ')}`);
+      process.exit(1);
+    }
+
+    // ARQ: tell the sender everything arrived
+    if (options.arq) {
+      const ack: ArqMessage = { type: 'ack', sessionId: result.sessionId, segmentIndex: 1, missingFrames: [] };
+      writeWavFile(options.arq, encodeArqMessage(ack, result.sampleRate).audio, result.sampleRate);
+    }
+
+    // Into a directory, the message is saved under the sender's file name;
+    // a bundle's files are each saved there under their own
+    const outputPath = options.output && !result.files ? getOutputPath(options.output, result.metadata, result.checksum) : undefined;
+    const savedFiles = options.output && result.files ? saveBundle(options.output, result.files) : undefined;
+    const binary = !!result.files || options.binary || !isText(result.data);
+
     // JSON output mode
     if (options.json) {
       const jsonResult: DecodeResult = {
         success: true,
-        message: result.text,
+        message: result.files ? undefined : binary ? Buffer.from(result.data).toString('base64') : result.text,
+        binary,
         bytes: result.stats.originalSize,
         sha256: result.checksum,
         encrypted: result.encrypted,
         compressed: result.stats.compressed,
       };
-      if (options.output) {
+      if (result.signature) {
+        jsonResult.signature = result.signature;
+      }
+      if (result.metadata) {
+        jsonResult.metadata = result.metadata;
+      }
+      if (result.files) {
+        jsonResult.files = result.files.map((file, i) => describeBundleFile(file, savedFiles?.[i]));
+      }
+      if (options.arq) {
+        jsonResult.reply = options.arq;
+      }
+      if (savedFiles) {
         jsonResult.output = options.output;
-        writeFileSync(options.output, result.text);
+      }
+      if (outputPath) {
+        jsonResult.output = outputPath;
+        writeFileSync(outputPath, result.data);
       }
       console.log(JSON.stringify(jsonResult, null, 2));
       return;
@@ -193,14 +308,30 @@ export async function decodeCommand(
     log('');
     log('────────────────────────────────────────');
 
-    // Output the decoded text
-    if (options.output) {
-      writeFileSync(options.output, result.text);
+    // Output the decoded message; binary data is written byte for byte and
+    // never to a terminal
+    if (result.files) {
+      result.files.forEach((file, i) => {
+        console.error(`${file.name} (${file.data.length} bytes)${savedFiles ? ` -> ${savedFiles[i]}` : ''}`);
+      });
+      if (!savedFiles) {
+        console.error('(files not saved - save them with -o <dir>)');
+      }
+    } else if (outputPath) {
+      writeFileSync(outputPath, result.data);
       // Show message content in the summary area
-      console.error(result.text);
-      if (!result.text.endsWith('\n')) {
-        console.error('');
+      if (binary) {
+        console.error('(binary data)');
+      } else {
+        console.error(result.text);
+        if (!result.text.endsWith('\n')) {
+          console.error('');
+        }
       }
+    } else if (binary && process.stdout.isTTY) {
+      console.error('(binary data - not printed to the terminal; save it with -o <file> or pipe the output)');
+    } else if (binary) {
+      process.stdout.write(result.data);
     } else {
       // Output to stdout
       process.stdout.write(result.text);
@@ -212,11 +343,20 @@ export async function decodeCommand(
 
     // Final summary to stderr
     console.error('────────────────────────────────────────');
-    console.error(`Message: ${result.stats.originalSize} bytes`);
-    if (options.output) {
-      console.error(`Output:  ${options.output}`);
+    console.error(`Message: ${result.stats.originalSize} bytes${result.files ? ` (${result.files.length} files)` : binary ? ' (binary)' : ''}`);
+    if (result.metadata) {
+      formatMetadata(result.metadata).forEach(line => console.error(line));
+    }
+    if (outputPath ?? savedFiles) {
+      console.error(`Output:  ${outputPath ?? options.output}`);
+    }
+    if (options.arq) {
+      console.error(`ACK:     ${options.arq}`);
     }
     console.error(`SHA-256: ${result.checksum}`);
+    if (result.signature) {
+      console.error(`Signer:  ${formatSignature(result.signature)}`);
+    }
 
   } catch (error) {
     if (options.json) {
@@ -236,3 +376,291 @@ export async function decodeCommand(
     }
   }
 }
+
+/**
+ * Describe a file of a bundle for JSON output
+ */
+export function describeBundleFile(file: BundleFile, output?: string): BundleFileResult {
+  return {
+    name: file.name,
+    bytes: file.data.length,
+    data: Buffer.from(file.data).toString('base64'),
+    ...(output && { output }),
+  };
+}
+
+/**
+ * Describe a message's signature for the terminal: the signer's public key
+ * and whether the signature checks out
+ */
+export function formatSignature(signature: SignatureInfo): string {
+  return `${signature.signer} (${signature.valid ? 'valid signature' : 'INVALID signature'})`;
+}
+
+/**
+ * Decode every transmission in the recordings, reporting where each one
+ * begins and ends, and carrying on past the ones that fail
+ */
+async function decodeAll(
+  filePaths: string[],
+  options: DecodeOptions,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  const messages: ScannedMessage[] = [];
+
+  for (const filePath of filePaths) {
+    const stream = await openRecording(filePath, options, log);
+    log('Scanning for transmissions...');
+
+    const onTransmission = ({ start, end, result, error }: Transmission) => {
+      const binary = result && (result.files !== undefined || options.binary || !isText(result.data));
+      const message: ScannedMessage = result && !result.needsPassword && !result.needsKey
+        ? {
+          file: filePath,
+          start,
+          end,
+          success: true,
+          message: result.files ? undefined : binary ? Buffer.from(result.data).toString('base64') : result.text,
+          binary,
+          bytes: result.stats.originalSize,
+          sha256: result.checksum,
+          encrypted: result.encrypted,
+          compressed: result.stats.compressed,
+          signature: result.signature,
+          metadata: result.metadata,
+          files: result.files?.map(file => describeBundleFile(file)),
+        }
+        : {
+          file: filePath,
+          start,
+          end,
+          success: false,
+          encrypted: result ? true : undefined,
+          error: !result ? error!.message
+            : result.needsKey ? 'Encrypted message: private key required (-k)'
+            : result.keyId ? `Encrypted message: pre-shared key ${result.keyId} required (--key-file)`
+            : 'Encrypted message: password required (-p)',
+        };
+      messages.push(message);
+      if (options.json) return;
+
+      const where = `${filePaths.length > 1 ? `${filePath} ` : ''}[${formatTimestamp(start)} - ${formatTimestamp(end)}]`;
+      if (!message.success) {
+        console.error(`\n${where} Failed: ${message.error}`);
+        return;
+      }
+      console.error(`\n${where} Message: ${message.bytes} bytes, SHA-256: ${message.sha256}`);
+      if (message.signature) {
+        console.error(`Signer: ${formatSignature(message.signature)}`);
+      }
+      if (message.metadata) {
+        formatMetadata(message.metadata).forEach(line => console.error(line));
+      }
+      if (message.files) {
+        message.files.forEach(file => console.error(`  ${file.name} (${file.bytes} bytes)`));
+        console.error(`(${message.files.length} files - use "nedagram listen <file> -d <dir>" to save them)`);
+        return;
+      }
+      if (binary) {
+        console.error('(binary data - use "nedagram listen <file> -d <dir>" to save it)');
+        return;
+      }
+      process.stdout.write(message.message!);
+      if (!message.message!.endsWith('\n')) {
+        process.stdout.write('\n');
+      }
+    };
+
+    await scanTransmissions(stream, {
+      password: options.password,
+      privateKey: options.key,
+      preSharedKeys: options.keyFile,
+      salvage: options.salvage,
+    }, onTransmission, log);
+  }
+
+  const decoded = messages.filter(m => m.success).length;
+  const failed = messages.length - decoded;
+
+  if (options.json) {
+    console.log(JSON.stringify({ success: decoded > 0, decoded, failed, messages }, null, 2));
+    if (decoded === 0) process.exit(1);
+    return;
+  }
+
+  console.error('');
+  console.error(`Transmissions: ${messages.length} found, ${decoded} decoded, ${failed} failed`);
+  if (decoded === 0) {
+    throw new Error(messages.length === 0
+      ? 'No transmissions found. Try: nedagram analyze <file>'
+      : 'No message could be decoded.');
+  }
+}
+
+/**
+ * Check the raw PCM options, and that stdin has audio if it is read
+ */
+export function validateRecordings(filePaths: string[], options: RecordingOptions, command: string): void {
+  if (options.raw) {
+    const rate = Number(options.rate);
+    if (!Number.isInteger(rate) || rate < 8000) {
+      throw new Error('Invalid sample rate. Use --rate with a rate in Hz (e.g. 48000).');
+    }
+    if (!isRawFormat(options.format.toLowerCase())) {
+      throw new Error('Invalid raw format. Use "s16le" or "f32le".');
+    }
+  }
+  if (filePaths.includes(STDIN_PATH) && process.stdin.isTTY) {
+    throw new Error(`No audio piped to stdin. Pipe a WAV file, a compressed recording or raw PCM (with --raw) into "nedagram ${command} -".`);
+  }
+}
+
+/**
+ * Open a recording for decoding: a WAV file, compressed audio (through a
+ * decoder), raw PCM with --raw, or stdin for "-". Either way the audio is
+ * read as it arrives, so long recordings are never held in memory whole.
+ */
+export async function openRecording(
+  filePath: string,
+  options: RecordingOptions,
+  log: (...args: unknown[]) => void
+): Promise<AudioStream> {
+  const raw = options.raw ? { format: options.format.toLowerCase() as RawFormat, sampleRate: Number(options.rate) } : undefined;
+
+  log(filePath === STDIN_PATH ? 'Reading from stdin...' : `Reading ${filePath}...`);
+  const stream = await readAudioStream(filePath === STDIN_PATH ? process.stdin : createReadStream(filePath), raw);
+  log(stream.duration !== undefined
+    ? `Sample rate: ${stream.sampleRate} Hz, Duration: ${stream.duration.toFixed(1)}s`
+    : `Sample rate: ${stream.sampleRate} Hz`);
+  return stream;
+}
+
+/**
+ * Decode one recording, starting from the frames of earlier ones
+ */
+async function decodeFile(
+  filePath: string,
+  options: DecodeOptions,
+  partials: PartialReception[],
+  log: (...args: unknown[]) => void
+): Promise<FileDecode> {
+  let nack: FileDecode['nack'];
+  let active: Decoder | undefined;
+
+  try {
+    const { sampleRate, chunks } = await openRecording(filePath, options, log);
+
+    // Create decoder
+    const decoder = new Decoder(sampleRate);
+    active = decoder;
+    let lastState = '';
+
+    const outcome = await feedDecoder(decoder, sliceAudio(chunks, Math.floor(sampleRate * 0.1)), sampleRate, {
+      // Set password, keys and saved frames after start() since start() calls reset() which clears them
+      configure: () => {
+        if (options.password) {
+          decoder.setPassword(options.password);
+        }
+        if (options.key) {
+          decoder.setPrivateKey(options.key);
+        }
+        if (options.keyFile) {
+          decoder.setPreSharedKeys(options.keyFile);
+        }
+        decoder.resumeReceptions(partials);
+
+        // Enable salvage mode for best-effort recovery
+        if (options.salvage) {
+          decoder.setSalvageMode(true);
+          log('Salvage mode enabled: relaxed thresholds, extended timeouts');
+        }
+
+        // ARQ: the decoder asks for missing frames once a transmission ends
+        // short, then keeps listening for the retransmission. The NACK is
+        // encoded right away, in the audio mode of the transmission it answers.
+        if (options.arq) {
+          decoder.setArqHandler((message) => {
+            nack = { message, audio: encodeArqMessage(message, sampleRate).audio, sampleRate };
+            log(`\nRequesting ${message.missingFrames.length} missing frames`);
+          });
+        }
+      },
+      onProgress: (progress) => {
+        const totalSegments = progress.totalSegments ?? 1;
+        const segmentStr = totalSegments > 1 ? ` (segment ${(progress.segmentsReceived ?? 0) + 1}/${totalSegments})` : '';
+        const stateStr = `${progress.state} ${progress.framesReceived}/${progress.totalFrames}${segmentStr}`;
+        if (stateStr !== lastState && !options.quiet && !options.json) {
+          if (progress.state === 'detecting_preamble') {
+            process.stderr.write(totalSegments > 1
+              ? `\rWaiting for next segment (${progress.segmentsReceived ?? 0}/${totalSegments} received)...`
+              : '\rDetecting preamble...');
+          } else if (progress.state === 'receiving_header') {
+            process.stderr.write('\rReceiving header...   ');
+          } else if (progress.state === 'receiving_data') {
+            process.stderr.write(`\rReceiving: ${progress.framesReceived}/${progress.totalFrames} frames${segmentStr}`);
+          }
+          lastState = stateStr;
+        }
+      },
+    });
+
+    if (outcome.error) {
+      throw outcome.error;
+    }
+    if (!outcome.result) {
+      // Recording ended with frames missing: prepare a NACK
+      if (options.arq) {
+        decoder.requestRetransmission();
+      }
+      throw new Error(describeFailure(outcome.progress));
+    }
+
+    const decoded = outcome.result;
+    const result: DecodedMessage = {
+      data: decoded.data,
+      text: decoded.text,
+      checksum: decoded.checksum,
+      encrypted: decoded.encrypted,
+      sessionId: decoded.sessionId,
+      sampleRate,
+      needsPassword: decoded.needsPassword,
+      needsKey: decoded.needsKey,
+      keyId: decoded.keyId,
+      signature: decoded.signature,
+      metadata: decoded.metadata,
+      files: decoded.files,
+      stats: decoded.stats as { originalSize: number; compressed: boolean },
+    };
+
+    return { result, nack, partials: decoder.getPartialReceptions() };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error : new Error(String(error)),
+      nack,
+      partials: active?.getPartialReceptions() ?? partials,
+    };
+  }
+}
+
+/**
+ * Why a recording ended without a decoded message
+ */
+function describeFailure(progress: DecodeProgress): string {
+  const state = progress.state;
+  const segmentsReceived = progress.segmentsReceived ?? 0;
+  const totalSegments = progress.totalSegments ?? 1;
+  if (totalSegments > 1 && segmentsReceived < totalSegments) {
+    return `Decode failed: chained transmission incomplete (${segmentsReceived}/${totalSegments} segments). ` +
+      'Recording may be missing later segments.';
+  }
+  if (state === 'receiving_data') {
+    return `Decode failed: header OK but data frame incomplete (${progress.framesReceived}/${progress.totalFrames} frames). ` +
+      'Recording may be too short or signal too distorted.';
+  }
+  if (state === 'receiving_header') {
+    return progress.errorMessage
+      ? `Decode failed: ${progress.errorMessage}`
+      : 'Decode failed: could not decode header. Signal may be too distorted. Try: nedagram analyze <file>';
+  }
+  return 'Decode failed: could not recover signal from audio. Try: nedagram analyze <file>';
+}
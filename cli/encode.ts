@@ -3,18 +3,58 @@
  */
 
 import { readFileSync, writeFileSync } from 'fs';
-import { setAudioMode, type AudioMode } from '../src/utils/constants.js';
-import { encodeString } from '../src/encode/index.js';
-import { writeWavFile, createWavBuffer } from './wav-io.js';
+import { basename } from 'path';
+import { setAudioMode, isAudioMode, REPAIR } from '../src/utils/constants.js';
+import { encodeString, encodeBytes } from '../src/encode/index.js';
+import { COMPRESSION_ALGORITHM_NAMES } from '../src/encode/compress.js';
+import { isFECProfile } from '../src/encode/v3-fec.js';
+import { createWavBuffer } from './wav-io.js';
+import { encodeAudio, OUTPUT_FORMATS, type OutputFormat } from './audio-codecs.js';
+import { writeArqSession } from './arq-session.js';
+import { DEFAULT_KDF, getKeyId, getSigningPublicKey, type KdfParams } from '../src/lib/crypto.js';
+import { readKeyArgument } from './keygen.js';
+import { formatMetadata, readFileMetadata } from './metadata.js';
+import { type MessageMetadata } from '../src/encode/metadata.js';
+import { createBundle, type BundleFile } from '../src/encode/bundle.js';
+import { bytesToString, isText, stringToBytes } from '../src/utils/helpers.js';
 
 interface EncodeOptions {
-  file?: string;
+  /** Input files; several are sent together as a file bundle */
+  file?: string[];
+  /** Send the input byte for byte (detected automatically for non-text input) */
+  binary?: boolean;
   output?: string;
+  /** Output audio format: "wav", "ogg" or "amr" */
+  format: string;
+  /** Bitrate of compressed output (kbit/s) */
+  bitrate?: string;
   mode: string;
   encrypt?: boolean;
   password?: string;
+  /** Password key derivation, e.g. "argon2id:m=64,t=3" or "pbkdf2:i=600000" */
+  kdf?: string;
+  /** Recipient public key (or key file) to encrypt to */
+  to?: string;
+  /** Pre-shared key (or key file) to encrypt with */
+  keyFile?: string;
+  /** Signing key (or key file) to sign the message with */
+  sign?: string;
+  /** Send the input file's name, type and modification time (with -f) */
+  meta?: boolean;
+  /** File name, MIME type and label to send (override --meta) */
+  name?: string;
+  mime?: string;
+  label?: string;
+  /** Send proxy links and WireGuard configs as a compact config when shorter */
+  compact?: boolean;
+  fec: string;
+  segment?: string;
+  repair?: string;
   quiet?: boolean;
   json?: boolean;
+  /** Save an ARQ session file for answering NACKs (set by "send --arq") */
+  arq?: boolean;
+  session?: string;
 }
 
 interface EncodeResult {
@@ -22,11 +62,70 @@ interface EncodeResult {
   bytes: number;
   sha256: string;
   output?: string;
+  /** Output audio format */
+  format: string;
   duration: number;
   frames: number;
+  segments: number;
+  repair: number;
   mode: string;
+  fec: string;
   encrypted: boolean;
   compressed: boolean;
+  /** Compression algorithm: "deflate", "deflate-raw", "dictionary", "digits", "uppercase" or "persian" (absent when not compressed) */
+  compression?: string;
+  /** Sent as a compact config (with --compact) */
+  compact?: boolean;
+  /** Input was sent byte for byte rather than as text */
+  binary: boolean;
+  /** ID of the pre-shared key, when encrypted with one */
+  keyId?: string;
+  /** Public key of the signer, when signed */
+  signer?: string;
+  /** File name, type, time and label sent with the message */
+  metadata?: MessageMetadata;
+  /** Files sent together as a bundle */
+  files?: { name: string; bytes: number }[];
+  session?: string;
+}
+
+/**
+ * Parse a --kdf value: "argon2id" or "pbkdf2", optionally followed by
+ * ":" and comma-separated costs (argon2id: m=<MiB>,t=<iterations>,p=<lanes>;
+ * pbkdf2: i=<iterations>); omitted costs keep their defaults
+ */
+function parseKdf(spec: string): KdfParams {
+  const [name, costs = ''] = spec.toLowerCase().split(':');
+  const values = new Map<string, number>();
+  for (const cost of costs.split(',').filter(Boolean)) {
+    const [key, value] = cost.split('=');
+    if (value === undefined || !/^\d+$/.test(value)) {
+      throw new Error(`Invalid KDF cost "${cost}" (expected name=number)`);
+    }
+    values.set(key, Number(value));
+  }
+
+  const take = (allowed: string[]) => {
+    const unknown = [...values.keys()].find(key => !allowed.includes(key));
+    if (unknown) {
+      throw new Error(`Unknown ${name} cost "${unknown}" (use ${allowed.join(', ')})`);
+    }
+  };
+
+  if (name === 'argon2id') {
+    take(['m', 't', 'p']);
+    return {
+      kdf: 'argon2id',
+      memoryKiB: values.has('m') ? values.get('m')! * 1024 : DEFAULT_KDF.memoryKiB,
+      iterations: values.get('t') ?? DEFAULT_KDF.iterations,
+      parallelism: values.get('p') ?? DEFAULT_KDF.parallelism,
+    };
+  }
+  if (name === 'pbkdf2') {
+    take(['i']);
+    return { kdf: 'pbkdf2', iterations: values.get('i') ?? 600_000 };
+  }
+  throw new Error(`Unknown KDF "${name}" (use argon2id or pbkdf2)`);
 }
 
 export async function encodeCommand(
@@ -36,97 +135,286 @@ export async function encodeCommand(
   const log = options.quiet || options.json ? () => {} : console.error.bind(console);
 
   try {
-    // Get input text
-    let inputText: string;
+    // Get input bytes
+    const files = options.file ?? [];
+    let input: Uint8Array;
+    let bundle: BundleFile[] | undefined;
 
-    if (options.file) {
+    if (files.length > 1) {
+      // Several files travel together as a bundle, each byte for byte
+      log(`Bundling ${files.length} files...`);
+      bundle = files.map(path => ({ name: basename(path), data: readFileSync(path) }));
+      input = createBundle(bundle);
+    } else if (files.length === 1) {
       // Read from file
-      log(`Reading from ${options.file}...`);
-      inputText = readFileSync(options.file, 'utf-8');
+      log(`Reading from ${files[0]}...`);
+      input = readFileSync(files[0]);
     } else if (text) {
       // Use provided text argument
-      inputText = text;
+      input = stringToBytes(text);
     } else if (!process.stdin.isTTY) {
       // Read from stdin (piped input)
       log('Reading from stdin...');
-      inputText = readFileSync(0, 'utf-8');
+      input = readFileSync(0);
     } else {
       console.error('Error: No input provided. Use text argument, -f flag, or pipe input.');
       process.exit(1);
     }
 
-    if (!inputText.trim()) {
-      console.error('Error: Input text is empty.');
+    // Binary input is sent byte for byte; text is tidied up first (line
+    // endings, surrounding whitespace), which would corrupt a binary file
+    const binary = !bundle && (options.binary || !isText(input));
+    if (binary && !options.binary) {
+      log('Input is not text: sending it byte for byte');
+    }
+
+    if (!bundle && (binary ? input.length === 0 : !bytesToString(input).trim())) {
+      console.error(`Error: Input ${binary ? 'file' : 'text'} is empty.`);
       process.exit(1);
     }
 
     // Set audio mode
-    const mode = options.mode.toLowerCase() as AudioMode;
-    if (mode !== 'phone' && mode !== 'wideband') {
-      console.error('Error: Invalid mode. Use "phone" or "wideband".');
+    const mode = options.mode.toLowerCase();
+    if (!isAudioMode(mode)) {
+      console.error('Error: Invalid mode. Use "phone", "wideband", "ultrasonic" or "multitone".');
       process.exit(1);
     }
     setAudioMode(mode);
     log(`Mode: ${mode}`);
 
+    // Validate output format: WAV, or a voice-message codec
+    const formatId = options.format.toLowerCase();
+    let outputFormat: OutputFormat | undefined;
+    let bitrate: number | undefined;
+    if (formatId !== 'wav') {
+      outputFormat = OUTPUT_FORMATS[formatId];
+      if (!outputFormat) {
+        console.error('Error: Invalid output format. Use "wav", "ogg" or "amr".');
+        process.exit(1);
+      }
+      if (mode === 'ultrasonic') {
+        console.error(`Error: ${outputFormat.name} removes ultrasonic tones. Use WAV for the ultrasonic mode.`);
+        process.exit(1);
+      }
+      if (outputFormat.sampleRate < 16000 && mode !== 'phone') {
+        console.error(`Error: ${outputFormat.name} only carries the phone band. Use it with -m phone.`);
+        process.exit(1);
+      }
+      bitrate = options.bitrate !== undefined ? Number(options.bitrate) : outputFormat.bitrate;
+      const { bitrates } = outputFormat;
+      if (bitrates && !bitrates.includes(bitrate)) {
+        console.error(`Error: Invalid bitrate. Use one of the ${outputFormat.name} modes ${bitrates.slice(0, -1).join(', ')} or ${bitrates[bitrates.length - 1]} kbit/s.`);
+        process.exit(1);
+      }
+      if (!Number.isFinite(bitrate) || bitrate < outputFormat.minBitrate || bitrate > outputFormat.maxBitrate) {
+        console.error(`Error: Invalid bitrate. Use ${outputFormat.minBitrate} to ${outputFormat.maxBitrate} kbit/s for ${outputFormat.name}.`);
+        process.exit(1);
+      }
+      log(`Format: ${outputFormat.name}, ${bitrate} kbit/s`);
+    } else if (options.bitrate !== undefined) {
+      console.error('Error: --bitrate applies to compressed output. Use it with --format ogg or amr.');
+      process.exit(1);
+    }
+
+    // Validate FEC profile
+    const fecProfile = options.fec.toLowerCase();
+    if (!isFECProfile(fecProfile)) {
+      console.error('Error: Invalid FEC profile. Use "light", "normal" or "heavy".');
+      process.exit(1);
+    }
+    log(`FEC: ${fecProfile}`);
+
+    // Validate segment size
+    let segmentBytes: number | undefined;
+    if (options.segment !== undefined) {
+      const segmentKb = Number(options.segment);
+      if (!Number.isFinite(segmentKb) || segmentKb < 1) {
+        console.error('Error: Invalid segment size. Use a number of KB (at least 1).');
+        process.exit(1);
+      }
+      segmentBytes = Math.floor(segmentKb * 1024);
+    }
+
+    // Validate repair overhead
+    let repairOverhead = 0;
+    if (options.repair !== undefined) {
+      repairOverhead = Number(options.repair);
+      if (!Number.isInteger(repairOverhead) || repairOverhead < 1 || repairOverhead > REPAIR.MAX_OVERHEAD_PERCENT) {
+        console.error(`Error: Invalid repair overhead. Use a whole percentage from 1 to ${REPAIR.MAX_OVERHEAD_PERCENT}.`);
+        process.exit(1);
+      }
+      log(`Repair: +${repairOverhead}%`);
+    }
+
     // Validate encryption options
     if (options.encrypt && !options.password) {
       console.error('Error: Password required for encryption. Use -p flag.');
       process.exit(1);
     }
+    if (options.encrypt && options.to) {
+      console.error('Error: Use either a password (-e -p) or a recipient public key (--to), not both.');
+      process.exit(1);
+    }
+    if (options.keyFile && (options.encrypt || options.to)) {
+      console.error('Error: Use either a pre-shared key (--key-file) or a password (-e -p) or recipient public key (--to), not both.');
+      process.exit(1);
+    }
+    if (options.kdf && !options.encrypt) {
+      console.error('Error: --kdf applies to password encryption. Use it with -e -p.');
+      process.exit(1);
+    }
+    const kdf = options.kdf ? parseKdf(options.kdf) : undefined;
+    if (kdf) {
+      log(`KDF: ${kdf.kdf === 'argon2id' ? `argon2id (${kdf.memoryKiB / 1024} MiB, ${kdf.iterations} iterations, ${kdf.parallelism} lanes)` : `pbkdf2 (${kdf.iterations} iterations)`}`);
+    }
+    const recipient = options.to ? readKeyArgument(options.to, 'public') : undefined;
+    if (recipient) {
+      log(`Recipient: ${recipient}`);
+    }
+    const preSharedKey = options.keyFile ? readKeyArgument(options.keyFile, 'pre-shared') : undefined;
+    const keyId = preSharedKey ? await getKeyId(preSharedKey) : undefined;
+    if (keyId) {
+      log(`Key ID: ${keyId}`);
+    }
+    const signingKey = options.sign ? readKeyArgument(options.sign, 'signing') : undefined;
+    const signer = signingKey ? await getSigningPublicKey(signingKey) : undefined;
+    if (signer) {
+      log(`Signer: ${signer}`);
+    }
+
+    // Metadata: from the input file with --meta, and/or given explicitly
+    if (options.meta && files.length === 0) {
+      console.error('Error: --meta sends the input file\'s name and type. Use it with -f.');
+      process.exit(1);
+    }
+    if (options.meta && bundle) {
+      console.error('Error: --meta sends a single file\'s name and type; the files of a bundle carry their names already.');
+      process.exit(1);
+    }
+    let metadata: MessageMetadata | undefined = options.meta ? readFileMetadata(files[0]) : undefined;
+    if (options.name || options.mime || options.label) {
+      metadata = {
+        ...metadata,
+        ...(options.name && { filename: options.name }),
+        ...(options.mime && { mimeType: options.mime }),
+        ...(options.label && { label: options.label }),
+      };
+    }
+    if (metadata) {
+      formatMetadata(metadata).forEach(line => log(line));
+    }
 
     // Encode
-    log(`Encoding ${inputText.length} bytes...`);
-    const result = await encodeString(inputText, {
+    bundle?.forEach(file => log(`  ${file.name} (${file.data.length} bytes)`));
+    log(`Encoding ${input.length} bytes${binary ? ' (binary)' : bundle ? ` (${bundle.length} files)` : ''}...`);
+    const encodeOptions = {
       password: options.encrypt ? options.password : undefined,
-    });
+      kdf,
+      recipient,
+      preSharedKey,
+      signingKey,
+      fecProfile,
+      segmentBytes,
+      repairOverhead,
+      metadata,
+      bundle: !!bundle,
+      compactConfig: options.compact,
+    };
+    const result = binary || bundle
+      ? await encodeBytes(input, encodeOptions)
+      : await encodeString(bytesToString(input), encodeOptions);
 
     log(`Duration: ${result.durationSeconds.toFixed(1)}s`);
     log(`Frames: ${result.stats.frameCount}`);
-    log(`Compressed: ${result.stats.compressed ? 'yes' : 'no'}`);
+    if (result.segments) {
+      log(`Segments: ${result.segments.length} (${result.segments.map(seg => `${seg.durationSeconds.toFixed(1)}s`).join(', ')})`);
+    }
+    log(`Compressed: ${result.stats.compressed ? `yes (${COMPRESSION_ALGORITHM_NAMES[result.stats.compressionAlgo]})` : 'no'}`);
+    if (options.compact) {
+      log(`Compact config: ${result.stats.compactConfig ? 'yes' : 'no (not shorter)'}`);
+    }
     log(`Encrypted: ${result.stats.encrypted ? 'yes' : 'no'}`);
+    log(`Signed: ${result.stats.signed ? 'yes' : 'no'}`);
 
     // Output
+    const audio = outputFormat
+      ? encodeAudio(result.audio, result.sampleRate, outputFormat, bitrate)
+      : createWavBuffer(result.audio, result.sampleRate);
+    const defaultPath = `nedagram.${outputFormat?.extension ?? 'wav'}`;
     let outputPath: string | null = null;
     if (options.output) {
       // Write to file
-      writeWavFile(options.output, result.audio, result.sampleRate);
+      writeFileSync(options.output, audio);
       outputPath = options.output;
     } else if (process.stdout.isTTY || options.json) {
       // Interactive terminal or JSON mode - write to default file
-      outputPath = 'nedagram.wav';
-      writeWavFile(outputPath, result.audio, result.sampleRate);
+      outputPath = defaultPath;
+      writeFileSync(outputPath, audio);
     } else {
-      // Pipe output - write WAV to stdout
-      const wavBuffer = createWavBuffer(result.audio, result.sampleRate);
-      process.stdout.write(wavBuffer);
+      // Pipe output - write the audio to stdout
+      process.stdout.write(audio);
+    }
+    if (outputFormat) {
+      log(`Encoded size: ${audio.length} bytes`);
+    }
+
+    // ARQ session file, next to the audio unless a path is given
+    let sessionPath: string | null = null;
+    if (options.arq) {
+      sessionPath = options.session ?? `${outputPath ?? defaultPath}.arq.json`;
+      writeArqSession(sessionPath, { mode, context: result.retransmit });
     }
 
     // JSON output mode
     if (options.json) {
       const jsonResult: EncodeResult = {
         success: true,
-        bytes: inputText.length,
+        bytes: result.stats.originalSize,
         sha256: result.checksum,
+        format: outputFormat?.id ?? 'wav',
         duration: result.durationSeconds,
         frames: result.stats.frameCount,
+        segments: result.stats.segmentCount,
+        repair: repairOverhead,
         mode: mode,
+        fec: result.stats.fecProfile,
         encrypted: result.stats.encrypted,
         compressed: result.stats.compressed,
+        compression: result.stats.compressed ? COMPRESSION_ALGORITHM_NAMES[result.stats.compressionAlgo] : undefined,
+        compact: options.compact ? result.stats.compactConfig : undefined,
+        binary,
       };
+      if (keyId) {
+        jsonResult.keyId = keyId;
+      }
+      if (signer) {
+        jsonResult.signer = signer;
+      }
+      if (metadata) {
+        jsonResult.metadata = metadata;
+      }
+      if (bundle) {
+        jsonResult.files = bundle.map(file => ({ name: file.name, bytes: file.data.length }));
+      }
       if (outputPath) {
         jsonResult.output = outputPath;
       }
+      if (sessionPath) {
+        jsonResult.session = sessionPath;
+      }
       console.log(JSON.stringify(jsonResult, null, 2));
       return;
     }
 
     // Final summary to stderr
     console.error('');
-    console.error(`Message: ${inputText.length} bytes`);
+    console.error(`Message: ${result.stats.originalSize} bytes${binary ? ' (binary)' : bundle ? ` (${bundle.length} files)` : ''}`);
     if (outputPath) {
       console.error(`Output:  ${outputPath}`);
     }
+    if (sessionPath) {
+      console.error(`Session: ${sessionPath}`);
+    }
     console.error(`SHA-256: ${result.checksum}`);
 
   } catch (error) {
@@ -5,8 +5,13 @@
 import { Command } from 'commander';
 import { encodeCommand } from './encode.js';
 import { decodeCommand } from './decode.js';
+import { sendCommand } from './send.js';
 import { analyzeCommand } from './analyze.js';
 import { serveCommand } from './serve.js';
+import { probeGenerateCommand, probeEvaluateCommand } from './probe.js';
+import { listenCommand } from './listen.js';
+import { keygenCommand } from './keygen.js';
+import { simulateCommand } from './simulate.js';
 
 // Version injected at build time
 declare const __VERSION__: string;
@@ -14,6 +19,11 @@ const version = typeof __VERSION__ !== 'undefined' ? __VERSION__ : '0.0.0';
 
 const program = new Command();
 
+// Repeatable option: each use adds a value
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('nedagram')
   .description('Encode and decode text as audio signals.\n\nNedagram converts text into audio that can be transmitted over phone calls, voice messages, or any audio channel, then decoded back to text.')
@@ -25,7 +35,14 @@ Examples:
   $ echo "text" | nedagram encode -o piped.wav
   $ nedagram decode message.wav
   $ nedagram decode encrypted.wav -p secret
+  $ nedagram keygen -o field-team
+  $ nedagram encode "Hello" --to field-team.pub -o private.wav
+  $ nedagram decode private.wav -k field-team.key
+  $ arecord -f S16_LE -r 48000 -t raw | nedagram listen - --raw -d inbox
+  $ nedagram send -f config.txt --arq -o config.wav
   $ nedagram analyze recording.wav
+  $ nedagram probe generate -o probe.wav
+  $ nedagram simulate -f config.txt -m phone,wideband --preset phone-call
   $ nedagram serve
 
 For more information, visit: https://github.com/shayanb/Nedagram`);
@@ -35,64 +52,354 @@ program
   .command('encode')
   .description('Encode text into a WAV audio file')
   .argument('[text]', 'Text to encode (or use -f for file input, or pipe from stdin)')
-  .option('-f, --file <path>', 'Read input text from a file')
-  .option('-o, --output <path>', 'Output WAV file path (default: nedagram.wav or stdout if piped)')
-  .option('-m, --mode <mode>', 'Audio mode: "phone" for calls/voice messages, "wideband" for direct playback', 'wideband')
+  .option('-f, --file <path>', 'Read input from a file (repeat to send several files as one bundle)', collect, [])
+  .option('--binary', 'Send the input byte for byte, as a file (automatic when the input is not text)')
+  .option('-o, --output <path>', 'Output audio file path (default: nedagram.wav, or .ogg/.amr with --format, or stdout if piped)')
+  .option('--format <format>', 'Output audio format: "wav", "ogg" (Opus voice message) or "amr" (AMR-NB, phone mode); ogg and amr need ffmpeg', 'wav')
+  .option('--bitrate <kbps>', 'Bitrate of ogg or amr output in kbit/s (default: 32 for ogg, 12.2 for amr; amr only has the modes 4.75, 5.15, 5.9, 6.7, 7.4, 7.95, 10.2 and 12.2)')
+  .option('-m, --mode <mode>', 'Audio mode: "phone" for calls/voice messages, "wideband" for direct playback, "ultrasonic" for near-inaudible playback, "multitone" for cables/quiet rooms', 'wideband')
   .option('-e, --encrypt', 'Encrypt the message with a password (requires -p)')
   .option('-p, --password <password>', 'Password for encryption (use with -e). Choose a strong password.')
+  .option('--kdf <kdf>', 'Password key derivation: "argon2id" (default) or "pbkdf2", with optional costs, e.g. "argon2id:m=64,t=4"')
+  .option('--to <pubkey>', 'Encrypt the message to a recipient\'s public key (the key or a .pub file from "keygen")')
+  .option('--key-file <file>', 'Encrypt the message with a pre-shared key (the key or a .psk file from "keygen --psk")')
+  .option('--sign <key>', 'Sign the message with your signing key (the key or a .key file from "keygen --sign")')
+  .option('--meta', 'Send the input file\'s name, type and modification time along (with -f)')
+  .option('--name <filename>', 'File name to send along, for the receiver to save the message as')
+  .option('--mime <type>', 'MIME type to send along, e.g. "application/json"')
+  .option('--label <text>', 'Free-form label to send along, e.g. "office wifi"')
+  .option('--compact', 'Send proxy links and WireGuard configs in a compact binary form when that is shorter')
+  .option('--fec <profile>', 'Error correction strength: "light", "normal" or "heavy"', 'normal')
+  .option('--segment <kb>', 'Split large messages into chained transmissions of at most <kb> KB each')
+  .option('--repair <percent>', 'Add repair frames (e.g. 20 for +20%) so lost frames are rebuilt without a retransmission')
   .option('-q, --quiet', 'Suppress progress output (only show result)')
   .option('--json', 'Output result as JSON (includes metadata, file path, sha256)')
   .addHelpText('after', `
 Encryption:
   When using -e/--encrypt, you must also provide -p/--password.
   The recipient will need the same password to decode the message.
-  Encryption uses ChaCha20-Poly1305 with PBKDF2 key derivation.
+  Encryption uses ChaCha20-Poly1305 with Argon2id key derivation
+  (32 MiB of memory, 3 iterations), which makes guessing short passwords
+  slow. --kdf raises the cost (argon2id:m=<MiB>,t=<iterations>,p=<lanes>,
+  memory a power of two up to 256) or picks PBKDF2 (pbkdf2:i=<iterations>).
+  The receiver reads the settings from the message; messages from older
+  versions, without them, still decode.
+
+  With --to, the message is encrypted to the recipient's public key
+  instead (X25519 key agreement), so no password is shared: only the
+  holder of the matching private key can decode it. Create a key pair
+  with "nedagram keygen".
+
+  With --key-file, the message is encrypted with a 256-bit pre-shared key
+  instead of a password, and names the key's ID so receivers holding
+  several keys know which one to use. Create one with
+  "nedagram keygen --psk -o <name>" and give the file to your team.
+
+Signatures:
+  With --sign, the message carries an Ed25519 signature and the signer's
+  public key, so the receiver can check who sent it and that it was not
+  altered. Create a signing key pair with "nedagram keygen --sign". A
+  signature can be combined with either kind of encryption; it is then
+  only visible to those who can decrypt the message.
+
+Binary Files:
+  Text is tidied up before sending (line endings, surrounding whitespace).
+  Input that is not text - images, archives, keys - is sent byte for byte
+  instead; --binary forces this for text files that must arrive unchanged.
+  The receiver gets the exact bytes back ("decode -o <file>").
+
+Metadata:
+  With --meta, the input file's name, type and modification time travel
+  with the message (--name, --mime and --label set or override them), so
+  the receiver can save it under its own name with "decode -o <dir>". The
+  metadata is encrypted and signed along with the message.
+
+Several Files:
+  Repeat -f to send several files as one message, e.g. a config with its
+  certificate. They are packed into a bundle with their names, sizes and
+  CRC32s; "decode -o <dir>" writes each one into the directory.
+
+Compact Configs:
+  With --compact, proxy links (vless://, vmess://, ss://, trojan://) and
+  WireGuard configs are sent in a compact binary form: addresses, UUIDs
+  and keys as bytes, common fields as one-byte codes. It is only used
+  when it comes out shorter, and the receiver gets the exact text back.
 
 Audio Modes:
   phone     - Optimized for phone calls and voice codecs (slower, more robust)
   wideband  - Higher quality for direct speaker-to-mic transmission (faster)
+  ultrasonic - Near-inaudible 17-20 kHz tones for devices close together
+               (slowest; needs a 44.1/48 kHz speaker and mic that reach 20 kHz)
+  multitone - 16 tones at once, ~8x wideband speed, for audio cables or
+               quiet rooms (needs a clean, full-band 44.1/48 kHz path)
+  The decoder detects the mode automatically.
+
+FEC Profiles:
+  light     - Less parity, shorter audio (clean, close-range transfers)
+  normal    - Default balance of speed and robustness
+  heavy     - Twice the parity, longer audio (noisy or heavily compressed links)
+  The decoder detects the profile automatically.
+
+Chained Transmissions:
+  With --segment, messages larger than the segment size are split into
+  several back-to-back transmissions (up to 1 MB in total). Each segment
+  has its own preamble, so they can also be played in separate sittings;
+  the decoder keeps collecting until every segment has arrived.
+
+Repair Frames:
+  With --repair, repair frames are sent after the data frames: --repair 20
+  adds 20% more frames, and the receiver rebuilds any lost frames as long
+  as it gets as many frames in total as there are data frames (per block
+  of up to 128). Meant for one-way broadcasts where nobody can send a NACK.
+
+Voice Messages:
+  With --format ogg, the audio is written as OGG/Opus (32 kbit/s unless
+  --bitrate says otherwise), ready to send as a messenger voice note; the
+  file goes through the same codec the recipient's app plays it with.
+  --format amr writes AMR-NB at 8 kHz for MMS and older phones, and needs
+  -m phone. Both are encoded with ffmpeg, which must be installed (set
+  NEDAGRAM_FFMPEG to use another ffmpeg binary); decode reads them back.
 
 Examples:
   $ nedagram encode "Hello World" -o hello.wav
   $ nedagram encode -f secret.txt -o secret.wav -e -p "my password"
-  $ cat data.json | nedagram encode -m phone -o data.wav`)
+  $ nedagram encode -f orders.txt --to field-team.pub -o orders.wav
+  $ nedagram encode -f orders.txt --key-file week-42.psk -o orders.wav
+  $ nedagram encode -f orders.txt --sign hq-signing.key -o orders.wav
+  $ nedagram encode -f wg0.conf --meta --label "office vpn" -o vpn.wav
+  $ nedagram encode -f photo.jpg --meta -m multitone -o photo.wav
+  $ nedagram encode -f client.ovpn -f ca.crt -o vpn.wav
+  $ nedagram encode -f wg0.conf --compact -o vpn.wav
+  $ cat data.json | nedagram encode -m phone -o data.wav
+  $ nedagram encode -f config.txt -m phone --fec heavy -o config.wav
+  $ nedagram encode "Hello" -m ultrasonic -o quiet.wav
+  $ nedagram encode -f notes.txt -m multitone -o cable.wav
+  $ nedagram encode -f archive.txt --segment 32 -o archive.wav
+  $ nedagram encode -f bulletin.txt --repair 25 -o bulletin.wav
+  $ nedagram encode -f wg0.conf -m phone --format ogg -o vpn.ogg
+  $ nedagram encode "Call me at 9" -m phone --format amr -o note.amr`)
   .action(encodeCommand);
 
 // Decode command
 program
   .command('decode')
   .description('Decode a WAV audio file back to text')
-  .argument('<file>', 'WAV file to decode')
-  .option('-o, --output <path>', 'Write decoded text to file instead of stdout')
+  .argument('<files...>', 'Recording to decode (WAV, OGG/Opus, or M4A, AMR, MP3 through ffmpeg), or "-" for stdin (several recordings of the same message are merged)')
+  .option('-a, --all', 'Decode every message in the recordings, not just the first')
+  .option('-o, --output <path>', 'Write decoded text to file instead of stdout (into a directory: named after the sender\'s file name)')
+  .option('--binary', 'Write the message byte for byte (automatic when the message is not text)')
   .option('-p, --password <password>', 'Password to decrypt an encrypted message')
+  .option('-k, --key <privkey>', 'Private key to decrypt a message encrypted to your public key (the key or a .key file)')
+  .option('--key-file <file>', 'Pre-shared key, or file of keys one per line, to decrypt with; the message names the key it needs (repeatable)', collect, [])
   .option('-s, --salvage', 'Best-effort recovery with relaxed thresholds (for weak/corrupted signals)')
+  .option('--arq <path>', 'Write an ARQ reply WAV for the sender: a NACK listing missing frames, or an ACK')
+  .option('--partial <path>', 'Resume from frames saved in <path>, and save received frames there if the decode is incomplete')
+  .option('--raw', 'Input is headerless mono PCM (see --rate and --format)')
+  .option('--rate <hz>', 'Sample rate of raw input', '48000')
+  .option('--format <format>', 'Sample format of raw input: "s16le" or "f32le"', 's16le')
   .option('-q, --quiet', 'Suppress progress output (only show result)')
   .option('--json', 'Output result as JSON (includes message, metadata, sha256)')
   .addHelpText('after', `
 Decryption:
   If the message was encrypted, you must provide the same password
-  that was used during encoding with -p/--password.
+  that was used during encoding with -p/--password. A message encrypted
+  to your public key (encode --to) is decrypted with your private key,
+  given with -k/--key. A message encrypted with a pre-shared key
+  (encode --key-file) names the key's ID, and the matching key is picked
+  from the --key-file keys: keep the current and previous keys of a
+  rotation in one file, one per line.
 
 Salvage Mode:
   Use --salvage for best-effort partial recovery from weak or corrupted
   signals. Relaxes sync thresholds and extends timeouts. Run "analyze"
   first to check signal quality.
 
+ARQ Replies:
+  With --arq, a decode that ends with frames missing writes a NACK
+  listing them instead of just failing; play it to the sender, whose
+  "send --reply" turns it into a retransmission of only those frames.
+  Decode the original recording followed by the retransmission to
+  complete the message. A successful decode writes an ACK.
+
+Partial Receptions:
+  Frames are merged across recordings of the same message (same session),
+  so a frame lost in one playback can come from another. Pass several
+  files, or use --partial to keep the frames of an incomplete decode and
+  finish it later. The file is removed once nothing is left to resume.
+
+Streaming Input:
+  With "-" as the file, the recording is read from stdin and decoded as
+  it arrives: the message is printed as soon as it completes, without
+  waiting for the end of the stream. Stdin may carry a WAV stream, a
+  compressed recording, or raw mono PCM with --raw (--rate and --format
+  describe the samples).
+
+Compressed Recordings:
+  Voice messages in OGG/Opus, M4A/AAC, AMR, MP3, FLAC or WebM are
+  recognised by their contents. OGG/Opus, the format messengers send
+  voice notes in, is decoded built in. The others are decoded with
+  ffmpeg and fail without it (set NEDAGRAM_FFMPEG to use another ffmpeg
+  binary). WAV and raw input never need it.
+
+All Messages:
+  With --all, the whole recording is scanned: every transmission found is
+  decoded and reported with where it begins and ends (h:mm:ss.s), and
+  failed ones are reported and skipped. Use it to extract the messages
+  of a long recording in one pass.
+
+File Names:
+  A message sent with a file name (encode --meta or --name) is saved
+  under that name when -o is a directory; otherwise it is named after
+  its checksum. Existing files are not overwritten.
+
+Binary Messages:
+  A message that is not text is written byte for byte: to the -o file, or
+  to stdout when it is piped (never to a terminal). With --json, binary
+  messages are given in base64 with "binary": true.
+
+File Bundles:
+  A message of several files (encode -f a -f b) is written into the -o
+  directory, one file each under its own name; without -o the files are
+  listed. With --json, each file is given in base64 under "files".
+
 Examples:
   $ nedagram decode message.wav
   $ nedagram decode encrypted.wav -p "my password"
+  $ nedagram decode orders.wav -k field-team.key
+  $ nedagram decode orders.wav --key-file team-keys.psk
   $ nedagram decode message.wav -o output.txt
-  $ nedagram decode --salvage noisy-recording.wav`)
+  $ nedagram decode vpn.wav -o ~/Downloads
+  $ nedagram decode photo.wav > photo.jpg
+  $ nedagram decode vpn.wav -o ~/vpn
+  $ nedagram decode call-archive.wav --all --json
+  $ nedagram decode --salvage noisy-recording.wav
+  $ nedagram decode recording.wav --arq reply.wav
+  $ nedagram decode first-try.wav second-try.wav
+  $ nedagram decode recording.wav --partial reception.json
+  $ arecord -f S16_LE -r 48000 -c 1 -t raw | nedagram decode - --raw --rate 48000
+  $ nedagram decode voice-message.ogg`)
   .action(decodeCommand);
 
+// Listen command
+program
+  .command('listen')
+  .description('Decode every transmission in an audio stream or long recording')
+  .argument('[file]', 'Recording to scan (WAV, OGG/Opus, or M4A, AMR, MP3 through ffmpeg), or "-" for stdin', '-')
+  .option('-d, --output-dir <dir>', 'Save each message to its own file in <dir> instead of printing it')
+  .option('-p, --password <password>', 'Password to decrypt encrypted messages')
+  .option('-k, --key <privkey>', 'Private key to decrypt messages encrypted to your public key (the key or a .key file)')
+  .option('--key-file <file>', 'Pre-shared key, or file of keys one per line, to decrypt with; each message names the key it needs (repeatable)', collect, [])
+  .option('--raw', 'Input is headerless mono PCM (see --rate and --format)')
+  .option('--rate <hz>', 'Sample rate of raw input', '48000')
+  .option('--format <format>', 'Sample format of raw input: "s16le" or "f32le"', 's16le')
+  .option('-q, --quiet', 'Suppress progress output (only show messages)')
+  .option('--json', 'Output one JSON line per message (and per failed transmission)')
+  .addHelpText('after', `
+Continuous Listening:
+  listen keeps decoding until the stream ends: after each message the
+  decoder starts over and looks for the next transmission. Messages are
+  printed to stdout as they complete, saved as <time>-<sha256 prefix>.txt with
+  -d (.bin for binary data; a directory of that name holding the files of a
+  bundle), or emitted as JSON lines with --json. Failed transmissions are
+  reported and skipped.
+
+Examples:
+  $ nedagram listen day-recording.wav -d inbox
+  $ arecord -f S16_LE -r 48000 -c 1 -t raw | nedagram listen - --raw --json
+  $ rtl_fm -M fm -f 145.5M -s 48000 | nedagram listen - --raw -d inbox`)
+  .action(listenCommand);
+
+// Keygen command
+program
+  .command('keygen')
+  .description('Generate a key pair for public-key encryption or signing, or a pre-shared key')
+  .option('-o, --output <name>', 'Write the private key to <name>.key and the public key to <name>.pub (the pre-shared key to <name>.psk)')
+  .option('--sign', 'Generate a signing key pair (for "encode --sign") instead of an encryption key pair')
+  .option('--psk', 'Generate a pre-shared key (for "encode --key-file") instead of a key pair')
+  .option('--from <privkey>', 'Print the public key of an existing private or signing key, or the key ID of a pre-shared key (the key or a key file)')
+  .option('-q, --quiet', 'Suppress hints (only show the keys)')
+  .option('--json', 'Output the keys as JSON')
+  .addHelpText('after', `
+Public-Key Encryption:
+  Give the public key to everyone who sends you messages; they encrypt
+  with "encode --to <public key>". Only your private key decrypts them
+  ("decode --key <private key>"), so no password has to be shared over
+  the channel that carries the message. Keep the private key secret:
+  without -o it is printed, with -o it is written to <name>.key, which
+  is never overwritten.
+
+Signatures:
+  With --sign, the key pair is for signing instead: sign messages with
+  "encode --sign <signing key>", and receivers see the public key as the
+  signer when they decode them. Share the public key so they can
+  recognize it.
+
+Pre-Shared Keys:
+  With --psk, a random 256-bit key is generated for a group that shares
+  it ahead of time: encrypt with "encode --key-file <name>.psk" and
+  decode with "decode --key-file <name>.psk". Nothing has to be typed,
+  and each message names the key's 6-character ID, so receivers can
+  keep several keys (e.g. this week's and last week's) in one file.
+
+Examples:
+  $ nedagram keygen
+  $ nedagram keygen -o field-team
+  $ nedagram keygen --from field-team.key
+  $ nedagram keygen --sign -o hq-signing
+  $ nedagram keygen --psk -o week-42
+  $ cat week-41.psk week-42.psk > team-keys.psk`)
+  .action(keygenCommand);
+
+// Send command
+program
+  .command('send')
+  .description('Encode text for a half-duplex ARQ exchange and answer the receiver\'s NACKs')
+  .argument('[text]', 'Text to encode (or use -f for file input, or pipe from stdin)')
+  .option('-f, --file <path>', 'Read input from a file (repeat to send several files as one bundle)', collect, [])
+  .option('--binary', 'Send the input byte for byte, as a file (automatic when the input is not text)')
+  .option('-o, --output <path>', 'Output WAV file path (the retransmission with --reply)')
+  .option('-m, --mode <mode>', 'Audio mode: "phone" for calls/voice messages, "wideband" for direct playback, "ultrasonic" for near-inaudible playback, "multitone" for cables/quiet rooms', 'wideband')
+  .option('-e, --encrypt', 'Encrypt the message with a password (requires -p)')
+  .option('-p, --password <password>', 'Password for encryption (use with -e). Choose a strong password.')
+  .option('--kdf <kdf>', 'Password key derivation: "argon2id" (default) or "pbkdf2", with optional costs, e.g. "argon2id:m=64,t=4"')
+  .option('--to <pubkey>', 'Encrypt the message to a recipient\'s public key (the key or a .pub file from "keygen")')
+  .option('--key-file <file>', 'Encrypt the message with a pre-shared key (the key or a .psk file from "keygen --psk")')
+  .option('--sign <key>', 'Sign the message with your signing key (the key or a .key file from "keygen --sign")')
+  .option('--meta', 'Send the input file\'s name, type and modification time along (with -f)')
+  .option('--name <filename>', 'File name to send along, for the receiver to save the message as')
+  .option('--mime <type>', 'MIME type to send along, e.g. "application/json"')
+  .option('--label <text>', 'Free-form label to send along, e.g. "office wifi"')
+  .option('--compact', 'Send proxy links and WireGuard configs in a compact binary form when that is shorter')
+  .option('--fec <profile>', 'Error correction strength: "light", "normal" or "heavy"', 'normal')
+  .option('--segment <kb>', 'Split large messages into chained transmissions of at most <kb> KB each')
+  .option('--repair <percent>', 'Add repair frames (e.g. 20 for +20%) so lost frames are rebuilt without a retransmission')
+  .option('--arq', 'Save an ARQ session file (<output>.arq.json) for answering NACKs')
+  .option('--reply <path>', 'Decode the receiver\'s ACK/NACK recording and write a retransmission')
+  .option('--session <path>', 'ARQ session file (written with --arq, read with --reply)')
+  .option('-q, --quiet', 'Suppress progress output (only show result)')
+  .option('--json', 'Output result as JSON')
+  .addHelpText('after', `
+Half-duplex ARQ:
+  1. Sender:   nedagram send -f msg.txt --arq -o msg.wav     (play msg.wav)
+  2. Receiver: nedagram decode recording.wav --arq reply.wav (play reply.wav)
+  3. Sender:   nedagram send --reply reply-recording.wav --session msg.wav.arq.json -o resend.wav
+  The retransmission carries only the frames the receiver reported
+  missing; the receiver keeps its partial frames and merges them.
+  Without --arq or --reply, send works like encode.
+
+Examples:
+  $ nedagram send "Hello World" --arq -o hello.wav
+  $ nedagram send --reply nack.wav --session hello.wav.arq.json -o resend.wav`)
+  .action(sendCommand);
+
 // Analyze command
 program
   .command('analyze')
-  .description('Analyze a WAV file for signal quality without decoding')
-  .argument('<file>', 'WAV file to analyze')
+  .description('Analyze a recording for signal quality without decoding')
+  .argument('<file>', 'Recording to analyze (WAV, OGG/Opus, or M4A, AMR, MP3 through ffmpeg)')
   .option('--json', 'Output result as JSON')
   .addHelpText('after', `
-The analyze command examines a WAV file and reports signal quality
+The analyze command examines a recording and reports signal quality
 metrics. Use this to diagnose why a decode might fail before
 attempting recovery with --salvage.
 
@@ -103,9 +410,88 @@ Metrics reported:
 
 Examples:
   $ nedagram analyze recording.wav
-  $ nedagram analyze recording.wav --json`)
+  $ nedagram analyze recording.wav --json
+  $ nedagram analyze voice-message.m4a`)
   .action(analyzeCommand);
 
+// Probe command
+const probe = program
+  .command('probe')
+  .description('Sound out an audio channel and recommend a mode and FEC profile')
+  .addHelpText('after', `
+Channel Probe:
+  1. Sender:   nedagram probe generate -o probe.wav     (play probe.wav)
+  2. Receiver: nedagram probe evaluate recording.wav
+  The probe measures the frequency offset, the frequency response and the
+  SNR of tones across every mode's band, then recommends the fastest mode
+  the channel carries and the FEC profile for its SNR margin.`);
+
+probe
+  .command('generate')
+  .description('Write a channel probe WAV file to play over the channel')
+  .option('-o, --output <path>', 'Output WAV file path (default: probe.wav)')
+  .option('-q, --quiet', 'Suppress progress output (only show result)')
+  .option('--json', 'Output result as JSON')
+  .action(probeGenerateCommand);
+
+probe
+  .command('evaluate')
+  .description('Measure a recorded channel probe and recommend a mode and FEC profile')
+  .argument('<file>', 'Recording of the probe (WAV, OGG/Opus, or M4A, AMR, MP3 through ffmpeg)')
+  .option('-q, --quiet', 'Suppress progress output (only show result)')
+  .option('--json', 'Output result as JSON (per-mode SNR, frequency response, offset)')
+  .addHelpText('after', `
+Examples:
+  $ nedagram probe evaluate recording.wav
+  $ nedagram probe evaluate recording.wav --json`)
+  .action(probeEvaluateCommand);
+
+// Simulate command
+program
+  .command('simulate')
+  .description('Send a message through a simulated channel and report whether it decodes')
+  .argument('[text]', 'Text to send (or use -f for file input, or pipe from stdin)')
+  .option('-f, --file <path>', 'Read input from a file')
+  .option('-m, --mode <modes>', 'Audio modes to compare, comma-separated (e.g. "phone,wideband")', 'wideband')
+  .option('--fec <profiles>', 'FEC profiles to compare, comma-separated (e.g. "light,normal,heavy")', 'normal')
+  .option('--preset <name>', 'Start from a typical channel: "phone-call", "gsm-call", "speaker" or "radio"')
+  .option('--snr <db>', 'Add white noise at this SNR (dB, over the full band)')
+  .option('--telephone', 'Limit to the telephone band (300-3400 Hz)')
+  .option('--drift <ppm>', 'Receiver clock error in ppm (resamples the audio)')
+  .option('--offset <hz>', 'Shift every frequency by this many Hz')
+  .option('--clip <level>', 'Clip at this fraction of the peak (e.g. 0.5)')
+  .option('--agc <db>', 'AGC that boosts quiet passages by up to this many dB')
+  .option('--echo <ms>', 'Add an echo with this delay')
+  .option('--echo-gain <gain>', 'Level of each echo (0-1, default: 0.3)')
+  .option('--dropouts <rate>', 'Average dropouts per second')
+  .option('--dropout-ms <ms>', 'Length of each dropout (default: 20)')
+  .option('--codec <codec>', 'Speech codec model: "amr" (AMR-NB 12.2) or "gsm" (GSM full rate)')
+  .option('--seed <n>', 'Seed of the session ID, noise and dropouts (trials use the following seeds)', '1')
+  .option('--trials <n>', 'Trials per mode and FEC profile', '1')
+  .option('-o, --output <path>', 'Write the received audio of the first trial to a WAV file')
+  .option('-q, --quiet', 'Suppress progress output (only show result)')
+  .option('--json', 'Output result as JSON (per-trial success, errors fixed and frames)')
+  .addHelpText('after', `
+Channel Simulation:
+  The message is encoded, pushed through the impairments in the order a
+  signal meets them (clipping, echo, noise, clock drift and offset,
+  telephone band, AGC, codec, dropouts) and decoded. Options override
+  the preset's settings. The same seed always gives the same result, so
+  modes and FEC profiles are compared on equal terms; more trials give a
+  success rate.
+
+  The codec models are a linear predictor with a pulse excitation, as in
+  AMR and GSM, without a pitch predictor: a little harsher than the real
+  codecs. To test a real one, encode with --format ogg or amr instead.
+
+Examples:
+  $ nedagram simulate "Hello" --snr 10
+  $ nedagram simulate -f config.txt -m phone,wideband --preset phone-call
+  $ nedagram simulate -f config.txt -m phone --fec light,normal,heavy --preset gsm-call --trials 20
+  $ nedagram simulate "Hello" -m phone --telephone --codec amr --dropouts 0.5 -o received.wav
+  $ nedagram simulate -f config.txt --preset speaker --json`)
+  .action(simulateCommand);
+
 // Serve command
 program
   .command('serve')
@@ -0,0 +1,219 @@
+/**
+ * CLI Keygen Command
+ *
+ * Generates an X25519 key pair for public-key encryption: the public key
+ * is shared with senders ("encode --to"), the private key stays with the
+ * recipient ("decode --key"). With --sign, generates an Ed25519 signing
+ * key pair instead: the signing key signs messages ("encode --sign"),
+ * receivers see the matching public key as the signer. With --psk,
+ * generates a pre-shared key for a team to encrypt with ("encode
+ * --key-file") and decode with ("decode --key-file"). Also exports the
+ * public key of an existing private or signing key, or the key ID of a
+ * pre-shared key.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import {
+  generateKeyPair,
+  generatePreSharedKey,
+  generateSigningKeyPair,
+  getKeyId,
+  getPublicKey,
+  getSigningPublicKey,
+  isValidPreSharedKey,
+  isValidPrivateKey,
+  isValidPublicKey,
+  isValidSigningKey,
+} from '../src/lib/crypto.js';
+
+interface KeygenOptions {
+  output?: string;
+  from?: string;
+  /** Generate a signing key pair instead of an encryption key pair */
+  sign?: boolean;
+  /** Generate a pre-shared key instead of a key pair */
+  psk?: boolean;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface KeygenResult {
+  success: boolean;
+  publicKey: string;
+  privateKey?: string;
+  publicKeyFile?: string;
+  privateKeyFile?: string;
+}
+
+interface PreSharedKeyResult {
+  success: boolean;
+  keyId: string;
+  preSharedKey?: string;
+  preSharedKeyFile?: string;
+}
+
+type KeyKind = 'public' | 'private' | 'signing' | 'pre-shared';
+
+const KEY_KINDS: Record<KeyKind, { isValid: (key: string) => boolean; prefix: string }> = {
+  public: { isValid: isValidPublicKey, prefix: 'nedagram-pk-' },
+  private: { isValid: isValidPrivateKey, prefix: 'nedagram-sk-' },
+  signing: { isValid: isValidSigningKey, prefix: 'nedagram-ssk-' },
+  'pre-shared': { isValid: isValidPreSharedKey, prefix: 'nedagram-psk-' },
+};
+
+/**
+ * Read a key given on the command line: the key itself, or the path of a
+ * file holding it (as written by "keygen -o")
+ */
+export function readKeyArgument(value: string, kind: KeyKind): string {
+  const { isValid, prefix } = KEY_KINDS[kind];
+  if (isValid(value)) {
+    return value.trim();
+  }
+  if (existsSync(value)) {
+    const key = readFileSync(value, 'utf-8').trim();
+    if (isValid(key)) {
+      return key;
+    }
+    throw new Error(`${value} does not hold a valid ${kind} key.`);
+  }
+  throw new Error(`Invalid ${kind} key: pass the key (${prefix}...) or a key file.`);
+}
+
+/**
+ * Read a keyring of pre-shared keys given on the command line: keys, or
+ * files holding one key per line (blank lines and # comments are skipped),
+ * so a team can keep this week's and last week's keys in one file
+ */
+export function readKeyring(values: string[]): string[] {
+  const keys: string[] = [];
+  for (const value of values) {
+    if (isValidPreSharedKey(value) || !existsSync(value)) {
+      keys.push(readKeyArgument(value, 'pre-shared'));
+      continue;
+    }
+    const lines = readFileSync(value, 'utf-8').split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    if (lines.length === 0 || !lines.every(isValidPreSharedKey)) {
+      throw new Error(`${value} does not hold valid pre-shared keys (one per line).`);
+    }
+    keys.push(...lines);
+  }
+  return keys;
+}
+
+/**
+ * Generate a pre-shared key, written to <output>.psk or printed
+ */
+async function generatePreSharedKeyFile(options: KeygenOptions): Promise<void> {
+  const preSharedKey = generatePreSharedKey();
+  const result: PreSharedKeyResult = { success: true, keyId: await getKeyId(preSharedKey) };
+
+  if (options.output) {
+    result.preSharedKeyFile = `${options.output}.psk`;
+    if (existsSync(result.preSharedKeyFile)) {
+      throw new Error(`${result.preSharedKeyFile} already exists; not overwriting a pre-shared key.`);
+    }
+    writeFileSync(result.preSharedKeyFile, `${preSharedKey}\n`, { mode: 0o600 });
+  } else {
+    result.preSharedKey = preSharedKey;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  if (options.output) {
+    console.error(`Pre-shared key: ${result.preSharedKeyFile} (share it with your team only)`);
+    console.log(result.keyId);
+  } else {
+    console.log(`Pre-shared key: ${preSharedKey}`);
+    console.log(`Key ID:         ${result.keyId}`);
+  }
+  if (!options.quiet) {
+    console.error('');
+    console.error('Encrypt with it: nedagram encode "..." --key-file <key file>');
+    console.error('Decode with it:  nedagram decode message.wav --key-file <key file>');
+    console.error('Messages carry the key ID, so receivers can keep several keys in one file.');
+  }
+}
+
+export async function keygenCommand(options: KeygenOptions): Promise<void> {
+  const log = options.quiet || options.json ? () => {} : console.error.bind(console);
+
+  try {
+    // Export the public key of an existing private or signing key, or the
+    // key ID of a pre-shared key
+    if (options.from) {
+      const fromText = existsSync(options.from) ? readFileSync(options.from, 'utf-8') : options.from;
+      if (options.psk || isValidPreSharedKey(fromText)) {
+        const keyId = await getKeyId(readKeyArgument(options.from, 'pre-shared'));
+        console.log(options.json ? JSON.stringify({ success: true, keyId }, null, 2) : keyId);
+        return;
+      }
+      const publicKey = options.sign || isValidSigningKey(fromText)
+        ? await getSigningPublicKey(readKeyArgument(options.from, 'signing'))
+        : await getPublicKey(readKeyArgument(options.from, 'private'));
+      if (options.json) {
+        console.log(JSON.stringify({ success: true, publicKey }, null, 2));
+      } else {
+        console.log(publicKey);
+      }
+      return;
+    }
+
+    if (options.psk) {
+      if (options.sign) {
+        throw new Error('Use either --sign or --psk, not both.');
+      }
+      await generatePreSharedKeyFile(options);
+      return;
+    }
+
+    const keys = options.sign ? await generateSigningKeyPair() : await generateKeyPair();
+    const result: KeygenResult = { success: true, publicKey: keys.publicKey };
+
+    if (options.output) {
+      result.privateKeyFile = `${options.output}.key`;
+      result.publicKeyFile = `${options.output}.pub`;
+      if (existsSync(result.privateKeyFile)) {
+        throw new Error(`${result.privateKeyFile} already exists; not overwriting a private key.`);
+      }
+      writeFileSync(result.privateKeyFile, `${keys.privateKey}\n`, { mode: 0o600 });
+      writeFileSync(result.publicKeyFile, `${keys.publicKey}\n`);
+    } else {
+      result.privateKey = keys.privateKey;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const secretLabel = options.sign ? 'Signing key' : 'Private key';
+    if (options.output) {
+      console.error(`${secretLabel}: ${result.privateKeyFile} (keep it secret)`);
+      console.error(`Public key:  ${result.publicKeyFile}`);
+      console.log(keys.publicKey);
+    } else {
+      console.log(`Public key:  ${keys.publicKey}`);
+      console.log(`${secretLabel}: ${keys.privateKey}`);
+    }
+    log('');
+    if (options.sign) {
+      log('Sign messages with the signing key: nedagram encode "..." --sign <signing key>');
+      log('Receivers see the public key as the signer of your messages.');
+    } else {
+      log('Give the public key to senders: nedagram encode "..." --to <public key>');
+      log('Decode with the private key:    nedagram decode message.wav --key <private key>');
+    }
+
+  } catch (error) {
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }, null, 2));
+      process.exit(1);
+    }
+    console.error('\nError:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
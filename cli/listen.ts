@@ -0,0 +1,167 @@
+/**
+ * CLI Listen Command
+ *
+ * Decodes every transmission in a never-ending audio stream (stdin) or a
+ * long recording, one after another. The decoder starts over after each
+ * message, and each message is printed, saved to a directory (a file
+ * bundle into a directory of its own), or emitted as one JSON line.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { type SignatureInfo } from '../src/lib/crypto.js';
+import { describeBundleFile, formatSignature, openRecording, validateRecordings, type BundleFileResult, type RecordingOptions } from './decode.js';
+import { saveBundle } from './metadata.js';
+import { readKeyArgument, readKeyring } from './keygen.js';
+import { DECODER_LOG_PREFIXES, formatTimestamp, scanTransmissions, type Transmission } from './scan.js';
+import { isText } from '../src/utils/helpers.js';
+
+interface ListenOptions extends RecordingOptions {
+  outputDir?: string;
+  password?: string;
+  key?: string;
+  /** Pre-shared keys, or files of them (--key-file, repeatable) */
+  keyFile?: string[];
+  quiet?: boolean;
+  json?: boolean;
+}
+
+/** One decoded message, or a transmission that failed */
+interface ListenEvent {
+  success: boolean;
+  /** Stream positions where the transmission began and ended (seconds) */
+  start: number;
+  end: number;
+  receivedAt: string;
+  /** The message, or its bytes in base64 when binary (absent for a file bundle) */
+  message?: string;
+  binary?: boolean;
+  bytes?: number;
+  sha256?: string;
+  encrypted?: boolean;
+  compressed?: boolean;
+  signature?: SignatureInfo;
+  /** Files of a bundle */
+  files?: BundleFileResult[];
+  /** Where the message was saved (a directory for a file bundle) */
+  file?: string;
+  error?: string;
+}
+
+export async function listenCommand(filePath: string, options: ListenOptions): Promise<void> {
+  const log = options.quiet || options.json ? () => {} : console.error.bind(console);
+
+  // Messages go to stdout, so decoder debug logs never do
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    const msg = args[0];
+    if (typeof msg === 'string' && DECODER_LOG_PREFIXES.some(prefix => msg.startsWith(prefix))) {
+      return;
+    }
+    originalLog.apply(console, args);
+  };
+
+  try {
+    validateRecordings([filePath], options, 'listen');
+    const privateKey = options.key ? readKeyArgument(options.key, 'private') : undefined;
+    const preSharedKeys = options.keyFile?.length ? readKeyring(options.keyFile) : undefined;
+    if (options.outputDir) {
+      mkdirSync(options.outputDir, { recursive: true });
+    }
+
+    const stream = await openRecording(filePath, options, log);
+    log('Listening for transmissions...');
+
+    let decoded = 0;
+    let failed = 0;
+
+    const report = (event: ListenEvent) => {
+      if (event.success) decoded++;
+      else failed++;
+
+      if (options.json) {
+        console.log(JSON.stringify(event));
+        return;
+      }
+
+      const span = `[${formatTimestamp(event.start)} - ${formatTimestamp(event.end)}]`;
+      if (!event.success) {
+        if (!options.quiet) console.error(`\n${span} ${event.error}`);
+        return;
+      }
+
+      log(`\n${span} Message: ${event.bytes} bytes, SHA-256: ${event.sha256}`);
+      if (event.signature) {
+        log(`Signer: ${formatSignature(event.signature)}`);
+      }
+      if (event.files && !event.file) {
+        event.files.forEach(file => console.error(`  ${file.name} (${file.bytes} bytes)`));
+        console.error(`(${event.files.length} files - use -d <dir> to save them)`);
+      } else if (event.file) {
+        log(`Saved ${event.file}`);
+      } else if (event.binary) {
+        console.error('(binary data - use -d <dir> to save it)');
+      } else {
+        process.stdout.write(event.message!);
+        if (!event.message!.endsWith('\n')) {
+          process.stdout.write('\n');
+        }
+      }
+    };
+
+    const onTransmission = ({ start, end, result, error }: Transmission) => {
+      const receivedAt = new Date().toISOString();
+
+      if (!result) {
+        report({ success: false, start, end, receivedAt, error: error!.message });
+      } else if (result.needsPassword && result.keyId) {
+        report({ success: false, start, end, receivedAt, encrypted: true, bytes: result.stats.originalSize, error: `Encrypted message: pre-shared key ${result.keyId} required (--key-file)` });
+      } else if (result.needsPassword) {
+        report({ success: false, start, end, receivedAt, encrypted: true, bytes: result.stats.originalSize, error: 'Encrypted message: password required (-p)' });
+      } else if (result.needsKey) {
+        report({ success: false, start, end, receivedAt, encrypted: true, bytes: result.stats.originalSize, error: 'Encrypted message: private key required (-k)' });
+      } else {
+        const binary = result.files !== undefined || !isText(result.data);
+        const event: ListenEvent = {
+          success: true,
+          start,
+          end,
+          receivedAt,
+          message: result.files ? undefined : binary ? Buffer.from(result.data).toString('base64') : result.text,
+          binary,
+          bytes: result.stats.originalSize,
+          sha256: result.checksum,
+          encrypted: result.encrypted,
+          compressed: result.stats.compressed,
+          signature: result.signature,
+        };
+        const name = `${receivedAt.replace(/[:.]/g, '-')}-${result.checksum.slice(0, 8)}`;
+        if (result.files) {
+          const paths = options.outputDir ? saveBundle(join(options.outputDir, name), result.files) : undefined;
+          event.files = result.files.map((file, i) => describeBundleFile(file, paths?.[i]));
+          if (options.outputDir) {
+            event.file = join(options.outputDir, name);
+          }
+        } else if (options.outputDir) {
+          event.file = join(options.outputDir, `${name}.${binary ? 'bin' : 'txt'}`);
+          writeFileSync(event.file, result.data);
+        }
+        report(event);
+      }
+    };
+
+    await scanTransmissions(stream, { password: options.password, privateKey, preSharedKeys }, onTransmission, log);
+
+    log('');
+    log(`Stream ended: ${decoded} message${decoded === 1 ? '' : 's'} decoded, ${failed} failed`);
+  } catch (error) {
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }));
+      process.exit(1);
+    }
+    console.error('\nError:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    console.log = originalLog;
+  }
+}
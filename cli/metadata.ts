@@ -0,0 +1,116 @@
+/**
+ * Message metadata for the CLI: file types by extension, and where to
+ * save a received message or the files of a bundle
+ */
+
+import { existsSync, mkdirSync, statSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { type MessageMetadata } from '../src/encode/metadata.js';
+import { type BundleFile } from '../src/encode/bundle.js';
+import { getSafeFilename } from '../src/decode/metadata.js';
+import { crc32 } from '../src/lib/crc32.js';
+
+// Types of the files people send most (the web app's upload list and a few more)
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.xml': 'application/xml',
+  '.conf': 'text/plain',
+  '.ini': 'text/plain',
+  '.env': 'text/plain',
+  '.ovpn': 'application/x-openvpn-profile',
+  '.pem': 'application/x-pem-file',
+  '.crt': 'application/x-x509-ca-cert',
+  '.cert': 'application/x-x509-ca-cert',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.bin': 'application/octet-stream',
+};
+
+/**
+ * Guess a file's MIME type from its extension
+ */
+export function getMimeType(filename: string): string | undefined {
+  return MIME_TYPES[extname(filename).toLowerCase()];
+}
+
+/**
+ * Metadata of a file to send: its name, type and modification time
+ */
+export function readFileMetadata(filePath: string): MessageMetadata {
+  return {
+    filename: basename(filePath),
+    mimeType: getMimeType(filePath),
+    createdAt: statSync(filePath).mtime,
+  };
+}
+
+/**
+ * Where to write a received message: the output path itself, or, when it
+ * is a directory, a file in it named after the sender's file name (or the
+ * checksum when there is none). Files already in the directory are not
+ * overwritten; the checksum is added to the name instead.
+ */
+export function getOutputPath(output: string, metadata: MessageMetadata | undefined, checksum: string): string {
+  if (!existsSync(output) || !statSync(output).isDirectory()) {
+    return output;
+  }
+
+  const extension = Object.entries(MIME_TYPES).find(([, type]) => type === metadata?.mimeType)?.[0] ?? '.txt';
+  const filename = getSafeFilename(metadata?.filename) ?? `${checksum.slice(0, 8)}${extension}`;
+  const path = join(output, filename);
+  if (!existsSync(path)) {
+    return path;
+  }
+
+  const ext = extname(filename);
+  return join(output, `${filename.slice(0, filename.length - ext.length)}-${checksum.slice(0, 8)}${ext}`);
+}
+
+/**
+ * Write the files of a bundle into a directory (created if missing), each
+ * under its own name, without overwriting; returns where each one went
+ */
+export function saveBundle(directory: string, files: BundleFile[]): string[] {
+  if (existsSync(directory) && !statSync(directory).isDirectory()) {
+    throw new Error(`The message is a bundle of ${files.length} files; ${directory} is not a directory`);
+  }
+  mkdirSync(directory, { recursive: true });
+
+  return files.map(file => {
+    // The file's CRC32 stands in for a checksum in fallback and duplicate names
+    const path = getOutputPath(directory, { filename: file.name }, crc32(file.data).toString(16).padStart(8, '0'));
+    writeFileSync(path, file.data);
+    return path;
+  });
+}
+
+/**
+ * Describe a message's metadata for the terminal, one line per field
+ */
+export function formatMetadata(metadata: MessageMetadata): string[] {
+  const lines: string[] = [];
+  if (metadata.filename) {
+    lines.push(`File:    ${metadata.filename}${metadata.mimeType ? ` (${metadata.mimeType})` : ''}`);
+  } else if (metadata.mimeType) {
+    lines.push(`Type:    ${metadata.mimeType}`);
+  }
+  if (metadata.label) {
+    lines.push(`Label:   ${metadata.label}`);
+  }
+  if (metadata.createdAt) {
+    lines.push(`Created: ${metadata.createdAt.toISOString()}`);
+  }
+  return lines;
+}
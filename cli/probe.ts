@@ -0,0 +1,114 @@
+/**
+ * CLI Probe Commands
+ *
+ * "probe generate" writes a channel probe WAV; play it over the channel
+ * and record it on the other side. "probe evaluate" measures the recording
+ * and recommends the audio mode and FEC profile to encode with.
+ */
+
+import { encodeProbe } from '../src/encode/index.js';
+import { evaluateProbe, type ProbeResult } from '../src/decode/probe.js';
+import { readAudioFile, writeWavFile } from './wav-io.js';
+
+interface ProbeGenerateOptions {
+  output?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface ProbeEvaluateOptions {
+  quiet?: boolean;
+  json?: boolean;
+}
+
+export async function probeGenerateCommand(options: ProbeGenerateOptions): Promise<void> {
+  const log = options.quiet || options.json ? () => {} : console.error.bind(console);
+
+  try {
+    const outputPath = options.output ?? 'probe.wav';
+    const result = encodeProbe();
+    writeWavFile(outputPath, result.audio, result.sampleRate);
+
+    if (options.json) {
+      console.log(JSON.stringify({ success: true, output: outputPath, duration: result.durationSeconds }, null, 2));
+      return;
+    }
+
+    log(`Duration: ${result.durationSeconds.toFixed(1)}s`);
+    console.error(`Output:  ${outputPath}`);
+    log('');
+    log('Play it over the channel, record it on the other side, then run:');
+    log('  nedagram probe evaluate <recording.wav>');
+  } catch (error) {
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }, null, 2));
+      process.exit(1);
+    }
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export async function probeEvaluateCommand(filePath: string, options: ProbeEvaluateOptions): Promise<void> {
+  const log = options.quiet || options.json ? () => {} : console.error.bind(console);
+
+  // Suppress probe logs
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    const msg = args[0];
+    if (typeof msg === 'string' && msg.startsWith('[Probe]')) {
+      return;
+    }
+    originalLog.apply(console, args);
+  };
+
+  try {
+    log(`Evaluating ${filePath}...`);
+    const { samples, sampleRate } = await readAudioFile(filePath);
+    const result = evaluateProbe(samples, sampleRate);
+
+    if (!result) {
+      throw new Error('No channel probe found in the recording. Record the whole output of "nedagram probe generate".');
+    }
+
+    console.log = originalLog;
+    outputResult(result, options, log);
+  } catch (error) {
+    console.log = originalLog;
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }, null, 2));
+      process.exit(1);
+    }
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function outputResult(result: ProbeResult, options: ProbeEvaluateOptions, log: (...args: unknown[]) => void): void {
+  if (options.json) {
+    console.log(JSON.stringify({ success: true, ...result }, null, 2));
+    return;
+  }
+
+  log('');
+  log('Channel Modes');
+  log('════════════════════════════════════════');
+  for (const mode of result.modes) {
+    log(`  ${mode.mode.padEnd(11)} min SNR ${mode.minSnrDb.toFixed(1).padStart(5)} dB  ${mode.usable ? 'usable' : 'not usable'}`);
+  }
+  log(`  Frequency offset: ${result.frequencyOffsetHz >= 0 ? '+' : ''}${result.frequencyOffsetHz.toFixed(1)} Hz (confidence: ${(result.offsetConfidence * 100).toFixed(0)}%)`);
+  log('════════════════════════════════════════');
+
+  log('');
+  log('Frequency Response');
+  log('════════════════════════════════════════');
+  for (const tone of result.tones) {
+    log(`  ${String(tone.frequencyHz).padStart(5)} Hz  level ${tone.levelDb.toFixed(1).padStart(6)} dB  SNR ${tone.snrDb.toFixed(1).padStart(5)} dB`);
+  }
+  log('════════════════════════════════════════');
+
+  log('');
+  console.error(`Recommended: -m ${result.recommendedMode} --fec ${result.recommendedFec}`);
+  log(`  $ nedagram encode -f message.txt -m ${result.recommendedMode} --fec ${result.recommendedFec} -o message.wav`);
+  log('');
+}
@@ -0,0 +1,235 @@
+/**
+ * CLI Transmission Scanner
+ *
+ * Decodes transmission after transmission from an audio stream: after each
+ * message, or each transmission that fails, the decoder starts over and
+ * looks for the next one. Used by "listen" and "decode --all".
+ */
+
+import { Decoder, type DecodeResult } from '../src/decode/index.js';
+import { AUDIO, getAudioMode, setAudioMode } from '../src/utils/constants.js';
+import { sliceAudio, type AudioStream } from './wav-io.js';
+
+export interface ScanOptions {
+  password?: string;
+  privateKey?: string;
+  preSharedKeys?: string[];
+  salvage?: boolean;
+}
+
+/** One transmission found in the stream, decoded or failed */
+export interface Transmission {
+  /** Stream position where the preamble began (seconds) */
+  start: number;
+  /** Stream position where the transmission ended (seconds) */
+  end: number;
+  /** Decoded message (needsPassword/needsKey is set when no password/private key was given) */
+  result?: DecodeResult;
+  error?: Error;
+}
+
+/** A slice of audio and the stream position where it ends */
+interface Slice {
+  samples: Float32Array;
+  end: number;
+}
+
+// Log prefixes of the decoding pipeline, kept off stdout when it carries results
+export const DECODER_LOG_PREFIXES = ['[Decoder]', '[ChirpDetector]', '[Audio]', '[Deframe]', '[v3-FEC]', '[Decompress]', '[ARQ]', '[Metadata]', '[Bundle]', '[Config]'];
+
+// Silence without progress after which a transmission is given up
+// (seconds). The decoder's own timeouts run on wall-clock time, which a
+// recording read faster than real time never reaches.
+const SILENCE_SECONDS = 4;
+
+// Signal level (0-100) below which the decoder treats audio as silence
+const SILENCE_LEVEL = 4;
+
+// Audio without progress after which a transmission is given up even on a
+// channel that never goes quiet; longer than any single frame (seconds)
+const STALL_SECONDS = 120;
+
+// Audio without a transmission after which detection starts over, so the
+// symbol history does not grow for hours (seconds)
+const IDLE_RESET_SECONDS = 60;
+
+// Audio replayed into the restarted decoder after an idle reset, enough to
+// hold a preamble in progress (seconds)
+const IDLE_REPLAY_SECONDS = 5;
+
+// How long to wait for a last message after the stream ends (seconds)
+const END_OF_STREAM_WAIT_SECONDS = 3;
+
+/**
+ * Format a stream position as h:mm:ss.s
+ */
+export function formatTimestamp(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const h = Math.floor(tenths / 36000);
+  const m = Math.floor((tenths % 36000) / 600);
+  const s = (tenths % 600) / 10;
+  return `${h}:${String(m).padStart(2, '0')}:${s.toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * Decode every transmission in a stream, calling onTransmission for each
+ * one as it ends. Resolves once the stream has ended.
+ */
+export async function scanTransmissions(
+  stream: AudioStream,
+  options: ScanOptions,
+  onTransmission: (transmission: Transmission) => void,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  const { sampleRate } = stream;
+  const chunkSize = Math.floor(sampleRate * 0.1); // 100ms slices
+  const decoder = new Decoder(sampleRate);
+  // Each transmission is detected from the mode a fresh decoder starts in
+  const initialMode = getAudioMode();
+
+  // Outcome of the current transmission, set by the decoder callbacks
+  let outcome: { result?: DecodeResult; error?: Error } | null = null;
+  // Recent slices since the last progress, replayed after a restart
+  let history: Slice[] = [];
+  let lastProgress = '';
+  let lastProgressAt = 0;
+  let lastSignalAt = 0;
+  // Stream position of the decoder's first sample, and of the current
+  // transmission's preamble once the decoder has found it
+  let sessionStart = -1;
+  let transmissionStart = -1;
+  // End of the last message's end marker, which would otherwise be taken
+  // for the sync pattern of a new transmission
+  let skipUntil = 0;
+
+  const startSession = (at: number) => {
+    setAudioMode(initialMode);
+    outcome = null;
+    history = [];
+    lastProgress = '';
+    lastProgressAt = at;
+    lastSignalAt = at;
+    sessionStart = -1;
+    transmissionStart = -1;
+    decoder.start(
+      (result) => { outcome = { result }; },
+      (error) => { outcome = { error }; }
+    );
+    if (options.password) {
+      decoder.setPassword(options.password);
+    }
+    if (options.privateKey) {
+      decoder.setPrivateKey(options.privateKey);
+    }
+    if (options.preSharedKeys) {
+      decoder.setPreSharedKeys(options.preSharedKeys);
+    }
+    if (options.salvage) {
+      decoder.setSalvageMode(true);
+    }
+  };
+
+  // Report the current transmission's outcome and start over
+  const finishSession = (at: number, replay: Slice[]): Slice[] => {
+    const { result, error } = outcome ?? {};
+    const start = (transmissionStart >= 0 ? transmissionStart : at) / sampleRate;
+
+    if (result) {
+      skipUntil = at + Math.ceil((AUDIO.SYNC_PATTERN.length * AUDIO.SYMBOL_DURATION_MS / 1000) * sampleRate);
+    }
+    const end = (result ? skipUntil : Math.max(at, lastSignalAt)) / sampleRate;
+
+    if (result?.arq) {
+      log(`\n[${formatTimestamp(end)}] Ignoring ARQ ${result.arq.type}`);
+    } else {
+      onTransmission({
+        start: Math.round(start * 1000) / 1000,
+        end: Math.round(end * 1000) / 1000,
+        result,
+        error: result ? undefined : error ?? new Error('Decode failed'),
+      });
+    }
+
+    startSession(replay.length > 0 ? replay[0].end - replay[0].samples.length : at);
+    return replay;
+  };
+
+  startSession(0);
+  const queue: Slice[] = [];
+  let position = 0;
+
+  const step = async (slice: Slice) => {
+    const sliceStart = slice.end - slice.samples.length;
+    if (sliceStart < skipUntil) {
+      if (slice.end <= skipUntil) return;
+      slice = { samples: slice.samples.subarray(skipUntil - sliceStart), end: slice.end };
+    }
+    if (sessionStart < 0) {
+      sessionStart = slice.end - slice.samples.length;
+    }
+    history.push(slice);
+    decoder.processSamples(slice.samples);
+
+    const progress = decoder.progress.value;
+    const progressKey = `${progress.state} ${progress.framesReceived} ${progress.segmentsReceived ?? 0}`;
+    if (progressKey !== lastProgress) {
+      lastProgress = progressKey;
+      lastProgressAt = slice.end;
+      // Audio up to here belongs to the current transmission
+      history = [slice];
+    }
+    if (progress.signalLevel >= SILENCE_LEVEL) {
+      lastSignalAt = slice.end;
+    }
+
+    // A chained transmission starts with its first segment; a detection
+    // that was given up does not start one
+    const searching = progress.state === 'listening' || progress.state === 'detecting_preamble';
+    if (searching && !progress.segmentsReceived) {
+      transmissionStart = -1;
+    } else if (transmissionStart < 0 && decoder.getTransmissionStart() >= 0) {
+      transmissionStart = sessionStart + decoder.getTransmissionStart();
+    }
+
+    // Let the decoder finish asynchronously
+    await new Promise(resolve => setImmediate(resolve));
+
+    if (outcome) {
+      // Audio after the transmission's last progress may hold the next one
+      queue.unshift(...finishSession(lastProgressAt, history.slice(1)));
+    } else if (!searching && (
+      slice.end - Math.max(lastProgressAt, lastSignalAt) > SILENCE_SECONDS * sampleRate
+      || slice.end - lastProgressAt > STALL_SECONDS * sampleRate
+    )) {
+      outcome = { error: new Error(`Transmission stalled (${progress.framesReceived}/${progress.totalFrames} frames received)`) };
+      queue.unshift(...finishSession(lastProgressAt, history.slice(1)));
+    } else if (searching && slice.end - lastProgressAt > IDLE_RESET_SECONDS * sampleRate) {
+      const replaySamples = IDLE_REPLAY_SECONDS * sampleRate;
+      const replay = history.filter(h => slice.end - h.end < replaySamples);
+      startSession(replay[0].end - replay[0].samples.length);
+      queue.unshift(...replay);
+    }
+  };
+
+  for await (const samples of sliceAudio(stream.chunks, chunkSize)) {
+    position += samples.length;
+    queue.push({ samples, end: position });
+    while (queue.length > 0) {
+      await step(queue.shift()!);
+    }
+  }
+
+  // Stream ended: give a transmission in progress a moment to finish
+  const searching = () => ['listening', 'detecting_preamble'].includes(decoder.progress.value.state);
+  for (let waited = 0; !outcome && !searching() && waited < END_OF_STREAM_WAIT_SECONDS * 10; waited++) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  if (outcome || !searching()) {
+    if (!outcome) {
+      const progress = decoder.progress.value;
+      outcome = { error: new Error(`Stream ended during a transmission (${progress.framesReceived}/${progress.totalFrames} frames received)`) };
+    }
+    finishSession(lastProgressAt, []);
+  }
+  decoder.stop();
+}
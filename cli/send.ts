@@ -0,0 +1,170 @@
+/**
+ * CLI Send Command
+ *
+ * Encode with half-duplex ARQ: "send --arq" encodes like "encode" and saves
+ * a session file; "send --reply" decodes the receiver's ACK/NACK recording
+ * and writes a retransmission of only the missing frames.
+ */
+
+import { setAudioMode, ARQ } from '../src/utils/constants.js';
+import { encodeRetransmission } from '../src/encode/index.js';
+import { type ArqMessage } from '../src/encode/arq.js';
+import { Decoder } from '../src/decode/index.js';
+import { feedDecoder } from '../src/decode/feed.js';
+import { encodeCommand } from './encode.js';
+import { readArqSession } from './arq-session.js';
+import { readAudioFile, writeWavFile } from './wav-io.js';
+import { DECODER_LOG_PREFIXES } from './scan.js';
+
+interface SendOptions {
+  file?: string[];
+  binary?: boolean;
+  output?: string;
+  mode: string;
+  encrypt?: boolean;
+  password?: string;
+  kdf?: string;
+  to?: string;
+  keyFile?: string;
+  sign?: string;
+  meta?: boolean;
+  name?: string;
+  mime?: string;
+  label?: string;
+  compact?: boolean;
+  fec: string;
+  segment?: string;
+  repair?: string;
+  arq?: boolean;
+  reply?: string;
+  session?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface ReplyResult {
+  success: boolean;
+  reply: 'ack' | 'nack';
+  missingFrames: number[];
+  segment: number;
+  /** Frames in the retransmission (at most ARQ.MAX_RETRANSMIT_FRAMES per round) */
+  resentFrames?: number;
+  output?: string;
+  duration?: number;
+}
+
+export async function sendCommand(
+  text: string | undefined,
+  options: SendOptions
+): Promise<void> {
+  if (options.reply) {
+    await answerReply(options.reply, options);
+    return;
+  }
+
+  await encodeCommand(text, { ...options, format: 'wav' });
+}
+
+/**
+ * Decode the receiver's reply and resend the frames it is missing
+ */
+async function answerReply(replyPath: string, options: SendOptions): Promise<void> {
+  const log = options.quiet || options.json ? () => {} : console.error.bind(console);
+
+  // Decoder debug logs would drown the summary
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    const msg = args[0];
+    if (typeof msg === 'string' && DECODER_LOG_PREFIXES.some(prefix => msg.startsWith(prefix))) {
+      return;
+    }
+    originalLog.apply(console, args);
+  };
+
+  try {
+    if (!options.session) {
+      throw new Error('Session file required. Use --session with the file written by "send --arq".');
+    }
+
+    const session = readArqSession(options.session);
+
+    log(`Reading ${replyPath}...`);
+    const message = await decodeArqReply(replyPath);
+
+    // Decoding the reply switches to its audio mode; resend in the original one
+    setAudioMode(session.mode);
+
+    if (message.sessionId !== session.context.sessionId) {
+      throw new Error(`Reply is for session ${message.sessionId}, but the session file is for ${session.context.sessionId}.`);
+    }
+
+    const jsonResult: ReplyResult = {
+      success: true,
+      reply: message.type,
+      missingFrames: message.missingFrames,
+      segment: message.segmentIndex,
+    };
+
+    // Null for an ACK, and for a NACK that lists no frames
+    const retransmission = encodeRetransmission(session.context, message);
+    if (!retransmission) {
+      log(message.type === 'ack'
+        ? 'Receiver acknowledged the message. Nothing to resend.'
+        : 'Receiver reported no missing frames. Nothing to resend.');
+    } else {
+      const outputPath = options.output ?? 'nedagram-resend.wav';
+      writeWavFile(outputPath, retransmission.audio, session.context.sampleRate);
+
+      // One retransmission carries a limited number of frames
+      const missing = [...new Set(message.missingFrames)].sort((a, b) => a - b);
+      const resent = Math.min(missing.length, ARQ.MAX_RETRANSMIT_FRAMES);
+
+      jsonResult.resentFrames = resent;
+      jsonResult.output = outputPath;
+      jsonResult.duration = retransmission.durationSeconds;
+
+      log(`Receiver is missing ${missing.length} frames: ${missing.join(', ')}`);
+      if (resent < missing.length) {
+        log(`Resending the first ${resent} (frames ${missing[0]}-${missing[resent - 1]}); the receiver will NACK the other ${missing.length - resent}, answer that reply too.`);
+      }
+      log(`Duration: ${retransmission.durationSeconds.toFixed(1)}s`);
+      if (!options.json) {
+        console.error(`Output:  ${outputPath}`);
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(jsonResult, null, 2));
+    }
+  } catch (error) {
+    if (options.json) {
+      console.log(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }, null, 2));
+      process.exit(1);
+    }
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+/**
+ * Decode an ACK/NACK recording
+ */
+async function decodeArqReply(filePath: string): Promise<ArqMessage> {
+  const { samples, sampleRate } = await readAudioFile(filePath);
+  const { result, error } = await feedDecoder(new Decoder(sampleRate), samples, sampleRate);
+  if (error) {
+    throw error;
+  }
+  if (!result) {
+    throw new Error(`No ACK/NACK reply found in ${filePath}.`);
+  }
+  if (!result.arq) {
+    throw new Error(`${filePath} is a data transmission, not an ACK/NACK reply.`);
+  }
+  return result.arq;
+}
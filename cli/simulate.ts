@@ -0,0 +1,269 @@
+/**
+ * CLI Simulate Command
+ *
+ * Encodes a message, sends it through a simulated channel (noise, phone
+ * band, clock drift, clipping, AGC, echo, dropouts, speech codec) and
+ * decodes it, for every combination of the given modes and FEC profiles.
+ * Each combination is encoded once, with a session ID taken from the seed,
+ * and its trials use consecutive seeds, so a run can be repeated exactly.
+ */
+
+import { readFileSync } from 'fs';
+import { setAudioMode, isAudioMode, type AudioMode } from '../src/utils/constants.js';
+import { encodeString, encodeBytes } from '../src/encode/index.js';
+import { isFECProfile, type FECProfile } from '../src/encode/v3-fec.js';
+import { simulateTransmission } from '../src/decode/simulate.js';
+import { CHANNEL_PRESETS, validateChannel, type ChannelConfig, type CodecModel } from '../src/lib/channel.js';
+import { bytesToString, isText, stringToBytes } from '../src/utils/helpers.js';
+import { writeWavFile } from './wav-io.js';
+import { DECODER_LOG_PREFIXES } from './scan.js';
+
+interface SimulateOptions {
+  file?: string;
+  /** Audio modes to compare (comma-separated) */
+  mode: string;
+  /** FEC profiles to compare (comma-separated) */
+  fec: string;
+  preset?: string;
+  snr?: string;
+  telephone?: boolean;
+  drift?: string;
+  offset?: string;
+  clip?: string;
+  agc?: string;
+  echo?: string;
+  echoGain?: string;
+  dropouts?: string;
+  dropoutMs?: string;
+  codec?: string;
+  seed: string;
+  trials: string;
+  /** Write the received audio of the first trial to this WAV file */
+  output?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface TrialResult {
+  seed: number;
+  success: boolean;
+  errorsFixed: number;
+  framesReceived: number;
+  totalFrames: number;
+  error?: string;
+}
+
+interface RunResult {
+  mode: AudioMode;
+  fec: FECProfile;
+  duration: number;
+  decoded: number;
+  trials: TrialResult[];
+}
+
+// Number options and the channel settings they set
+const NUMBER_OPTIONS: [option: keyof SimulateOptions, setting: keyof ChannelConfig, flag: string][] = [
+  ['snr', 'snrDb', '--snr'],
+  ['drift', 'driftPpm', '--drift'],
+  ['offset', 'frequencyOffsetHz', '--offset'],
+  ['clip', 'clipLevel', '--clip'],
+  ['agc', 'agcDb', '--agc'],
+  ['echo', 'echoMs', '--echo'],
+  ['echoGain', 'echoGain', '--echo-gain'],
+  ['dropouts', 'dropoutRate', '--dropouts'],
+  ['dropoutMs', 'dropoutMs', '--dropout-ms'],
+];
+
+const MAX_TRIALS = 1000;
+
+export async function simulateCommand(
+  text: string | undefined,
+  options: SimulateOptions
+): Promise<void> {
+  const log = options.quiet || options.json ? () => {} : console.error.bind(console);
+
+  // Decoder debug logs would drown the results
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    const msg = args[0];
+    if (typeof msg === 'string' && DECODER_LOG_PREFIXES.some(prefix => msg.startsWith(prefix))) {
+      return;
+    }
+    originalLog.apply(console, args);
+  };
+
+  try {
+    // Get input bytes
+    let input: Uint8Array;
+    if (options.file) {
+      input = readFileSync(options.file);
+    } else if (text) {
+      input = stringToBytes(text);
+    } else if (!process.stdin.isTTY) {
+      input = readFileSync(0);
+    } else {
+      console.error('Error: No input provided. Use text argument, -f flag, or pipe input.');
+      process.exit(1);
+    }
+    if (input.length === 0) {
+      console.error('Error: Input is empty.');
+      process.exit(1);
+    }
+
+    // Modes and FEC profiles to compare
+    const modes = options.mode.toLowerCase().split(',').map(mode => mode.trim());
+    if (!modes.every(isAudioMode)) {
+      console.error('Error: Invalid mode. Use "phone", "wideband", "ultrasonic" or "multitone" (comma-separated to compare).');
+      process.exit(1);
+    }
+    const fecProfiles = options.fec.toLowerCase().split(',').map(fec => fec.trim());
+    if (!fecProfiles.every(isFECProfile)) {
+      console.error('Error: Invalid FEC profile. Use "light", "normal" or "heavy" (comma-separated to compare).');
+      process.exit(1);
+    }
+
+    const channel = parseChannel(options);
+    const seed = Number(options.seed);
+    if (!Number.isInteger(seed) || seed < 0) {
+      console.error('Error: Invalid seed. Use a whole number (0 or more).');
+      process.exit(1);
+    }
+    const trialCount = Number(options.trials);
+    if (!Number.isInteger(trialCount) || trialCount < 1 || trialCount > MAX_TRIALS) {
+      console.error(`Error: Invalid number of trials. Use 1 to ${MAX_TRIALS}.`);
+      process.exit(1);
+    }
+
+    log(`Channel: ${describeChannel(channel)}`);
+    log(`Seed: ${seed}${trialCount > 1 ? ` to ${seed + trialCount - 1}` : ''}`);
+
+    const runs: RunResult[] = [];
+    for (const mode of modes) {
+      for (const fec of fecProfiles) {
+        setAudioMode(mode);
+        // A random session ID would change the audio from run to run
+        const encodeOptions = { fecProfile: fec, sessionId: seed & 0xFFFF };
+        const transmission = isText(input)
+          ? await encodeString(bytesToString(input), encodeOptions)
+          : await encodeBytes(input, encodeOptions);
+
+        const run: RunResult = { mode, fec, duration: transmission.durationSeconds, decoded: 0, trials: [] };
+        for (let trial = 0; trial < trialCount; trial++) {
+          log(`Simulating ${mode}, FEC ${fec}: trial ${trial + 1}/${trialCount}...`);
+          const result = await simulateTransmission(transmission, { ...channel, seed: seed + trial });
+          run.trials.push({
+            seed: seed + trial,
+            success: result.success,
+            errorsFixed: result.errorsFixed,
+            framesReceived: result.framesReceived,
+            totalFrames: result.totalFrames,
+            ...(!result.success && { error: result.error ?? 'Decoded data does not match' }),
+          });
+          if (result.success) run.decoded++;
+
+          if (options.output && runs.length === 0 && trial === 0) {
+            writeWavFile(options.output, result.received, transmission.sampleRate);
+          }
+        }
+        runs.push(run);
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ success: true, bytes: input.length, channel, runs, output: options.output }, null, 2));
+      return;
+    }
+
+    outputRuns(runs, trialCount);
+    if (options.output) {
+      console.error(`Output:  ${options.output} (received audio, ${runs[0].mode}, seed ${seed})`);
+    }
+  } catch (error) {
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }, null, 2));
+      process.exit(1);
+    }
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+/**
+ * Build the channel from a preset and the impairment options, which
+ * override the preset's settings
+ */
+function parseChannel(options: SimulateOptions): ChannelConfig {
+  let channel: ChannelConfig = {};
+  if (options.preset) {
+    const preset = CHANNEL_PRESETS[options.preset.toLowerCase()];
+    if (!preset) {
+      console.error(`Error: Unknown preset. Use ${Object.keys(CHANNEL_PRESETS).map(name => `"${name}"`).join(', ')}.`);
+      process.exit(1);
+    }
+    channel = { ...preset };
+  }
+
+  for (const [option, setting, flag] of NUMBER_OPTIONS) {
+    const value = options[option];
+    if (value === undefined) continue;
+    const number = Number(value);
+    if (typeof value !== 'string' || value.trim() === '' || !Number.isFinite(number)) {
+      console.error(`Error: ${flag} needs a number.`);
+      process.exit(1);
+    }
+    (channel as Record<string, number>)[setting] = number;
+  }
+  if (options.telephone) {
+    channel.telephone = true;
+  }
+  if (options.codec) {
+    channel.codec = options.codec.toLowerCase() as CodecModel;
+  }
+
+  const problem = validateChannel(channel);
+  if (problem) {
+    console.error(`Error: ${problem}.`);
+    process.exit(1);
+  }
+  return channel;
+}
+
+function describeChannel(channel: ChannelConfig): string {
+  const parts: string[] = [];
+  if (channel.clipLevel !== undefined) parts.push(`clipped at ${Math.round(channel.clipLevel * 100)}% of peak`);
+  if (channel.echoMs) parts.push(`echo ${channel.echoMs} ms`);
+  if (channel.snrDb !== undefined) parts.push(`SNR ${channel.snrDb} dB`);
+  if (channel.driftPpm) parts.push(`drift ${channel.driftPpm} ppm`);
+  if (channel.frequencyOffsetHz) parts.push(`offset ${channel.frequencyOffsetHz} Hz`);
+  if (channel.telephone) parts.push('telephone band');
+  if (channel.agcDb) parts.push(`AGC ${channel.agcDb} dB`);
+  if (channel.codec) parts.push(`${channel.codec.toUpperCase()} codec`);
+  if (channel.dropoutRate) parts.push(`${channel.dropoutRate} dropouts/s`);
+  return parts.length > 0 ? parts.join(', ') : 'clean';
+}
+
+function outputRuns(runs: RunResult[], trialCount: number): void {
+  console.error('');
+  console.error('Mode        FEC      Duration  Decoded   Errors fixed');
+  console.error('════════════════════════════════════════════════════');
+  for (const run of runs) {
+    const fixed = run.trials.reduce((sum, trial) => sum + trial.errorsFixed, 0) / run.trials.length;
+    console.error(
+      `${run.mode.padEnd(11)} ${run.fec.padEnd(8)} ${`${run.duration.toFixed(1)}s`.padStart(8)}  ` +
+      `${`${run.decoded}/${trialCount}`.padEnd(8)}  ${fixed.toFixed(1).padStart(12)}`
+    );
+  }
+  console.error('════════════════════════════════════════════════════');
+
+  // Why single trials failed, when there is little enough to list
+  if (trialCount === 1) {
+    for (const run of runs) {
+      const error = run.trials[0].error;
+      if (error) {
+        console.error(`${run.mode}, FEC ${run.fec}: ${error}`);
+      }
+    }
+  }
+}
@@ -1,9 +1,11 @@
 /**
  * WAV file I/O utilities for Node.js CLI
- * Parses and creates WAV files without browser APIs
+ * Parses and creates WAV files without browser APIs; compressed recordings
+ * are read through a decoder (see audio-codecs.ts)
  */
 
 import { readFileSync, writeFileSync } from 'fs';
+import { detectCompressedFormat, findAudioDecoder, FORMAT_HEADER_BYTES } from './audio-codecs.js';
 
 export interface WavData {
   samples: Float32Array;
@@ -20,10 +22,80 @@ export function parseWavFile(filePath: string): WavData {
   return parseWavBuffer(buffer);
 }
 
+/**
+ * Read a recording: a WAV file, or compressed audio (OGG, M4A, AMR, MP3...)
+ * decoded to mono samples
+ */
+export async function readAudioFile(filePath: string): Promise<WavData> {
+  const buffer = readFileSync(filePath);
+  const compressed = detectCompressedFormat(buffer.subarray(0, FORMAT_HEADER_BYTES));
+  if (!compressed) {
+    return parseWavBuffer(buffer);
+  }
+
+  const decoder = findAudioDecoder(compressed);
+  const format = rawPcmFormat('f32le', decoder.sampleRate);
+  return {
+    samples: pcmToFloat32(await decoder.decode(buffer, compressed), format),
+    sampleRate: format.sampleRate,
+    numChannels: format.numChannels,
+    bitsPerSample: format.bitsPerSample,
+  };
+}
+
 /**
  * Parse WAV data from a Buffer
  */
 export function parseWavBuffer(buffer: Buffer): WavData {
+  const header = readWavHeader(buffer);
+  if (!header) {
+    throw new Error('WAV file missing data chunk');
+  }
+
+  const { format, dataOffset, dataBytes } = header;
+  const samples = pcmToFloat32(buffer.subarray(dataOffset, dataOffset + dataBytes), format);
+
+  return {
+    samples,
+    sampleRate: format.sampleRate,
+    numChannels: format.numChannels,
+    bitsPerSample: format.bitsPerSample,
+  };
+}
+
+/** Sample layout of PCM audio */
+export interface PcmFormat {
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+  /** 1 = integer PCM, 3 = IEEE float (WAV format codes) */
+  audioFormat: number;
+}
+
+/** Formats accepted for headerless (raw) PCM input */
+export const RAW_FORMATS = ['s16le', 'f32le'] as const;
+export type RawFormat = typeof RAW_FORMATS[number];
+
+export function isRawFormat(value: string): value is RawFormat {
+  return (RAW_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * PCM layout of a raw sample format (mono)
+ */
+export function rawPcmFormat(format: RawFormat, sampleRate: number): PcmFormat {
+  return format === 'f32le'
+    ? { sampleRate, numChannels: 1, bitsPerSample: 32, audioFormat: 3 }
+    : { sampleRate, numChannels: 1, bitsPerSample: 16, audioFormat: 1 };
+}
+
+/**
+ * Read the header of a WAV file
+ * Returns null when the buffer ends before the data chunk starts (more
+ * bytes are needed); throws when the data is not a supported WAV file
+ */
+export function readWavHeader(buffer: Buffer): { format: PcmFormat; dataOffset: number; dataBytes: number } | null {
+  if (buffer.length < 12) return null;
   const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
 
   // Verify RIFF header
@@ -39,86 +111,33 @@ export function parseWavBuffer(buffer: Buffer): WavData {
 
   // Find fmt chunk
   let offset = 12;
-  let fmtFound = false;
-  let numChannels = 0;
-  let sampleRate = 0;
-  let bitsPerSample = 0;
-  let audioFormat = 0;
+  let format: PcmFormat | null = null;
 
-  while (offset < buffer.length - 8) {
+  while (offset + 8 <= buffer.length) {
     const chunkId = String.fromCharCode(buffer[offset], buffer[offset + 1], buffer[offset + 2], buffer[offset + 3]);
     const chunkSize = view.getUint32(offset + 4, true);
 
     if (chunkId === 'fmt ') {
-      audioFormat = view.getUint16(offset + 8, true);
-      numChannels = view.getUint16(offset + 10, true);
-      sampleRate = view.getUint32(offset + 12, true);
-      bitsPerSample = view.getUint16(offset + 22, true);
-      fmtFound = true;
+      if (offset + 24 > buffer.length) return null;
+      format = {
+        audioFormat: view.getUint16(offset + 8, true),
+        numChannels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
     }
 
     if (chunkId === 'data') {
-      if (!fmtFound) {
+      if (!format) {
         throw new Error('WAV file missing fmt chunk before data');
       }
 
       // Only support PCM (format 1) and IEEE float (format 3)
-      if (audioFormat !== 1 && audioFormat !== 3) {
-        throw new Error(`Unsupported WAV format: ${audioFormat} (only PCM and IEEE float supported)`);
+      if (format.audioFormat !== 1 && format.audioFormat !== 3) {
+        throw new Error(`Unsupported WAV format: ${format.audioFormat} (only PCM and IEEE float supported)`);
       }
 
-      const dataOffset = offset + 8;
-      const bytesPerSample = bitsPerSample / 8;
-      const numSamples = Math.floor(chunkSize / bytesPerSample / numChannels);
-
-      // Read samples and convert to Float32
-      const samples = new Float32Array(numSamples);
-
-      for (let i = 0; i < numSamples; i++) {
-        let sampleValue = 0;
-
-        // Mix all channels to mono
-        for (let ch = 0; ch < numChannels; ch++) {
-          const sampleOffset = dataOffset + (i * numChannels + ch) * bytesPerSample;
-
-          if (audioFormat === 3) {
-            // IEEE float
-            if (bitsPerSample === 32) {
-              sampleValue += view.getFloat32(sampleOffset, true);
-            } else if (bitsPerSample === 64) {
-              sampleValue += view.getFloat64(sampleOffset, true);
-            }
-          } else {
-            // PCM
-            if (bitsPerSample === 8) {
-              // 8-bit is unsigned, centered at 128
-              sampleValue += (buffer[sampleOffset] - 128) / 128;
-            } else if (bitsPerSample === 16) {
-              sampleValue += view.getInt16(sampleOffset, true) / 32768;
-            } else if (bitsPerSample === 24) {
-              // 24-bit little-endian
-              const b0 = buffer[sampleOffset];
-              const b1 = buffer[sampleOffset + 1];
-              const b2 = buffer[sampleOffset + 2];
-              let value = (b2 << 16) | (b1 << 8) | b0;
-              if (value >= 0x800000) value -= 0x1000000;
-              sampleValue += value / 8388608;
-            } else if (bitsPerSample === 32) {
-              sampleValue += view.getInt32(sampleOffset, true) / 2147483648;
-            }
-          }
-        }
-
-        // Average channels for mono
-        samples[i] = sampleValue / numChannels;
-      }
-
-      return {
-        samples,
-        sampleRate,
-        numChannels,
-        bitsPerSample,
-      };
+      return { format, dataOffset: offset + 8, dataBytes: chunkSize };
     }
 
     offset += 8 + chunkSize;
@@ -126,7 +145,197 @@ export function parseWavBuffer(buffer: Buffer): WavData {
     if (chunkSize % 2 !== 0) offset++;
   }
 
-  throw new Error('WAV file missing data chunk');
+  return null;
+}
+
+/**
+ * Convert PCM bytes to mono Float32 samples
+ * Only whole sample frames are converted; trailing bytes are ignored
+ */
+export function pcmToFloat32(bytes: Buffer, format: PcmFormat): Float32Array {
+  const { numChannels, bitsPerSample, audioFormat } = format;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = bitsPerSample / 8;
+  const numSamples = Math.floor(bytes.length / bytesPerSample / numChannels);
+
+  // Read samples and convert to Float32
+  const samples = new Float32Array(numSamples);
+
+  for (let i = 0; i < numSamples; i++) {
+    let sampleValue = 0;
+
+    // Mix all channels to mono
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sampleOffset = (i * numChannels + ch) * bytesPerSample;
+
+      if (audioFormat === 3) {
+        // IEEE float
+        if (bitsPerSample === 32) {
+          sampleValue += view.getFloat32(sampleOffset, true);
+        } else if (bitsPerSample === 64) {
+          sampleValue += view.getFloat64(sampleOffset, true);
+        }
+      } else {
+        // PCM
+        if (bitsPerSample === 8) {
+          // 8-bit is unsigned, centered at 128
+          sampleValue += (bytes[sampleOffset] - 128) / 128;
+        } else if (bitsPerSample === 16) {
+          sampleValue += view.getInt16(sampleOffset, true) / 32768;
+        } else if (bitsPerSample === 24) {
+          // 24-bit little-endian
+          const b0 = bytes[sampleOffset];
+          const b1 = bytes[sampleOffset + 1];
+          const b2 = bytes[sampleOffset + 2];
+          let value = (b2 << 16) | (b1 << 8) | b0;
+          if (value >= 0x800000) value -= 0x1000000;
+          sampleValue += value / 8388608;
+        } else if (bitsPerSample === 32) {
+          sampleValue += view.getInt32(sampleOffset, true) / 2147483648;
+        }
+      }
+    }
+
+    // Average channels for mono
+    samples[i] = sampleValue / numChannels;
+  }
+
+  return samples;
+}
+
+/**
+ * Audio read incrementally from a stream (e.g. stdin)
+ */
+export interface AudioStream {
+  sampleRate: number;
+  /** Mono samples as they arrive */
+  chunks: AsyncIterable<Float32Array>;
+  /** Length of the audio when the WAV header gives it (seconds) */
+  duration?: number;
+}
+
+// Header bytes to read before giving up on finding the data chunk
+const MAX_WAV_HEADER_BYTES = 1024 * 1024;
+
+/**
+ * Yield the bytes already read, then the rest of the stream
+ */
+async function* prepend(first: Buffer, rest: AsyncIterator<Buffer>): AsyncGenerator<Buffer> {
+  if (first.length > 0) yield first;
+  for (let next = await rest.next(); !next.done; next = await rest.next()) {
+    yield next.value;
+  }
+}
+
+/**
+ * Read WAV audio, raw PCM when a raw format is given, or compressed audio
+ * through a decoder, from a stream of bytes. Resolves once the sample rate
+ * is known; the samples then follow as the stream delivers them.
+ */
+export async function readAudioStream(
+  input: AsyncIterable<Buffer>,
+  raw?: { format: RawFormat; sampleRate: number }
+): Promise<AudioStream> {
+  let iterator = input[Symbol.asyncIterator]();
+  let pending: Buffer = Buffer.alloc(0);
+  let format: PcmFormat;
+  // Data bytes left to read (Infinity while streaming or for raw input)
+  let remaining = Infinity;
+
+  if (raw) {
+    format = rawPcmFormat(raw.format, raw.sampleRate);
+  } else {
+    // Read enough to tell compressed audio from WAV
+    while (pending.length < FORMAT_HEADER_BYTES) {
+      const next = await iterator.next();
+      if (next.done) break;
+      pending = Buffer.concat([pending, next.value]);
+    }
+
+    const compressed = detectCompressedFormat(pending);
+    if (compressed) {
+      // Read the decoder's output as raw PCM
+      const decoder = findAudioDecoder(compressed);
+      iterator = decoder.decodeStream(prepend(pending, iterator), compressed)[Symbol.asyncIterator]();
+      pending = Buffer.alloc(0);
+      format = rawPcmFormat('f32le', decoder.sampleRate);
+    } else {
+      let header = readWavHeader(pending);
+      while (!header) {
+        const next = await iterator.next();
+        if (next.done) {
+          throw new Error(pending.length === 0 ? 'No audio received' : 'WAV file missing data chunk');
+        }
+        pending = Buffer.concat([pending, next.value]);
+        header = readWavHeader(pending);
+        if (!header && pending.length > MAX_WAV_HEADER_BYTES) {
+          throw new Error('WAV file missing data chunk');
+        }
+      }
+      format = header.format;
+      pending = pending.subarray(header.dataOffset);
+      // Streaming writers (arecord, sox) leave the data size unset or at its maximum
+      if (header.dataBytes > 0 && header.dataBytes < 0x7fffffff) {
+        remaining = header.dataBytes;
+      }
+    }
+  }
+
+  const frameBytes = (format.bitsPerSample / 8) * format.numChannels;
+
+  async function* chunks(): AsyncGenerator<Float32Array> {
+    try {
+      for (;;) {
+        const usable = Math.min(pending.length, remaining);
+        const whole = usable - (usable % frameBytes);
+        if (whole > 0) {
+          yield pcmToFloat32(pending.subarray(0, whole), format);
+          pending = pending.subarray(whole);
+          remaining -= whole;
+        }
+        if (remaining < frameBytes) return;
+
+        const next = await iterator.next();
+        if (next.done) return;
+        pending = pending.length > 0 ? Buffer.concat([pending, next.value]) : next.value;
+      }
+    } finally {
+      // Stop reading once the decoder is done with the stream
+      await iterator.return?.();
+    }
+  }
+
+  return {
+    sampleRate: format.sampleRate,
+    chunks: chunks(),
+    duration: Number.isFinite(remaining) ? remaining / frameBytes / format.sampleRate : undefined,
+  };
+}
+
+/**
+ * Re-cut audio into slices of a fixed length (only the last may be
+ * shorter). A pipe delivers chunks of arbitrary size, while the decoder
+ * detects preambles reliably only when fed steady slices.
+ */
+export async function* sliceAudio(
+  chunks: AsyncIterable<Float32Array>,
+  size: number
+): AsyncGenerator<Float32Array> {
+  let pending = new Float32Array(0);
+  for await (const samples of chunks) {
+    const available = new Float32Array(pending.length + samples.length);
+    available.set(pending);
+    available.set(samples, pending.length);
+
+    let offset = 0;
+    for (; offset + size <= available.length; offset += size) {
+      yield available.slice(offset, offset + size);
+    }
+    pending = available.slice(offset);
+  }
+  if (pending.length > 0) {
+    yield pending;
+  }
 }
 
 /**
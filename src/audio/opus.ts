@@ -0,0 +1,108 @@
+/**
+ * Opus encoding in the browser, to download a transmission as a voice message
+ *
+ * The WebCodecs AudioEncoder does the Opus encoding; lib/ogg wraps its
+ * packets in an OGG file.
+ */
+import { createOggOpus, OPUS_SAMPLE_RATE } from '../lib/ogg';
+
+/** Default bitrate: high for a voice note, so the tones come through clean */
+export const OPUS_BITRATE = 32000;
+
+function encoderConfig(bitrate: number): AudioEncoderConfig {
+  return {
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: 1,
+    // The default "audio" application keeps tones cleaner than the speech-tuned "voip"
+    bitrate,
+  };
+}
+
+/**
+ * Check whether this browser can encode Opus (WebCodecs)
+ */
+export async function isOggOpusSupported(): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(encoderConfig(OPUS_BITRATE));
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resample audio with the browser's resampler
+ */
+async function resample(samples: Float32Array, fromRate: number, toRate: number): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, Math.ceil(samples.length * toRate / fromRate), toRate);
+  const buffer = context.createBuffer(1, samples.length, fromRate);
+  buffer.getChannelData(0).set(samples);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+}
+
+/**
+ * Encode audio samples as an OGG/Opus file
+ * @param samples Audio samples (Float32Array, values -1 to 1)
+ * @param sampleRate Sample rate in Hz
+ * @param bitrate Opus bitrate in bit/s
+ * @returns OGG/Opus file as Uint8Array
+ */
+export async function createOGG(samples: Float32Array, sampleRate: number, bitrate = OPUS_BITRATE): Promise<Uint8Array> {
+  const pcm = sampleRate === OPUS_SAMPLE_RATE ? samples : await resample(samples, sampleRate, OPUS_SAMPLE_RATE);
+
+  const packets: Uint8Array[] = [];
+  let failure: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk: EncodedAudioChunk) => {
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      packets.push(packet);
+    },
+    error: (error: DOMException) => { failure = error; },
+  });
+  encoder.configure(encoderConfig(bitrate));
+
+  // Feed one second at a time
+  for (let offset = 0; offset < pcm.length; offset += OPUS_SAMPLE_RATE) {
+    const frame = pcm.slice(offset, offset + OPUS_SAMPLE_RATE);
+    const data = new AudioData({
+      format: 'f32',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frame.length,
+      numberOfChannels: 1,
+      timestamp: Math.round(offset / OPUS_SAMPLE_RATE * 1e6),
+      data: frame,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+
+  if (failure) {
+    throw failure;
+  }
+  return createOggOpus(packets, pcm.length, sampleRate);
+}
+
+/**
+ * Trigger download of an OGG/Opus file
+ */
+export async function downloadOGG(samples: Float32Array, sampleRate: number, filename = 'nedagram.ogg'): Promise<void> {
+  const ogg = await createOGG(samples, sampleRate);
+  const blob = new Blob([ogg as unknown as BlobPart], { type: 'audio/ogg' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
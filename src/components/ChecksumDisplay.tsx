@@ -1,13 +1,18 @@
 import { useState } from 'preact/hooks';
+import { useI18n } from '../i18n';
+import { type SignatureInfo } from '../lib/crypto';
 import './ChecksumDisplay.css';
 
 interface ChecksumDisplayProps {
   checksum: string;
   label: string;
   verified?: boolean;
+  /** Signer and validity of a signed message */
+  signature?: SignatureInfo;
 }
 
-export function ChecksumDisplay({ checksum, label, verified }: ChecksumDisplayProps) {
+export function ChecksumDisplay({ checksum, label, verified, signature }: ChecksumDisplayProps) {
+  const { t } = useI18n();
   const [copied, setCopied] = useState(false);
 
   const handleCopy = async () => {
@@ -53,6 +58,15 @@ export function ChecksumDisplay({ checksum, label, verified }: ChecksumDisplayPr
           </svg>
         )}
       </div>
+      {signature && (
+        <div class={`checksum-signature ${signature.valid ? 'valid' : 'invalid'}`}>
+          <span class="checksum-label">{t.receive.signedBy}</span>
+          <code class="checksum-value" title={signature.signer}>{signature.signer}</code>
+          <span class="checksum-signature-status">
+            {signature.valid ? t.receive.signatureValid : t.receive.signatureInvalid}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
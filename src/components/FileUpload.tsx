@@ -1,9 +1,14 @@
 import { useRef } from 'preact/hooks';
 import { Button } from './Button';
+import { type MessageMetadata } from '../encode/metadata';
+import { type BundleFile } from '../encode/bundle';
 import './FileUpload.css';
 
 interface FileUploadProps {
-  onFileSelect: (content: string, filename: string) => void;
+  /** Called with the file's text and its name, type and modification time */
+  onFileSelect: (content: string, metadata: MessageMetadata) => void;
+  /** Called with the files' names and bytes when several are selected (allows selecting several) */
+  onFilesSelect?: (files: BundleFile[]) => void;
   label: string;
   accept?: string;
   disabled?: boolean;
@@ -11,6 +16,7 @@ interface FileUploadProps {
 
 export function FileUpload({
   onFileSelect,
+  onFilesSelect,
   label,
   accept = '.txt,.json,.yaml,.yml,.conf,.ini,.toml,.xml,.env,.ovpn,.wgconf,.cert,.crt,.pem,.key',
   disabled = false,
@@ -23,12 +29,25 @@ export function FileUpload({
 
   const handleChange = async (e: Event) => {
     const target = e.target as HTMLInputElement;
-    const file = target.files?.[0];
+    const files = Array.from(target.files ?? []);
+    const file = files[0];
     if (!file) return;
 
     try {
-      const content = await file.text();
-      onFileSelect(content, file.name);
+      if (files.length > 1 && onFilesSelect) {
+        // Several files are sent byte for byte, as a bundle
+        onFilesSelect(await Promise.all(files.map(async f => ({
+          name: f.name,
+          data: new Uint8Array(await f.arrayBuffer()),
+        }))));
+      } else {
+        const content = await file.text();
+        onFileSelect(content, {
+          filename: file.name,
+          mimeType: file.type || undefined,
+          createdAt: file.lastModified ? new Date(file.lastModified) : undefined,
+        });
+      }
     } catch (err) {
       console.error('Failed to read file:', err);
     }
@@ -43,6 +62,7 @@ export function FileUpload({
         ref={inputRef}
         type="file"
         accept={accept}
+        multiple={!!onFilesSelect}
         onChange={handleChange}
         class="file-input"
         disabled={disabled}
@@ -0,0 +1,240 @@
+import { useState } from 'preact/hooks';
+import { useI18n } from '../i18n';
+import { Button } from './Button';
+import {
+  keyPair,
+  contacts,
+  sharedKeys,
+  createKeyPair,
+  importPrivateKey,
+  removeKeyPair,
+  addContact,
+  removeContact,
+  addSharedKey,
+  createSharedKey,
+  removeSharedKey,
+} from '../keys';
+import './KeyManager.css';
+
+interface KeyManagerProps {
+  /**
+   * "own": our key pair for receiving; "contacts": recipients' public keys
+   * for sending; "shared": pre-shared keys for both
+   */
+  variant: 'own' | 'contacts' | 'shared';
+  /** Public key of the selected recipient (contacts), or the selected pre-shared key (shared) */
+  selected?: string;
+  onSelect?: (key: string) => void;
+}
+
+function shortKey(key: string): string {
+  return key.slice(0, 16) + '...' + key.slice(-8);
+}
+
+export function KeyManager({ variant, selected, onSelect }: KeyManagerProps) {
+  const { t } = useI18n();
+  const [keyInput, setKeyInput] = useState('');
+  const [nameInput, setNameInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(text);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      await importPrivateKey(keyInput);
+      setKeyInput('');
+      setError(null);
+    } catch {
+      setError(t.keys.invalidKey);
+    }
+  };
+
+  const handleRemoveKey = () => {
+    if (confirm(t.keys.removeConfirm)) {
+      removeKeyPair();
+    }
+  };
+
+  const handleAddContact = () => {
+    try {
+      addContact(nameInput, keyInput);
+      onSelect?.(keyInput.trim());
+      setKeyInput('');
+      setNameInput('');
+      setError(null);
+    } catch {
+      setError(t.keys.invalidKey);
+    }
+  };
+
+  const handleAddSharedKey = async () => {
+    try {
+      const entry = await addSharedKey(nameInput, keyInput);
+      onSelect?.(entry.key);
+      setKeyInput('');
+      setNameInput('');
+      setError(null);
+    } catch {
+      setError(t.keys.invalidKey);
+    }
+  };
+
+  const handleCreateSharedKey = async () => {
+    const entry = await createSharedKey(nameInput);
+    onSelect?.(entry.key);
+    setNameInput('');
+  };
+
+  const removeIcon = (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  );
+
+  const nameInputField = (
+    <input
+      type="text"
+      class="key-input key-name-input"
+      value={nameInput}
+      onInput={(e) => setNameInput((e.target as HTMLInputElement).value)}
+      placeholder={t.keys.contactName}
+    />
+  );
+
+  const keyInputField = (placeholder: string) => (
+    <input
+      type="text"
+      class="key-input"
+      value={keyInput}
+      onInput={(e) => { setKeyInput((e.target as HTMLInputElement).value); setError(null); }}
+      placeholder={placeholder}
+      autocapitalize="off"
+      autocorrect="off"
+      autocomplete="off"
+      spellcheck={false}
+    />
+  );
+
+  if (variant === 'shared') {
+    return (
+      <div class="key-manager">
+        <span class="key-manager-title">{t.keys.sharedKeys}</span>
+        <p class="key-manager-hint">{t.keys.sharedKeysHint}</p>
+
+        {sharedKeys.value.length > 0 && (
+          <ul class="key-contacts">
+            {sharedKeys.value.map(entry => (
+              <li key={entry.key} class={`key-contact ${entry.key === selected ? 'selected' : ''}`}>
+                <button class="key-contact-select" onClick={() => onSelect?.(entry.key)}>
+                  <span class="key-contact-name">{entry.name}</span>
+                  <code class="key-contact-key">{t.keys.keyId} {entry.keyId}</code>
+                </button>
+                <Button onClick={() => handleCopy(entry.key)} variant="ghost" size="sm">
+                  {copied === entry.key ? t.keys.copied : t.keys.copyKey}
+                </Button>
+                <button class="key-contact-remove" onClick={() => removeSharedKey(entry.key)} title={t.keys.remove}>
+                  {removeIcon}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div class="key-add-row">
+          {nameInputField}
+          {keyInputField(t.keys.sharedKeyPlaceholder)}
+          <Button onClick={handleAddSharedKey} variant="secondary" size="sm" disabled={!keyInput.trim()}>
+            {t.keys.add}
+          </Button>
+          <Button onClick={handleCreateSharedKey} size="sm">{t.keys.generate}</Button>
+        </div>
+
+        {error && <div class="key-error">{error}</div>}
+      </div>
+    );
+  }
+
+  if (variant === 'own') {
+    const pair = keyPair.value;
+    return (
+      <div class="key-manager">
+        <span class="key-manager-title">{t.keys.myKey}</span>
+        <p class="key-manager-hint">{t.keys.myKeyHint}</p>
+
+        {pair ? (
+          <>
+            <code class="key-value" title={pair.publicKey}>{pair.publicKey}</code>
+            <div class="key-actions">
+              <Button onClick={() => handleCopy(pair.publicKey)} size="sm">
+                {copied === pair.publicKey ? t.keys.copied : t.keys.copyPublic}
+              </Button>
+              <Button onClick={() => handleCopy(pair.privateKey)} variant="secondary" size="sm">
+                {copied === pair.privateKey ? t.keys.copied : t.keys.exportPrivate}
+              </Button>
+              <Button onClick={handleRemoveKey} variant="ghost" size="sm">
+                {t.keys.remove}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div class="key-actions">
+              <Button onClick={createKeyPair} size="sm">{t.keys.generate}</Button>
+            </div>
+            <div class="key-add-row">
+              {keyInputField(t.keys.privateKeyPlaceholder)}
+              <Button onClick={handleImport} variant="secondary" size="sm" disabled={!keyInput.trim()}>
+                {t.keys.importPrivate}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && <div class="key-error">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div class="key-manager">
+      <span class="key-manager-title">{t.keys.contacts}</span>
+
+      {contacts.value.length === 0 ? (
+        <p class="key-manager-hint">{t.keys.noContacts}</p>
+      ) : (
+        <ul class="key-contacts">
+          {contacts.value.map(contact => (
+            <li key={contact.publicKey} class={`key-contact ${contact.publicKey === selected ? 'selected' : ''}`}>
+              <button class="key-contact-select" onClick={() => onSelect?.(contact.publicKey)}>
+                <span class="key-contact-name">{contact.name}</span>
+                <code class="key-contact-key" title={contact.publicKey}>{shortKey(contact.publicKey)}</code>
+              </button>
+              <button class="key-contact-remove" onClick={() => removeContact(contact.publicKey)} title={t.keys.remove}>
+                {removeIcon}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div class="key-add-row">
+        {nameInputField}
+        {keyInputField(t.keys.publicKeyPlaceholder)}
+        <Button onClick={handleAddContact} variant="secondary" size="sm" disabled={!keyInput.trim()}>
+          {t.keys.add}
+        </Button>
+      </div>
+
+      {error && <div class="key-error">{error}</div>}
+    </div>
+  );
+}
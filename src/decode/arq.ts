@@ -0,0 +1,48 @@
+/**
+ * ARQ control message parsing
+ *
+ * Record layout is documented in encode/arq.ts
+ */
+import { ARQ } from '../utils/constants';
+import { ARQ_TYPE_IDS, type ArqMessage, type ArqMessageType } from '../encode/arq';
+import { readUint16LE } from '../utils/helpers';
+
+/**
+ * Parse an ACK/NACK control record
+ * Returns null for a wrong magic, an unknown type or a truncated record
+ */
+export function parseArqRecord(record: Uint8Array): ArqMessage | null {
+  if (record.length < ARQ.RECORD_HEADER_SIZE) {
+    console.log('[ARQ] Control record too short:', record.length);
+    return null;
+  }
+
+  if (String.fromCharCode(record[0]) !== ARQ.MAGIC) {
+    console.log('[ARQ] Invalid control magic:', record[0]);
+    return null;
+  }
+
+  const typeEntry = Object.entries(ARQ_TYPE_IDS).find(([, id]) => id === record[1]);
+  if (!typeEntry) {
+    console.log('[ARQ] Unknown control message type:', record[1]);
+    return null;
+  }
+
+  const count = readUint16LE(record, 5);
+  if (record.length < ARQ.RECORD_HEADER_SIZE + count * 2) {
+    console.log('[ARQ] Control record truncated: have', record.length, 'need', ARQ.RECORD_HEADER_SIZE + count * 2);
+    return null;
+  }
+
+  const missingFrames: number[] = [];
+  for (let i = 0; i < count; i++) {
+    missingFrames.push(readUint16LE(record, ARQ.RECORD_HEADER_SIZE + i * 2));
+  }
+
+  return {
+    type: typeEntry[0] as ArqMessageType,
+    sessionId: readUint16LE(record, 2),
+    segmentIndex: record[4],
+    missingFrames,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * File bundle parsing
+ *
+ * Bundle layout is documented in encode/bundle.ts
+ */
+import { BUNDLE } from '../utils/constants';
+import { type BundleFile } from '../encode/bundle';
+import { bytesToString } from '../utils/helpers';
+import { crc32 } from '../lib/crc32';
+
+/**
+ * Unpack the files of a bundle
+ * Returns null for a wrong magic, a truncated bundle or a file whose CRC32
+ * does not match
+ */
+export function parseBundle(data: Uint8Array): BundleFile[] | null {
+  if (data.length < BUNDLE.HEADER_SIZE) {
+    console.log('[Bundle] Bundle too short:', data.length);
+    return null;
+  }
+
+  if (String.fromCharCode(data[0]) !== BUNDLE.MAGIC) {
+    console.log('[Bundle] Invalid bundle magic:', data[0]);
+    return null;
+  }
+
+  const count = data[1];
+  if (count < 1) {
+    console.log('[Bundle] Bundle has no files');
+    return null;
+  }
+
+  const entries: { name: string; size: number; crc: number }[] = [];
+  let offset = BUNDLE.HEADER_SIZE;
+  for (let i = 0; i < count; i++) {
+    if (offset >= data.length || offset + BUNDLE.ENTRY_FIXED_SIZE + data[offset] > data.length) {
+      console.log('[Bundle] Entry', i + 1, 'overruns the bundle at', offset);
+      return null;
+    }
+    const nameLength = data[offset];
+    const name = bytesToString(data.subarray(offset + 1, offset + 1 + nameLength));
+    offset += 1 + nameLength;
+    const size = (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+    const crc = (data[offset + 4] | (data[offset + 5] << 8) | (data[offset + 6] << 16) | (data[offset + 7] << 24)) >>> 0;
+    offset += 8;
+    entries.push({ name, size, crc });
+  }
+
+  const contentSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (offset + contentSize !== data.length) {
+    console.log('[Bundle] Size mismatch: files take', contentSize, 'bytes, have', data.length - offset);
+    return null;
+  }
+
+  const files: BundleFile[] = [];
+  for (const entry of entries) {
+    const content = data.subarray(offset, offset + entry.size);
+    offset += entry.size;
+    if (crc32(content) !== entry.crc) {
+      console.log('[Bundle] CRC32 mismatch for', entry.name);
+      return null;
+    }
+    files.push({ name: entry.name, data: content });
+  }
+
+  return files;
+}
@@ -0,0 +1,119 @@
+/**
+ * Compact config expansion
+ *
+ * Compact config layout is documented in encode/config.ts
+ */
+import { COMPACT_CONFIG } from '../utils/constants';
+import {
+  CONFIG_TOKENS,
+  CONFIG_STRINGS,
+  BASE64_TOKEN_VARIANTS,
+  toBase64,
+  formatUuid,
+  formatIPv6,
+} from '../encode/config';
+import { readUint16LE, stringToBytes } from '../utils/helpers';
+
+/** Bytes following each fixed-size token type */
+const TOKEN_SIZES: Record<number, number> = {
+  [CONFIG_TOKENS.UUID]: 16,
+  [CONFIG_TOKENS.IPV4]: 4,
+  [CONFIG_TOKENS.IPV6]: 16,
+  [CONFIG_TOKENS.KEY_BASE64]: 32,
+  [CONFIG_TOKENS.KEY_BASE64URL]: 32,
+};
+
+/**
+ * Rebuild the text of the tokens between start and end
+ * Returns null for an unknown token or one that overruns the end
+ */
+function expandTokens(data: Uint8Array, start: number, end: number): Uint8Array | null {
+  const parts: Uint8Array[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const type = data[offset++];
+
+    if (type >= CONFIG_TOKENS.STRING) {
+      const string = CONFIG_STRINGS[type - CONFIG_TOKENS.STRING];
+      if (string === undefined) {
+        console.log('[Config] Unknown string ID:', type - CONFIG_TOKENS.STRING);
+        return null;
+      }
+      parts.push(stringToBytes(string));
+      continue;
+    }
+
+    if (type === CONFIG_TOKENS.LITERAL) {
+      if (offset >= end || offset + 1 + data[offset] > end) {
+        console.log('[Config] Literal overruns the config at', offset);
+        return null;
+      }
+      parts.push(data.subarray(offset + 1, offset + 1 + data[offset]));
+      offset += 1 + data[offset];
+      continue;
+    }
+
+    if (type === CONFIG_TOKENS.BASE64_TEXT || type === CONFIG_TOKENS.BASE64_TEXT_UNPADDED || type === CONFIG_TOKENS.BASE64URL_TEXT) {
+      if (offset + 2 > end || offset + 2 + readUint16LE(data, offset) > end) {
+        console.log('[Config] Base64 text overruns the config at', offset);
+        return null;
+      }
+      const innerEnd = offset + 2 + readUint16LE(data, offset);
+      const inner = expandTokens(data, offset + 2, innerEnd);
+      if (!inner) {
+        return null;
+      }
+      parts.push(stringToBytes(toBase64(inner, BASE64_TOKEN_VARIANTS[type])));
+      offset = innerEnd;
+      continue;
+    }
+
+    const size = TOKEN_SIZES[type];
+    if (size === undefined) {
+      console.log('[Config] Unknown token type:', type);
+      return null;
+    }
+    if (offset + size > end) {
+      console.log('[Config] Token overruns the config at', offset);
+      return null;
+    }
+    const bytes = data.subarray(offset, offset + size);
+    offset += size;
+
+    switch (type) {
+      case CONFIG_TOKENS.UUID:
+        parts.push(stringToBytes(formatUuid(bytes)));
+        break;
+      case CONFIG_TOKENS.IPV4:
+        parts.push(stringToBytes(Array.from(bytes).join('.')));
+        break;
+      case CONFIG_TOKENS.IPV6:
+        parts.push(stringToBytes(formatIPv6(bytes)));
+        break;
+      default:
+        parts.push(stringToBytes(toBase64(bytes, BASE64_TOKEN_VARIANTS[type])));
+    }
+  }
+
+  const text = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    text.set(part, position);
+    position += part.length;
+  }
+  return text;
+}
+
+/**
+ * Rebuild the text of a compact config
+ * Returns null for a wrong magic, an unknown token or a truncated config
+ */
+export function parseCompactConfig(data: Uint8Array): Uint8Array | null {
+  if (data.length < 1 || String.fromCharCode(data[0]) !== COMPACT_CONFIG.MAGIC) {
+    console.log('[Config] Invalid config magic:', data[0]);
+    return null;
+  }
+
+  return expandTokens(data, 1, data.length);
+}
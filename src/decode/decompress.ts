@@ -1,10 +1,26 @@
 /**
  * Decompression and decryption utilities
  */
-import { decompress as pakoDecompress } from '../encode/compress';
+import { decompress as decompressData } from '../encode/compress';
 import { FRAME } from '../utils/constants';
-import { decrypt } from '../lib/crypto';
+import {
+  decrypt,
+  decryptLegacy,
+  decryptWithPrivateKey,
+  decryptWithPreSharedKey,
+  getEnvelopeKeyId,
+  getKeyId,
+  isValidPreSharedKey,
+  verifySignatureTrailer,
+  SIGNATURE_TRAILER_SIZE,
+  type SignatureInfo,
+} from '../lib/crypto';
 import { crc32 } from '../lib/crc32';
+import { type MessageMetadata } from '../encode/metadata';
+import { parseMetadataBlock } from './metadata';
+import { type BundleFile } from '../encode/bundle';
+import { parseBundle } from './bundle';
+import { parseCompactConfig } from './config';
 
 /**
  * Result of processing received payload
@@ -14,17 +30,47 @@ export interface ProcessResult {
   data?: Uint8Array;
   error?: string;
   needsPassword?: boolean;
+  needsKey?: boolean;
+  /** ID of the pre-shared key the payload was encrypted with */
+  keyId?: string;
+  /** Signer and validity when the payload was signed */
+  signature?: SignatureInfo;
+  /** File name, type, time and label sent with the data */
+  metadata?: MessageMetadata;
+  /** Files unpacked from a bundle (the data is the bundle itself) */
+  files?: BundleFile[];
 }
 
 /**
- * Decrypt received payload
+ * Decrypt received payload, in the envelope layout or the legacy one
  * Returns null if decryption fails (wrong password)
  */
 export async function decryptPayload(
   payload: Uint8Array,
-  password: string
+  password: string,
+  kdfEnvelope: boolean = false
 ): Promise<Uint8Array | null> {
-  return decrypt(payload, password);
+  return kdfEnvelope ? decrypt(payload, password) : decryptLegacy(payload, password);
+}
+
+/**
+ * Decrypt a payload encrypted with a pre-shared key, using the candidate
+ * keys whose ID matches the one in the envelope
+ * Returns null if no candidate matches, false if none decrypts it
+ */
+async function decryptWithKeyring(
+  payload: Uint8Array,
+  keyId: string,
+  candidates: string[]
+): Promise<Uint8Array | null | false> {
+  let matched = false;
+  for (const key of candidates) {
+    if (!isValidPreSharedKey(key) || await getKeyId(key) !== keyId) continue;
+    matched = true;
+    const decrypted = await decryptWithPreSharedKey(payload, key);
+    if (decrypted) return decrypted;
+  }
+  return matched ? false : null;
 }
 
 /**
@@ -40,8 +86,13 @@ export function decompressPayload(
       return payload;
 
     case FRAME.COMPRESSION_DEFLATE:
+    case FRAME.COMPRESSION_DEFLATE_RAW:
+    case FRAME.COMPRESSION_DICTIONARY:
+    case FRAME.COMPRESSION_DIGITS:
+    case FRAME.COMPRESSION_UPPERCASE:
+    case FRAME.COMPRESSION_PERSIAN:
       try {
-        const decompressed = pakoDecompress(payload);
+        const decompressed = decompressData(payload, compressionAlgo, expectedOriginalLength);
 
         // Verify length matches expected
         if (decompressed.length !== expectedOriginalLength) {
@@ -62,7 +113,20 @@ export function decompressPayload(
 
 /**
  * Process received payload: verify CRC32 (if present), decrypt (if needed), then decompress
- * Order: Verify CRC32 → Decrypt → Decompress (reverse of encode order)
+ * Order: Verify CRC32 → Decrypt → Strip signature → Decompress → Verify signature
+ * → Split metadata → Expand compact config / Unpack bundle (reverse of encode order)
+ *
+ * A payload encrypted to a public key (publicKey) is decrypted with the
+ * private key instead of the password; a password-encrypted one names its
+ * key derivation in an envelope header (kdfEnvelope) or, from senders
+ * before the envelope existed, uses the legacy layout. An envelope sealed
+ * with a pre-shared key names its key ID; the key is picked from
+ * preSharedKeys, or taken from the password when one was pasted there. A signed payload still decodes when
+ * its signature does not verify; the result reports it as invalid. With
+ * metadata, the data starts with a metadata block (covered by the
+ * signature), which is returned separately. A bundle's files are returned
+ * alongside the bundle, which stays the data (the checksum covers it). A
+ * compact config is expanded back to the text it was made from.
  */
 export async function processPayload(
   payload: Uint8Array,
@@ -71,7 +135,15 @@ export async function processPayload(
   compressionAlgo: number,
   expectedOriginalLength: number,
   hasCrc32: boolean = false,
-  password?: string
+  password?: string,
+  publicKey: boolean = false,
+  privateKey?: string,
+  signed: boolean = false,
+  kdfEnvelope: boolean = false,
+  preSharedKeys: string[] = [],
+  metadata: boolean = false,
+  bundle: boolean = false,
+  compactConfig: boolean = false
 ): Promise<ProcessResult> {
   let data = payload;
 
@@ -103,19 +175,54 @@ export async function processPayload(
   }
 
   // Step 2: Decrypt if encrypted
-  if (encrypted) {
+  if (encrypted && publicKey) {
+    if (!privateKey) {
+      return { success: false, needsKey: true, error: 'Private key required for encrypted data' };
+    }
+
+    let decrypted: Uint8Array | null;
+    try {
+      decrypted = await decryptWithPrivateKey(data, privateKey);
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Invalid private key' };
+    }
+    if (!decrypted) {
+      return { success: false, error: 'Decryption failed - wrong private key or corrupted data' };
+    }
+    data = decrypted;
+  } else if (encrypted && kdfEnvelope && getEnvelopeKeyId(data)) {
+    const keyId = getEnvelopeKeyId(data)!;
+    const decrypted = await decryptWithKeyring(data, keyId, password ? [...preSharedKeys, password.trim()] : preSharedKeys);
+    if (decrypted === null) {
+      return { success: false, needsPassword: true, keyId, error: `Pre-shared key ${keyId} required for encrypted data` };
+    }
+    if (!decrypted) {
+      return { success: false, error: 'Decryption failed - wrong pre-shared key or corrupted data' };
+    }
+    data = decrypted;
+  } else if (encrypted) {
     if (!password) {
       return { success: false, needsPassword: true, error: 'Password required for encrypted data' };
     }
 
-    const decrypted = await decryptPayload(data, password);
+    const decrypted = await decryptPayload(data, password, kdfEnvelope);
     if (!decrypted) {
       return { success: false, error: 'Decryption failed - wrong password or corrupted data' };
     }
     data = decrypted;
   }
 
-  // Step 3: Decompress if compressed
+  // Step 3: Strip the signature trailer (it follows the compressed data)
+  let trailer: Uint8Array | undefined;
+  if (signed) {
+    if (data.length < SIGNATURE_TRAILER_SIZE) {
+      return { success: false, error: 'Payload too short for signature' };
+    }
+    trailer = data.subarray(data.length - SIGNATURE_TRAILER_SIZE);
+    data = data.subarray(0, data.length - SIGNATURE_TRAILER_SIZE);
+  }
+
+  // Step 4: Decompress if compressed
   if (compressed) {
     try {
       data = decompressPayload(data, compressionAlgo, expectedOriginalLength);
@@ -127,5 +234,38 @@ export async function processPayload(
     }
   }
 
-  return { success: true, data };
+  // Step 5: Verify the signature over the original data
+  const signature = trailer ? await verifySignatureTrailer(data, trailer) : undefined;
+
+  // Step 6: Split the metadata block from the data
+  let messageMetadata: MessageMetadata | undefined;
+  if (metadata) {
+    const parsed = parseMetadataBlock(data);
+    if (!parsed) {
+      return { success: false, error: 'Invalid metadata block' };
+    }
+    data = parsed.data;
+    messageMetadata = parsed.metadata;
+  }
+
+  // Step 7: Expand a compact config back to its text
+  if (compactConfig) {
+    const expanded = parseCompactConfig(data);
+    if (!expanded) {
+      return { success: false, error: 'Invalid compact config' };
+    }
+    data = expanded;
+  }
+
+  // Step 8: Unpack the files of a bundle
+  let files: BundleFile[] | undefined;
+  if (bundle) {
+    const parsed = parseBundle(data);
+    if (!parsed) {
+      return { success: false, error: 'Invalid file bundle' };
+    }
+    files = parsed;
+  }
+
+  return { success: true, data, signature, metadata: messageMetadata, files };
 }
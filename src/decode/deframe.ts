@@ -10,20 +10,59 @@
  *   [8-9]  Session ID (2 bytes)
  *   [10-11] CRC16
  *
+ * Header extension (12 bytes, only when FLAG_EXTENDED is set):
+ *   [0]    Magic "X"
+ *   [1]    FEC profile ID (0=normal, 1=light, 2=heavy)
+ *   [2]    Extension flags (bit0=wide frame index, bit1=segmented,
+ *          bit2=retransmission, bit3=ARQ control message,
+ *          bit4=repair frames, bit5=public-key encryption)
+ *   [3-4]  Total frames (2 bytes)
+ *   [5]    Payload length bits 16-23
+ *   [6]    Original length bits 16-23
+ *   [7]    Segment index (1-based)
+ *   [8]    Segment count
+ *   [9]    Frames in this retransmission
+ *   [10]   Repair overhead percent
+ *   [11]   Extension flags 2 (bit0=metadata block, bit1=file bundle,
+ *          bits2-4=compression algorithm ID, 0 when DEFLATE,
+ *          bit5=compact config)
+ *
  * Data frame (variable length):
  *   [0]    Magic "D"
- *   [1]    Frame index (1 byte)
+ *   [1]    Frame index (1 byte; 2 bytes LE with wide frame index)
  *   [2]    Payload length (1 byte, actual data in this frame)
  *   [3..n] Payload (variable, no padding)
+ *
+ * Repair frames carry indices after the last data frame (see repair.ts)
  */
-import { FRAME_V3 } from '../utils/constants';
-import { ProtocolVersion } from '../encode/frame';
+import { FRAME_V3, REPAIR } from '../utils/constants';
+import {
+  ProtocolVersion,
+  FEC_PROFILE_IDS,
+  EXT_FLAG_WIDE_INDEX,
+  EXT_FLAG_SEGMENTED,
+  EXT_FLAG_RETRANSMIT,
+  EXT_FLAG_CONTROL,
+  EXT_FLAG_REPAIR,
+  EXT_FLAG_PUBLIC_KEY,
+  EXT_FLAG_SIGNED,
+  EXT_FLAG_KDF_ENVELOPE,
+  EXT2_FLAG_METADATA,
+  EXT2_FLAG_BUNDLE,
+  EXT2_COMPRESSION_SHIFT,
+  EXT2_COMPRESSION_MASK,
+  EXT2_FLAG_CONFIG,
+} from '../encode/frame';
+import { DEFAULT_FEC_PROFILE, type FECProfile } from '../encode/v3-fec';
+import { getRepairFrameCount } from '../encode/repair';
+import { recoverMissingFrames } from './repair';
 import { readUint16LE, bytesToString } from '../utils/helpers';
 
 // Flag bits (must match encode/frame.ts)
 const FLAG_COMPRESSED = 0x01;     // bit 0: data is compressed
 const FLAG_ENCRYPTED = 0x02;      // bit 1: data is encrypted
 const FLAG_CRC32_PRESENT = 0x04;  // bit 2: CRC32 appended to payload (for unencrypted data)
+const FLAG_EXTENDED = 0x08;       // bit 3: header extension frame follows the header
 
 export interface HeaderInfo {
   magic: string;
@@ -41,6 +80,57 @@ export interface HeaderInfo {
   crcValid: boolean;
   /** Protocol version detected from magic bytes */
   protocolVersion: ProtocolVersion;
+  /** A header extension frame follows the header */
+  extended: boolean;
+  /** FEC profile of the data frames (normal until the extension is decoded) */
+  fecProfile: FECProfile;
+  /** Data frames carry a 2-byte frame index (set from the extension) */
+  wideFrameIndex: boolean;
+  /** 1-based position of this transmission in a chain (1 when not chained) */
+  segmentIndex: number;
+  /** Number of chained transmissions (1 when not chained) */
+  segmentCount: number;
+  /** Frames sent in an ARQ retransmission (0 for a normal transmission) */
+  retransmitFrames: number;
+  /** Payload is an ARQ control message rather than user data */
+  control: boolean;
+  /** Repair frames per block in percent (0 when none are sent) */
+  repairOverhead: number;
+  /** Encrypted payload is encrypted to a public key rather than a password */
+  publicKey: boolean;
+  /** Payload ends with a signature trailer */
+  signed: boolean;
+  /** Password-encrypted payload starts with a KDF envelope header (legacy layout otherwise) */
+  kdfEnvelope: boolean;
+  /** Data starts with a metadata block */
+  metadata: boolean;
+  /** Data is a bundle of several files */
+  bundle: boolean;
+  /** Data is a compact config */
+  compactConfig: boolean;
+}
+
+export interface HeaderExtensionInfo {
+  fecProfile: FECProfile;
+  wideFrameIndex: boolean;
+  totalFrames: number;
+  /** Bits 16-23 of the payload length (low bits are in the header) */
+  payloadLengthHigh: number;
+  /** Bits 16-23 of the original length (low bits are in the header) */
+  originalLengthHigh: number;
+  segmentIndex: number;
+  segmentCount: number;
+  retransmitFrames: number;
+  control: boolean;
+  repairOverhead: number;
+  publicKey: boolean;
+  signed: boolean;
+  kdfEnvelope: boolean;
+  metadata: boolean;
+  bundle: boolean;
+  /** Compression algorithm ID, 0 when the header's (DEFLATE) applies */
+  compressionAlgo: number;
+  compactConfig: boolean;
 }
 
 export interface DataFrameInfo {
@@ -115,21 +205,136 @@ export function parseHeaderFrame(frame: Uint8Array): HeaderInfo | null {
     hasCrc32: (flags & FLAG_CRC32_PRESENT) !== 0,
     crcValid,
     protocolVersion,
+    extended: (flags & FLAG_EXTENDED) !== 0,
+    fecProfile: DEFAULT_FEC_PROFILE,
+    wideFrameIndex: false,
+    segmentIndex: 1,
+    segmentCount: 1,
+    retransmitFrames: 0,
+    control: false,
+    repairOverhead: 0,
+    publicKey: false,
+    signed: false,
+    kdfEnvelope: false,
+    metadata: false,
+    bundle: false,
+    compactConfig: false,
+  };
+}
+
+/**
+ * Parse header extension frame (after RS/Viterbi decoding)
+ * Input: 12-byte extension
+ *
+ * Returns null for a wrong magic, an unknown FEC profile ID or an
+ * impossible frame count / segment position / repair overhead
+ */
+export function parseHeaderExtension(frame: Uint8Array): HeaderExtensionInfo | null {
+  if (frame.length < FRAME_V3.EXTENSION_SIZE) {
+    console.log('[Deframe] Header extension too short:', frame.length, 'expected', FRAME_V3.EXTENSION_SIZE);
+    return null;
+  }
+
+  if (String.fromCharCode(frame[0]) !== FRAME_V3.EXTENSION_MAGIC) {
+    console.log('[Deframe] Invalid extension magic:', frame[0]);
+    return null;
+  }
+
+  const profileEntry = Object.entries(FEC_PROFILE_IDS).find(([, id]) => id === frame[1]);
+  if (!profileEntry) {
+    console.log('[Deframe] Unknown FEC profile ID:', frame[1]);
+    return null;
+  }
+
+  const totalFrames = readUint16LE(frame, 3);
+  if (totalFrames < 1) {
+    console.log('[Deframe] Invalid extension frame count:', totalFrames);
+    return null;
+  }
+
+  const segmented = (frame[2] & EXT_FLAG_SEGMENTED) !== 0;
+  const segmentIndex = segmented ? frame[7] : 1;
+  const segmentCount = segmented ? frame[8] : 1;
+  if (segmented && (segmentCount < 2 || segmentIndex < 1 || segmentIndex > segmentCount)) {
+    console.log('[Deframe] Invalid segment position:', segmentIndex, 'of', segmentCount);
+    return null;
+  }
+
+  const retransmitFrames = (frame[2] & EXT_FLAG_RETRANSMIT) !== 0 ? frame[9] : 0;
+  if ((frame[2] & EXT_FLAG_RETRANSMIT) !== 0 && (retransmitFrames < 1 || retransmitFrames > totalFrames)) {
+    console.log('[Deframe] Invalid retransmission frame count:', retransmitFrames, 'of', totalFrames);
+    return null;
+  }
+
+  const repairOverhead = (frame[2] & EXT_FLAG_REPAIR) !== 0 ? frame[10] : 0;
+  if ((frame[2] & EXT_FLAG_REPAIR) !== 0 && (repairOverhead < 1 || repairOverhead > REPAIR.MAX_OVERHEAD_PERCENT)) {
+    console.log('[Deframe] Invalid repair overhead:', repairOverhead);
+    return null;
+  }
+
+  return {
+    fecProfile: profileEntry[0] as FECProfile,
+    wideFrameIndex: (frame[2] & EXT_FLAG_WIDE_INDEX) !== 0,
+    totalFrames,
+    payloadLengthHigh: frame[5],
+    originalLengthHigh: frame[6],
+    segmentIndex,
+    segmentCount,
+    retransmitFrames,
+    control: (frame[2] & EXT_FLAG_CONTROL) !== 0,
+    repairOverhead,
+    publicKey: (frame[2] & EXT_FLAG_PUBLIC_KEY) !== 0,
+    signed: (frame[2] & EXT_FLAG_SIGNED) !== 0,
+    kdfEnvelope: (frame[2] & EXT_FLAG_KDF_ENVELOPE) !== 0,
+    metadata: (frame[11] & EXT2_FLAG_METADATA) !== 0,
+    bundle: (frame[11] & EXT2_FLAG_BUNDLE) !== 0,
+    compressionAlgo: (frame[11] & EXT2_COMPRESSION_MASK) >> EXT2_COMPRESSION_SHIFT,
+    compactConfig: (frame[11] & EXT2_FLAG_CONFIG) !== 0,
+  };
+}
+
+/**
+ * Merge a decoded header extension into the header
+ * Replaces the capped frame count, completes the 16-bit lengths and
+ * records the segment position, ARQ transmission kind, repair overhead,
+ * encryption kind, signature and compression algorithm
+ */
+export function applyHeaderExtension(header: HeaderInfo, extension: HeaderExtensionInfo): HeaderInfo {
+  return {
+    ...header,
+    fecProfile: extension.fecProfile,
+    wideFrameIndex: extension.wideFrameIndex,
+    totalFrames: extension.totalFrames,
+    payloadLength: (extension.payloadLengthHigh << 16) | header.payloadLength,
+    originalLength: (extension.originalLengthHigh << 16) | header.originalLength,
+    segmentIndex: extension.segmentIndex,
+    segmentCount: extension.segmentCount,
+    retransmitFrames: extension.retransmitFrames,
+    control: extension.control,
+    repairOverhead: extension.repairOverhead,
+    publicKey: extension.publicKey,
+    signed: extension.signed,
+    kdfEnvelope: extension.kdfEnvelope,
+    metadata: extension.metadata,
+    bundle: extension.bundle,
+    compressionAlgo: header.compressed && extension.compressionAlgo ? extension.compressionAlgo : header.compressionAlgo,
+    compactConfig: extension.compactConfig,
   };
 }
 
 /**
  * Parse compact data frame (after RS decoding)
- * Input: variable length (3 + payloadLength bytes)
+ * Input: variable length (3 + payloadLength bytes, 4 + payloadLength with wide index)
  *
  * Format:
  *   [0]    Magic "D"
- *   [1]    Frame index (1-based)
+ *   [1]    Frame index (1-based; [1-2] LE with wide index)
  *   [2]    Payload length
  *   [3..n] Payload
  */
-export function parseDataFrame(frame: Uint8Array): DataFrameInfo | null {
-  if (frame.length < 3) {
+export function parseDataFrame(frame: Uint8Array, wideIndex: boolean = false): DataFrameInfo | null {
+  const headerSize = wideIndex ? FRAME_V3.WIDE_DATA_HEADER_SIZE : FRAME_V3.DATA_HEADER_SIZE;
+  if (frame.length < headerSize) {
     console.log('[Deframe] Data frame too short:', frame.length);
     return null;
   }
@@ -141,12 +346,12 @@ export function parseDataFrame(frame: Uint8Array): DataFrameInfo | null {
     return null;
   }
 
-  const frameIndex = frame[1];
-  const payloadLength = frame[2];
+  const frameIndex = wideIndex ? readUint16LE(frame, 1) : frame[1];
+  const payloadLength = frame[headerSize - 1];
 
   // Verify we have enough data
-  if (frame.length < 3 + payloadLength) {
-    console.log('[Deframe] Data frame truncated: have', frame.length, 'need', 3 + payloadLength);
+  if (frame.length < headerSize + payloadLength) {
+    console.log('[Deframe] Data frame truncated: have', frame.length, 'need', headerSize + payloadLength);
     return null;
   }
 
@@ -154,34 +359,97 @@ export function parseDataFrame(frame: Uint8Array): DataFrameInfo | null {
     magic,
     frameIndex,
     payloadLength,
-    payload: frame.subarray(3, 3 + payloadLength),
+    payload: frame.subarray(headerSize, headerSize + payloadLength),
     crcValid: true, // RS handles error detection
   };
 }
 
+/**
+ * Everything received for one session: payloads of finished chain segments
+ * and the frames of transmissions that are still incomplete
+ */
+export interface PartialReception {
+  sessionId: number;
+  /** Number of chained transmissions (1 when not chained) */
+  segmentCount: number;
+  /** Reassembled payloads of finished segments, keyed by segment index */
+  segments: Map<number, { payload: Uint8Array; totalFrames: number }>;
+  /** Frames of unfinished segments, keyed by segment index, then 1-based frame index */
+  frames: Map<number, Map<number, Uint8Array>>;
+}
+
 /**
  * Frame collector - accumulates received frames
+ *
+ * Frames are kept per session between transmissions, so a second playback
+ * (or an ARQ retransmission) of the same session only has to supply the
+ * frames the first one lost.
  */
 export class FrameCollector {
   private headerInfo: HeaderInfo | null = null;
   private frames: Map<number, Uint8Array> = new Map();
   private sessionId: number | null = null;
 
+  // Everything received so far, keyed by session ID
+  private sessions: Map<number, PartialReception> = new Map();
+  // Session of the last data header, whose chain is being collected
+  private session: PartialReception | null = null;
+
   /**
-   * Reset collector state
+   * Reset collector state (including finished segments and kept frames)
    */
   reset(): void {
+    this.resetSegment();
+    this.sessions.clear();
+    this.session = null;
+  }
+
+  /**
+   * Reset the current transmission only. Its frames and the finished
+   * segments stay with the session, so the next segment of the chain, or
+   * another playback of the same one, can be collected.
+   */
+  resetSegment(): void {
     this.headerInfo = null;
-    this.frames.clear();
+    this.frames = new Map();
     this.sessionId = null;
   }
 
   /**
    * Set header information
+   * Frames already kept for the same session and segment are picked up. A
+   * header from another session switches to that session's chain; what was
+   * received for the previous one is kept. The segment count is only known
+   * once the header extension is applied, so a header without it keeps the
+   * chain's count.
    */
   setHeader(header: HeaderInfo): void {
     this.headerInfo = header;
     this.sessionId = header.sessionId;
+
+    // ARQ replies belong to no message and are not kept
+    if (header.control) {
+      this.frames = new Map();
+      return;
+    }
+
+    let session = this.sessions.get(header.sessionId);
+    if (!session) {
+      session = { sessionId: header.sessionId, segmentCount: header.segmentCount, segments: new Map(), frames: new Map() };
+      this.sessions.set(header.sessionId, session);
+    }
+    if (session.segments.size === 0 || header.segmentCount > 1) {
+      session.segmentCount = header.segmentCount;
+    }
+
+    let frames = session.frames.get(header.segmentIndex);
+    if (!frames) {
+      frames = new Map();
+      session.frames.set(header.segmentIndex, frames);
+    }
+    this.frames = frames;
+    this.session = session;
+    this.recoverFrames();
   }
 
   /**
@@ -194,15 +462,37 @@ export class FrameCollector {
       return false;
     }
 
+    // Reject indices outside the announced frame range (repair frames included)
+    if (this.headerInfo && (frameIndex < 1 || frameIndex > this.headerInfo.totalFrames + this.getRepairFrameCount())) {
+      return false;
+    }
+
     // Don't overwrite if we already have this frame
     if (this.frames.has(frameIndex)) {
       return true;
     }
 
     this.frames.set(frameIndex, new Uint8Array(payload));
+    this.recoverFrames();
     return true;
   }
 
+  /**
+   * Get the number of repair frames announced for the current transmission
+   */
+  getRepairFrameCount(): number {
+    if (!this.headerInfo) return 0;
+    return getRepairFrameCount(this.headerInfo.totalFrames, this.headerInfo.repairOverhead);
+  }
+
+  /**
+   * Rebuild lost data frames from received repair frames, where possible
+   */
+  private recoverFrames(): void {
+    if (!this.headerInfo?.repairOverhead || this.isComplete()) return;
+    recoverMissingFrames(this.frames, this.headerInfo.totalFrames, this.headerInfo.repairOverhead);
+  }
+
   /**
    * Get header info
    */
@@ -244,14 +534,15 @@ export class FrameCollector {
    */
   getProgress(): number {
     if (!this.headerInfo) return 0;
-    return this.frames.size / this.headerInfo.totalFrames;
+    return this.getReceivedCount() / this.headerInfo.totalFrames;
   }
 
   /**
-   * Get received frame count
+   * Get received data frame count (recovered frames included, repair frames not)
    */
   getReceivedCount(): number {
-    return this.frames.size;
+    if (!this.headerInfo) return this.frames.size;
+    return this.headerInfo.totalFrames - this.getMissingFrames().length;
   }
 
   /**
@@ -261,11 +552,167 @@ export class FrameCollector {
     return this.headerInfo?.totalFrames ?? 0;
   }
 
+  /**
+   * Store the current segment's payload once all its frames are in
+   * Returns false if the current transmission is incomplete
+   */
+  completeSegment(): boolean {
+    const payload = this.reassembleSegment();
+    if (!payload || !this.headerInfo || !this.session) return false;
+
+    this.session.segments.set(this.headerInfo.segmentIndex, { payload, totalFrames: this.headerInfo.totalFrames });
+    this.session.frames.delete(this.headerInfo.segmentIndex);
+    return true;
+  }
+
+  /**
+   * Get frame count and payload length summed over the stored segments
+   */
+  getChainTotals(): { totalFrames: number; payloadLength: number } {
+    let totalFrames = 0;
+    let payloadLength = 0;
+    for (const segment of this.session?.segments.values() ?? []) {
+      totalFrames += segment.totalFrames;
+      payloadLength += segment.payload.length;
+    }
+    return { totalFrames, payloadLength };
+  }
+
+  /**
+   * Check if every segment of the chain has been stored
+   */
+  isChainComplete(): boolean {
+    return this.getMissingSegments().length === 0;
+  }
+
+  /**
+   * Get missing segment indices (1-based)
+   */
+  getMissingSegments(): number[] {
+    const missing: number[] = [];
+    for (let i = 1; i <= this.getSegmentCount(); i++) {
+      if (!this.session?.segments.has(i)) {
+        missing.push(i);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Get number of finished segments
+   */
+  getSegmentsReceived(): number {
+    return this.session?.segments.size ?? 0;
+  }
+
+  /**
+   * Get number of segments in the chain (1 when not chained)
+   */
+  getSegmentCount(): number {
+    return this.session?.segmentCount ?? 1;
+  }
+
+  /**
+   * Drop everything kept for a session (once its message is decoded)
+   */
+  discardSession(sessionId: number): void {
+    this.sessions.delete(sessionId);
+    if (this.session?.sessionId === sessionId) {
+      this.session = null;
+    }
+  }
+
+  /**
+   * Get a copy of what has been received for every session that is not yet
+   * decoded, for resuming the reception later
+   */
+  exportPartial(): PartialReception[] {
+    const partials: PartialReception[] = [];
+    for (const session of this.sessions.values()) {
+      const frames = new Map<number, Map<number, Uint8Array>>();
+      for (const [segmentIndex, segmentFrames] of session.frames) {
+        if (segmentFrames.size > 0) {
+          frames.set(segmentIndex, new Map(segmentFrames));
+        }
+      }
+      if (frames.size === 0 && session.segments.size === 0) continue;
+
+      partials.push({
+        sessionId: session.sessionId,
+        segmentCount: session.segmentCount,
+        segments: new Map(session.segments),
+        frames,
+      });
+    }
+    return partials;
+  }
+
+  /**
+   * Merge partial receptions (from exportPartial) into the kept frames
+   * They are used once a header of the same session arrives
+   */
+  importPartial(partials: PartialReception[]): void {
+    for (const partial of partials) {
+      let session = this.sessions.get(partial.sessionId);
+      if (!session) {
+        session = { sessionId: partial.sessionId, segmentCount: partial.segmentCount, segments: new Map(), frames: new Map() };
+        this.sessions.set(partial.sessionId, session);
+      }
+      if (partial.segmentCount > 1) {
+        session.segmentCount = partial.segmentCount;
+      }
+
+      for (const [segmentIndex, segment] of partial.segments) {
+        if (!session.segments.has(segmentIndex)) {
+          session.segments.set(segmentIndex, segment);
+        }
+      }
+
+      for (const [segmentIndex, partialFrames] of partial.frames) {
+        if (session.segments.has(segmentIndex)) continue;
+        let frames = session.frames.get(segmentIndex);
+        if (!frames) {
+          frames = new Map();
+          session.frames.set(segmentIndex, frames);
+        }
+        for (const [frameIndex, payload] of partialFrames) {
+          if (!frames.has(frameIndex)) {
+            frames.set(frameIndex, new Uint8Array(payload));
+          }
+        }
+      }
+    }
+  }
+
   /**
    * Reassemble payload from received frames
-   * Returns null if not all frames received
+   * For chained transmissions, concatenates all stored segments in order
+   * Returns null if not all frames (or segments) received
    */
   reassemble(): Uint8Array | null {
+    const segmentCount = this.getSegmentCount();
+    if (segmentCount <= 1) {
+      return this.reassembleSegment();
+    }
+
+    if (!this.isChainComplete()) {
+      return null;
+    }
+
+    const parts = Array.from({ length: segmentCount }, (_, i) => this.session!.segments.get(i + 1)!.payload);
+    const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
+  /**
+   * Reassemble the current transmission's payload from received frames
+   */
+  private reassembleSegment(): Uint8Array | null {
     if (!this.headerInfo || !this.isComplete()) {
       return null;
     }
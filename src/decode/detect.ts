@@ -2,21 +2,38 @@
  * Signal detection utilities using FFT
  */
 import { fft, magnitude } from '../lib/fft';
-import { AUDIO, TONE_FREQUENCIES } from '../utils/constants';
+import { AUDIO, AUDIO_MODES, TONE_FREQUENCIES } from '../utils/constants';
 
 /**
  * Calculate signal energy in our frequency band
+ * With anyMode, returns the strongest of all modes' bands, for listening
+ * before the mode is known
  */
 export function calculateSignalEnergy(
   samples: Float32Array,
-  sampleRate: number
+  sampleRate: number,
+  anyMode: boolean = false
 ): number {
   const fftResult = fft(samples);
   const magnitudes = magnitude(fftResult);
 
   const binWidth = sampleRate / (magnitudes.length * 2);
-  const minBin = Math.floor(AUDIO.BASE_FREQUENCY / binWidth);
-  const maxBin = Math.ceil(TONE_FREQUENCIES[TONE_FREQUENCIES.length - 1] / binWidth);
+
+  if (!anyMode) {
+    return bandEnergy(magnitudes, binWidth, AUDIO.BASE_FREQUENCY, TONE_FREQUENCIES[TONE_FREQUENCIES.length - 1]);
+  }
+
+  return Math.max(...Object.values(AUDIO_MODES).map(mode =>
+    bandEnergy(magnitudes, binWidth, mode.BASE_FREQUENCY, mode.BASE_FREQUENCY + (mode.NUM_TONES - 1) * mode.TONE_SPACING)
+  ));
+}
+
+/**
+ * RMS magnitude of the FFT bins between two frequencies
+ */
+function bandEnergy(magnitudes: Float32Array, binWidth: number, minFreq: number, maxFreq: number): number {
+  const minBin = Math.floor(minFreq / binWidth);
+  const maxBin = Math.ceil(maxFreq / binWidth);
 
   let energy = 0;
   for (let i = minBin; i < maxBin && i < magnitudes.length; i++) {
@@ -14,10 +14,14 @@ import {
   decodeHeaderV3FECSoft,
   decodeDataV3FECSoft,
   decodeHeaderV3FECSoftWithRedundancy,
+  decodeExtensionV3FEC,
+  decodeExtensionV3FECSoft,
   getV3HeaderEncodedSize,
+  getV3ExtensionEncodedSize,
   getV3DataEncodedSize,
   V3FECDecodeResult,
 } from './v3-fec';
+import { DEFAULT_FEC_PROFILE, type FECProfile } from '../encode/v3-fec';
 
 // Re-export result type for compatibility
 export interface FECDecodeResult {
@@ -50,19 +54,26 @@ export function decodeHeaderFEC(received: Uint8Array): FECDecodeResult {
  *
  * @param received - Received encoded bytes
  * @param payloadSize - Expected payload size (needed for v3 Viterbi)
+ * @param profile - FEC profile announced in the header extension
+ * @param wideIndex - Data frames carry a 2-byte frame index
  */
-export function decodeDataFEC(received: Uint8Array, payloadSize?: number): FECDecodeResult {
+export function decodeDataFEC(
+  received: Uint8Array,
+  payloadSize?: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  wideIndex: boolean = false
+): FECDecodeResult {
   // If payload size not provided, estimate from received size
   // This is a fallback - callers should provide the expected size
-  const size = payloadSize ?? estimatePayloadSize(received.length);
-  return toFECResult(decodeDataV3FEC(received, size));
+  const size = payloadSize ?? estimatePayloadSize(received.length, profile, wideIndex);
+  return toFECResult(decodeDataV3FEC(received, size, profile, wideIndex));
 }
 
 /**
  * Estimate payload size from encoded frame length
  * Used when payload size is not provided
  */
-function estimatePayloadSize(encodedLength: number): number {
+function estimatePayloadSize(encodedLength: number, profile: FECProfile, wideIndex: boolean): number {
   // Work backwards from v3 encoded size
   // This is approximate - exact size requires knowing the original payload
   // For most cases, the caller should provide the expected size
@@ -71,7 +82,7 @@ function estimatePayloadSize(encodedLength: number): number {
   const commonSizes = [128, 64, 32, 16, 8, 4, 1];
 
   for (const size of commonSizes) {
-    const expectedEncoded = getV3DataEncodedSize(size);
+    const expectedEncoded = getV3DataEncodedSize(size, profile, wideIndex);
     if (Math.abs(expectedEncoded - encodedLength) <= 2) {
       return size;
     }
@@ -101,11 +112,30 @@ export function decodeHeaderFECSoft(softBits: number[]): FECDecodeResult {
   return toFECResult(decodeHeaderV3FECSoft(softBits));
 }
 
+/**
+ * Decode header extension with v3 FEC (always the normal profile)
+ */
+export function decodeExtensionFEC(received: Uint8Array): FECDecodeResult {
+  return toFECResult(decodeExtensionV3FEC(received));
+}
+
+/**
+ * Decode header extension with soft-decision input
+ */
+export function decodeExtensionFECSoft(softBits: number[]): FECDecodeResult {
+  return toFECResult(decodeExtensionV3FECSoft(softBits));
+}
+
 /**
  * Decode data frame with soft-decision input
  */
-export function decodeDataFECSoft(softBits: number[], payloadSize: number): FECDecodeResult {
-  return toFECResult(decodeDataV3FECSoft(softBits, payloadSize));
+export function decodeDataFECSoft(
+  softBits: number[],
+  payloadSize: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  wideIndex: boolean = false
+): FECDecodeResult {
+  return toFECResult(decodeDataV3FECSoft(softBits, payloadSize, profile, wideIndex));
 }
 
 /**
@@ -127,9 +157,20 @@ export function getHeaderSize(): number {
   return getV3HeaderEncodedSize();
 }
 
+/**
+ * Get expected v3 header extension encoded size
+ */
+export function getExtensionSize(): number {
+  return getV3ExtensionEncodedSize();
+}
+
 /**
  * Get expected v3 data frame encoded size
  */
-export function getDataFrameSize(payloadSize: number): number {
-  return getV3DataEncodedSize(payloadSize);
+export function getDataFrameSize(
+  payloadSize: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  wideIndex: boolean = false
+): number {
+  return getV3DataEncodedSize(payloadSize, profile, wideIndex);
 }
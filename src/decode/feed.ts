@@ -0,0 +1,101 @@
+/**
+ * Decoding a recording that is already on hand
+ *
+ * A file, a pipe or a simulated channel is fed to the decoder in steady
+ * 100 ms slices, the way a microphone would deliver it, yielding between
+ * slices so the decoder's callbacks can run. Once the audio runs out the
+ * decoder gets a few seconds to finish the frames it already holds.
+ */
+import type { Decoder, DecodeProgress, DecodeResult } from './index';
+
+/** How a decode ended */
+export interface FeedOutcome {
+  /** Decoded result; absent when the decode failed or did not finish */
+  result?: DecodeResult;
+  /** Why the decoder gave up */
+  error?: Error;
+  /** Progress at the end; for a decode that did not finish, how far it got */
+  progress: DecodeProgress;
+}
+
+export interface FeedOptions {
+  /**
+   * Called right after start(), which resets the decoder: set passwords,
+   * keys and saved frames here
+   */
+  configure?: () => void;
+  /** Called after each slice is fed */
+  onProgress?: (progress: DecodeProgress) => void;
+}
+
+const SLICE_SECONDS = 0.1;
+
+// Time the decoder gets to finish after the last sample (100 ms polls)
+const MAX_POST_FEED_POLLS = 30;
+
+/**
+ * Start a decoder and feed it a recording until it decodes, gives up, or
+ * the recording and the time to finish run out
+ * @param decoder Decoder to start (it is left running when the decode does not finish)
+ * @param samples Whole recording, or slices of it as they arrive (steady
+ *   slices: the decoder detects preambles reliably only when fed those)
+ * @param sampleRate Sample rate of the recording (Hz)
+ */
+export async function feedDecoder(
+  decoder: Decoder,
+  samples: Float32Array | AsyncIterable<Float32Array>,
+  sampleRate: number,
+  options: FeedOptions = {}
+): Promise<FeedOutcome> {
+  let outcome: FeedOutcome | undefined;
+  let settle!: (outcome: FeedOutcome) => void;
+  const settled = new Promise<FeedOutcome>((resolve) => {
+    settle = (ended) => {
+      outcome ??= ended;
+      resolve(outcome);
+    };
+  });
+
+  decoder.start(
+    (result) => settle({ result, progress: decoder.progress.value }),
+    (error) => settle({ error, progress: decoder.progress.value })
+  );
+  options.configure?.();
+
+  const slices = samples instanceof Float32Array
+    ? sliceRecording(samples, Math.floor(sampleRate * SLICE_SECONDS))
+    : samples;
+
+  // Returning early stops reading (a pipe is not read past the message)
+  const feed = async (): Promise<FeedOutcome> => {
+    for await (const slice of slices) {
+      if (outcome) return outcome;
+      decoder.processSamples(slice);
+      options.onProgress?.(decoder.progress.value);
+
+      const { state } = decoder.progress.value;
+      if (state === 'complete' || state === 'error') break;
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    for (let polls = 0; !outcome; polls++) {
+      const progress = decoder.progress.value;
+      // A completed decode resolves through the decoder's callback
+      if (progress.state === 'complete') return settled;
+      if (progress.state === 'error') {
+        return { error: new Error(progress.errorMessage || 'Decode failed'), progress };
+      }
+      if (polls >= MAX_POST_FEED_POLLS) return { progress };
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return outcome;
+  };
+
+  return Promise.race([settled, feed()]);
+}
+
+function* sliceRecording(samples: Float32Array, size: number): Generator<Float32Array> {
+  for (let offset = 0; offset < samples.length; offset += size) {
+    yield samples.slice(offset, offset + size);
+  }
+}
@@ -8,15 +8,21 @@
  * precise timing is used to align symbol extraction.
  */
 import { signal } from '@preact/signals';
-import { AUDIO, FRAME_V3, PHONE_MODE, WIDEBAND_MODE, setAudioMode, getAudioMode, type AudioMode } from '../utils/constants';
+import { AUDIO, ARQ, FRAME_V3, AUDIO_MODES, setAudioMode, getAudioMode, type AudioMode } from '../utils/constants';
 import { bytesToString } from '../utils/helpers';
 import { calculateSignalEnergy } from './detect';
-import { detectToneSoft, softSymbolsToSoftBits, type SoftDetectionResult } from './soft-decision';
-import { decodeDataFEC, decodeHeaderFEC, decodeHeaderWithRedundancy, decodeHeaderFECSoft, decodeDataFECSoft, decodeHeaderWithRedundancySoft, getHeaderSize, getDataFrameSize } from './fec';
-import { parseHeaderFrame, parseDataFrame, FrameCollector, type HeaderInfo } from './deframe';
+import { detectToneSoft, detectMultitoneSoft, softSymbolsToSoftBits, type SoftDetectionResult } from './soft-decision';
+import { decodeDataFEC, decodeHeaderFEC, decodeHeaderWithRedundancy, decodeHeaderFECSoft, decodeDataFECSoft, decodeHeaderWithRedundancySoft, decodeExtensionFEC, decodeExtensionFECSoft, getHeaderSize, getExtensionSize, getDataFrameSize, type FECDecodeResult } from './fec';
+import { parseHeaderFrame, parseHeaderExtension, applyHeaderExtension, parseDataFrame, FrameCollector, type HeaderInfo, type HeaderExtensionInfo, type PartialReception } from './deframe';
+import { parseArqRecord } from './arq';
+import { type ArqMessage } from '../encode/arq';
+import { type MessageMetadata } from '../encode/metadata';
+import { type BundleFile } from '../encode/bundle';
+import { type FECProfile } from '../encode/v3-fec';
 import { processPayload, type ProcessResult } from './decompress';
 import { deinterleave, deinterleaveSoftBits, calculateInterleaverDepth } from '../encode/interleave';
 import { sha256Hex } from '../lib/sha256';
+import { type SignatureInfo } from '../lib/crypto';
 import { ChirpDetector } from '../lib/chirp';
 import { FrequencyOffsetTracker } from './freq-offset';
 
@@ -41,6 +47,8 @@ export interface DecodeProgress {
   symbolsReceived?: number;
   chirpDetected?: boolean;  // True when preamble chirp is detected
   signalWarning?: boolean;  // True when repeated failures detected (poor signal quality)
+  segmentsReceived?: number;  // Finished segments of a chained transmission
+  totalSegments?: number;     // Segments in the chain (1 when not chained)
 }
 
 export interface DecodeResult {
@@ -48,7 +56,14 @@ export interface DecodeResult {
   text: string;
   checksum: string;
   encrypted: boolean;
+  sessionId: number;  // Session ID of the transmission (shared by chained segments)
   needsPassword?: boolean;  // True if encrypted but no password provided
+  needsKey?: boolean;  // True if encrypted to a public key but no private key provided
+  keyId?: string;  // ID of the pre-shared key the message needs (with needsPassword)
+  signature?: SignatureInfo;  // Signer key and whether the signature is valid (signed messages only)
+  metadata?: MessageMetadata;  // File name, MIME type, creation time and label, when the sender included them
+  files?: BundleFile[];  // Files of a bundle (data is then the bundle itself)
+  arq?: ArqMessage;  // Set when the transmission was an ARQ reply (ACK/NACK) instead of data
   stats: {
     originalSize: number;
     compressedSize: number;
@@ -73,6 +88,7 @@ export class Decoder {
 
   private state: DecodeState = 'idle';
   private headerInfo: HeaderInfo | null = null;
+  private headerExtension: HeaderExtensionInfo | null = null;
   private totalErrorsFixed = 0;
   private lastDebugInfo = '';
   private hasSignal = false;
@@ -93,11 +109,13 @@ export class Decoder {
   private phaseSoftSymbols: SoftDetectionResult[][] = []; // Soft results for FEC decoding
   private bestPhase = -1;
   private syncFoundAt = -1;
+  private symbolSearchStart = 0; // Preamble search skips symbols of finished segments/transmissions
 
   // Chirp detection (Phase 2: matched filter)
   private chirpDetector: ChirpDetector;
   private chirpDetected = false;
   private chirpEndSample = -1;  // Sample index where chirp ends (calibration starts)
+  private chirpOrigin = -1;     // Sample index of the chirp detector's first input
   private lastPeakFreq = 0;
   private chirpSweepCount = 0;
 
@@ -105,11 +123,23 @@ export class Decoder {
   private detectedAudioMode: AudioMode | null = null;
   private symbolExtractionMode: AudioMode | null = null; // Track which mode symbols were extracted with
   private lastExtractedSamplePos = 0; // Track extraction position for re-extraction
+  private multitoneFrom = -1; // Symbol index where multitone data symbols start (-1 = none)
 
   // Encryption
   private password: string | null = null;
+  private privateKey: string | null = null;
+  private preSharedKeys: string[] = [];
   private pendingPayload: Uint8Array | null = null;  // Raw payload awaiting decryption
 
+  // Half-duplex ARQ: frames of a partial transmission, kept until its retransmission arrives
+  private onArqRequest?: (message: ArqMessage) => void;
+  private awaitingRetransmission = false;
+
+  // Payload finalization runs asynchronously; data frames arriving meanwhile
+  // are ignored, and a reset in between (a new session) discards its result
+  private finalizing = false;
+  private sessionGeneration = 0;
+
   // Header failure detection
   private consecutiveHeaderFailures = 0;
 
@@ -206,6 +236,22 @@ export class Decoder {
     this.password = password;
   }
 
+  /**
+   * Set private key for decrypting data encrypted to our public key
+   */
+  setPrivateKey(privateKey: string): void {
+    this.privateKey = privateKey;
+  }
+
+  /**
+   * Set the keyring of pre-shared keys
+   * A message encrypted with one of them names its key ID, and the key with
+   * that ID is used without asking for a password.
+   */
+  setPreSharedKeys(preSharedKeys: string[]): void {
+    this.preSharedKeys = preSharedKeys;
+  }
+
   /**
    * Enable salvage mode for best-effort partial recovery
    * Relaxes thresholds and enables partial frame output
@@ -214,6 +260,47 @@ export class Decoder {
     this.salvageMode = enabled;
   }
 
+  /**
+   * Enable half-duplex ARQ
+   * When a transmission ends with frames missing, the decoder builds a NACK,
+   * passes it to the handler (which plays it back to the sender) and waits
+   * for the retransmission instead of failing. Pass null to disable.
+   */
+  setArqHandler(handler: ((message: ArqMessage) => void) | null): void {
+    this.onArqRequest = handler ?? undefined;
+  }
+
+  /**
+   * Get what has been received for messages that are not yet decoded
+   * Save it to finish the reception from another recording later.
+   */
+  getPartialReceptions(): PartialReception[] {
+    return this.frameCollector.exportPartial();
+  }
+
+  /**
+   * Resume receptions saved with getPartialReceptions()
+   * A transmission of the same session then only needs to supply the frames
+   * that are still missing. Call after start(), which clears them.
+   */
+  resumeReceptions(partials: PartialReception[]): void {
+    this.frameCollector.importPartial(partials);
+  }
+
+  /**
+   * Get the sample (counted from start()) where the current transmission's
+   * preamble begins, or -1 until its sync pattern is found
+   */
+  getTransmissionStart(): number {
+    if (this.syncFoundAt < 0 || this.bestPhase < 0) return -1;
+
+    // syncFoundAt is the first header symbol; warmup and chirp precede calibration
+    const calibrationSymbols = AUDIO.CALIBRATION_TONES.length * (AUDIO.CALIBRATION_REPEATS || 2);
+    const calibrationStart = this.syncFoundAt - AUDIO.SYNC_PATTERN.length - calibrationSymbols;
+    const leadIn = Math.round(((AUDIO.WARMUP_DURATION_MS + AUDIO.CHIRP_DURATION_MS) / 1000) * this.sampleRate);
+    return Math.max(0, this.bestPhase * this.phaseOffset + calibrationStart * this.symbolSamples - leadIn);
+  }
+
   /**
    * Get effective guard samples for symbol analysis.
    * In salvage mode, skip guard trimming entirely to maximize FFT window size.
@@ -226,15 +313,31 @@ export class Decoder {
 
   /**
    * Retry decryption with a new password (after initial decode found encrypted data)
+   * For a message encrypted with a pre-shared key, the password may be the
+   * key itself; the keyring is searched again too, so a key added to it
+   * since (setPreSharedKeys) is picked up.
    * Throws error if decryption fails (wrong password)
    */
   async retryWithPassword(password: string): Promise<void> {
+    this.password = password;
+    await this.retryDecryption();
+  }
+
+  /**
+   * Retry decryption with a private key (after initial decode found data
+   * encrypted to a public key)
+   * Throws error if decryption fails (wrong key)
+   */
+  async retryWithKey(privateKey: string): Promise<void> {
+    this.privateKey = privateKey;
+    await this.retryDecryption();
+  }
+
+  private async retryDecryption(): Promise<void> {
     if (!this.pendingPayload || !this.headerInfo) {
       throw new Error('No pending encrypted data to decrypt');
     }
 
-    this.password = password;
-
     // Process payload directly instead of going through finalizeDecoding
     // to avoid triggering error handlers
     const result = await processPayload(
@@ -244,7 +347,15 @@ export class Decoder {
       this.headerInfo.compressionAlgo,
       this.headerInfo.originalLength,
       this.headerInfo.hasCrc32,
-      password
+      this.password || undefined,
+      this.headerInfo.publicKey,
+      this.privateKey || undefined,
+      this.headerInfo.signed,
+      this.headerInfo.kdfEnvelope,
+      this.preSharedKeys,
+      this.headerInfo.metadata,
+      this.headerInfo.bundle,
+      this.headerInfo.compactConfig
     );
 
     if (!result.success || !result.data) {
@@ -268,8 +379,12 @@ export class Decoder {
       text,
       checksum,
       encrypted: this.headerInfo.encrypted,
+      sessionId: this.headerInfo.sessionId,
+      signature: result.signature,
+      metadata: result.metadata,
+      files: result.files,
       stats: {
-        originalSize: this.headerInfo.originalLength,
+        originalSize: data.length,
         compressedSize: this.headerInfo.payloadLength,
         compressed: this.headerInfo.compressed,
         frameCount: this.headerInfo.totalFrames,
@@ -280,8 +395,11 @@ export class Decoder {
 
   reset(): void {
     this.state = 'idle';
+    this.sessionGeneration++;
+    this.finalizing = false;
     this.frameCollector.reset();
     this.headerInfo = null;
+    this.headerExtension = null;
     this.totalErrorsFixed = 0;
     this.lastDebugInfo = '';
     this.hasSignal = false;
@@ -290,6 +408,7 @@ export class Decoder {
     this.totalSamplesReceived = 0;
     this.bestPhase = -1;
     this.syncFoundAt = -1;
+    this.symbolSearchStart = 0;
     this.framesAttempted = new Set();
     this.failedDataFrames.clear();
     this.patternSearchCounter = 0;
@@ -297,11 +416,15 @@ export class Decoder {
     this.chirpDetected = false;
     this.chirpEndSample = -1;
     this.chirpDetector.reset();
+    this.chirpOrigin = -1;
     this.lastPeakFreq = 0;
     this.chirpSweepCount = 0;
     this.detectedAudioMode = null;
     this.password = null;
+    this.privateKey = null;
+    this.preSharedKeys = [];
     this.pendingPayload = null;
+    this.awaitingRetransmission = false;
     this.consecutiveHeaderFailures = 0;
     this.syncDetectedTime = 0;
     this.headerDecodedTime = 0;
@@ -310,6 +433,7 @@ export class Decoder {
     this.estimatedFreqOffset = 0;
     this.freqOffsetTracker.reset();
     this.toneBiases = null;
+    this.multitoneFrom = -1;
 
     for (let p = 0; p < NUM_PHASES; p++) {
       this.phaseSymbols[p] = [];
@@ -323,7 +447,8 @@ export class Decoder {
     if (this.state === 'idle' || this.state === 'complete' || this.state === 'error') return;
 
     // Calculate signal energy
-    const energy = calculateSignalEnergy(samples, this.sampleRate);
+    // Until the mode is known, listen in every mode's band
+    const energy = calculateSignalEnergy(samples, this.sampleRate, !this.detectedAudioMode);
     const signalLevel = Math.min(100, energy * 200);
 
     this.progress.value = { ...this.progress.value, signalLevel };
@@ -377,10 +502,13 @@ export class Decoder {
 
     // Phase 2: Use matched filter chirp detection for robust sync
     if (!this.chirpDetected && this.state === 'detecting_preamble') {
+      if (this.chirpOrigin < 0) {
+        this.chirpOrigin = this.totalSamplesReceived - samples.length;
+      }
       const chirpResult = this.chirpDetector.addSamples(samples);
       if (chirpResult.detected) {
         this.chirpDetected = true;
-        this.chirpEndSample = chirpResult.chirpEndSample;
+        this.chirpEndSample = this.chirpOrigin + chirpResult.chirpEndSample;
 
         // Set mode from chirp detection BEFORE symbol extraction continues
         // This ensures symbols get extracted with correct timing for the detected mode
@@ -483,6 +611,7 @@ export class Decoder {
             softValues: new Uint8Array(numTones).fill(127),
             hardDecision: 0,
             confidence: 0,
+            softBits: this.isMultitoneSymbol(symbolIndex) ? new Array(AUDIO.BITS_PER_SYMBOL).fill(0.5) : undefined,
           });
           continue;
         }
@@ -491,7 +620,9 @@ export class Decoder {
 
         // Use soft-decision detection: provides both hard decision for pattern
         // matching and soft confidence values for Viterbi FEC decoding (~2-3 dB gain)
-        const softResult = detectToneSoft(symbolSamples, this.sampleRate, this.estimatedFreqOffset, this.toneBiases ?? undefined);
+        const softResult = this.isMultitoneSymbol(symbolIndex)
+          ? detectMultitoneSoft(symbolSamples, this.sampleRate, this.estimatedFreqOffset)
+          : detectToneSoft(symbolSamples, this.sampleRate, this.estimatedFreqOffset, this.toneBiases ?? undefined);
         const confidenceThreshold = this.salvageMode ? 0.02 : 0.10;
 
         // Store hard decision for pattern matching (findBestPhase, etc.)
@@ -507,11 +638,44 @@ export class Decoder {
           softValues: softResult.softValues,
           hardDecision: softResult.hardDecision,
           confidence: softResult.confidence,
+          softBits: softResult.softBits,
         });
       }
     }
   }
 
+  /**
+   * Check if a symbol is a multitone data symbol (after a multitone sync)
+   */
+  private isMultitoneSymbol(symbolIndex: number): boolean {
+    return this.multitoneFrom >= 0 && symbolIndex >= this.multitoneFrom;
+  }
+
+  /**
+   * Read the symbols after a multitone sync as multitone symbols
+   * They were extracted as single tones, so they are dropped and re-extracted.
+   */
+  private startMultitone(): void {
+    this.multitoneFrom = this.syncFoundAt;
+    for (let p = 0; p < NUM_PHASES; p++) {
+      this.phaseSymbols[p] = this.phaseSymbols[p].slice(0, this.syncFoundAt);
+      this.phaseSoftSymbols[p] = this.phaseSoftSymbols[p].slice(0, this.syncFoundAt);
+    }
+  }
+
+  /**
+   * Go back to single-tone symbols after a multitone sync turned out false
+   * The multitone symbols are dropped, so the preamble search re-extracts them.
+   */
+  private stopMultitone(): void {
+    if (this.multitoneFrom < 0) return;
+    for (let p = 0; p < NUM_PHASES; p++) {
+      this.phaseSymbols[p] = this.phaseSymbols[p].slice(0, this.multitoneFrom);
+      this.phaseSoftSymbols[p] = this.phaseSoftSymbols[p].slice(0, this.multitoneFrom);
+    }
+    this.multitoneFrom = -1;
+  }
+
   /**
    * Extract soft bits for a slice of symbols (for soft-decision FEC decoding)
    */
@@ -586,26 +750,12 @@ export class Decoder {
     }
 
     // Try to match calibration + sync pattern starting from the calculated position
-    // Try both phone and wideband modes
-    const modes: { mode: AudioMode; calib: number[]; sync: number[]; maxTone: number }[] = [
-      {
-        mode: 'phone',
-        calib: PHONE_MODE.CALIBRATION_TONES,
-        sync: PHONE_MODE.SYNC_PATTERN,
-        maxTone: PHONE_MODE.NUM_TONES - 1,
-      },
-      {
-        mode: 'wideband',
-        calib: WIDEBAND_MODE.CALIBRATION_TONES,
-        sync: WIDEBAND_MODE.SYNC_PATTERN,
-        maxTone: WIDEBAND_MODE.NUM_TONES - 1,
-      },
-    ];
+    const modes = this.getPatternModes();
 
     // Search in a small window around the estimated position (±3 symbols)
     for (let offset = -3; offset <= 3; offset++) {
       const startIdx = calibStartSymbolIndex + offset;
-      if (startIdx < 0 || startIdx + calibrationSymbols + syncSymbols >= symbols.length) continue;
+      if (startIdx < this.symbolSearchStart || startIdx + calibrationSymbols + syncSymbols >= symbols.length) continue;
 
       for (const { mode, calib, sync, maxTone } of modes) {
         // Build expected pattern: calibration repeated + sync
@@ -630,7 +780,8 @@ export class Decoder {
         const matchRatio = matchCount / fullPattern.length;
 
         const matchThreshold = this.salvageMode ? 0.50 : 0.70;
-        if (matchRatio >= matchThreshold) {  // Relaxed in salvage mode
+        // A position whose header already failed would be retried forever
+        if (matchRatio >= matchThreshold && !this.isSyncPositionFailed(bestPhaseEstimate, startIdx + fullPattern.length)) {
           this.bestPhase = bestPhaseEstimate;
           this.syncFoundAt = startIdx + fullPattern.length;
           this.detectedAudioMode = mode;
@@ -676,28 +827,31 @@ export class Decoder {
     console.log('[Decoder] Marked sync position as failed:', key);
   }
 
+  /**
+   * Modes whose calibration + sync patterns to look for in the symbols
+   * Ultrasonic uses phone's patterns on other tones, so it is only searched
+   * once its chirp has switched the tone set, and then exclusively.
+   * Multitone shares wideband's preamble up to its own sync pattern.
+   */
+  private getPatternModes(): { mode: AudioMode; calib: number[]; sync: number[]; maxTone: number }[] {
+    const modes: AudioMode[] = getAudioMode() === 'ultrasonic' ? ['ultrasonic'] : ['phone', 'wideband', 'multitone'];
+    return modes.map(mode => ({
+      mode,
+      calib: AUDIO_MODES[mode].CALIBRATION_TONES,
+      sync: AUDIO_MODES[mode].SYNC_PATTERN,
+      maxTone: AUDIO_MODES[mode].NUM_TONES - 1,
+    }));
+  }
+
   private findBestPhase(): void {
-    // Try to detect both phone and wideband patterns
+    // Try to detect both phone and wideband patterns (or ultrasonic, see getPatternModes)
     // New preamble: calibration (repeated 2x) + sync (8 symbols)
     // Phone: calib [0,2,5,7] x2 = 8 symbols, sync [0,7,0,7,0,7,0,7] = 8 symbols
     // Wideband: calib [0,5,10,15] x2 = 8 symbols, sync [0,15,0,15,0,15,0,15] = 8 symbols
 
     const calibRepeats = 2;
 
-    const modes: { mode: AudioMode; calib: number[]; sync: number[]; maxTone: number }[] = [
-      {
-        mode: 'phone',
-        calib: PHONE_MODE.CALIBRATION_TONES,
-        sync: PHONE_MODE.SYNC_PATTERN,
-        maxTone: PHONE_MODE.NUM_TONES - 1,
-      },
-      {
-        mode: 'wideband',
-        calib: WIDEBAND_MODE.CALIBRATION_TONES,
-        sync: WIDEBAND_MODE.SYNC_PATTERN,
-        maxTone: WIDEBAND_MODE.NUM_TONES - 1,
-      },
-    ];
+    const modes = this.getPatternModes();
 
     // Search in order of match quality: full pattern > sync-only > loose
     // This ensures we find the best match across ALL phases before falling back
@@ -705,7 +859,7 @@ export class Decoder {
     // PASS 1: Try full calibration+sync pattern (16 symbols) - most reliable
     for (let phase = 0; phase < NUM_PHASES; phase++) {
       const symbols = this.phaseSymbols[phase];
-      if (symbols.length < 20) continue;
+      if (symbols.length < this.symbolSearchStart + 20) continue;
 
       for (const { mode, calib, sync, maxTone } of modes) {
         const fullCalib: number[] = [];
@@ -715,7 +869,7 @@ export class Decoder {
         const fullPattern = [...fullCalib, ...sync];
         const patternLen = fullPattern.length;
 
-        for (let i = 0; i <= symbols.length - patternLen; i++) {
+        for (let i = this.symbolSearchStart; i <= symbols.length - patternLen; i++) {
           const syncPos = i + patternLen;
           if (this.isSyncPositionFailed(phase, syncPos)) continue;
 
@@ -742,15 +896,15 @@ export class Decoder {
     // PASS 2: Try sync-only pattern (8 symbols) - fallback
     for (let phase = 0; phase < NUM_PHASES; phase++) {
       const symbols = this.phaseSymbols[phase];
-      if (symbols.length < 20) continue;
+      if (symbols.length < this.symbolSearchStart + 20) continue;
 
       for (const { mode, sync, maxTone } of modes) {
         const syncLen = sync.length;
-        for (let i = 0; i <= symbols.length - syncLen; i++) {
+        for (let i = this.symbolSearchStart; i <= symbols.length - syncLen; i++) {
           const syncPos = i + syncLen;
           if (this.isSyncPositionFailed(phase, syncPos)) continue;
 
-          if (this.matchesSyncPatternForMode(symbols, i, maxTone, syncLen, this.salvageMode)) {
+          if (this.matchesSyncPatternForMode(symbols, i, sync, maxTone, this.salvageMode)) {
             if (symbols.length > syncPos + 12) {
               this.bestPhase = phase;
               this.syncFoundAt = syncPos;
@@ -778,10 +932,10 @@ export class Decoder {
     if (!this.salvageMode) {
       for (let phase = 0; phase < NUM_PHASES; phase++) {
         const symbols = this.phaseSymbols[phase];
-        if (symbols.length < 20) continue;
+        if (symbols.length < this.symbolSearchStart + 20) continue;
 
-        for (const { mode, maxTone } of modes) {
-          for (let i = 0; i <= symbols.length - 8; i++) {
+        for (const { mode, sync, maxTone } of modes) {
+          for (let i = this.symbolSearchStart; i <= symbols.length - 8; i++) {
             // The loose pattern [0,1,2,3,0,3,0,3] matches calib[4..7]+sync[0..3].
             // After these 8 symbols, sync[4..7] (4 more symbols) remain before header.
             const syncPos = i + 12;
@@ -792,7 +946,7 @@ export class Decoder {
             // This prevents matching a loose pattern before its containing full pattern is visible
             if (symbols.length < i + 16) continue;
 
-            if (this.matchesLoosePatternForMode(symbols, i, maxTone, this.salvageMode)) {
+            if (this.matchesLoosePatternForMode(symbols, i, sync, maxTone, this.salvageMode)) {
               this.bestPhase = phase;
               this.syncFoundAt = syncPos;
               this.state = 'receiving_header';
@@ -819,7 +973,7 @@ export class Decoder {
 
       for (let phase = 0; phase < NUM_PHASES; phase++) {
         const symbols = this.phaseSymbols[phase];
-        if (symbols.length < 20) continue;
+        if (symbols.length < this.symbolSearchStart + 20) continue;
 
         for (const { mode, calib, sync, maxTone } of modes) {
           const fullCalib: number[] = [];
@@ -830,7 +984,7 @@ export class Decoder {
           const patternLen = fullPattern.length;
           const tolerance = maxTone > 10 ? 2 : 1;
 
-          for (let i = 0; i <= symbols.length - patternLen; i++) {
+          for (let i = this.symbolSearchStart; i <= symbols.length - patternLen; i++) {
             const syncPos = i + patternLen;
             if (this.isSyncPositionFailed(phase, syncPos)) continue;
             if (symbols.length < syncPos + 12) continue; // Need some header symbols too
@@ -856,7 +1010,7 @@ export class Decoder {
       // preamble has been fully extracted. Require 80 symbols (~4s) for matches <75%
       // to ensure the full preamble region has been processed.
       const minSymbolsForLowMatch = 80;
-      const maxPhaseSymbols = Math.max(...this.phaseSymbols.map(s => s.length));
+      const maxPhaseSymbols = Math.max(...this.phaseSymbols.map(s => s.length)) - this.symbolSearchStart;
       const acceptThreshold = maxPhaseSymbols >= minSymbolsForLowMatch ? 0.60 : 0.80;
 
       if (bestMatch.ratio >= acceptThreshold && bestMatch.phase >= 0) {
@@ -897,12 +1051,19 @@ export class Decoder {
     console.log('[Decoder] Updated timing for', newMode, '- symbol:', this.symbolSamples, 'samples');
 
     // If mode changed, we need to re-extract symbols with new timing
-    if (oldMode && oldMode !== newMode) {
+    // (multitone's preamble symbols are wideband's, so they stay valid)
+    const samePreamble = [oldMode, newMode].every(mode => mode === 'wideband' || mode === 'multitone');
+    if (oldMode && oldMode !== newMode && !samePreamble) {
       console.log('[Decoder] Mode changed from', oldMode, 'to', newMode, '- re-extracting symbols');
       this.clearSymbolsForReextraction();
     }
 
     this.symbolExtractionMode = newMode;
+
+    // Data symbols after a multitone sync carry every subcarrier at once
+    if (newMode === 'multitone' && this.syncFoundAt >= 0) {
+      this.startMultitone();
+    }
   }
 
   /**
@@ -917,6 +1078,8 @@ export class Decoder {
     // Reset detection state
     this.bestPhase = -1;
     this.syncFoundAt = -1;
+    this.symbolSearchStart = 0;
+    this.multitoneFrom = -1;
     this.state = 'detecting_preamble';
     // Reset extraction mode so next extraction uses current timing
     this.symbolExtractionMode = null;
@@ -936,7 +1099,11 @@ export class Decoder {
 
     let calibStartSample: number;
 
-    if (this.chirpEndSample > 0) {
+    // Multitone's closely spaced tones need the calibration symbols exactly,
+    // and the sync position is symbol-aligned where the chirp end is not
+    const alignToSync = this.multitoneFrom >= 0;
+
+    if (this.chirpEndSample > 0 && !alignToSync) {
       // Method 1: Use chirp end position (most accurate)
       calibStartSample = this.chirpEndSample;
     } else if (this.syncFoundAt >= 0 && this.bestPhase >= 0) {
@@ -1221,7 +1388,7 @@ export class Decoder {
    * When FEC fails, we still have best-effort decoded bytes. Since we know:
    * - Bytes 0-1 MUST be [0x4E, 0x33] ("N3")
    * - Byte 2 high nibble MUST be 0x3 (version 3)
-   * - Byte 2 low nibble is flags (0x00-0x07)
+   * - Byte 2 low nibble is flags (0x00-0x0F)
    * - Bytes 10-11 are CRC16 of bytes 0-9
    *
    * We fix the known bytes and try single-byte corrections on the remaining
@@ -1279,8 +1446,8 @@ export class Decoder {
       candidate[0] = 0x4E; // 'N'
       candidate[1] = 0x33; // '3'
 
-      // Try all valid flag combinations (8 options)
-      for (let flags = 0; flags <= 0x07; flags++) {
+      // Try all valid flag combinations (16 options)
+      for (let flags = 0; flags <= 0x0F; flags++) {
         candidate[2] = 0x30 | flags; // version 3 + flags
 
         // Check CRC with known bytes fixed (no other corrections)
@@ -1414,13 +1581,14 @@ export class Decoder {
 
   /**
    * Sync pattern matching for specific mode
-   * Sync: [low, high, low, high, ...] alternating pattern
+   * Sync: low/high pattern, e.g. [low, high, low, high, ...] alternating
    * Made stricter to avoid false positives
    */
-  private matchesSyncPatternForMode(symbols: number[], startIndex: number, maxTone: number, syncLen: number = 8, salvage = false): boolean {
+  private matchesSyncPatternForMode(symbols: number[], startIndex: number, sync: number[], maxTone: number, salvage = false): boolean {
     // Phone mode (4 tones): require exact 8/8 match - less margin for error
     // Wideband mode (16 tones): allow 7/8 - more tones means more potential drift
     // Salvage mode: allow 6/8 for phone, 5/8 for wideband
+    const syncLen = sync.length;
     const minMatch = salvage
       ? (maxTone > 10 ? syncLen - 3 : syncLen - 2)
       : (maxTone > 10 ? syncLen - 1 : syncLen);
@@ -1428,11 +1596,10 @@ export class Decoder {
     let matches = 0;
     for (let i = 0; i < Math.min(syncLen, symbols.length - startIndex); i++) {
       const sym = symbols[startIndex + i];
-      const isEven = i % 2 === 0;
 
-      // Even positions should be exactly 0, odd positions should be exactly maxTone
+      // Low positions should be exactly 0, high positions should be exactly maxTone
       // Allow small tolerance only for wideband (more tones = more potential drift)
-      if (isEven) {
+      if (sync[i] === 0) {
         if (sym === 0) matches++;
       } else {
         if (sym === maxTone || (maxTone > 10 && sym >= maxTone - 1)) matches++;
@@ -1447,7 +1614,7 @@ export class Decoder {
    * Works for both phone (8 tones) and wideband (16 tones)
    * Phone mode is stricter since we have fewer tones
    */
-  private matchesLoosePatternForMode(symbols: number[], startIndex: number, maxTone: number, salvage = false): boolean {
+  private matchesLoosePatternForMode(symbols: number[], startIndex: number, sync: number[], maxTone: number, salvage = false): boolean {
     const s = symbols.slice(startIndex, startIndex + 8);
     if (s.length < 8) return false;
 
@@ -1459,7 +1626,7 @@ export class Decoder {
       if (salvage) {
         // Salvage: count matches with ±1 tolerance, require 6/8
         let matches = 0;
-        const expected = [0, 1, 2, 3, 0, maxTone, 0, maxTone];
+        const expected = [0, 1, 2, 3, ...sync.slice(0, 4)];
         for (let i = 0; i < 8; i++) {
           if (s[i] === expected[i] || Math.abs(s[i] - expected[i]) <= 1) matches++;
         }
@@ -1467,9 +1634,9 @@ export class Decoder {
       }
       // Phone mode: exact calibration match required
       const calibOk = s[0] === 0 && s[1] === 1 && s[2] === 2 && s[3] === 3;
-      // Phone mode: exact sync match required (alternating 0 and maxTone)
-      const syncOk = s[4] === 0 && s[5] === maxTone &&
-                     s[6] === 0 && s[7] === maxTone;
+      // Phone mode: exact sync match required
+      const syncOk = s[4] === sync[0] && s[5] === sync[1] &&
+                     s[6] === sync[2] && s[7] === sync[3];
       return calibOk && syncOk;
     }
 
@@ -1484,9 +1651,10 @@ export class Decoder {
                     s[2] >= threeQuarter - tolerance - 1 && s[2] <= threeQuarter + tolerance + 1 &&
                     s[3] >= maxTone - tolerance;
 
-    // Check sync part (alternating low-high)
-    const syncOk = s[4] <= tolerance && s[5] >= maxTone - tolerance &&
-                   s[6] <= tolerance && s[7] >= maxTone - tolerance;
+    // Check sync part (low-high pattern)
+    const syncOk = sync.slice(0, 4).every((expected, j) =>
+      expected === 0 ? s[4 + j] <= tolerance : s[4 + j] >= maxTone - tolerance
+    );
 
     return calibOk && syncOk;
   }
@@ -1504,12 +1672,14 @@ export class Decoder {
    * Calculate expected end time based on number of frames
    * Returns timestamp when transmission should be complete (with 50% buffer)
    */
-  private calculateExpectedEndTime(totalFrames: number): number {
+  private calculateExpectedEndTime(totalFrames: number, fecProfile: FECProfile = 'normal'): number {
     // Symbol duration in ms (including guard)
     const symbolDurationMs = AUDIO.SYMBOL_DURATION_MS + AUDIO.GUARD_INTERVAL_MS;
 
     // Estimate symbols per frame (assuming max frame size for safety)
-    const frameBytes = 3 + FRAME_V3.PAYLOAD_SIZE + FRAME_V3.RS_PARITY_SIZE; // ~147 bytes
+    // Scaled by how much larger/smaller the FEC profile makes each frame
+    const profileScale = getDataFrameSize(FRAME_V3.PAYLOAD_SIZE, fecProfile) / getDataFrameSize(FRAME_V3.PAYLOAD_SIZE);
+    const frameBytes = Math.ceil((3 + FRAME_V3.PAYLOAD_SIZE + FRAME_V3.RS_PARITY_SIZE) * profileScale); // ~147 bytes
     const symbolsPerFrame = this.calculateSymbolsForBytes(frameBytes);
 
     // Total data symbols
@@ -1944,7 +2114,8 @@ export class Decoder {
     }
 
     // Salvage mode: frequency sweep and brute-force attempts
-    if (this.salvageMode) {
+    // (these re-extract single-tone symbols, so multitone headers are left out)
+    if (this.salvageMode && this.multitoneFrom < 0) {
       const sweepResult = this.frequencySweepHeaderDecode(headerBytes, headerSymbols);
       if (sweepResult) {
         return; // Success via frequency sweep
@@ -1957,7 +2128,7 @@ export class Decoder {
     }
 
     // Try spectral interference compensation on first overall failure
-    if (!this.toneBiases) {
+    if (!this.toneBiases && this.multitoneFrom < 0) {
       const biasDetected = this.estimateToneBiases();
       if (biasDetected) {
         console.log('[Decoder] Retrying header with interference compensation at same sync position...');
@@ -2053,8 +2224,9 @@ export class Decoder {
 
     // Fatal failure - too many header decode failures
     if (this.consecutiveHeaderFailures >= Decoder.FATAL_HEADER_FAILURES) {
-      // If we haven't tried the other mode yet, try switching
-      if (!this.modeRetryAttempted && this.detectedAudioMode) {
+      // If we haven't tried the other mode yet, try switching (phone and
+      // wideband can be mistaken for each other; the ultrasonic band cannot)
+      if (!this.modeRetryAttempted && this.detectedAudioMode && this.detectedAudioMode !== 'ultrasonic') {
         const currentMode = this.detectedAudioMode;
         const otherMode: AudioMode = currentMode === 'phone' ? 'wideband' : 'phone';
         console.log(`[Decoder] Fatal header failures in ${currentMode} mode, trying ${otherMode} mode`);
@@ -2070,12 +2242,14 @@ export class Decoder {
         // Reset symbol buffers and detection state
         this.bestPhase = -1;
         this.syncFoundAt = -1;
+        this.multitoneFrom = -1;
         for (let p = 0; p < NUM_PHASES; p++) {
           this.phaseSymbols[p] = [];
         }
 
         // Re-initialize chirp detector for new mode
         this.chirpDetector = new ChirpDetector(this.sampleRate, 0.3);
+        this.chirpOrigin = -1;
         this.chirpDetected = false;
         this.chirpEndSample = -1;
         this.state = 'detecting_preamble';
@@ -2116,6 +2290,7 @@ export class Decoder {
       this.markSyncPositionFailed(this.bestPhase, this.syncFoundAt);
     }
 
+    this.stopMultitone();
     this.bestPhase = -1;
     this.syncFoundAt = -1;
 
@@ -2151,6 +2326,11 @@ export class Decoder {
     if (!this.headerInfo) return FRAME_V3.PAYLOAD_SIZE;
 
     const frameSize = this.getOptimalFrameSize();
+
+    // Retransmitted frames are padded to the full frame size, and repair
+    // frames (after the data frames) are always full size
+    if (this.headerInfo.retransmitFrames > 0) return frameSize;
+    if (frameIndex >= this.headerInfo.totalFrames) return frameSize;
     const totalPayload = this.headerInfo.payloadLength;
 
     const start = frameIndex * frameSize;
@@ -2158,18 +2338,125 @@ export class Decoder {
     return Math.max(0, end - start);
   }
 
+  /**
+   * Symbols occupied by the header copies (and header extension, if any)
+   */
+  private getHeaderBlockSymbols(includeExtension: boolean): number {
+    const headerCopies = this.headerRepeated ? 2 : 1;
+    let headerSymbols = this.calculateSymbolsForBytes(getHeaderSize()) * headerCopies;
+    if (includeExtension && this.headerInfo?.extended) {
+      headerSymbols += this.calculateSymbolsForBytes(getExtensionSize());
+    }
+    return headerSymbols;
+  }
+
+  /**
+   * Decode an FEC block at a symbol position, trying timing offsets and phases
+   * (best phase first, soft decision before hard decision).
+   */
+  private decodeBlockAt(
+    baseStart: number,
+    symCount: number,
+    encodedBytes: number,
+    decodeSoft: (softBits: number[]) => FECDecodeResult,
+    decodeHard: (bytes: Uint8Array) => FECDecodeResult
+  ): FECDecodeResult | null {
+    const offsets = [0, -1, 1, -2, 2];
+    const interleaverDepth = calculateInterleaverDepth(encodedBytes);
+
+    const phasesToTry = [this.bestPhase];
+    for (let p = 0; p < NUM_PHASES; p++) {
+      if (p !== this.bestPhase) phasesToTry.push(p);
+    }
+
+    for (const phase of phasesToTry) {
+      const phaseSymbols = this.phaseSymbols[phase];
+      for (const offset of offsets) {
+        const start = baseStart + offset;
+        if (start < 0 || start + symCount > phaseSymbols.length) continue;
+
+        const softBits = this.extractSoftBitsForSlice(phase, start, symCount, encodedBytes);
+        if (softBits) {
+          const softResult = decodeSoft(deinterleaveSoftBits(softBits, interleaverDepth, encodedBytes));
+          if (softResult.success) return softResult;
+        }
+
+        const bytesRaw = this.symbolsToBytes(phaseSymbols.slice(start, start + symCount), encodedBytes);
+        const hardResult = decodeHard(deinterleave(bytesRaw, interleaverDepth, encodedBytes));
+        if (hardResult.success) return hardResult;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Decode the header extension that follows the header copies.
+   * Returns true once the extension has been applied to the header.
+   */
+  private processHeaderExtension(): boolean {
+    if (!this.headerInfo) return false;
+
+    const extensionBytes = getExtensionSize();
+    const extensionSymbols = this.calculateSymbolsForBytes(extensionBytes);
+    const extensionStart = this.syncFoundAt + this.getHeaderBlockSymbols(false);
+
+    // Wait for the extension plus slack for the offset retries
+    const symbolsAvailable = this.phaseSymbols[this.bestPhase].length - extensionStart;
+    if (symbolsAvailable < extensionSymbols + 2) {
+      this.lastDebugInfo = `Header extension: ${Math.max(0, symbolsAvailable)}/${extensionSymbols} symbols`;
+      return false;
+    }
+
+    const result = this.decodeBlockAt(
+      extensionStart,
+      extensionSymbols,
+      extensionBytes,
+      decodeExtensionFECSoft,
+      decodeExtensionFEC
+    );
+    const extension = result ? parseHeaderExtension(result.data) : null;
+
+    if (!result || !extension) {
+      console.error('[Decoder] Header extension decode failed');
+      this.state = 'error';
+      this.lastDebugInfo = 'Header extension decode failed - signal too weak or corrupted.';
+      this.updateProgress();
+      this.onError?.(new Error('Failed to decode header extension. The signal may be too weak or corrupted.'));
+      return false;
+    }
+
+    this.headerExtension = extension;
+    this.headerInfo = applyHeaderExtension(this.headerInfo, extension);
+    this.frameCollector.setHeader(this.headerInfo);
+    this.totalErrorsFixed += Math.max(0, result.correctedErrors);
+    this.expectedEndTime = this.calculateExpectedEndTime(
+      extension.retransmitFrames || extension.totalFrames + this.frameCollector.getRepairFrameCount(),
+      extension.fecProfile
+    );
+    console.log('[Decoder] Header extension OK, FEC profile:', extension.fecProfile, 'frames:', extension.totalFrames);
+    return true;
+  }
+
   private processDataFrame(): void {
-    if (!this.headerInfo) return;
+    if (!this.headerInfo || this.finalizing) return;
+
+    // Extended headers announce the FEC profile before the data frames
+    if (this.headerInfo.extended && !this.headerExtension) {
+      if (!this.processHeaderExtension()) return;
+    }
 
     const symbols = this.phaseSymbols[this.bestPhase];
+    const fecProfile = this.headerInfo.fecProfile;
+    const wideIndex = this.headerInfo.wideFrameIndex;
 
     // Calculate where data frames start
-    const headerEncodedBytes = getHeaderSize();
-    const headerCopies = this.headerRepeated ? 2 : 1;
-    const headerSymbols = this.calculateSymbolsForBytes(headerEncodedBytes) * headerCopies;
-    const dataStart = this.syncFoundAt + headerSymbols;
+    const dataStart = this.syncFoundAt + this.getHeaderBlockSymbols(true);
 
-    const framesExpected = this.headerInfo.totalFrames;
+    // A retransmission carries only the frames the receiver asked for; a
+    // full transmission may be followed by repair frames
+    const framesExpected = this.headerInfo.retransmitFrames
+      || this.headerInfo.totalFrames + this.frameCollector.getRepairFrameCount();
     const symbolsAvailable = symbols.length - dataStart;
 
     // Log progress periodically for long transmissions
@@ -2183,7 +2470,7 @@ export class Decoder {
     const frameSymbolOffsets: number[] = [0];
     for (let i = 0; i < framesExpected; i++) {
       const payloadSize = this.getActualFramePayloadSize(i);
-      const frameBytes = getDataFrameSize(payloadSize);
+      const frameBytes = getDataFrameSize(payloadSize, fecProfile, wideIndex);
       const frameSym = this.calculateSymbolsForBytes(frameBytes);
       frameSymbolOffsets.push(frameSymbolOffsets[i] + frameSym);
     }
@@ -2213,7 +2500,7 @@ export class Decoder {
         this.framesAttempted.add(f);
         continue;
       }
-      const thisFrameEncodedBytes = getDataFrameSize(thisFramePayloadSize);
+      const thisFrameEncodedBytes = getDataFrameSize(thisFramePayloadSize, fecProfile, wideIndex);
       const frameSymCount = frameSymbolOffsets[f + 1] - frameSymbolOffsets[f];
 
       // Frame position from pre-calculated offsets
@@ -2241,9 +2528,9 @@ export class Decoder {
         const softBits = this.extractSoftBitsForSlice(this.bestPhase, frameStart, frameSymCount, thisFrameEncodedBytes);
         if (softBits) {
           const deinterleavedSoft = deinterleaveSoftBits(softBits, interleaverDepth, thisFrameEncodedBytes);
-          const softDecodeResult = decodeDataFECSoft(deinterleavedSoft, thisFramePayloadSize);
+          const softDecodeResult = decodeDataFECSoft(deinterleavedSoft, thisFramePayloadSize, fecProfile, wideIndex);
           if (softDecodeResult.success) {
-            const frame = parseDataFrame(softDecodeResult.data);
+            const frame = parseDataFrame(softDecodeResult.data, wideIndex);
             if (frame && frame.crcValid) {
               this.frameCollector.addFrame(frame.frameIndex, frame.payload, this.headerInfo.sessionId);
               this.totalErrorsFixed += Math.max(0, softDecodeResult.correctedErrors);
@@ -2268,10 +2555,10 @@ export class Decoder {
           console.log('[Decoder] Expected: [68, ...] = "D" magic');
         }
 
-        const decodeResult = decodeDataFEC(frameBytes, thisFramePayloadSize);
+        const decodeResult = decodeDataFEC(frameBytes, thisFramePayloadSize, fecProfile, wideIndex);
 
         if (decodeResult.success) {
-          const frame = parseDataFrame(decodeResult.data);
+          const frame = parseDataFrame(decodeResult.data, wideIndex);
 
           if (frame && frame.crcValid) {
             this.frameCollector.addFrame(frame.frameIndex, frame.payload, this.headerInfo.sessionId);
@@ -2312,10 +2599,10 @@ export class Decoder {
             if (softBits) {
               const intDepth = calculateInterleaverDepth(thisFrameEncodedBytes);
               const deinterleavedSoft = deinterleaveSoftBits(softBits, intDepth, thisFrameEncodedBytes);
-              const softResult = decodeDataFECSoft(deinterleavedSoft, thisFramePayloadSize);
+              const softResult = decodeDataFECSoft(deinterleavedSoft, thisFramePayloadSize, fecProfile, wideIndex);
 
               if (softResult.success) {
-                const frame = parseDataFrame(softResult.data);
+                const frame = parseDataFrame(softResult.data, wideIndex);
                 if (frame && frame.crcValid) {
                   this.frameCollector.addFrame(frame.frameIndex, frame.payload, this.headerInfo!.sessionId);
                   this.totalErrorsFixed += Math.max(0, softResult.correctedErrors);
@@ -2341,10 +2628,10 @@ export class Decoder {
               thisFrameEncodedBytes
             );
 
-            const decodeResult = decodeDataFEC(frameBytes, thisFramePayloadSize);
+            const decodeResult = decodeDataFEC(frameBytes, thisFramePayloadSize, fecProfile, wideIndex);
 
             if (decodeResult.success) {
-              const frame = parseDataFrame(decodeResult.data);
+              const frame = parseDataFrame(decodeResult.data, wideIndex);
 
               if (frame && frame.crcValid) {
                 this.frameCollector.addFrame(frame.frameIndex, frame.payload, this.headerInfo!.sessionId);
@@ -2378,6 +2665,17 @@ export class Decoder {
 
     // Check for timeout: if we have significantly more symbols than expected but still can't decode
     const totalExpectedSymbols = frameSymbolOffsets[framesExpected];
+
+    // ARQ: once the end marker has gone by, ask for what is missing right away
+    // so the decoder is listening again before the retransmission starts
+    const endMarkerSymbols = AUDIO.SYNC_PATTERN.length + dataOffsets[dataOffsets.length - 1];
+    if (this.onArqRequest
+      && this.framesAttempted.size >= framesExpected
+      && symbolsAvailable >= totalExpectedSymbols + endMarkerSymbols
+      && this.requestRetransmission()) {
+      return;
+    }
+
     const bufferRatio = this.salvageMode ? Decoder.SYMBOL_BUFFER_RATIO * 2 : Decoder.SYMBOL_BUFFER_RATIO;
     const symbolsWithBuffer = Math.floor(totalExpectedSymbols * bufferRatio);
 
@@ -2428,6 +2726,19 @@ export class Decoder {
       return bytes;
     }
 
+    // Multitone: whole bytes per symbol, MSB first (no shifts: 32-bit symbols
+    // overflow signed shifts)
+    if (bitsPerSymbol > 8) {
+      const bytesPerSymbol = bitsPerSymbol / 8;
+      const bytes = new Uint8Array(expectedBytes);
+      for (let i = 0; i < expectedBytes; i++) {
+        const symbol = symbols[Math.floor(i / bytesPerSymbol)] ?? 0;
+        const shift = 8 * (bytesPerSymbol - 1 - (i % bytesPerSymbol));
+        bytes[i] = Math.floor(symbol / 2 ** shift) % 256;
+      }
+      return bytes;
+    }
+
     // General case: bit unpacking for 2 or 3 bits per symbol
     const bytes = new Uint8Array(expectedBytes);
     let bitBuffer = 0;
@@ -2450,9 +2761,31 @@ export class Decoder {
   }
 
   private async finalizeDecoding(): Promise<void> {
-    if (!this.headerInfo) return;
+    if (!this.headerInfo || this.finalizing) return;
 
+    const generation = this.sessionGeneration;
+    this.finalizing = true;
     try {
+      // ARQ reply (ACK/NACK) rather than user data
+      if (this.headerInfo.control) {
+        await this.finalizeArqMessage();
+        return;
+      }
+
+      // Chained transmission: store this segment and wait for the rest
+      if (!this.pendingPayload && this.headerInfo.segmentCount > 1) {
+        if (!this.frameCollector.completeSegment()) {
+          throw new Error('Failed to reassemble payload');
+        }
+        this.awaitingRetransmission = false;
+        if (!this.frameCollector.isChainComplete()) {
+          this.awaitNextSegment();
+          return;
+        }
+        // Report totals for the whole chain rather than the last segment
+        this.headerInfo = { ...this.headerInfo, ...this.frameCollector.getChainTotals() };
+      }
+
       // Reassemble payload (or use pending payload if retrying decryption)
       let payload = this.pendingPayload;
       if (!payload) {
@@ -2473,12 +2806,21 @@ export class Decoder {
         this.headerInfo.compressionAlgo,
         this.headerInfo.originalLength,
         this.headerInfo.hasCrc32,
-        this.password || undefined
+        this.password || undefined,
+        this.headerInfo.publicKey,
+        this.privateKey || undefined,
+        this.headerInfo.signed,
+        this.headerInfo.kdfEnvelope,
+        this.preSharedKeys,
+        this.headerInfo.metadata,
+        this.headerInfo.bundle,
+        this.headerInfo.compactConfig
       );
+      if (generation !== this.sessionGeneration) return;
 
-      // Check if password is needed
-      if (result.needsPassword) {
-        console.log('[Decoder] Encrypted data - password required');
+      // Check if password or private key is needed
+      if (result.needsPassword || result.needsKey) {
+        console.log(`[Decoder] Encrypted data - ${result.needsKey ? 'private key' : 'password'} required`);
         this.state = 'complete';
         this.updateProgress();
 
@@ -2487,7 +2829,10 @@ export class Decoder {
           text: '',
           checksum: '',
           encrypted: true,
-          needsPassword: true,
+          sessionId: this.headerInfo.sessionId,
+          needsPassword: result.needsPassword,
+          needsKey: result.needsKey,
+          keyId: result.keyId,
           stats: {
             originalSize: this.headerInfo.originalLength,
             compressedSize: this.headerInfo.payloadLength,
@@ -2508,13 +2853,17 @@ export class Decoder {
 
       // Calculate checksum
       const checksum = await sha256Hex(data);
+      if (generation !== this.sessionGeneration) return;
 
       // Convert to text
       const text = bytesToString(data);
 
       this.state = 'complete';
       this.pendingPayload = null;  // Clear pending payload on success
+      this.awaitingRetransmission = false;
       this.updateProgress();
+      // Nothing left to resume for this message
+      this.frameCollector.discardSession(this.headerInfo.sessionId);
 
       // Use console.error for CLI compatibility (avoids stdout pollution)
 
@@ -2523,8 +2872,12 @@ export class Decoder {
         text,
         checksum,
         encrypted: this.headerInfo.encrypted,
+        sessionId: this.headerInfo.sessionId,
+        signature: result.signature,
+        metadata: result.metadata,
+        files: result.files,
         stats: {
-          originalSize: this.headerInfo.originalLength,
+          originalSize: data.length,  // Without the metadata block, if any
           compressedSize: this.headerInfo.payloadLength,
           compressed: this.headerInfo.compressed,
           frameCount: this.headerInfo.totalFrames,
@@ -2532,9 +2885,101 @@ export class Decoder {
         },
       });
     } catch (err) {
+      if (generation !== this.sessionGeneration) return;
       console.error('[Decoder] Finalize error:', err);
       this.handleError(err instanceof Error ? err : new Error('Decoding failed'));
+    } finally {
+      if (generation === this.sessionGeneration) {
+        this.finalizing = false;
+      }
+    }
+  }
+
+  /**
+   * Complete an ARQ control transmission
+   * A reply heard while our own retransmission request is pending is the
+   * receiver's own NACK echoing back; it is ignored and listening resumes.
+   */
+  private async finalizeArqMessage(): Promise<void> {
+    if (!this.headerInfo) return;
+
+    const payload = this.frameCollector.reassemble();
+    if (!payload) {
+      throw new Error('Failed to reassemble payload');
+    }
+
+    const generation = this.sessionGeneration;
+    const result = await processPayload(
+      payload,
+      false,
+      false,
+      0,
+      this.headerInfo.originalLength,
+      this.headerInfo.hasCrc32
+    );
+    if (generation !== this.sessionGeneration) return;
+    const message = result.success && result.data ? parseArqRecord(result.data) : null;
+    if (!message) {
+      throw new Error(result.error || 'Invalid ARQ control message');
+    }
+
+    if (this.awaitingRetransmission) {
+      console.log('[Decoder] Ignoring ARQ', message.type, 'while waiting for a retransmission');
+      this.rearmDetection('Waiting for retransmission...');
+      return;
+    }
+
+    console.log('[Decoder] ARQ', message.type, 'for session', message.sessionId, 'missing:', message.missingFrames.length);
+    this.state = 'complete';
+    this.updateProgress();
+
+    this.onComplete?.({
+      data: result.data!,
+      text: '',
+      checksum: '',
+      encrypted: false,
+      sessionId: this.headerInfo.sessionId,
+      arq: message,
+      stats: {
+        originalSize: this.headerInfo.originalLength,
+        compressedSize: this.headerInfo.payloadLength,
+        compressed: false,
+        frameCount: this.headerInfo.totalFrames,
+        errorsFixed: this.totalErrorsFixed,
+      },
+    });
+  }
+
+  /**
+   * Ask the sender to resend the frames still missing from the current
+   * transmission (half-duplex ARQ)
+   * Keeps the frames received so far, re-arms detection for the
+   * retransmission and passes the NACK to the ARQ handler. Returns null when
+   * there is nothing to request (no header yet, nothing missing, or the
+   * transmission is itself an ARQ reply).
+   */
+  requestRetransmission(): ArqMessage | null {
+    if (!this.headerInfo || this.headerInfo.control || this.state !== 'receiving_data') {
+      return null;
     }
+
+    const missing = this.frameCollector.getMissingFrames();
+    if (missing.length === 0) return null;
+
+    const message: ArqMessage = {
+      type: 'nack',
+      sessionId: this.headerInfo.sessionId,
+      segmentIndex: this.headerInfo.segmentIndex,
+      missingFrames: missing.slice(0, ARQ.MAX_RETRANSMIT_FRAMES),
+    };
+
+    // The collector keeps the frames received so far for the retransmission
+    this.awaitingRetransmission = true;
+
+    console.log(`[Decoder] Requesting ${message.missingFrames.length}/${this.headerInfo.totalFrames} missing frames`);
+    this.rearmDetection(`Requested ${message.missingFrames.length} missing frames. Waiting for retransmission...`);
+    this.onArqRequest?.(message);
+    return message;
   }
 
   /**
@@ -2543,8 +2988,11 @@ export class Decoder {
    */
   softReset(): void {
     console.log('[Decoder] Soft reset - restarting detection');
-    this.frameCollector.reset();
+    // Finished segments of a chain survive, so only the failed one is resent
+    this.frameCollector.resetSegment();
     this.headerInfo = null;
+    this.headerExtension = null;
+    this.stopMultitone();
     this.bestPhase = -1;
     this.syncFoundAt = -1;
     this.framesAttempted = new Set();
@@ -2554,6 +3002,7 @@ export class Decoder {
     this.chirpDetected = false;
     this.chirpEndSample = -1;
     this.chirpDetector.reset();
+    this.chirpOrigin = -1;
     // Reset timeout tracking
     this.syncDetectedTime = 0;
     this.headerDecodedTime = 0;
@@ -2564,6 +3013,69 @@ export class Decoder {
     this.updateProgress();
   }
 
+  /**
+   * Re-arm detection for the next segment of a chained transmission.
+   * Keeps finished segments and skips the symbols already consumed, so the
+   * preamble search only looks at audio after the segment just received.
+   */
+  private awaitNextSegment(): void {
+    const segmentIndex = this.headerInfo?.segmentIndex ?? 0;
+    const received = this.frameCollector.getSegmentsReceived();
+    const total = this.frameCollector.getSegmentCount();
+    console.log(`[Decoder] Segment ${segmentIndex}/${total} complete (${received} received), waiting for next segment`);
+    this.rearmDetection(`Segment ${received}/${total} received. Waiting for next segment...`);
+  }
+
+  /**
+   * Re-arm detection for another transmission in the same recording
+   * (next chained segment, ARQ retransmission or reply). Clears the current
+   * transmission's frames and timing, and starts the preamble search after
+   * the symbols already consumed.
+   */
+  private rearmDetection(debugInfo: string): void {
+    // Phases other than the best one stopped extracting at sync; pad them with
+    // placeholders instead of analyzing audio that belongs to the finished segment
+    const resumeAt = this.phaseSymbols[this.bestPhase].length;
+    const numTones = AUDIO.NUM_TONES || 4;
+    for (let p = 0; p < NUM_PHASES; p++) {
+      while (this.phaseSymbols[p].length < resumeAt) {
+        this.phaseSymbols[p].push(0);
+        this.phaseSoftSymbols[p].push({
+          softValues: new Uint8Array(numTones).fill(127),
+          hardDecision: 0,
+          confidence: 0,
+        });
+      }
+    }
+    this.symbolSearchStart = resumeAt;
+    // The next preamble comes after the consumed symbols, as single tones
+    this.multitoneFrom = -1;
+
+    // Feed the chirp detector from the next signal onset, as for the first
+    // transmission, rather than from the silence in between
+    this.hasSignal = false;
+
+    this.frameCollector.resetSegment();
+    this.headerInfo = null;
+    this.headerExtension = null;
+    this.bestPhase = -1;
+    this.syncFoundAt = -1;
+    this.framesAttempted = new Set();
+    this.failedDataFrames.clear();
+    this.headerRepeated = false;
+    this.chirpDetected = false;
+    this.chirpEndSample = -1;
+    this.chirpDetector.reset();
+    this.chirpOrigin = -1;
+    this.consecutiveHeaderFailures = 0;
+    this.syncDetectedTime = 0;
+    this.headerDecodedTime = 0;
+    this.expectedEndTime = 0;
+    this.state = 'detecting_preamble';
+    this.lastDebugInfo = debugInfo;
+    this.updateProgress();
+  }
+
   private handleError(error: Error): void {
     // For certain errors, try soft reset instead of failing
     if (this.canRecover(error)) {
@@ -2588,6 +3100,12 @@ export class Decoder {
    */
   private handleTimeoutError(message: string): void {
     console.log('[Decoder] Timeout:', message);
+
+    // With ARQ, a transmission that ended short is answered with a NACK
+    if (this.onArqRequest && this.requestRetransmission()) {
+      return;
+    }
+
     this.state = 'error';
     this.lastDebugInfo = message;
     this.progress.value = {
@@ -2635,6 +3153,8 @@ export class Decoder {
       symbolsReceived: totalSymbols,
       chirpDetected: this.chirpDetected,
       signalWarning: this.consecutiveHeaderFailures >= Decoder.MAX_HEADER_FAILURES,
+      segmentsReceived: this.frameCollector.getSegmentsReceived(),
+      totalSegments: this.frameCollector.getSegmentCount(),
     };
   }
 
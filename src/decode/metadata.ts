@@ -0,0 +1,83 @@
+/**
+ * Message metadata parsing
+ *
+ * Block layout is documented in encode/metadata.ts
+ */
+import { METADATA } from '../utils/constants';
+import { METADATA_FIELD_IDS, type MessageMetadata } from '../encode/metadata';
+import { readUint16LE, bytesToString } from '../utils/helpers';
+
+/**
+ * Split a metadata block from the data it precedes
+ * Returns null for a wrong magic or a truncated block
+ */
+export function parseMetadataBlock(payload: Uint8Array): { metadata: MessageMetadata; data: Uint8Array } | null {
+  if (payload.length < METADATA.BLOCK_HEADER_SIZE) {
+    console.log('[Metadata] Block too short:', payload.length);
+    return null;
+  }
+
+  if (String.fromCharCode(payload[0]) !== METADATA.MAGIC) {
+    console.log('[Metadata] Invalid block magic:', payload[0]);
+    return null;
+  }
+
+  const end = METADATA.BLOCK_HEADER_SIZE + readUint16LE(payload, 1);
+  if (payload.length < end) {
+    console.log('[Metadata] Block truncated: have', payload.length, 'need', end);
+    return null;
+  }
+
+  const metadata: MessageMetadata = {};
+  let offset = METADATA.BLOCK_HEADER_SIZE;
+  while (offset < end) {
+    if (offset + 2 > end || offset + 2 + payload[offset + 1] > end) {
+      console.log('[Metadata] Field overruns the block at', offset);
+      return null;
+    }
+    const id = payload[offset];
+    const value = payload.subarray(offset + 2, offset + 2 + payload[offset + 1]);
+    offset += 2 + value.length;
+
+    switch (id) {
+      case METADATA_FIELD_IDS.filename:
+        metadata.filename = bytesToString(value);
+        break;
+      case METADATA_FIELD_IDS.mimeType:
+        metadata.mimeType = bytesToString(value);
+        break;
+      case METADATA_FIELD_IDS.createdAt:
+        if (value.length === 4) {
+          const seconds = (value[0] | (value[1] << 8) | (value[2] << 16) | (value[3] << 24)) >>> 0;
+          metadata.createdAt = new Date(seconds * 1000);
+        }
+        break;
+      case METADATA_FIELD_IDS.label:
+        metadata.label = bytesToString(value);
+        break;
+      default:
+        // Field from a newer sender
+        console.log('[Metadata] Skipping unknown field:', id);
+    }
+  }
+
+  return { metadata, data: payload.subarray(end) };
+}
+
+/**
+ * Reduce a received file name to one that is safe to save under:
+ * no directories, control characters, reserved characters or leading dots
+ * Returns null when nothing usable is left
+ */
+export function getSafeFilename(filename: string | undefined): string | null {
+  if (!filename) return null;
+
+  const base = filename.split(/[\\/]/).pop() ?? '';
+  const safe = base
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, '_')
+    .replace(/^[.\s]+/, '')
+    .trim()
+    .slice(0, 200);
+
+  return safe || null;
+}
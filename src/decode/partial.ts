@@ -0,0 +1,118 @@
+/**
+ * Saving partial receptions
+ *
+ * Frames of a message that did not decode completely are kept as JSON (the
+ * CLI writes it to a file, the web app to localStorage), so the reception
+ * can be finished from another recording later.
+ */
+import type { PartialReception } from './deframe';
+
+const PARTIAL_FORMAT_VERSION = 1;
+
+interface SerializedPartial {
+  sessionId: number;
+  segmentCount: number;
+  segments: { index: number; totalFrames: number; payload: string }[];
+  frames: { segment: number; index: number; payload: string }[];
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function isIndex(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+}
+
+/**
+ * Count the frames kept for unfinished transmissions
+ */
+export function countPartialFrames(partials: PartialReception[]): number {
+  let count = 0;
+  for (const partial of partials) {
+    for (const frames of partial.frames.values()) {
+      count += frames.size;
+    }
+  }
+  return count;
+}
+
+/**
+ * Serialize partial receptions to JSON
+ */
+export function serializePartialReceptions(partials: PartialReception[]): string {
+  const sessions: SerializedPartial[] = partials.map(partial => ({
+    sessionId: partial.sessionId,
+    segmentCount: partial.segmentCount,
+    segments: [...partial.segments].map(([index, segment]) => ({
+      index,
+      totalFrames: segment.totalFrames,
+      payload: bytesToBase64(segment.payload),
+    })),
+    frames: [...partial.frames].flatMap(([segment, frames]) =>
+      [...frames].map(([index, payload]) => ({ segment, index, payload: bytesToBase64(payload) }))
+    ),
+  }));
+
+  return JSON.stringify({ version: PARTIAL_FORMAT_VERSION, sessions }, null, 2);
+}
+
+/**
+ * Parse JSON written by serializePartialReceptions
+ * Throws if the data is not a partial reception file
+ */
+export function parsePartialReceptions(json: string): PartialReception[] {
+  const data = JSON.parse(json);
+  if (data?.version !== PARTIAL_FORMAT_VERSION || !Array.isArray(data.sessions)) {
+    throw new Error('Not a saved partial reception');
+  }
+
+  return (data.sessions as SerializedPartial[]).map(session => {
+    const validSession = Number.isInteger(session.sessionId) && session.sessionId >= 0 && session.sessionId <= 0xFFFF;
+    if (!validSession || !isIndex(session.segmentCount, 255)
+      || !Array.isArray(session.segments) || !Array.isArray(session.frames)) {
+      throw new Error('Not a saved partial reception');
+    }
+
+    const partial: PartialReception = {
+      sessionId: session.sessionId,
+      segmentCount: session.segmentCount,
+      segments: new Map(),
+      frames: new Map(),
+    };
+
+    for (const segment of session.segments) {
+      if (!isIndex(segment.index, session.segmentCount) || !isIndex(segment.totalFrames, 0xFFFF)) {
+        throw new Error('Not a saved partial reception');
+      }
+      partial.segments.set(segment.index, { payload: base64ToBytes(segment.payload), totalFrames: segment.totalFrames });
+    }
+
+    for (const frame of session.frames) {
+      if (!isIndex(frame.segment, session.segmentCount) || !isIndex(frame.index, 0xFFFF)) {
+        throw new Error('Not a saved partial reception');
+      }
+      let frames = partial.frames.get(frame.segment);
+      if (!frames) {
+        frames = new Map();
+        partial.frames.set(frame.segment, frames);
+      }
+      frames.set(frame.index, base64ToBytes(frame.payload));
+    }
+
+    return partial;
+  });
+}
@@ -0,0 +1,218 @@
+/**
+ * Channel probe evaluation
+ *
+ * Measures a recorded probe (see PROBE and encodeProbe) and recommends the
+ * audio mode and FEC profile for the channel it went through:
+ * - Frequency offset from the calibration tones
+ * - Per-tone SNR against the noise in the probe's silent slot
+ * - Frequency response (each tone's level against the strongest one)
+ */
+import { fft, magnitude, findPeakFrequency } from '../lib/fft';
+import { AUDIO, AUDIO_MODES, MULTITONE, PROBE, getAudioMode, setAudioMode, getSubcarrierFrequencies, type AudioMode } from '../utils/constants';
+import { type FECProfile } from '../encode/v3-fec';
+import { detectToneSoft } from './soft-decision';
+import { FrequencyOffsetTracker } from './freq-offset';
+
+export interface ProbeToneMeasurement {
+  frequencyHz: number;
+  /** Tone level against the noise floor at the same frequency (dB) */
+  snrDb: number;
+  /** Tone level against the strongest tone (dB, 0 or below) */
+  levelDb: number;
+}
+
+export interface ProbeModeAssessment {
+  mode: AudioMode;
+  /** Lowest SNR among the sounding tones in the mode's band (dB) */
+  minSnrDb: number;
+  /** Whether the channel is good enough for the mode */
+  usable: boolean;
+}
+
+export interface ProbeResult {
+  /** Estimated offset in Hz (positive = received frequencies are higher) */
+  frequencyOffsetHz: number;
+  /** Confidence in the offset estimate (0-1) */
+  offsetConfidence: number;
+  tones: ProbeToneMeasurement[];
+  modes: ProbeModeAssessment[];
+  recommendedMode: AudioMode;
+  recommendedFec: FECProfile;
+}
+
+// SNR a probe tone needs for each mode to decode reliably (dB). Multitone
+// splits its power across 16 subcarriers, so it needs the most.
+const MODE_MIN_SNR_DB: Record<AudioMode, number> = {
+  phone: 6,
+  wideband: 12,
+  ultrasonic: 12,
+  multitone: 30,
+};
+
+// Fastest mode first; ultrasonic is a choice for quietness, not speed, so it
+// is only reported
+const MODE_PREFERENCE: AudioMode[] = ['multitone', 'wideband', 'phone'];
+
+// Largest frequency offset multitone's closely spaced tones tolerate (Hz)
+const MULTITONE_MAX_OFFSET_HZ = MULTITONE.TONE_SPACING / 5;
+
+// SNR margin above a mode's minimum for lighter FEC (dB)
+const LIGHT_FEC_MARGIN_DB = 12;
+const NORMAL_FEC_MARGIN_DB = 4;
+
+// Cap for a silent noise floor (e.g. a file that never went through a channel)
+const MAX_SNR_DB = 60;
+
+// Pattern symbols that may be wrong for the probe to still be found
+const MAX_PATTERN_ERRORS = 2;
+
+/**
+ * Evaluate a recorded channel probe
+ * Returns null when the recording contains no probe
+ */
+export function evaluateProbe(samples: Float32Array, sampleRate: number): ProbeResult | null {
+  const previousMode = getAudioMode();
+  setAudioMode(PROBE.MODE);
+  try {
+    return measureProbe(samples, sampleRate);
+  } finally {
+    setAudioMode(previousMode);
+  }
+}
+
+function measureProbe(samples: Float32Array, sampleRate: number): ProbeResult | null {
+  const symbolSamples = Math.floor((AUDIO.SYMBOL_DURATION_MS / 1000) * sampleRate);
+  const calibration: number[] = [];
+  for (let r = 0; r < AUDIO.CALIBRATION_REPEATS; r++) {
+    calibration.push(...AUDIO.CALIBRATION_TONES);
+  }
+
+  const patternStart = findProbePattern(samples, sampleRate, [...calibration, ...PROBE.SYNC_PATTERN]);
+  if (patternStart < 0) {
+    console.log('[Probe] No probe sync pattern found');
+    return null;
+  }
+
+  // Frequency offset from the calibration tones
+  const calibrationAudio = samples.subarray(patternStart, patternStart + calibration.length * symbolSamples);
+  const offset = new FrequencyOffsetTracker(100).estimateOffset(calibrationAudio, sampleRate, calibration, symbolSamples);
+
+  // Sounding section: silent slot, then one tone per frequency
+  const windowSamples = Math.floor(0.04 * sampleRate);
+  const soundingStart = patternStart + (calibration.length + PROBE.SYNC_PATTERN.length) * symbolSamples;
+  const silenceSamples = Math.floor((PROBE.SILENCE_MS / 1000) * sampleRate);
+  const toneSamples = Math.floor((PROBE.TONE_MS / 1000) * sampleRate);
+  const toneOffset = Math.floor((toneSamples - windowSamples) / 2);
+
+  if (soundingStart + silenceSamples + PROBE.FREQUENCIES.length * toneSamples > samples.length) {
+    console.log('[Probe] Recording ends before the probe tones do');
+    return null;
+  }
+
+  // Noise from the end of the silent slot, after the sync pattern's echo
+  const noiseStart = soundingStart + silenceSamples - windowSamples - Math.floor(0.01 * sampleRate);
+  const noise = magnitude(fft(samples.subarray(noiseStart, noiseStart + windowSamples)));
+
+  const levels = PROBE.FREQUENCIES.map((frequency, i) => {
+    const start = soundingStart + silenceSamples + i * toneSamples + toneOffset;
+    const mags = magnitude(fft(samples.subarray(start, start + windowSamples)));
+    const freq = frequency + offset.offsetHz;
+    return {
+      signal: bandPeak(mags, sampleRate, freq),
+      noise: bandPeak(noise, sampleRate, freq),
+    };
+  });
+
+  const strongest = Math.max(...levels.map(l => l.signal), Number.MIN_VALUE);
+  const tones: ProbeToneMeasurement[] = PROBE.FREQUENCIES.map((frequencyHz, i) => ({
+    frequencyHz,
+    snrDb: Math.min(MAX_SNR_DB, toDb(levels[i].signal / levels[i].noise)),
+    levelDb: toDb(levels[i].signal / strongest),
+  }));
+
+  const modes = (Object.keys(AUDIO_MODES) as AudioMode[]).map(mode => {
+    const [low, high] = getModeBand(mode);
+    const inBand = tones.filter(t => t.frequencyHz >= low && t.frequencyHz <= high);
+    const minSnrDb = Math.min(...inBand.map(t => t.snrDb));
+    const offsetOk = mode !== 'multitone' || Math.abs(offset.offsetHz) <= MULTITONE_MAX_OFFSET_HZ;
+    return { mode, minSnrDb, usable: offsetOk && minSnrDb >= MODE_MIN_SNR_DB[mode] };
+  });
+
+  const recommended = MODE_PREFERENCE
+    .map(mode => modes.find(m => m.mode === mode)!)
+    .find(m => m.usable);
+
+  return {
+    frequencyOffsetHz: offset.offsetHz,
+    offsetConfidence: offset.confidence,
+    tones,
+    modes,
+    recommendedMode: recommended?.mode ?? 'phone',
+    recommendedFec: recommended ? chooseFecProfile(recommended.minSnrDb - MODE_MIN_SNR_DB[recommended.mode]) : 'heavy',
+  };
+}
+
+/**
+ * Find the sample where the calibration + probe sync pattern starts
+ * Scans in quarter-symbol steps and returns the middle of the first run of
+ * best matches, or -1 when nothing matches well enough
+ */
+function findProbePattern(samples: Float32Array, sampleRate: number, pattern: number[]): number {
+  const symbolSamples = Math.floor((AUDIO.SYMBOL_DURATION_MS / 1000) * sampleRate);
+  const guard = Math.floor((AUDIO.GUARD_INTERVAL_MS / 1000) * sampleRate);
+  const stepsPerSymbol = 4;
+  const stepPosition = (step: number) => Math.round((step * symbolSamples) / stepsPerSymbol);
+
+  // Tone at every step position
+  const tones: number[] = [];
+  for (let step = 0; stepPosition(step) + symbolSamples <= samples.length; step++) {
+    const pos = stepPosition(step);
+    tones.push(detectToneSoft(samples.subarray(pos + guard, pos + symbolSamples - guard), sampleRate).hardDecision);
+  }
+
+  let bestMatches = pattern.length - MAX_PATTERN_ERRORS - 1;
+  let runStart = -1;
+  let runEnd = -1;
+  for (let i = 0; i + (pattern.length - 1) * stepsPerSymbol < tones.length; i++) {
+    const matches = pattern.filter((tone, j) => tones[i + j * stepsPerSymbol] === tone).length;
+    if (matches > bestMatches) {
+      bestMatches = matches;
+      runStart = runEnd = i;
+    } else if (matches === bestMatches && runEnd === i - 1) {
+      runEnd = i;
+    }
+  }
+
+  return runStart < 0 ? -1 : stepPosition(Math.round((runStart + runEnd) / 2));
+}
+
+/**
+ * Lowest and highest frequency a mode sends, widened to the probe's nearest
+ * sounding tones
+ */
+function getModeBand(mode: AudioMode): [number, number] {
+  if (mode === 'multitone') {
+    const last = getSubcarrierFrequencies(MULTITONE.SUBCARRIERS - 1);
+    return [MULTITONE.BASE_FREQUENCY - 125, last[last.length - 1] + 125];
+  }
+  const settings = AUDIO_MODES[mode];
+  const high = settings.BASE_FREQUENCY + (settings.NUM_TONES - 1) * settings.TONE_SPACING;
+  return [settings.BASE_FREQUENCY - 125, high + 125];
+}
+
+/**
+ * Pick the FEC profile from the SNR margin above the mode's minimum
+ */
+function chooseFecProfile(marginDb: number): FECProfile {
+  if (marginDb >= LIGHT_FEC_MARGIN_DB) return 'light';
+  if (marginDb >= NORMAL_FEC_MARGIN_DB) return 'normal';
+  return 'heavy';
+}
+
+function bandPeak(mags: Float32Array, sampleRate: number, freq: number): number {
+  return Math.max(findPeakFrequency(mags, sampleRate, freq - 50, freq + 50).magnitude, Number.MIN_VALUE);
+}
+
+function toDb(ratio: number): number {
+  return 20 * Math.log10(ratio);
+}
@@ -0,0 +1,97 @@
+/**
+ * Repair frame decoding
+ *
+ * Rebuilds lost data frames from the repair frames of their block. Block
+ * layout and coefficients are documented in encode/repair.ts
+ */
+import { getRepairBlocks, getRepairCoefficient, type RepairBlock } from '../encode/repair';
+import { gfMul, gfDiv } from '../lib/reed-solomon';
+
+/**
+ * Rebuild missing data frames wherever a block has enough frames
+ * Recovered frames are added to the map at full frame size.
+ *
+ * @param frames - Received frames keyed by 1-based frame index (repair frames included)
+ * @param totalFrames - Number of data frames
+ * @param overheadPercent - Repair overhead announced in the header extension
+ * @returns Number of data frames recovered
+ */
+export function recoverMissingFrames(
+  frames: Map<number, Uint8Array>,
+  totalFrames: number,
+  overheadPercent: number
+): number {
+  let recovered = 0;
+  for (const block of getRepairBlocks(totalFrames, overheadPercent)) {
+    recovered += recoverBlock(frames, block);
+  }
+  return recovered;
+}
+
+/**
+ * Solve one block for its missing data frames
+ * Each repair frame is a known linear combination of the block's data
+ * frames; subtracting the received ones leaves a square system in the
+ * missing ones, solved by Gauss-Jordan elimination over GF(256).
+ */
+function recoverBlock(frames: Map<number, Uint8Array>, block: RepairBlock): number {
+  const missing: number[] = [];
+  for (let d = 0; d < block.frameCount; d++) {
+    if (!frames.has(block.firstFrame + d)) missing.push(d);
+  }
+  if (missing.length === 0) return 0;
+
+  const repairs: number[] = [];
+  for (let r = 0; r < block.repairCount && repairs.length < missing.length; r++) {
+    if (frames.has(block.firstRepair + r)) repairs.push(r);
+  }
+  if (repairs.length < missing.length) return 0;
+
+  const frameSize = frames.get(block.firstRepair + repairs[0])!.length;
+  const size = missing.length;
+
+  // One row per repair frame: coefficients of the missing frames, and the
+  // repair payload with the received data frames taken out
+  const matrix: number[][] = [];
+  const values: Uint8Array[] = [];
+  for (const r of repairs) {
+    const value = new Uint8Array(frameSize);
+    value.set(frames.get(block.firstRepair + r)!.subarray(0, frameSize));
+
+    for (let d = 0; d < block.frameCount; d++) {
+      const frame = frames.get(block.firstFrame + d);
+      if (!frame) continue;
+      const coefficient = getRepairCoefficient(block, r, d);
+      const length = Math.min(frame.length, frameSize);
+      for (let i = 0; i < length; i++) {
+        value[i] ^= gfMul(coefficient, frame[i]);
+      }
+    }
+
+    matrix.push(missing.map(d => getRepairCoefficient(block, r, d)));
+    values.push(value);
+  }
+
+  // Cauchy submatrices are invertible, so a nonzero pivot always exists
+  for (let col = 0; col < size; col++) {
+    const pivotRow = matrix.findIndex((row, i) => i >= col && row[col] !== 0);
+    if (pivotRow < 0) return 0;
+    [matrix[col], matrix[pivotRow]] = [matrix[pivotRow], matrix[col]];
+    [values[col], values[pivotRow]] = [values[pivotRow], values[col]];
+
+    const pivot = matrix[col][col];
+    for (let j = 0; j < size; j++) matrix[col][j] = gfDiv(matrix[col][j], pivot);
+    for (let i = 0; i < frameSize; i++) values[col][i] = gfDiv(values[col][i], pivot);
+
+    for (let row = 0; row < size; row++) {
+      const factor = matrix[row][col];
+      if (row === col || factor === 0) continue;
+      for (let j = 0; j < size; j++) matrix[row][j] ^= gfMul(factor, matrix[col][j]);
+      for (let i = 0; i < frameSize; i++) values[row][i] ^= gfMul(factor, values[col][i]);
+    }
+  }
+
+  missing.forEach((d, i) => frames.set(block.firstFrame + d, values[i]));
+  console.log('[Deframe] Recovered', size, 'frames from repair frames in block starting at', block.firstFrame);
+  return size;
+}
@@ -0,0 +1,103 @@
+/**
+ * Channel simulation - how well a transmission survives a channel
+ *
+ * Pushes an encoded transmission through the impairments of a simulated
+ * channel (see lib/channel) and decodes what comes out, the way a
+ * receiver would. Runs are seeded, so the same transmission, channel and
+ * seed always give the same outcome: modes and FEC profiles can be
+ * compared on equal terms.
+ */
+import { Decoder, type DecodeProgress, type DecodeResult } from './index';
+import { feedDecoder } from './feed';
+import { applyChannel, type ChannelConfig } from '../lib/channel';
+import { getAudioMode, setAudioMode } from '../utils/constants';
+import { type EncodeResult } from '../encode/index';
+
+export interface ReceptionResult {
+  /** Decoded result; absent when the decode failed */
+  result?: DecodeResult;
+  /** Why the decode failed */
+  error?: string;
+  framesReceived: number;
+  totalFrames: number;
+  /** Symbol errors corrected by FEC */
+  errorsFixed: number;
+}
+
+export interface SimulationResult extends ReceptionResult {
+  /** Decoded, and the checksum matches what was sent */
+  success: boolean;
+  /** Audio as it came out of the channel */
+  received: Float32Array;
+}
+
+// Silence around the transmission, for the channel's noise and AGC to act on
+// and for its echo to ring out into
+const PAD_SECONDS = 0.5;
+
+/**
+ * Send a transmission through a channel and decode it
+ * @param transmission Encoded transmission (an EncodeResult)
+ * @param channel Impairments to apply, with the seed of their random choices
+ * @param password Password, for an encrypted transmission
+ */
+export async function simulateTransmission(
+  transmission: Pick<EncodeResult, 'audio' | 'sampleRate' | 'checksum'>,
+  channel: ChannelConfig,
+  password?: string
+): Promise<SimulationResult> {
+  const { audio, sampleRate } = transmission;
+  const pad = Math.round(PAD_SECONDS * sampleRate);
+  const padded = new Float32Array(audio.length + 2 * pad);
+  padded.set(audio, pad);
+
+  const received = applyChannel(padded, sampleRate, channel);
+  const reception = await receive(received, sampleRate, password);
+  return {
+    ...reception,
+    success: reception.result?.checksum === transmission.checksum,
+    received,
+  };
+}
+
+/**
+ * Decode a recording with a fresh decoder
+ * The audio mode is restored afterwards (the decoder switches to the one it detects).
+ */
+export async function receive(samples: Float32Array, sampleRate: number, password?: string): Promise<ReceptionResult> {
+  const previousMode = getAudioMode();
+  const decoder = new Decoder(sampleRate);
+
+  try {
+    const { result, error, progress } = await feedDecoder(decoder, samples, sampleRate, {
+      configure: () => {
+        if (password) {
+          decoder.setPassword(password);
+        }
+      },
+    });
+    const { framesReceived, totalFrames, errorsFixed } = progress;
+    const counts = { framesReceived, totalFrames, errorsFixed };
+
+    if (result) {
+      return { ...counts, errorsFixed: result.stats.errorsFixed, result };
+    }
+    if (error) {
+      return { ...counts, error: error.message };
+    }
+    decoder.stop();
+    return { ...counts, error: describeFailure(progress) };
+  } finally {
+    setAudioMode(previousMode);
+  }
+}
+
+function describeFailure({ state, errorMessage, framesReceived, totalFrames }: DecodeProgress): string {
+  if (state === 'receiving_data') {
+    return `Data incomplete (${framesReceived}/${totalFrames} frames)`;
+  }
+  if (state === 'receiving_header') {
+    return errorMessage ? `Header not decoded: ${errorMessage}` : 'Header not decoded';
+  }
+  return 'No transmission found';
+}
@@ -12,7 +12,7 @@
  */
 
 import { fft, magnitude, findPeakFrequency } from '../lib/fft';
-import { AUDIO, TONE_FREQUENCIES } from '../utils/constants';
+import { AUDIO, TONE_FREQUENCIES, MULTITONE, getSubcarrierFrequencies } from '../utils/constants';
 
 /**
  * Soft symbol: confidence values for each possible tone
@@ -34,6 +34,8 @@ export interface SoftDetectionResult {
   magnitudes?: number[];
   /** Peak frequency measured in each tone's band (Hz) */
   peakFrequencies?: number[];
+  /** Bit probabilities, for symbols with too many bits to list each tone (multitone) */
+  softBits?: number[];
 }
 
 /**
@@ -79,24 +81,9 @@ export function detectToneSoft(
   const numTones = TONE_FREQUENCIES.length;
   const toneMagnitudes = new Float32Array(numTones);
 
-  // Measure magnitude at each tone frequency
+  // Measure magnitude at each tone frequency (with frequency offset compensation)
   for (let t = 0; t < numTones; t++) {
-    // Apply frequency offset compensation
-    const freq = TONE_FREQUENCIES[t] + frequencyOffset;
-    const minBin = Math.max(0, Math.floor((freq - halfSpacing) / binWidth));
-    const maxBin = Math.min(mags.length - 1, Math.ceil((freq + halfSpacing) / binWidth));
-
-    // Sum magnitudes in the tone's frequency band
-    // Using sum instead of max provides smoother soft values
-    let toneMag = 0;
-    let peakMag = 0;
-    for (let i = minBin; i <= maxBin; i++) {
-      toneMag += mags[i];
-      peakMag = Math.max(peakMag, mags[i]);
-    }
-
-    // Combine sum and peak for robust measurement
-    toneMagnitudes[t] = toneMag * 0.3 + peakMag * 0.7;
+    toneMagnitudes[t] = measureToneMagnitude(mags, TONE_FREQUENCIES[t] + frequencyOffset, halfSpacing, binWidth);
   }
 
   // Apply interference compensation: divide by baseline magnitudes (spectral whitening)
@@ -117,6 +104,39 @@ export function detectToneSoft(
     peakFrequencies[t] = peak.frequency;
   }
 
+  return {
+    ...decideTone(toneMagnitudes),
+    magnitudes: Array.from(toneMagnitudes),
+    peakFrequencies,
+  };
+}
+
+/**
+ * Measure a tone's magnitude in the band of +/- halfSpacing around it
+ */
+function measureToneMagnitude(mags: Float32Array, freq: number, halfSpacing: number, binWidth: number): number {
+  const minBin = Math.max(0, Math.floor((freq - halfSpacing) / binWidth));
+  const maxBin = Math.min(mags.length - 1, Math.ceil((freq + halfSpacing) / binWidth));
+
+  // Sum magnitudes in the tone's frequency band
+  // Using sum instead of max provides smoother soft values
+  let toneMag = 0;
+  let peakMag = 0;
+  for (let i = minBin; i <= maxBin; i++) {
+    toneMag += mags[i];
+    peakMag = Math.max(peakMag, mags[i]);
+  }
+
+  // Combine sum and peak for robust measurement
+  return toneMag * 0.3 + peakMag * 0.7;
+}
+
+/**
+ * Turn tone magnitudes into soft values, hard decision and confidence
+ */
+function decideTone(toneMagnitudes: Float32Array): SoftDetectionResult {
+  const numTones = toneMagnitudes.length;
+
   // Find min and max for normalization
   let minMag = Infinity;
   let maxMag = -Infinity;
@@ -151,12 +171,53 @@ export function detectToneSoft(
     ? Math.min(1, (hardMagnitude - secondBest) / hardMagnitude)
     : 1;
 
+  return { softValues, hardDecision, confidence };
+}
+
+/**
+ * Detect a multitone symbol with soft-decision output
+ *
+ * Each subcarrier is detected like a 4-tone symbol. The result lists the
+ * tone confidences of all subcarriers, packs the hard decisions with
+ * subcarrier 0 in the top bits, and carries the bit probabilities directly
+ * (a 32-bit symbol has too many tones to list).
+ *
+ * @param samples - Audio samples for one symbol period
+ * @param sampleRate - Audio sample rate
+ * @param frequencyOffset - Optional frequency offset compensation (Hz)
+ */
+export function detectMultitoneSoft(
+  samples: Float32Array,
+  sampleRate: number,
+  frequencyOffset: number = 0
+): SoftDetectionResult {
+  const mags = magnitude(fft(samples));
+  const binWidth = sampleRate / (mags.length * 2);
+  const halfSpacing = MULTITONE.TONE_SPACING / 2;
+
+  const subcarriers: SoftDetectionResult[] = [];
+  const softValues = new Uint8Array(MULTITONE.SUBCARRIERS * MULTITONE.TONES_PER_SUBCARRIER);
+  let hardDecision = 0;
+  let confidence = 0;
+
+  for (let c = 0; c < MULTITONE.SUBCARRIERS; c++) {
+    const toneMagnitudes = new Float32Array(getSubcarrierFrequencies(c).map(
+      freq => measureToneMagnitude(mags, freq + frequencyOffset, halfSpacing, binWidth)
+    ));
+    const result = decideTone(toneMagnitudes);
+
+    subcarriers.push(result);
+    softValues.set(result.softValues, c * MULTITONE.TONES_PER_SUBCARRIER);
+    // Multiply rather than shift: 32-bit symbols overflow signed shifts
+    hardDecision = hardDecision * MULTITONE.TONES_PER_SUBCARRIER + result.hardDecision;
+    confidence += result.confidence / MULTITONE.SUBCARRIERS;
+  }
+
   return {
     softValues,
     hardDecision,
     confidence,
-    magnitudes: Array.from(toneMagnitudes),
-    peakFrequencies,
+    softBits: softSymbolsToSoftBits(subcarriers, Math.log2(MULTITONE.TONES_PER_SUBCARRIER)),
   };
 }
 
@@ -189,6 +250,12 @@ export function softSymbolsToSoftBits(
   const numTones = 1 << bitsPerSymbol; // 4 for phone, 16 for wideband
 
   for (const result of softResults) {
+    // Multitone symbols carry their bit probabilities directly
+    if (result.softBits) {
+      softBits.push(...result.softBits);
+      continue;
+    }
+
     const soft = result.softValues;
     const toneCount = Math.min(soft.length, numTones);
 
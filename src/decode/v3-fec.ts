@@ -10,10 +10,17 @@
  */
 
 import { RSDecoder } from '../lib/reed-solomon';
-import { FRAME } from '../utils/constants';
+import { FRAME, FRAME_V3 } from '../utils/constants';
 import { descramble, LFSR_SEED } from '../encode/scramble';
-import { CONVOLUTIONAL_CONFIG } from '../encode/convolutional';
-import { V3_FEC_CONFIG, getOriginalBitCount } from '../encode/v3-fec';
+import {
+  V3_FEC_CONFIG,
+  FEC_PROFILES,
+  DEFAULT_FEC_PROFILE,
+  calculateV3EncodedSize,
+  getOriginalBitCount,
+  type FECProfile,
+  type V3FrameType,
+} from '../encode/v3-fec';
 import {
   ViterbiDecoder,
   viterbiDecode,
@@ -22,14 +29,14 @@ import {
   hardToSoft,
 } from './viterbi';
 
-// Cache decoder instance
-let rsDecoder: RSDecoder | null = null;
+// Cache decoder instances (one per RS parity size)
+const rsDecoderCache = new Map<number, RSDecoder>();
 
-function getRSDecoder(): RSDecoder {
-  if (!rsDecoder) {
-    rsDecoder = new RSDecoder(V3_FEC_CONFIG.RS_PARITY_SIZE);
+function getRSDecoder(paritySize: number = V3_FEC_CONFIG.RS_PARITY_SIZE): RSDecoder {
+  if (!rsDecoderCache.has(paritySize)) {
+    rsDecoderCache.set(paritySize, new RSDecoder(paritySize));
   }
-  return rsDecoder;
+  return rsDecoderCache.get(paritySize)!;
 }
 
 export interface V3FECDecodeResult {
@@ -44,22 +51,26 @@ export interface V3FECDecodeResult {
  * Decode v3 FEC encoded frame (hard-decision)
  *
  * @param received - Received encoded bytes
- * @param frameType - 'header' or 'data'
+ * @param frameType - 'header', 'extension', 'data' or 'wide-data'
  * @param payloadSize - For data frames, expected payload size
+ * @param profile - FEC profile the frame was encoded with
  * @returns Decoded frame data
  */
 export function decodeV3FEC(
   received: Uint8Array,
-  frameType: 'header' | 'data',
-  payloadSize: number = 0
+  frameType: V3FrameType,
+  payloadSize: number = 0,
+  profile: FECProfile = DEFAULT_FEC_PROFILE
 ): V3FECDecodeResult {
+  const params = FEC_PROFILES[profile];
+
   // Get original bit count for Viterbi decoder
-  const originalBitCount = getOriginalBitCount(frameType, payloadSize);
+  const originalBitCount = getOriginalBitCount(frameType, payloadSize, profile);
 
   // Step 1: Viterbi decode (convolutional)
   let viterbiOutput: Uint8Array;
   try {
-    viterbiOutput = viterbiDecode(received, originalBitCount, V3_FEC_CONFIG.USE_PUNCTURING);
+    viterbiOutput = viterbiDecode(received, originalBitCount, params.USE_PUNCTURING, params.PUNCTURE_PATTERN);
   } catch (_err) {
     return {
       data: new Uint8Array(0),
@@ -74,7 +85,7 @@ export function decodeV3FEC(
   const descrambled = descramble(viterbiOutput, V3_FEC_CONFIG.SCRAMBLER_SEED);
 
   // Step 3: RS decode
-  const decoder = getRSDecoder();
+  const decoder = getRSDecoder(params.RS_PARITY_SIZE);
   try {
     const { data, correctedErrors } = decoder.decode(descrambled);
     if (correctedErrors > 0) {
@@ -91,7 +102,7 @@ export function decodeV3FEC(
     // Return data without RS parity (may still be usable)
     const dataWithoutParity = descrambled.subarray(
       0,
-      descrambled.length - V3_FEC_CONFIG.RS_PARITY_SIZE
+      descrambled.length - params.RS_PARITY_SIZE
     );
     return {
       data: dataWithoutParity,
@@ -107,22 +118,26 @@ export function decodeV3FEC(
  * Decode v3 FEC with soft-decision input
  *
  * @param softBits - Soft values (0.0-1.0) for each received bit
- * @param frameType - 'header' or 'data'
+ * @param frameType - 'header', 'extension', 'data' or 'wide-data'
  * @param payloadSize - For data frames, expected payload size
+ * @param profile - FEC profile the frame was encoded with
  * @returns Decoded frame data
  */
 export function decodeV3FECSoft(
   softBits: number[],
-  frameType: 'header' | 'data',
-  payloadSize: number = 0
+  frameType: V3FrameType,
+  payloadSize: number = 0,
+  profile: FECProfile = DEFAULT_FEC_PROFILE
 ): V3FECDecodeResult {
+  const params = FEC_PROFILES[profile];
+
   // Get original bit count for Viterbi decoder
-  const originalBitCount = getOriginalBitCount(frameType, payloadSize);
+  const originalBitCount = getOriginalBitCount(frameType, payloadSize, profile);
 
   // Step 1: Viterbi decode with soft decision
   let viterbiOutput: Uint8Array;
   try {
-    viterbiOutput = viterbiDecodeSoft(softBits, originalBitCount, V3_FEC_CONFIG.USE_PUNCTURING);
+    viterbiOutput = viterbiDecodeSoft(softBits, originalBitCount, params.USE_PUNCTURING, params.PUNCTURE_PATTERN);
   } catch (_err) {
     return {
       data: new Uint8Array(0),
@@ -137,7 +152,7 @@ export function decodeV3FECSoft(
   const descrambled = descramble(viterbiOutput, V3_FEC_CONFIG.SCRAMBLER_SEED);
 
   // Step 3: RS decode
-  const decoder = getRSDecoder();
+  const decoder = getRSDecoder(params.RS_PARITY_SIZE);
   try {
     const { data, correctedErrors } = decoder.decode(descrambled);
     if (correctedErrors > 0) {
@@ -153,7 +168,7 @@ export function decodeV3FECSoft(
   } catch (_err) {
     const dataWithoutParity = descrambled.subarray(
       0,
-      descrambled.length - V3_FEC_CONFIG.RS_PARITY_SIZE
+      descrambled.length - params.RS_PARITY_SIZE
     );
     return {
       data: dataWithoutParity,
@@ -179,14 +194,30 @@ export function decodeHeaderV3FECSoft(softBits: number[]): V3FECDecodeResult {
   return decodeV3FECSoft(softBits, 'header');
 }
 
+/**
+ * Decode v3 header extension (hard decision)
+ */
+export function decodeExtensionV3FEC(received: Uint8Array): V3FECDecodeResult {
+  return decodeV3FEC(received, 'extension');
+}
+
+/**
+ * Decode v3 header extension with soft decision
+ */
+export function decodeExtensionV3FECSoft(softBits: number[]): V3FECDecodeResult {
+  return decodeV3FECSoft(softBits, 'extension');
+}
+
 /**
  * Decode v3 data frame (hard decision)
  */
 export function decodeDataV3FEC(
   received: Uint8Array,
-  payloadSize: number
+  payloadSize: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  wideIndex: boolean = false
 ): V3FECDecodeResult {
-  return decodeV3FEC(received, 'data', payloadSize);
+  return decodeV3FEC(received, wideIndex ? 'wide-data' : 'data', payloadSize, profile);
 }
 
 /**
@@ -194,9 +225,11 @@ export function decodeDataV3FEC(
  */
 export function decodeDataV3FECSoft(
   softBits: number[],
-  payloadSize: number
+  payloadSize: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  wideIndex: boolean = false
 ): V3FECDecodeResult {
-  return decodeV3FECSoft(softBits, 'data', payloadSize);
+  return decodeV3FECSoft(softBits, wideIndex ? 'wide-data' : 'data', payloadSize, profile);
 }
 
 /**
@@ -273,36 +306,24 @@ export function decodeHeaderV3FECSoftWithRedundancy(
  * Used to calculate how many symbols to read
  */
 export function getV3HeaderEncodedSize(): number {
-  const rawSize = FRAME.HEADER_SIZE;
-  const rsSize = rawSize + V3_FEC_CONFIG.RS_PARITY_SIZE;
-  const bitCount = rsSize * 8;
-  const tailBits = CONVOLUTIONAL_CONFIG.MEMORY;
-  const totalBits = bitCount + tailBits;
-
-  if (V3_FEC_CONFIG.USE_PUNCTURING) {
-    const outputBits = Math.ceil(totalBits * 4 / 3);
-    return Math.ceil(outputBits / 8);
-  } else {
-    const outputBits = totalBits * 2;
-    return Math.ceil(outputBits / 8);
-  }
+  return calculateV3EncodedSize(FRAME.HEADER_SIZE);
+}
+
+/**
+ * Get expected v3 encoded size for the header extension
+ */
+export function getV3ExtensionEncodedSize(): number {
+  return calculateV3EncodedSize(FRAME_V3.EXTENSION_SIZE);
 }
 
 /**
  * Get expected v3 encoded size for a data frame
  */
-export function getV3DataEncodedSize(payloadSize: number): number {
-  const rawSize = 3 + payloadSize; // 3 byte header + payload
-  const rsSize = rawSize + V3_FEC_CONFIG.RS_PARITY_SIZE;
-  const bitCount = rsSize * 8;
-  const tailBits = CONVOLUTIONAL_CONFIG.MEMORY;
-  const totalBits = bitCount + tailBits;
-
-  if (V3_FEC_CONFIG.USE_PUNCTURING) {
-    const outputBits = Math.ceil(totalBits * 4 / 3);
-    return Math.ceil(outputBits / 8);
-  } else {
-    const outputBits = totalBits * 2;
-    return Math.ceil(outputBits / 8);
-  }
+export function getV3DataEncodedSize(
+  payloadSize: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  wideIndex: boolean = false
+): number {
+  const headerSize = wideIndex ? FRAME_V3.WIDE_DATA_HEADER_SIZE : FRAME_V3.DATA_HEADER_SIZE;
+  return calculateV3EncodedSize(headerSize + payloadSize, profile); // frame header + payload
 }
@@ -71,17 +71,19 @@ export class ViterbiDecoder {
    * @param softBits - Array of soft values (0.0 = definitely 0, 1.0 = definitely 1)
    * @param isPunctured - Whether input was punctured (needs depuncturing)
    * @param expectedOutputBits - Expected number of output bits (for depuncturing)
+   * @param puncturePattern - Pattern the encoder punctured with
    * @returns Decoded bytes
    */
   decode(
     softBits: number[],
     isPunctured: boolean = true,
-    expectedOutputBits?: number
+    expectedOutputBits?: number,
+    puncturePattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
   ): Uint8Array {
     // Depuncture if needed, or trim to expected length
     let bits = softBits;
     if (isPunctured && expectedOutputBits !== undefined) {
-      bits = depunctureSoft(softBits, expectedOutputBits);
+      bits = depunctureSoft(softBits, expectedOutputBits, puncturePattern);
     } else if (expectedOutputBits !== undefined && softBits.length > expectedOutputBits) {
       // Trim padding bits when not puncturing
       bits = softBits.slice(0, expectedOutputBits);
@@ -261,12 +263,14 @@ export function unpackBits(bytes: Uint8Array): number[] {
  * @param encodedBytes - Convolutional-encoded bytes
  * @param originalBitCount - Number of data bits (before encoding)
  * @param isPunctured - Whether puncturing was used
+ * @param puncturePattern - Pattern the encoder punctured with
  * @returns Decoded bytes
  */
 export function viterbiDecode(
   encodedBytes: Uint8Array,
   originalBitCount: number,
-  isPunctured: boolean = true
+  isPunctured: boolean = true,
+  puncturePattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
 ): Uint8Array {
   const decoder = new ViterbiDecoder();
 
@@ -281,7 +285,7 @@ export function viterbiDecode(
   const totalInputBits = originalBitCount + tailBits;
   const expectedOutputBits = totalInputBits * 2; // Rate 1/2 before puncturing
 
-  return decoder.decode(softBits, isPunctured, expectedOutputBits);
+  return decoder.decode(softBits, isPunctured, expectedOutputBits, puncturePattern);
 }
 
 /**
@@ -290,7 +294,8 @@ export function viterbiDecode(
 export function viterbiDecodeSoft(
   softBits: number[],
   originalBitCount: number,
-  isPunctured: boolean = true
+  isPunctured: boolean = true,
+  puncturePattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
 ): Uint8Array {
   const decoder = new ViterbiDecoder();
 
@@ -298,5 +303,5 @@ export function viterbiDecodeSoft(
   const totalInputBits = originalBitCount + tailBits;
   const expectedOutputBits = totalInputBits * 2;
 
-  return decoder.decode(softBits, isPunctured, expectedOutputBits);
+  return decoder.decode(softBits, isPunctured, expectedOutputBits, puncturePattern);
 }
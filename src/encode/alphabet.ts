@@ -0,0 +1,100 @@
+/**
+ * Restricted alphabets - short texts in fewer bits per character
+ *
+ * Text that only uses the characters of one alphabet is sent as each
+ * character's position in it, packed into 4 or 6 bits (most significant
+ * first) instead of its 1-2 UTF-8 bytes: a Persian letter takes 6 bits
+ * instead of 16. DEFLATE gains little on a few words, so for short
+ * messages this is the smaller form.
+ *
+ * The packed text has no length of its own: the receiver unpacks
+ * characters until their UTF-8 bytes reach the header's original length,
+ * so the padding bits of the last byte are ignored.
+ *
+ * Receivers must hold the same tables: never change them. A new alphabet
+ * needs a new compression algorithm ID.
+ */
+import { FRAME } from '../utils/constants';
+import { bytesToString, isText, stringToBytes } from '../utils/helpers';
+
+/** Characters of each alphabet (16 or 64), by compression algorithm ID */
+export const ALPHABETS: Record<number, readonly string[]> = {
+  // Codes, phone numbers, amounts and coordinates
+  [FRAME.COMPRESSION_DIGITS]: [...'0123456789 +-.,\n'],
+
+  // Call signs, codes and short shouted messages
+  [FRAME.COMPRESSION_UPPERCASE]: [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 \n.,-:/?!\'"()+=@#&*_;%$<>[]~'],
+
+  // Persian letters (with the Arabic yeh and kaf keyboards produce), space,
+  // newline, zero-width non-joiner, Persian digits and punctuation
+  [FRAME.COMPRESSION_PERSIAN]: [
+    ...'ابپتثجچحخدذرزژسشصضطظعغفقکگلمنوهی',
+    ...'آئءأؤۀيك',
+    ' ', '\n', '‌',
+    ...'۰۱۲۳۴۵۶۷۸۹',
+    ...'.،؟!:؛«»()-',
+  ],
+};
+
+function bitsPerCharacter(alphabet: readonly string[]): number {
+  return Math.log2(alphabet.length);
+}
+
+/**
+ * Pack text into the alphabet's positions
+ * Returns null when the data is not text or has a character outside the alphabet
+ */
+export function packText(data: Uint8Array, alphabet: readonly string[]): Uint8Array | null {
+  if (!isText(data)) {
+    return null;
+  }
+
+  const positions: number[] = [];
+  for (const char of bytesToString(data)) {
+    const position = alphabet.indexOf(char);
+    if (position < 0) return null;
+    positions.push(position);
+  }
+
+  const bits = bitsPerCharacter(alphabet);
+  const packed = new Uint8Array(Math.ceil(positions.length * bits / 8));
+  let bitOffset = 0;
+  for (const position of positions) {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      if ((position >> bit) & 1) {
+        packed[bitOffset >> 3] |= 0x80 >> (bitOffset & 7);
+      }
+      bitOffset++;
+    }
+  }
+  return packed;
+}
+
+/**
+ * Unpack text from the alphabet's positions, up to its UTF-8 length
+ * Throws when the packed bits run out first
+ */
+export function unpackText(data: Uint8Array, alphabet: readonly string[], length: number): Uint8Array {
+  const bits = bitsPerCharacter(alphabet);
+  let text = '';
+  let textLength = 0;
+  let bitOffset = 0;
+
+  while (textLength < length) {
+    if (bitOffset + bits > data.length * 8) {
+      throw new Error(`Packed text ends after ${textLength} of ${length} bytes`);
+    }
+    let position = 0;
+    for (let bit = 0; bit < bits; bit++) {
+      position = (position << 1) | ((data[bitOffset >> 3] >> (7 - (bitOffset & 7))) & 1);
+      bitOffset++;
+    }
+    text += alphabet[position];
+    textLength += stringToBytes(alphabet[position]).length;
+  }
+
+  if (textLength !== length) {
+    throw new Error(`Packed text is ${textLength} bytes, expected ${length}`);
+  }
+  return stringToBytes(text);
+}
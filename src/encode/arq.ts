@@ -0,0 +1,55 @@
+/**
+ * ARQ control messages - half-duplex repeat requests
+ *
+ * After a transmission, the receiver plays back a short reply: an ACK when
+ * everything arrived, or a NACK listing the frames it is missing. The sender
+ * then resends only those frames.
+ *
+ * Control record (payload of a transmission with the control extension flag):
+ *   [0]    Magic "A"
+ *   [1]    Type (0=ACK, 1=NACK)
+ *   [2-3]  Session ID of the transmission being answered
+ *   [4]    Segment index (1-based, 1 when not chained)
+ *   [5-6]  Number of missing frames
+ *   [7..n] Missing frame indices (2 bytes LE each, 1-based)
+ */
+import { ARQ } from '../utils/constants';
+import { writeUint16LE } from '../utils/helpers';
+
+export type ArqMessageType = 'ack' | 'nack';
+
+export interface ArqMessage {
+  type: ArqMessageType;
+  /** Session ID of the transmission being answered */
+  sessionId: number;
+  /** Segment of a chained transmission (1 when not chained) */
+  segmentIndex: number;
+  /** 1-based indices of the frames to resend (empty for an ACK) */
+  missingFrames: number[];
+}
+
+/** ARQ message type IDs carried in the control record */
+export const ARQ_TYPE_IDS: Record<ArqMessageType, number> = {
+  ack: 0,
+  nack: 1,
+};
+
+/**
+ * Create the control record for an ACK/NACK
+ */
+export function createArqRecord(message: ArqMessage): Uint8Array {
+  const missing = message.type === 'nack' ? message.missingFrames : [];
+  const record = new Uint8Array(ARQ.RECORD_HEADER_SIZE + missing.length * 2);
+
+  record[0] = ARQ.MAGIC.charCodeAt(0);
+  record[1] = ARQ_TYPE_IDS[message.type];
+  writeUint16LE(record, 2, message.sessionId);
+  record[4] = message.segmentIndex;
+  writeUint16LE(record, 5, missing.length);
+
+  for (let i = 0; i < missing.length; i++) {
+    writeUint16LE(record, ARQ.RECORD_HEADER_SIZE + i * 2, missing[i]);
+  }
+
+  return record;
+}
@@ -0,0 +1,78 @@
+/**
+ * File bundles - several files sent as one message
+ *
+ * A small archive of the files' names and contents. It is the data of the
+ * message, so it is compressed, signed and encrypted as a whole, and the
+ * message checksum covers the bundle.
+ *
+ * Bundle (with the bundle extension flag):
+ *   [0]    Magic "B"
+ *   [1]    File count (1-255)
+ *   [2..]  One entry per file:
+ *            [0]    Name length (1-255)
+ *            [1..]  Name (UTF-8, no directories)
+ *            [+0-3] Size (4 bytes LE)
+ *            [+4-7] CRC32 of the content (4 bytes LE)
+ *   [..n]  File contents, in entry order
+ */
+import { BUNDLE } from '../utils/constants';
+import { stringToBytes } from '../utils/helpers';
+import { crc32Bytes } from '../lib/crc32';
+
+export interface BundleFile {
+  /** File name (no directories) */
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Pack files into a bundle
+ * Throws for no files, too many, or a missing, duplicate or too long name
+ */
+export function createBundle(files: BundleFile[]): Uint8Array {
+  if (files.length === 0) {
+    throw new Error('A bundle needs at least one file');
+  }
+  if (files.length > BUNDLE.MAX_FILES) {
+    throw new Error(`Too many files for one bundle (max ${BUNDLE.MAX_FILES})`);
+  }
+
+  const names = files.map(file => stringToBytes(file.name));
+  const seen = new Set<string>();
+  for (let i = 0; i < files.length; i++) {
+    if (names[i].length === 0) {
+      throw new Error('Every file in a bundle needs a name');
+    }
+    if (names[i].length > BUNDLE.MAX_NAME_BYTES) {
+      throw new Error(`File name ${files[i].name} is too long (max ${BUNDLE.MAX_NAME_BYTES} bytes)`);
+    }
+    if (seen.has(files[i].name)) {
+      throw new Error(`Bundle has two files named ${files[i].name}`);
+    }
+    seen.add(files[i].name);
+  }
+
+  const entriesSize = names.reduce((sum, name) => sum + BUNDLE.ENTRY_FIXED_SIZE + name.length, 0);
+  const contentSize = files.reduce((sum, file) => sum + file.data.length, 0);
+  const bundle = new Uint8Array(BUNDLE.HEADER_SIZE + entriesSize + contentSize);
+  bundle[0] = BUNDLE.MAGIC.charCodeAt(0);
+  bundle[1] = files.length;
+
+  let offset = BUNDLE.HEADER_SIZE;
+  for (let i = 0; i < files.length; i++) {
+    const size = files[i].data.length;
+    bundle[offset] = names[i].length;
+    bundle.set(names[i], offset + 1);
+    offset += 1 + names[i].length;
+    bundle.set([size, size >>> 8, size >>> 16, size >>> 24], offset);
+    bundle.set(crc32Bytes(files[i].data), offset + 4);
+    offset += 8;
+  }
+
+  for (const file of files) {
+    bundle.set(file.data, offset);
+    offset += file.data.length;
+  }
+
+  return bundle;
+}
@@ -1,39 +1,132 @@
 /**
  * Compression utilities using pako (DEFLATE)
+ *
+ * Three variants of DEFLATE: with the zlib wrapper (the original format,
+ * understood by every receiver), raw (6 bytes less), and raw with a preset
+ * dictionary of strings common in configs and links. Text that fits a
+ * restricted alphabet (digits, uppercase, Persian) can instead be packed
+ * into fewer bits per character. The algorithm ID is carried in the header
+ * extension, so the others only pay off when they save more than the
+ * extension costs.
  */
 import pako from 'pako';
+import { FRAME } from '../utils/constants';
+import { COMPRESSION_DICTIONARY } from './dictionary';
+import { ALPHABETS, packText, unpackText } from './alphabet';
+
+/** Display names of the compression algorithm IDs */
+export const COMPRESSION_ALGORITHM_NAMES: Record<number, string> = {
+  [FRAME.COMPRESSION_NONE]: 'none',
+  [FRAME.COMPRESSION_DEFLATE]: 'deflate',
+  [FRAME.COMPRESSION_DEFLATE_RAW]: 'deflate-raw',
+  [FRAME.COMPRESSION_DICTIONARY]: 'dictionary',
+  [FRAME.COMPRESSION_DIGITS]: 'digits',
+  [FRAME.COMPRESSION_UPPERCASE]: 'uppercase',
+  [FRAME.COMPRESSION_PERSIAN]: 'persian',
+};
 
 /**
  * Compress data using DEFLATE algorithm
  * @param data Input bytes
+ * @param algorithm DEFLATE variant or alphabet (default: DEFLATE with the zlib wrapper);
+ *   throws for an alphabet the data does not fit
  * @returns Compressed bytes
  */
-export function compress(data: Uint8Array): Uint8Array {
-  return pako.deflate(data, {
-    level: 9, // Maximum compression
-  });
+export function compress(data: Uint8Array, algorithm: number = FRAME.COMPRESSION_DEFLATE): Uint8Array {
+  switch (algorithm) {
+    case FRAME.COMPRESSION_DEFLATE:
+      return pako.deflate(data, {
+        level: 9, // Maximum compression
+      });
+    case FRAME.COMPRESSION_DEFLATE_RAW:
+      return pako.deflateRaw(data, { level: 9 });
+    case FRAME.COMPRESSION_DICTIONARY:
+      return pako.deflateRaw(data, { level: 9, dictionary: COMPRESSION_DICTIONARY });
+    case FRAME.COMPRESSION_DIGITS:
+    case FRAME.COMPRESSION_UPPERCASE:
+    case FRAME.COMPRESSION_PERSIAN: {
+      const packed = packText(data, ALPHABETS[algorithm]);
+      if (!packed) {
+        throw new Error(`Text does not fit the ${COMPRESSION_ALGORITHM_NAMES[algorithm]} alphabet`);
+      }
+      return packed;
+    }
+    default:
+      throw new Error(`Unknown compression algorithm: ${algorithm}`);
+  }
 }
 
 /**
  * Decompress DEFLATE-compressed data
  * @param data Compressed bytes
+ * @param algorithm DEFLATE variant or alphabet it was compressed with (default: DEFLATE with the zlib wrapper)
+ * @param originalLength Length of the decompressed data (needed to unpack an alphabet)
  * @returns Decompressed bytes
  */
-export function decompress(data: Uint8Array): Uint8Array {
-  return pako.inflate(data);
+export function decompress(
+  data: Uint8Array,
+  algorithm: number = FRAME.COMPRESSION_DEFLATE,
+  originalLength?: number
+): Uint8Array {
+  switch (algorithm) {
+    case FRAME.COMPRESSION_DEFLATE:
+      return pako.inflate(data);
+    case FRAME.COMPRESSION_DEFLATE_RAW:
+      return pako.inflateRaw(data);
+    case FRAME.COMPRESSION_DICTIONARY: {
+      // pako.inflateRaw takes a dictionary too, but its types do not say so
+      const inflator = new pako.Inflate({ raw: true, dictionary: COMPRESSION_DICTIONARY });
+      inflator.push(data, true);
+      if (inflator.err) {
+        throw new Error(inflator.msg);
+      }
+      return inflator.result as Uint8Array;
+    }
+    case FRAME.COMPRESSION_DIGITS:
+    case FRAME.COMPRESSION_UPPERCASE:
+    case FRAME.COMPRESSION_PERSIAN:
+      if (originalLength === undefined) {
+        throw new Error('Unpacking text needs its length');
+      }
+      return unpackText(data, ALPHABETS[algorithm], originalLength);
+    default:
+      throw new Error(`Unknown compression algorithm: ${algorithm}`);
+  }
 }
 
 /**
- * Try to compress data and return the smaller of original or compressed
- * @returns { data: Uint8Array, compressed: boolean }
+ * Try to compress data and return the smallest of original or compressed
+ *
+ * @param extensionCost - Bytes an algorithm other than zlib DEFLATE must
+ *   save to pay for naming it in the header extension (0 when the extension
+ *   is sent anyway). Without it, only zlib DEFLATE is tried, for callers
+ *   that cannot name an algorithm. With it, the alphabets the data fits are
+ *   tried too.
+ * @returns { data: Uint8Array, compressed: boolean, algorithm: number }
  */
-export function tryCompress(data: Uint8Array): { data: Uint8Array; compressed: boolean } {
-  const compressed = compress(data);
+export function tryCompress(
+  data: Uint8Array,
+  extensionCost?: number
+): { data: Uint8Array; compressed: boolean; algorithm: number } {
+  let best = { data, compressed: false, algorithm: FRAME.COMPRESSION_NONE };
+  let bestCost = data.length;
+
+  const candidates = extensionCost === undefined
+    ? [FRAME.COMPRESSION_DEFLATE]
+    : [FRAME.COMPRESSION_DEFLATE, FRAME.COMPRESSION_DEFLATE_RAW, FRAME.COMPRESSION_DICTIONARY,
+      FRAME.COMPRESSION_DIGITS, FRAME.COMPRESSION_UPPERCASE, FRAME.COMPRESSION_PERSIAN];
+
+  for (const algorithm of candidates) {
+    const compressed = ALPHABETS[algorithm] ? packText(data, ALPHABETS[algorithm]) : compress(data, algorithm);
+    if (!compressed) continue;
+    const cost = compressed.length + (algorithm === FRAME.COMPRESSION_DEFLATE ? 0 : extensionCost!);
 
-  // Only use compression if it actually reduces size
-  if (compressed.length < data.length) {
-    return { data: compressed, compressed: true };
+    // Only use compression if it actually reduces size
+    if (cost < bestCost) {
+      best = { data: compressed, compressed: true, algorithm };
+      bestCost = cost;
+    }
   }
 
-  return { data, compressed: false };
+  return best;
 }
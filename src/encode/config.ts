@@ -0,0 +1,422 @@
+/**
+ * Compact configs - proxy links and WireGuard configs in fewer bytes
+ *
+ * The text is split into tokens: addresses, UUIDs and keys are stored as
+ * their bytes, base64 text after "://" (vmess://, ss://) as the text it
+ * encodes, and strings common in configs as a one-byte ID. Everything else
+ * stays literal text. A token is only used when it gives back exactly the
+ * text it replaces, so the receiver rebuilds the message byte for byte.
+ * The compact form is compressed like any other data.
+ *
+ * Compact config (with the config extension flag):
+ *   [0]    Magic "C"
+ *   [1..]  Tokens, each starting with its type:
+ *            0x00  Literal: length (1-255), UTF-8 text
+ *            0x01  UUID: 16 bytes (lowercase 8-4-4-4-12 hex)
+ *            0x02  IPv4 address: 4 bytes (dotted decimal)
+ *            0x03  IPv6 address: 16 bytes (RFC 5952 text form)
+ *            0x04  Key: 32 bytes (base64, 44 characters with padding)
+ *            0x05  Key: 32 bytes (base64url, 43 characters)
+ *            0x06  Base64 text: length (2 bytes LE), the tokens of the text
+ *            0x07  Same, base64 without padding
+ *            0x08  Same, base64url without padding
+ *            0x80+ String from CONFIG_STRINGS (ID - 0x80)
+ */
+import { COMPACT_CONFIG } from '../utils/constants';
+import { bytesToString, isText, stringToBytes, writeUint16LE } from '../utils/helpers';
+
+/** Token types of a compact config */
+export const CONFIG_TOKENS = {
+  LITERAL: 0x00,
+  UUID: 0x01,
+  IPV4: 0x02,
+  IPV6: 0x03,
+  KEY_BASE64: 0x04,
+  KEY_BASE64URL: 0x05,
+  BASE64_TEXT: 0x06,
+  BASE64_TEXT_UNPADDED: 0x07,
+  BASE64URL_TEXT: 0x08,
+  STRING: 0x80,
+} as const;
+
+export type Base64Variant = 'base64' | 'base64-unpadded' | 'base64url';
+
+/** How each key and base64 text token writes its bytes */
+export const BASE64_TOKEN_VARIANTS: Record<number, Base64Variant> = {
+  [CONFIG_TOKENS.KEY_BASE64]: 'base64',
+  [CONFIG_TOKENS.KEY_BASE64URL]: 'base64url',
+  [CONFIG_TOKENS.BASE64_TEXT]: 'base64',
+  [CONFIG_TOKENS.BASE64_TEXT_UNPADDED]: 'base64-unpadded',
+  [CONFIG_TOKENS.BASE64URL_TEXT]: 'base64url',
+};
+
+/**
+ * Strings sent as a one-byte ID: WireGuard fields, proxy link schemes and
+ * parameters, Shadowsocks ciphers and vmess JSON keys
+ *
+ * Receivers must hold the same list: never change or reorder entries, only
+ * append (up to COMPACT_CONFIG.MAX_STRINGS). All ASCII, at least 4 characters.
+ */
+export const CONFIG_STRINGS: readonly string[] = [
+  // WireGuard
+  '[Interface]\n',
+  'PrivateKey = ',
+  '\nAddress = ',
+  '\nDNS = ',
+  '\nMTU = ',
+  '\nListenPort = ',
+  '\n\n[Peer]\n',
+  '[Peer]\n',
+  'PublicKey = ',
+  '\nPresharedKey = ',
+  '\nAllowedIPs = ',
+  '\nEndpoint = ',
+  '\nPersistentKeepalive = ',
+  '0.0.0.0/0',
+  '::/0',
+  '/128',
+
+  // Link schemes
+  'vless://',
+  'vmess://',
+  'trojan://',
+  'ss://',
+  'ssconf://',
+  'hysteria2://',
+  'hy2://',
+  'tuic://',
+  'socks://',
+  'wireguard://',
+  'https://',
+  'http://',
+
+  // Link parameters
+  '?encryption=none',
+  '&encryption=none',
+  '?security=',
+  '&security=',
+  'reality',
+  'none',
+  '?type=',
+  '&type=',
+  '&headerType=',
+  '&flow=',
+  'xtls-rprx-vision',
+  '?sni=',
+  '&sni=',
+  '&host=',
+  '?path=',
+  '&path=',
+  '&serviceName=',
+  '&mode=',
+  '&alpn=',
+  'h2%2Chttp%2F1.1',
+  'http%2F1.1',
+  '&fp=',
+  'chrome',
+  'firefox',
+  'safari',
+  'randomized',
+  '&pbk=',
+  '&sid=',
+  '&spx=',
+  '&allowInsecure=',
+  '&insecure=',
+  '&obfs=',
+  'salamander',
+  '&obfs-password=',
+  '?plugin=',
+  'obfs-local',
+  'v2ray-plugin',
+  '?outline=1',
+  'grpc',
+  'httpupgrade',
+  'splithttp',
+  'xhttp',
+
+  // Shadowsocks ciphers
+  'chacha20-ietf-poly1305',
+  'xchacha20-ietf-poly1305',
+  'aes-256-gcm',
+  'aes-128-gcm',
+  '2022-blake3-aes-128-gcm',
+  '2022-blake3-aes-256-gcm',
+  '2022-blake3-chacha20-poly1305',
+
+  // vmess link JSON
+  '{"v":"2",',
+  '{"add":"',
+  '"add":"',
+  '"aid":"0",',
+  '"aid":0,',
+  '"alpn":"',
+  '"fp":"',
+  '"host":"',
+  '"id":"',
+  '"net":"',
+  '"path":"',
+  '"port":"',
+  '"port":',
+  '"ps":"',
+  '"scy":"',
+  '"sni":"',
+  '"tls":"',
+  '"type":"',
+  '"v":"2"',
+  'auto',
+
+  // Wi-Fi QR string
+  'WIFI:T:WPA;S:',
+  ';H:false;;',
+  ';H:true;;',
+
+  // Domains
+  'www.',
+  '.com',
+  '.net',
+  '.org',
+  'cloudflare',
+];
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/y;
+const IPV4_OCTET = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const IPV4_PATTERN = new RegExp(`(?:${IPV4_OCTET}\\.){3}${IPV4_OCTET}(?!\\d)`, 'y');
+// Shorter addresses take fewer bytes as text than as a token
+const IPV6_PATTERN = /[0-9a-f:]{18,39}(?![0-9A-Za-z:])/y;
+const KEY_PATTERN = /(?<![A-Za-z0-9+/])[A-Za-z0-9+/]{43}=(?![A-Za-z0-9+/=])/y;
+const KEY_URL_PATTERN = /(?<![A-Za-z0-9_-])[A-Za-z0-9_-]{43}(?![A-Za-z0-9_=+/-])/y;
+const BASE64_PATTERN = new RegExp(`[A-Za-z0-9+/]{${COMPACT_CONFIG.MIN_BASE64_TEXT},}={0,2}`, 'y');
+const BASE64URL_PATTERN = new RegExp(`[A-Za-z0-9_-]{${COMPACT_CONFIG.MIN_BASE64_TEXT},}`, 'y');
+
+/**
+ * Write bytes as base64 in one of the variants links use
+ */
+export function toBase64(bytes: Uint8Array, variant: Base64Variant): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  const text = btoa(binary);
+  switch (variant) {
+    case 'base64':
+      return text;
+    case 'base64-unpadded':
+      return text.replace(/=+$/, '');
+    case 'base64url':
+      return text.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+}
+
+function fromBase64(text: string): Uint8Array | null {
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a UUID's 16 bytes in its lowercase 8-4-4-4-12 form
+ */
+export function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Write an IPv6 address in its RFC 5952 form: lowercase, no leading zeros,
+ * the longest run of two or more zero groups (the first, on a tie) as "::"
+ */
+export function formatIPv6(bytes: Uint8Array): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+
+  let runStart = -1;
+  let runLength = 1;
+  for (let i = 0; i < groups.length; i++) {
+    let end = i;
+    while (end < groups.length && groups[end] === '0') end++;
+    if (end - i > runLength) {
+      runStart = i;
+      runLength = end - i;
+    }
+    i = Math.max(i, end);
+  }
+
+  if (runStart < 0) {
+    return groups.join(':');
+  }
+  return `${groups.slice(0, runStart).join(':')}::${groups.slice(runStart + runLength).join(':')}`;
+}
+
+function parseIPv6(text: string): Uint8Array | null {
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, i) => {
+    const value = parseInt(group, 16);
+    bytes[i * 2] = value >> 8;
+    bytes[i * 2 + 1] = value & 0xFF;
+  });
+  return bytes;
+}
+
+function matchAt(pattern: RegExp, text: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text)?.[0] ?? null;
+}
+
+/** Known strings by their first character, longest first */
+const STRINGS_BY_FIRST = new Map<string, number[]>();
+CONFIG_STRINGS.forEach((string, id) => {
+  STRINGS_BY_FIRST.set(string[0], [...(STRINGS_BY_FIRST.get(string[0]) ?? []), id]);
+});
+STRINGS_BY_FIRST.forEach(ids => ids.sort((a, b) => CONFIG_STRINGS[b].length - CONFIG_STRINGS[a].length));
+
+/**
+ * Tokens that can stand for the text at an index, with the length of text
+ * each replaces
+ */
+function findTokens(text: string, index: number): { length: number; token: Uint8Array }[] {
+  const found: { length: number; token: Uint8Array }[] = [];
+  const withBytes = (type: number, bytes: Uint8Array) => {
+    const token = new Uint8Array(1 + bytes.length);
+    token[0] = type;
+    token.set(bytes, 1);
+    return token;
+  };
+
+  const uuid = matchAt(UUID_PATTERN, text, index);
+  if (uuid) {
+    const bytes = Uint8Array.from(uuid.replace(/-/g, '').match(/../g)!, hex => parseInt(hex, 16));
+    found.push({ length: uuid.length, token: withBytes(CONFIG_TOKENS.UUID, bytes) });
+  }
+
+  const ipv4 = matchAt(IPV4_PATTERN, text, index);
+  if (ipv4) {
+    found.push({ length: ipv4.length, token: withBytes(CONFIG_TOKENS.IPV4, Uint8Array.from(ipv4.split('.'), Number)) });
+  }
+
+  const ipv6 = matchAt(IPV6_PATTERN, text, index);
+  const ipv6Bytes = ipv6 ? parseIPv6(ipv6) : null;
+  if (ipv6 && ipv6Bytes && formatIPv6(ipv6Bytes) === ipv6) {
+    found.push({ length: ipv6.length, token: withBytes(CONFIG_TOKENS.IPV6, ipv6Bytes) });
+  }
+
+  for (const [pattern, type] of [[KEY_PATTERN, CONFIG_TOKENS.KEY_BASE64], [KEY_URL_PATTERN, CONFIG_TOKENS.KEY_BASE64URL]] as const) {
+    const key = matchAt(pattern, text, index);
+    const bytes = key ? fromBase64(key) : null;
+    if (key && bytes?.length === 32 && toBase64(bytes, BASE64_TOKEN_VARIANTS[type]) === key) {
+      found.push({ length: key.length, token: withBytes(type, bytes) });
+    }
+  }
+
+  // Base64 right after a scheme is usually text itself (vmess JSON, ss userinfo)
+  if (text.startsWith('://', index - 3)) {
+    const base64 = matchAt(BASE64_PATTERN, text, index);
+    const base64url = matchAt(BASE64URL_PATTERN, text, index);
+    const candidates = [
+      [base64, CONFIG_TOKENS.BASE64_TEXT],
+      [base64, CONFIG_TOKENS.BASE64_TEXT_UNPADDED],
+      [base64url, CONFIG_TOKENS.BASE64URL_TEXT],
+    ] as const;
+    for (const [encoded, type] of candidates) {
+      const bytes = encoded ? fromBase64(encoded) : null;
+      if (!encoded || !bytes || toBase64(bytes, BASE64_TOKEN_VARIANTS[type]) !== encoded || !isText(bytes)) continue;
+      const inner = tokenize(bytesToString(bytes));
+      if (inner.length > 0xFFFF) continue;
+      const token = new Uint8Array(3 + inner.length);
+      token[0] = type;
+      writeUint16LE(token, 1, inner.length);
+      token.set(inner, 3);
+      found.push({ length: encoded.length, token });
+    }
+  }
+
+  for (const id of STRINGS_BY_FIRST.get(text[index]) ?? []) {
+    if (text.startsWith(CONFIG_STRINGS[id], index)) {
+      found.push({ length: CONFIG_STRINGS[id].length, token: new Uint8Array([CONFIG_TOKENS.STRING + id]) });
+      break;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Split text into tokens, taking at each position the token that saves the
+ * most (all tokens stand for ASCII text, so characters are bytes)
+ */
+function tokenize(text: string): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let literalStart = 0;
+
+  const flushLiteral = (end: number) => {
+    const literal = stringToBytes(text.slice(literalStart, end));
+    for (let offset = 0; offset < literal.length; offset += COMPACT_CONFIG.MAX_LITERAL_BYTES) {
+      const chunk = literal.subarray(offset, offset + COMPACT_CONFIG.MAX_LITERAL_BYTES);
+      parts.push(new Uint8Array([CONFIG_TOKENS.LITERAL, chunk.length]), chunk);
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    let best: { length: number; token: Uint8Array } | null = null;
+    for (const candidate of findTokens(text, index)) {
+      const saving = candidate.length - candidate.token.length;
+      if (saving >= COMPACT_CONFIG.MIN_SAVING && (!best || saving > best.length - best.token.length)) {
+        best = candidate;
+      }
+    }
+
+    if (!best) {
+      index++;
+      continue;
+    }
+    flushLiteral(index);
+    parts.push(best.token);
+    index += best.length;
+    literalStart = index;
+  }
+  flushLiteral(text.length);
+
+  const size = parts.reduce((sum, part) => sum + part.length, 0);
+  const tokens = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    tokens.set(part, offset);
+    offset += part.length;
+  }
+  return tokens;
+}
+
+/**
+ * Turn a proxy link or config into its compact form
+ * Returns null when the data is not text or nothing in it has a token
+ */
+export function createCompactConfig(data: Uint8Array): Uint8Array | null {
+  if (!isText(data)) {
+    return null;
+  }
+
+  const tokens = tokenize(bytesToString(data));
+  // Nothing but literals: only as long as the text, or longer
+  if (tokens.length >= data.length) {
+    return null;
+  }
+
+  const config = new Uint8Array(1 + tokens.length);
+  config[0] = COMPACT_CONFIG.MAGIC.charCodeAt(0);
+  config.set(tokens, 1);
+  return config;
+}
@@ -55,9 +55,14 @@ export class ConvolutionalEncoder {
   private state: number = 0;
   private punctureIndex: number = 0;
   private usePuncturing: boolean;
+  private puncturePattern: readonly number[];
 
-  constructor(usePuncturing: boolean = true) {
+  constructor(
+    usePuncturing: boolean = true,
+    puncturePattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
+  ) {
     this.usePuncturing = usePuncturing;
+    this.puncturePattern = puncturePattern;
   }
 
   /**
@@ -97,7 +102,7 @@ export class ConvolutionalEncoder {
    * Apply puncturing to output bits
    */
   private puncture(out1: number, out2: number): number[] {
-    const pattern = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN;
+    const pattern = this.puncturePattern;
     const result: number[] = [];
 
     // Check if G1 output should be kept
@@ -244,19 +249,43 @@ function parity(value: number): number {
  */
 export function convolutionalEncode(
   input: Uint8Array,
-  usePuncturing: boolean = true
+  usePuncturing: boolean = true,
+  puncturePattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
 ): Uint8Array {
-  const encoder = new ConvolutionalEncoder(usePuncturing);
+  const encoder = new ConvolutionalEncoder(usePuncturing, puncturePattern);
   return encoder.encodeBytes(input);
 }
 
+/**
+ * Count the bits that survive puncturing
+ *
+ * @param motherBits - Number of rate 1/2 output bits before puncturing
+ * @param pattern - Puncture pattern (1 = keep, 0 = delete)
+ */
+export function countPuncturedBits(
+  motherBits: number,
+  pattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
+): number {
+  const keptPerCycle = pattern.reduce((sum, bit) => sum + bit, 0);
+  const fullCycles = Math.floor(motherBits / pattern.length);
+
+  let kept = fullCycles * keptPerCycle;
+  for (let i = 0; i < motherBits % pattern.length; i++) {
+    kept += pattern[i];
+  }
+
+  return kept;
+}
+
 /**
  * Get the depuncture pattern for decoding
  * Maps encoded bit positions to original (pre-puncture) positions
  * Returns -1 for positions that were punctured (need to be filled with erasures)
  */
-export function getDepunctureMap(encodedLength: number): number[] {
-  const pattern = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN;
+export function getDepunctureMap(
+  encodedLength: number,
+  pattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
+): number[] {
   const map: number[] = [];
 
   let encodedIndex = 0;
@@ -282,9 +311,9 @@ export function getDepunctureMap(encodedLength: number): number[] {
  */
 export function depunctureSoft(
   encodedBits: number[],
-  originalLength: number
+  originalLength: number,
+  pattern: readonly number[] = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN
 ): number[] {
-  const pattern = CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN;
   const result: number[] = [];
 
   let encodedIndex = 0;
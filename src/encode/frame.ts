@@ -10,14 +10,37 @@
  *   [8-9]  Session ID (2 bytes)
  *   [10-11] CRC16
  *
+ * Header extension (12 bytes, only when FLAG_EXTENDED is set):
+ *   [0]    Magic "X"
+ *   [1]    FEC profile ID (0=normal, 1=light, 2=heavy)
+ *   [2]    Extension flags (bit0=wide frame index, bit1=segmented,
+ *          bit2=retransmission, bit3=ARQ control message,
+ *          bit4=repair frames, bit5=public-key encryption,
+ *          bit6=signed, bit7=password envelope)
+ *   [3-4]  Total frames (2 bytes, up to 65535)
+ *   [5]    Payload length bits 16-23
+ *   [6]    Original length bits 16-23
+ *   [7]    Segment index (1-based, 0 when not segmented)
+ *   [8]    Segment count (0 when not segmented)
+ *   [9]    Frames in this retransmission (0 when not a retransmission)
+ *   [10]   Repair overhead percent (0 when no repair frames)
+ *   [11]   Extension flags 2 (bit0=metadata block, bit1=file bundle,
+ *          bits2-4=compression algorithm ID, 0 when DEFLATE,
+ *          bit5=compact config; other bits reserved, 0)
+ *
  * Data frame (variable length):
  *   [0]    Magic "D"
- *   [1]    Frame index (1 byte)
+ *   [1]    Frame index (1 byte; 2 bytes LE with wide frame index)
  *   [2]    Payload length (1 byte, actual data in this frame)
  *   [3..n] Payload (variable, no padding)
  *   No CRC - RS handles error detection
+ *
+ * Repair frames (after the data frames, see repair.ts) use the data frame
+ * layout with indices N+1.. and are always full size.
  */
-import { FRAME_V3 } from '../utils/constants';
+import { FRAME, FRAME_V3 } from '../utils/constants';
+import { DEFAULT_FEC_PROFILE, type FECProfile } from './v3-fec';
+import { getRepairFrameCount, createRepairPayloads } from './repair';
 
 /** Protocol version type (kept for future extensibility) */
 export type ProtocolVersion = 'v3';
@@ -45,6 +68,14 @@ export interface DataFrame {
   payload: Uint8Array;
 }
 
+/** Position of a transmission within a chain of segments */
+export interface SegmentInfo {
+  /** 1-based segment index */
+  index: number;
+  /** Total number of segments in the chain */
+  count: number;
+}
+
 // CRC16-CCITT for compact header
 function crc16(data: Uint8Array): number {
   let crc = 0xFFFF;
@@ -65,6 +96,31 @@ function crc16(data: Uint8Array): number {
 export const FLAG_COMPRESSED = 0x01;     // bit 0: data is compressed
 export const FLAG_ENCRYPTED = 0x02;      // bit 1: data is encrypted
 export const FLAG_CRC32_PRESENT = 0x04;  // bit 2: CRC32 appended to payload (for unencrypted data)
+export const FLAG_EXTENDED = 0x08;       // bit 3: header extension frame follows the header
+
+// Header extension flag bits
+export const EXT_FLAG_WIDE_INDEX = 0x01; // bit 0: data frames carry a 2-byte frame index
+export const EXT_FLAG_SEGMENTED = 0x02;  // bit 1: transmission is one segment of a chain
+export const EXT_FLAG_RETRANSMIT = 0x04; // bit 2: only the listed (missing) frames are resent
+export const EXT_FLAG_CONTROL = 0x08;    // bit 3: payload is an ARQ control message, not user data
+export const EXT_FLAG_REPAIR = 0x10;     // bit 4: repair frames follow the data frames
+export const EXT_FLAG_PUBLIC_KEY = 0x20; // bit 5: payload is encrypted to a public key, not a password
+export const EXT_FLAG_SIGNED = 0x40;     // bit 6: payload ends with an Ed25519 signature trailer
+export const EXT_FLAG_KDF_ENVELOPE = 0x80; // bit 7: password-encrypted payload starts with a KDF envelope header
+
+// Header extension flag bits, second byte
+export const EXT2_FLAG_METADATA = 0x01;  // bit 0: data starts with a metadata block
+export const EXT2_FLAG_BUNDLE = 0x02;    // bit 1: data is a bundle of several files
+export const EXT2_COMPRESSION_SHIFT = 2; // bits 2-4: compression algorithm ID (0 = DEFLATE, as the header implies)
+export const EXT2_COMPRESSION_MASK = 0x1C;
+export const EXT2_FLAG_CONFIG = 0x20;    // bit 5: data is a compact config
+
+/** FEC profile IDs carried in the header extension */
+export const FEC_PROFILE_IDS: Record<FECProfile, number> = {
+  normal: 0,
+  light: 1,
+  heavy: 2,
+};
 
 /**
  * Create a compact header frame (12 bytes)
@@ -79,6 +135,7 @@ export const FLAG_CRC32_PRESENT = 0x04;  // bit 2: CRC32 appended to payload (fo
  * @param hasCrc32 - Whether CRC32 is appended to payload (for unencrypted data)
  * @param sessionId - Optional session ID (auto-generated if not provided)
  * @param protocolVersion - Protocol version (reserved for future use)
+ * @param extended - Whether a header extension frame follows (lengths keep their low 16 bits)
  */
 export function createHeaderFrame(
   totalFrames: number,
@@ -88,7 +145,8 @@ export function createHeaderFrame(
   encrypted: boolean = false,
   hasCrc32: boolean = false,
   sessionId?: number,
-  protocolVersion: ProtocolVersion = 'v3'
+  protocolVersion: ProtocolVersion = 'v3',
+  extended: boolean = false
 ): { frame: Uint8Array; sessionId: number } {
   const sid = sessionId ?? (generateSessionId() & 0xFFFF); // 16-bit session ID
   const frame = new Uint8Array(FRAME_V3.HEADER_SIZE);
@@ -101,17 +159,18 @@ export function createHeaderFrame(
   if (compressed) flags |= FLAG_COMPRESSED;
   if (encrypted) flags |= FLAG_ENCRYPTED;
   if (hasCrc32) flags |= FLAG_CRC32_PRESENT;
+  if (extended) flags |= FLAG_EXTENDED;
   const versionFlags = ((FRAME_V3.CURRENT_VERSION & 0x0F) << 4) | (flags & 0x0F);
   frame[2] = versionFlags;
 
-  // Total frames (1 byte)
-  frame[3] = Math.min(totalFrames, 255);
+  // Total frames (1 byte, exact count is in the extension)
+  frame[3] = Math.min(totalFrames, FRAME_V3.MAX_NARROW_FRAMES);
 
-  // Payload length (2 bytes)
-  writeUint16LE(frame, 4, Math.min(payloadLength, 65535));
+  // Payload length (2 bytes, high bits are in the extension)
+  writeUint16LE(frame, 4, extended ? payloadLength & 0xFFFF : Math.min(payloadLength, 65535));
 
-  // Original length (2 bytes)
-  writeUint16LE(frame, 6, Math.min(originalLength, 65535));
+  // Original length (2 bytes, high bits are in the extension)
+  writeUint16LE(frame, 6, extended ? originalLength & 0xFFFF : Math.min(originalLength, 65535));
 
   // Session ID (2 bytes)
   writeUint16LE(frame, 8, sid);
@@ -123,29 +182,137 @@ export function createHeaderFrame(
   return { frame, sessionId: sid };
 }
 
+/**
+ * Create a header extension frame (12 bytes)
+ *
+ * Carries settings that don't fit in the header: the FEC profile, the
+ * exact frame count and lengths for payloads beyond the 12-byte header's
+ * limits, the segment position for chained transmissions and the ARQ
+ * retransmission/control kind, the repair overhead, whether an
+ * encrypted payload was encrypted to a public key or with a versioned
+ * password envelope, and whether the payload carries a signature, a
+ * metadata block, a file bundle or a compact config, and the compression
+ * algorithm when it is not plain DEFLATE. Always encoded with the normal FEC profile, like the
+ * header itself.
+ *
+ * @param fecProfile - FEC profile used for the data frames
+ * @param totalFrames - Number of data frames (up to 65535)
+ * @param payloadLength - Compressed/encrypted payload length (up to 16MB)
+ * @param originalLength - Original uncompressed length (up to 16MB)
+ * @param segment - Segment position when the transmission is part of a chain
+ * @param retransmitCount - Number of frames resent in an ARQ retransmission (0 = normal)
+ * @param control - Payload is an ARQ control message
+ * @param repairOverhead - Repair frames per block in percent (0 = none)
+ * @param publicKey - Payload is encrypted to a recipient's public key
+ * @param signed - Payload ends with a signature trailer
+ * @param kdfEnvelope - Password-encrypted payload starts with a KDF envelope header
+ * @param metadata - Data starts with a metadata block
+ * @param bundle - Data is a file bundle
+ * @param compressionAlgo - Compression algorithm ID (FRAME.COMPRESSION_*)
+ * @param compactConfig - Data is a compact config
+ */
+export function createHeaderExtension(
+  fecProfile: FECProfile,
+  totalFrames: number,
+  payloadLength: number,
+  originalLength: number,
+  segment?: SegmentInfo,
+  retransmitCount: number = 0,
+  control: boolean = false,
+  repairOverhead: number = 0,
+  publicKey: boolean = false,
+  signed: boolean = false,
+  kdfEnvelope: boolean = false,
+  metadata: boolean = false,
+  bundle: boolean = false,
+  compressionAlgo: number = FRAME.COMPRESSION_DEFLATE,
+  compactConfig: boolean = false
+): Uint8Array {
+  const frame = new Uint8Array(FRAME_V3.EXTENSION_SIZE);
+
+  // Magic "X"
+  frame[0] = FRAME_V3.EXTENSION_MAGIC.charCodeAt(0);
+
+  // FEC profile
+  frame[1] = FEC_PROFILE_IDS[fecProfile];
+
+  // Extension flags
+  let extFlags = 0;
+  if (totalFrames + getRepairFrameCount(totalFrames, repairOverhead) > FRAME_V3.MAX_NARROW_FRAMES) {
+    extFlags |= EXT_FLAG_WIDE_INDEX;
+  }
+  if (segment) extFlags |= EXT_FLAG_SEGMENTED;
+  if (retransmitCount > 0) extFlags |= EXT_FLAG_RETRANSMIT;
+  if (control) extFlags |= EXT_FLAG_CONTROL;
+  if (repairOverhead > 0) extFlags |= EXT_FLAG_REPAIR;
+  if (publicKey) extFlags |= EXT_FLAG_PUBLIC_KEY;
+  if (signed) extFlags |= EXT_FLAG_SIGNED;
+  if (kdfEnvelope) extFlags |= EXT_FLAG_KDF_ENVELOPE;
+  frame[2] = extFlags;
+
+  // Total frames (2 bytes)
+  writeUint16LE(frame, 3, totalFrames);
+
+  // High bits of payload/original length (low 16 bits are in the header)
+  frame[5] = (payloadLength >> 16) & 0xFF;
+  frame[6] = (originalLength >> 16) & 0xFF;
+
+  // Segment position
+  if (segment) {
+    frame[7] = segment.index;
+    frame[8] = segment.count;
+  }
+
+  // Frames in this retransmission
+  frame[9] = retransmitCount;
+
+  // Repair overhead
+  frame[10] = repairOverhead;
+
+  // Extension flags, second byte
+  let ext2Flags = 0;
+  if (metadata) ext2Flags |= EXT2_FLAG_METADATA;
+  if (bundle) ext2Flags |= EXT2_FLAG_BUNDLE;
+  if (compressionAlgo > FRAME.COMPRESSION_DEFLATE) {
+    ext2Flags |= (compressionAlgo << EXT2_COMPRESSION_SHIFT) & EXT2_COMPRESSION_MASK;
+  }
+  if (compactConfig) ext2Flags |= EXT2_FLAG_CONFIG;
+  frame[11] = ext2Flags;
+
+  return frame;
+}
+
 /**
  * Create a compact data frame (variable length, no padding)
+ *
+ * @param wideIndex - Write a 2-byte frame index (transmissions over 255 frames)
  */
 export function createDataFrame(
   sessionId: number,
   frameIndex: number,
-  payload: Uint8Array
+  payload: Uint8Array,
+  wideIndex: boolean = false
 ): Uint8Array {
-  // Data frame: 1 (magic) + 1 (index) + 1 (length) + payload (no padding)
+  // Data frame: 1 (magic) + 1-2 (index) + 1 (length) + payload (no padding)
+  const headerSize = wideIndex ? FRAME_V3.WIDE_DATA_HEADER_SIZE : FRAME_V3.DATA_HEADER_SIZE;
   const payloadLen = Math.min(payload.length, 255);
-  const frame = new Uint8Array(3 + payloadLen);
+  const frame = new Uint8Array(headerSize + payloadLen);
 
   // Magic "D"
   frame[0] = FRAME_V3.DATA_MAGIC.charCodeAt(0);
 
   // Frame index
-  frame[1] = frameIndex & 0xFF;
+  if (wideIndex) {
+    writeUint16LE(frame, 1, frameIndex);
+  } else {
+    frame[1] = frameIndex & 0xFF;
+  }
 
   // Payload length
-  frame[2] = payloadLen;
+  frame[headerSize - 1] = payloadLen;
 
   // Payload (actual data, no padding!)
-  frame.set(payload.subarray(0, payloadLen), 3);
+  frame.set(payload.subarray(0, payloadLen), headerSize);
 
   return frame;
 }
@@ -160,6 +327,53 @@ function getOptimalFrameSize(totalPayload: number): number {
   return FRAME_V3.PAYLOAD_SIZE; // 128 for larger data
 }
 
+/** How a payload is packetized; every option defaults to off */
+export interface PacketizeOptions {
+  /** Data is compressed */
+  compressed?: boolean;
+  /** Data is encrypted */
+  encrypted?: boolean;
+  /** CRC32 is appended to the payload */
+  hasCrc32?: boolean;
+  /** Reserved for future use */
+  protocolVersion?: ProtocolVersion;
+  /** FEC profile for data frames (non-default adds a header extension) */
+  fecProfile?: FECProfile;
+  /** Segment position when the payload is one part of a chained transmission */
+  segment?: SegmentInfo;
+  /** Session ID shared by all segments (auto-generated if not provided) */
+  sessionId?: number;
+  /**
+   * 1-based indices of frames to resend (ARQ); only those frames are
+   * produced, each padded to the full frame size
+   */
+  retransmit?: number[];
+  /** Payload is an ARQ control message */
+  control?: boolean;
+  /**
+   * Repair frames per block in percent (0 = none); a retransmission
+   * announces it but resends data frames only
+   */
+  repairOverhead?: number;
+  /** Payload is encrypted to a recipient's public key (adds a header extension) */
+  publicKey?: boolean;
+  /** Payload ends with a signature trailer (adds a header extension) */
+  signed?: boolean;
+  /**
+   * Password-encrypted payload starts with a KDF envelope header (adds a
+   * header extension; without it the legacy layout is assumed)
+   */
+  kdfEnvelope?: boolean;
+  /** Data starts with a metadata block (adds a header extension) */
+  metadata?: boolean;
+  /** Data is a file bundle (adds a header extension) */
+  bundle?: boolean;
+  /** Compression algorithm ID (FRAME.COMPRESSION_*); any but DEFLATE adds a header extension */
+  compressionAlgo?: number;
+  /** Data is a compact config (adds a header extension) */
+  compactConfig?: boolean;
+}
+
 /**
  * Packetize payload data into frames
  *
@@ -167,46 +381,122 @@ function getOptimalFrameSize(totalPayload: number): number {
  *
  * @param payload - Payload data to packetize
  * @param originalLength - Original uncompressed length
- * @param compressed - Whether data is compressed
- * @param encrypted - Whether data is encrypted
- * @param hasCrc32 - Whether CRC32 is appended to payload
- * @param protocolVersion - Reserved for future use
+ * @param options - Flags and extensions of the transmission
  */
 export function packetize(
   payload: Uint8Array,
   originalLength: number,
-  compressed: boolean,
-  encrypted: boolean = false,
-  hasCrc32: boolean = false,
-  protocolVersion: ProtocolVersion = 'v3'
-): { headerFrame: Uint8Array; dataFrames: Uint8Array[]; sessionId: number } {
+  options: PacketizeOptions = {}
+): {
+  headerFrame: Uint8Array;
+  extensionFrame?: Uint8Array;
+  dataFrames: Uint8Array[];
+  sessionId: number;
+  totalFrames: number;
+} {
+  const {
+    compressed = false,
+    encrypted = false,
+    hasCrc32 = false,
+    protocolVersion = 'v3',
+    fecProfile = DEFAULT_FEC_PROFILE,
+    segment,
+    sessionId,
+    retransmit,
+    control = false,
+    repairOverhead = 0,
+    publicKey = false,
+    signed = false,
+    kdfEnvelope = false,
+    metadata = false,
+    bundle = false,
+    compressionAlgo = FRAME.COMPRESSION_DEFLATE,
+    compactConfig = false,
+  } = options;
+
   // Use optimal frame size based on payload
   const frameSize = getOptimalFrameSize(payload.length);
 
   // Calculate number of data frames needed
   const totalDataFrames = Math.ceil(payload.length / frameSize);
 
+  const repairFrames = getRepairFrameCount(totalDataFrames, repairOverhead);
+  if (totalDataFrames + repairFrames > 0xFFFF) {
+    throw new Error(`Too many frames with repair frames: ${totalDataFrames + repairFrames}`);
+  }
+
+  // Default transmissions keep the plain 12-byte header; the extension is
+  // only added for a non-default FEC profile, for chained segments, repair
+  // frames, public-key encryption, signatures, password envelopes, metadata,
+  // file bundles, compression other than DEFLATE, compact configs, or when
+  // the frame count or lengths overflow the header fields
+  const wideIndex = totalDataFrames + repairFrames > FRAME_V3.MAX_NARROW_FRAMES;
+  const extended = fecProfile !== DEFAULT_FEC_PROFILE
+    || segment !== undefined
+    || retransmit !== undefined
+    || control
+    || repairFrames > 0
+    || publicKey
+    || signed
+    || kdfEnvelope
+    || metadata
+    || bundle
+    || compressionAlgo > FRAME.COMPRESSION_DEFLATE
+    || compactConfig
+    || wideIndex
+    || payload.length > 0xFFFF
+    || originalLength > 0xFFFF;
+
   // Create header frame with v3 protocol
-  const { frame: headerFrame, sessionId } = createHeaderFrame(
+  const { frame: headerFrame, sessionId: sid } = createHeaderFrame(
     totalDataFrames,
     payload.length,
     originalLength,
     compressed,
     encrypted,
-    hasCrc32
+    hasCrc32,
+    sessionId,
+    protocolVersion,
+    extended
   );
+  const extensionFrame = extended
+    ? createHeaderExtension(
+      fecProfile, totalDataFrames, payload.length, originalLength, segment, retransmit?.length ?? 0, control,
+      repairOverhead, publicKey, signed, kdfEnvelope, metadata, bundle, compressionAlgo, compactConfig
+    )
+    : undefined;
+
+  // Frame indices to send (1-based, 0 is header): all of them, or only the
+  // ones a receiver reported missing
+  const frameIndices = retransmit
+    ?? Array.from({ length: totalDataFrames }, (_, i) => i + 1);
 
   // Create data frames with minimal overhead
   const dataFrames: Uint8Array[] = [];
-  for (let i = 0; i < totalDataFrames; i++) {
-    const start = i * frameSize;
+  for (const frameIndex of frameIndices) {
+    const start = (frameIndex - 1) * frameSize;
     const end = Math.min(start + frameSize, payload.length);
     const framePayload = payload.subarray(start, end);
 
-    // Frame index is 1-based (0 is header)
-    const dataFrame = createDataFrame(sessionId, i + 1, framePayload);
+    let dataFrame = createDataFrame(sid, frameIndex, framePayload, wideIndex);
+
+    // Retransmitted frames are all full size, so the receiver can locate
+    // them without knowing which indices were resent
+    if (retransmit && framePayload.length < frameSize) {
+      const padded = new Uint8Array(dataFrame.length + frameSize - framePayload.length);
+      padded.set(dataFrame);
+      dataFrame = padded;
+    }
+
     dataFrames.push(dataFrame);
   }
 
-  return { headerFrame, dataFrames, sessionId };
+  // Repair frames follow the data frames of a full transmission
+  if (!retransmit) {
+    createRepairPayloads(payload, frameSize, repairOverhead).forEach((repair, i) => {
+      dataFrames.push(createDataFrame(sid, totalDataFrames + i + 1, repair, wideIndex));
+    });
+  }
+
+  return { headerFrame, extensionFrame, dataFrames, sessionId: sid, totalFrames: totalDataFrames };
 }
@@ -1,18 +1,32 @@
 /**
  * Main encoding pipeline
  *
- * Flow: Input → Preprocess → Compress → Encrypt? → Frame → FEC → Interleave → Modulate → Audio
+ * Flow: Input → Preprocess / Bundle → Compact config? → Metadata? → Compress → Encrypt? → Frame → FEC → Interleave → Modulate → Audio
  */
 import { stringToBytes } from '../utils/helpers';
-import { AUDIO, LIMITS } from '../utils/constants';
+import { AUDIO, ARQ, FRAME, FRAME_V3, LIMITS, PROBE, REPAIR, getAudioMode, setAudioMode } from '../utils/constants';
 import { tryCompress } from './compress';
-import { packetize } from './frame';
-import { encodeWithV3FEC, calculateV3TotalSize } from './v3-fec';
+import { packetize, type SegmentInfo } from './frame';
+import { encodeWithV3FEC, calculateV3TotalSize, DEFAULT_FEC_PROFILE, type FECProfile } from './v3-fec';
 import { interleave, calculateInterleaverDepth } from './interleave';
-import { generateTransmission, calculateDuration } from './modulate';
+import { generateTransmission, generateProbe, calculateDuration } from './modulate';
 import { sha256Hex } from '../lib/sha256';
-import { encrypt, ENCRYPTION_OVERHEAD } from '../lib/crypto';
+import {
+  encrypt,
+  encryptForRecipient,
+  encryptWithPreSharedKey,
+  createSignatureTrailer,
+  DEFAULT_KDF,
+  ENCRYPTION_OVERHEAD,
+  PUBLIC_KEY_ENCRYPTION_OVERHEAD,
+  SIGNATURE_TRAILER_SIZE,
+  type KdfParams,
+} from '../lib/crypto';
 import { crc32Bytes } from '../lib/crc32';
+import { createArqRecord, type ArqMessage } from './arq';
+import { createMetadataBlock, type MessageMetadata } from './metadata';
+import { createBundle, type BundleFile } from './bundle';
+import { createCompactConfig } from './config';
 
 /**
  * Preprocess text for optimal compression:
@@ -33,39 +47,113 @@ function preprocessText(text: string): string {
     .trim();
 }
 
+/**
+ * Size of data once compressed, with the header extension it takes to
+ * name an algorithm other than DEFLATE (extensionCost, 0 when sent anyway)
+ */
+function compressedCost(data: Uint8Array, extensionCost: number): number {
+  const { data: compressed, algorithm } = tryCompress(data, extensionCost);
+  return compressed.length + (algorithm > FRAME.COMPRESSION_DEFLATE ? extensionCost : 0);
+}
+
+export interface EncodeSegment {
+  /** Audio for this segment alone (a view into EncodeResult.audio) */
+  audio: Float32Array;
+  durationSeconds: number;
+  frameCount: number;
+}
+
+/**
+ * What the sender keeps to answer a receiver's NACK (see encodeRetransmission)
+ */
+export interface RetransmitContext {
+  sessionId: number;
+  originalLength: number;
+  compressed: boolean;
+  /** Compression algorithm ID (FRAME.COMPRESSION_*) */
+  compressionAlgo: number;
+  encrypted: boolean;
+  /** Payload is encrypted to a recipient's public key */
+  publicKey: boolean;
+  /** Payload carries a signature trailer */
+  signed: boolean;
+  /** Password-encrypted payload starts with a KDF envelope header */
+  kdfEnvelope: boolean;
+  /** Data starts with a metadata block */
+  metadata: boolean;
+  /** Data is a file bundle */
+  bundle: boolean;
+  /** Data is a compact config */
+  compactConfig: boolean;
+  hasCrc32: boolean;
+  fecProfile: FECProfile;
+  /** Repair overhead of the original transmission (announced again when resending) */
+  repairOverhead: number;
+  sampleRate: number;
+  /** Framed payload of each segment (one entry when not chained) */
+  payloads: Uint8Array[];
+}
+
 export interface EncodeResult {
   audio: Float32Array;
   sampleRate: number;
   durationSeconds: number;
   checksum: string;
+  /** Individual transmissions when the payload was chained (more than one segment) */
+  segments?: EncodeSegment[];
+  /** Context for resending frames a receiver reports missing (ARQ) */
+  retransmit: RetransmitContext;
   stats: {
     originalSize: number;
     compressedSize: number;
     compressed: boolean;
+    /** Compression algorithm ID (FRAME.COMPRESSION_*), the smallest for this data */
+    compressionAlgo: number;
+    /** Sent as a compact config */
+    compactConfig: boolean;
     encrypted: boolean;
+    signed: boolean;
     frameCount: number;
     totalEncodedBytes: number;
+    fecProfile: FECProfile;
+    segmentCount: number;
   };
 }
 
 export interface EncodeOptions {
   sampleRate?: number;
   password?: string;  // If provided, data will be encrypted
+  kdf?: KdfParams;  // Password key derivation (default: Argon2id, see DEFAULT_KDF)
+  preSharedKey?: string;  // 256-bit pre-shared key; data is encrypted with it instead of a password
+  recipient?: string;  // Recipient public key; data is encrypted to it instead of a password
+  signingKey?: string;  // Ed25519 signing key; the data is signed so receivers can verify the sender
+  fecProfile?: FECProfile;  // FEC strength for data frames (default: normal)
+  segmentBytes?: number;  // If provided, payloads above this size are chained into several transmissions
+  repairOverhead?: number;  // Repair frames per block in percent, for lossy one-way broadcasts (default: none)
+  metadata?: MessageMetadata;  // File name, MIME type, creation time and label sent along with the data
+  bundle?: boolean;  // Data is a file bundle from createBundle (see encodeFiles)
+  compactConfig?: boolean;  // Send proxy links and WireGuard configs as a compact config when that is smaller
+  sessionId?: number;  // 16-bit session ID (default: random); a fixed one makes the audio reproducible
 }
 
 /**
  * Check if payload size is within limits
+ *
+ * @param maxBytes - Hard limit (chained transmissions allow more than a single one)
  */
-export function checkPayloadSize(data: Uint8Array): {
+export function checkPayloadSize(
+  data: Uint8Array,
+  maxBytes: number = LIMITS.MAX_PAYLOAD_BYTES
+): {
   valid: boolean;
   warning: boolean;
   message?: string;
 } {
-  if (data.length > LIMITS.MAX_PAYLOAD_BYTES) {
+  if (data.length > maxBytes) {
     return {
       valid: false,
       warning: false,
-      message: `Payload exceeds maximum size (${LIMITS.MAX_PAYLOAD_BYTES / 1024}KB)`,
+      message: `Payload exceeds maximum size (${maxBytes / 1024}KB)`,
     };
   }
 
@@ -93,10 +181,42 @@ export async function encodeString(
   return encodeBytes(data, options);
 }
 
+/**
+ * Encode several files as one message (a file bundle)
+ *
+ * Receivers get the files back with their names (DecodeResult.files); the
+ * checksum covers the whole bundle.
+ */
+export async function encodeFiles(
+  files: BundleFile[],
+  options?: EncodeOptions
+): Promise<EncodeResult> {
+  return encodeBytes(createBundle(files), { ...options, bundle: true });
+}
+
 /**
  * Encode binary data to audio
  *
- * Uses v3 protocol with concatenated RS + Convolutional FEC
+ * Uses v3 protocol with concatenated RS + Convolutional FEC.
+ * With `segmentBytes`, payloads above that size are split into chained
+ * transmissions that share a session ID and carry their segment position.
+ * With `repairOverhead`, each transmission is followed by repair frames that
+ * rebuild lost data frames without a retransmission.
+ * With `recipient`, the payload is encrypted to that X25519 public key and
+ * only the holder of the private key can decrypt it.
+ * With `preSharedKey`, the payload is encrypted with that key and carries
+ * its key ID, so receivers pick the key from their keyring.
+ * With `signingKey`, an Ed25519 signature of the data (and the signer's
+ * public key) is appended before encryption, so receivers can tell who
+ * sent it and that it was not altered.
+ * With `metadata`, a block naming the file, its type, creation time and a
+ * label precedes the data, so receivers can save it under its own name.
+ * With `bundle`, the data is a file bundle (see encodeFiles).
+ * With `compactConfig`, text such as proxy links and WireGuard configs is
+ * sent in its compact form (addresses, UUIDs and keys as bytes) when that
+ * comes out smaller; receivers rebuild the exact text. Not for bundles.
+ * With `sessionId`, the transmission uses that session ID instead of a
+ * random one, so the same data always encodes to the same audio.
  */
 export async function encodeBytes(
   data: Uint8Array,
@@ -104,11 +224,75 @@ export async function encodeBytes(
 ): Promise<EncodeResult> {
   const sampleRate = options?.sampleRate ?? AUDIO.SAMPLE_RATE;
   const password = options?.password;
-  const encrypted = !!password;
+  const recipient = options?.recipient;
+  const preSharedKey = options?.preSharedKey;
+  const signingKey = options?.signingKey;
+  const encrypted = !!password || !!recipient || !!preSharedKey;
+  // Password and pre-shared key encryption share the envelope layout
+  const kdfEnvelope = !!password || !!preSharedKey;
+  const fecProfile = options?.fecProfile ?? DEFAULT_FEC_PROFILE;
+  const segmentBytes = options?.segmentBytes;
+  const repairOverhead = options?.repairOverhead ?? 0;
+
+  if (options?.sessionId !== undefined && !(Number.isInteger(options.sessionId) && options.sessionId >= 0 && options.sessionId <= 0xFFFF)) {
+    throw new Error('Session ID must be a whole number from 0 to 65535');
+  }
+
+  if (segmentBytes !== undefined && segmentBytes < LIMITS.MIN_SEGMENT_BYTES) {
+    throw new Error(`Segment size must be at least ${LIMITS.MIN_SEGMENT_BYTES / 1024}KB`);
+  }
+
+  if (password && recipient) {
+    throw new Error('Use either a password or a recipient public key, not both');
+  }
+  if (preSharedKey && (password || recipient)) {
+    throw new Error('Use either a pre-shared key or a password or recipient public key, not both');
+  }
 
-  // Check size limits (account for encryption overhead if needed)
-  const effectiveSize = encrypted ? data.length + ENCRYPTION_OVERHEAD : data.length;
-  const sizeCheck = checkPayloadSize(new Uint8Array(effectiveSize));
+  if (!Number.isInteger(repairOverhead) || repairOverhead < 0 || repairOverhead > REPAIR.MAX_OVERHEAD_PERCENT) {
+    throw new Error(`Repair overhead must be a whole percentage from 0 to ${REPAIR.MAX_OVERHEAD_PERCENT}`);
+  }
+
+  // An algorithm other than DEFLATE, or a compact config, is named in the
+  // header extension, so without one it has to save the extension's size
+  const extended = fecProfile !== DEFAULT_FEC_PROFILE
+    || repairOverhead > 0
+    || encrypted
+    || !!signingKey
+    || !!options?.metadata
+    || !!options?.bundle
+    || data.length > 0xFFFF;
+
+  // A compact config replaces the text only when it compresses smaller
+  let content = data;
+  let compactConfig = false;
+  if (options?.compactConfig && !options.bundle) {
+    const compact = createCompactConfig(data);
+    if (compact && compressedCost(compact, 0) + (extended ? 0 : FRAME_V3.EXTENSION_SIZE)
+      < compressedCost(data, extended ? 0 : FRAME_V3.EXTENSION_SIZE)) {
+      content = compact;
+      compactConfig = true;
+    }
+  }
+
+  // Metadata travels in front of the data: compressed, signed and
+  // encrypted with it
+  let body = content;
+  if (options?.metadata) {
+    const block = createMetadataBlock(options.metadata);
+    body = new Uint8Array(block.length + content.length);
+    body.set(block);
+    body.set(content, block.length);
+  }
+
+  // Check size limits (account for encryption and signature overhead if needed)
+  const overhead = (recipient ? PUBLIC_KEY_ENCRYPTION_OVERHEAD : encrypted ? ENCRYPTION_OVERHEAD : 0)
+    + (signingKey ? SIGNATURE_TRAILER_SIZE : 0);
+  const effectiveSize = body.length + overhead;
+  const sizeCheck = checkPayloadSize(
+    new Uint8Array(effectiveSize),
+    segmentBytes ? LIMITS.MAX_CHAINED_PAYLOAD_BYTES : LIMITS.MAX_PAYLOAD_BYTES
+  );
   if (!sizeCheck.valid) {
     throw new Error(sizeCheck.message);
   }
@@ -117,15 +301,33 @@ export async function encodeBytes(
   const checksum = await sha256Hex(data);
 
   // Try compression first
-  const { data: maybeCompressed, compressed } = tryCompress(data);
+  const { data: compressedData, compressed, algorithm: compressionAlgo } = tryCompress(
+    body,
+    extended || compactConfig ? 0 : FRAME_V3.EXTENSION_SIZE
+  );
+
+  // Sign the original data (and metadata); the trailer follows the
+  // (compressed) data and is encrypted with it, so only readers of the
+  // message learn the signer
+  let maybeCompressed = compressedData;
+  if (signingKey) {
+    const trailer = await createSignatureTrailer(body, signingKey);
+    maybeCompressed = new Uint8Array(compressedData.length + trailer.length);
+    maybeCompressed.set(compressedData);
+    maybeCompressed.set(trailer, compressedData.length);
+  }
 
-  // Encrypt if password provided (after compression, before framing)
+  // Encrypt if password or recipient provided (after compression, before framing)
   let processedData = maybeCompressed;
   let hasCrc32 = false;
 
-  if (encrypted) {
+  if (recipient) {
+    processedData = await encryptForRecipient(maybeCompressed, recipient);
+  } else if (preSharedKey) {
+    processedData = await encryptWithPreSharedKey(maybeCompressed, preSharedKey);
+  } else if (password) {
     // Encrypted data has Poly1305 auth tag, no need for CRC32
-    processedData = await encrypt(maybeCompressed, password);
+    processedData = await encrypt(maybeCompressed, password, options?.kdf ?? DEFAULT_KDF);
   } else {
     // For unencrypted data, append CRC32 for integrity verification
     const crc = crc32Bytes(maybeCompressed);
@@ -136,36 +338,70 @@ export async function encodeBytes(
     hasCrc32 = true;
   }
 
-  // Packetize into frames with v3 protocol
-  const { headerFrame, dataFrames, sessionId } = packetize(
-    processedData,
-    data.length,
-    compressed,
-    encrypted,
-    hasCrc32,
-    'v3'
-  );
+  // Split into chained segments only when asked to and the payload needs it
+  const segmentPayloads: Uint8Array[] = [];
+  if (segmentBytes && processedData.length > segmentBytes) {
+    for (let offset = 0; offset < processedData.length; offset += segmentBytes) {
+      segmentPayloads.push(processedData.subarray(offset, offset + segmentBytes));
+    }
+    if (segmentPayloads.length > FRAME_V3.MAX_SEGMENTS) {
+      throw new Error(`Payload needs ${segmentPayloads.length} segments (max ${FRAME_V3.MAX_SEGMENTS}). Use a larger segment size.`);
+    }
+  } else {
+    segmentPayloads.push(processedData);
+  }
 
-  // Add v3 FEC to all frames (RS + Scramble + Convolutional)
-  const { encodedHeader, encodedDataFrames } = encodeWithV3FEC(headerFrame, dataFrames);
+  // Each segment is a complete transmission; all share one session ID
+  let sessionId = options?.sessionId;
+  const transmissions: { audio: Float32Array; frameCount: number; totalEncodedBytes: number }[] = [];
 
-  // Interleave each frame for burst error protection
-  // This spreads adjacent bytes across the frame, so burst errors
-  // (consecutive corrupted symbols) are spread out and more likely
-  // to be correctable by RS/Viterbi decoding
-  const interleavedHeader = interleave(encodedHeader, calculateInterleaverDepth(encodedHeader.length));
-  const interleavedDataFrames = encodedDataFrames.map(frame =>
-    interleave(frame, calculateInterleaverDepth(frame.length))
-  );
+  for (let i = 0; i < segmentPayloads.length; i++) {
+    const segment: SegmentInfo | undefined = segmentPayloads.length > 1
+      ? { index: i + 1, count: segmentPayloads.length }
+      : undefined;
 
-  // Combine all encoded frames (header first, then data)
-  const allEncodedFrames = [interleavedHeader, ...interleavedDataFrames];
+    // Packetize into frames with v3 protocol
+    const packets = packetize(segmentPayloads[i], body.length, {
+      compressed,
+      encrypted,
+      hasCrc32,
+      fecProfile,
+      segment,
+      sessionId,
+      repairOverhead,
+      publicKey: !!recipient,
+      signed: !!signingKey,
+      kdfEnvelope,
+      metadata: !!options?.metadata,
+      bundle: !!options?.bundle,
+      compressionAlgo,
+      compactConfig,
+    });
+    sessionId = packets.sessionId;
 
-  // Calculate total encoded bytes
-  const totalEncodedBytes = allEncodedFrames.reduce((sum, f) => sum + f.length, 0);
+    transmissions.push(encodeTransmission(packets, fecProfile, sampleRate));
+  }
 
-  // Generate audio
-  const audio = generateTransmission(allEncodedFrames, sampleRate);
+  // Chained segments play back to back with a short silence between them
+  const gapSamples = Math.floor((LIMITS.SEGMENT_GAP_MS / 1000) * sampleRate);
+  const totalSamples = transmissions.reduce((sum, t) => sum + t.audio.length, 0)
+    + gapSamples * (transmissions.length - 1);
+  const audio = transmissions.length === 1 ? transmissions[0].audio : new Float32Array(totalSamples);
+
+  let segments: EncodeSegment[] | undefined;
+  if (transmissions.length > 1) {
+    segments = [];
+    let offset = 0;
+    for (const t of transmissions) {
+      audio.set(t.audio, offset);
+      segments.push({
+        audio: audio.subarray(offset, offset + t.audio.length),
+        durationSeconds: t.audio.length / sampleRate,
+        frameCount: t.frameCount,
+      });
+      offset += t.audio.length + gapSamples;
+    }
+  }
 
   // Calculate duration
   const durationSeconds = audio.length / sampleRate;
@@ -175,25 +411,194 @@ export async function encodeBytes(
     sampleRate,
     durationSeconds,
     checksum,
+    segments,
+    retransmit: {
+      sessionId: sessionId!,
+      originalLength: body.length,
+      compressed,
+      compressionAlgo,
+      encrypted,
+      publicKey: !!recipient,
+      signed: !!signingKey,
+      kdfEnvelope,
+      metadata: !!options?.metadata,
+      bundle: !!options?.bundle,
+      compactConfig,
+      hasCrc32,
+      fecProfile,
+      repairOverhead,
+      sampleRate,
+      payloads: segmentPayloads,
+    },
     stats: {
       originalSize: data.length,
       // Report size without CRC32 overhead for display purposes
       compressedSize: hasCrc32 ? processedData.length - 4 : processedData.length,
       compressed,
+      compressionAlgo,
+      compactConfig,
       encrypted,
-      frameCount: dataFrames.length,
-      totalEncodedBytes,
+      signed: !!signingKey,
+      frameCount: transmissions.reduce((sum, t) => sum + t.frameCount, 0),
+      totalEncodedBytes: transmissions.reduce((sum, t) => sum + t.totalEncodedBytes, 0),
+      fecProfile,
+      segmentCount: transmissions.length,
     },
   };
 }
 
+/**
+ * Encode the frames a receiver reported missing (ARQ retransmission)
+ *
+ * The retransmission is a complete transmission whose header describes the
+ * original message (or segment) and whose extension lists how many frames
+ * follow; frames keep their original indices. Returns null for an ACK.
+ */
+export function encodeRetransmission(context: RetransmitContext, message: ArqMessage): EncodeSegment | null {
+  if (message.type === 'ack' || message.missingFrames.length === 0) {
+    return null;
+  }
+
+  if (message.sessionId !== context.sessionId) {
+    throw new Error(`NACK is for session ${message.sessionId}, not ${context.sessionId}`);
+  }
+
+  const segmentCount = context.payloads.length;
+  if (message.segmentIndex < 1 || message.segmentIndex > segmentCount) {
+    throw new Error(`NACK is for segment ${message.segmentIndex}, but the message has ${segmentCount}`);
+  }
+
+  const payload = context.payloads[message.segmentIndex - 1];
+  const segment: SegmentInfo | undefined = segmentCount > 1
+    ? { index: message.segmentIndex, count: segmentCount }
+    : undefined;
+
+  // Sorted, de-duplicated and capped to what one retransmission can announce
+  const frames = [...new Set(message.missingFrames)]
+    .sort((a, b) => a - b)
+    .slice(0, ARQ.MAX_RETRANSMIT_FRAMES);
+
+  const packets = packetize(payload, context.originalLength, {
+    compressed: context.compressed,
+    encrypted: context.encrypted,
+    hasCrc32: context.hasCrc32,
+    fecProfile: context.fecProfile,
+    segment,
+    sessionId: context.sessionId,
+    retransmit: frames,
+    repairOverhead: context.repairOverhead,
+    publicKey: context.publicKey,
+    signed: context.signed,
+    kdfEnvelope: context.kdfEnvelope,
+    metadata: context.metadata,
+    bundle: context.bundle,
+    compressionAlgo: context.compressionAlgo,
+    compactConfig: context.compactConfig,
+  });
+
+  const invalid = frames.find(index => index < 1 || index > packets.totalFrames);
+  if (invalid !== undefined) {
+    throw new Error(`NACK lists frame ${invalid}, but the transmission has ${packets.totalFrames}`);
+  }
+
+  // Header repeat follows the original frame count, as the receiver expects
+  const { audio, frameCount } = encodeTransmission(
+    packets, context.fecProfile, context.sampleRate, packets.totalFrames > 1
+  );
+
+  return { audio, durationSeconds: audio.length / context.sampleRate, frameCount };
+}
+
+/**
+ * Encode an ACK/NACK reply as a short transmission
+ * Always uses the normal FEC profile, with CRC32 and no compression
+ */
+export function encodeArqMessage(message: ArqMessage, sampleRate: number = AUDIO.SAMPLE_RATE): EncodeSegment {
+  const record = createArqRecord(message);
+  const withCrc = new Uint8Array(record.length + 4);
+  withCrc.set(record);
+  withCrc.set(crc32Bytes(record), record.length);
+
+  const packets = packetize(withCrc, record.length, { hasCrc32: true, control: true });
+
+  const { audio, frameCount } = encodeTransmission(packets, DEFAULT_FEC_PROFILE, sampleRate);
+  return { audio, durationSeconds: audio.length / sampleRate, frameCount };
+}
+
+/**
+ * Encode a channel probe for the receiver to measure the channel with
+ * Always uses the probe's own mode; the current mode is kept
+ */
+export function encodeProbe(sampleRate: number = AUDIO.SAMPLE_RATE): { audio: Float32Array; sampleRate: number; durationSeconds: number } {
+  const previousMode = getAudioMode();
+  setAudioMode(PROBE.MODE);
+  try {
+    const audio = generateProbe(sampleRate);
+    return { audio, sampleRate, durationSeconds: audio.length / sampleRate };
+  } finally {
+    setAudioMode(previousMode);
+  }
+}
+
+/**
+ * Encode packetized frames into one complete transmission
+ * (preamble, header, optional extension, data frames, end marker)
+ */
+function encodeTransmission(
+  packets: ReturnType<typeof packetize>,
+  fecProfile: FECProfile,
+  sampleRate: number,
+  repeatHeader: boolean = packets.dataFrames.length > 1
+): { audio: Float32Array; frameCount: number; totalEncodedBytes: number } {
+  const { headerFrame, extensionFrame, dataFrames } = packets;
+
+  // Add v3 FEC to all frames (RS + Scramble + Convolutional)
+  const { encodedHeader, encodedExtension, encodedDataFrames } = encodeWithV3FEC(
+    headerFrame,
+    dataFrames,
+    fecProfile,
+    extensionFrame
+  );
+
+  // Interleave each frame for burst error protection
+  // This spreads adjacent bytes across the frame, so burst errors
+  // (consecutive corrupted symbols) are spread out and more likely
+  // to be correctable by RS/Viterbi decoding
+  const interleavedHeader = interleave(encodedHeader, calculateInterleaverDepth(encodedHeader.length));
+  const interleavedDataFrames = encodedDataFrames.map(frame =>
+    interleave(frame, calculateInterleaverDepth(frame.length))
+  );
+
+  // Header extension (if any) follows the header copies
+  const interleavedExtension = encodedExtension
+    ? [interleave(encodedExtension, calculateInterleaverDepth(encodedExtension.length))]
+    : [];
+
+  // Combine all encoded frames (header first, then extension, then data)
+  const allEncodedFrames = [interleavedHeader, ...interleavedExtension, ...interleavedDataFrames];
+
+  // Calculate total encoded bytes
+  const totalEncodedBytes = allEncodedFrames.reduce((sum, f) => sum + f.length, 0);
+
+  // Generate audio (header repeat depends on data frames only)
+  const audio = generateTransmission(allEncodedFrames, sampleRate, repeatHeader);
+
+  return { audio, frameCount: dataFrames.length, totalEncodedBytes };
+}
+
 /**
  * Estimate encoding stats without performing full encode
  *
  * Uses v3 protocol sizing (RS + Convolutional FEC)
  * If data is provided, uses actual compression for accurate estimate
+ * Estimated frames include repair frames
  */
-export function estimateEncode(dataSize: number, data?: Uint8Array): {
+export function estimateEncode(
+  dataSize: number,
+  data?: Uint8Array,
+  fecProfile: FECProfile = DEFAULT_FEC_PROFILE,
+  repairOverhead: number = 0
+): {
   estimatedFrames: number;
   estimatedDuration: number;
   estimatedAudioBytes: number;
@@ -202,15 +607,15 @@ export function estimateEncode(dataSize: number, data?: Uint8Array): {
 
   if (data) {
     // Use actual compression for accurate estimate
-    const { data: compressed, compressed: wasCompressed } = tryCompress(data);
+    const { data: compressed, compressed: wasCompressed } = tryCompress(data, FRAME_V3.EXTENSION_SIZE);
     estimatedCompressedSize = wasCompressed ? compressed.length : data.length;
   } else {
     // Fallback: assume ~40% compression for typical text (conservative)
     estimatedCompressedSize = Math.floor(dataSize * 0.6);
   }
 
-  const v3Stats = calculateV3TotalSize(estimatedCompressedSize);
-  const { dataFrames, totalBytes } = v3Stats;
+  const v3Stats = calculateV3TotalSize(estimatedCompressedSize, fecProfile, dataSize, repairOverhead);
+  const { dataFrames, repairFrames, totalBytes } = v3Stats;
 
   const estimatedDuration = calculateDuration(totalBytes, AUDIO.SAMPLE_RATE);
 
@@ -218,7 +623,7 @@ export function estimateEncode(dataSize: number, data?: Uint8Array): {
   const estimatedAudioBytes = Math.floor(estimatedDuration * AUDIO.SAMPLE_RATE * 2);
 
   return {
-    estimatedFrames: dataFrames,
+    estimatedFrames: dataFrames + repairFrames,
     estimatedDuration,
     estimatedAudioBytes,
   };
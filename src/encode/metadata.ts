@@ -0,0 +1,81 @@
+/**
+ * Message metadata - what the data is, for the receiver to save it as
+ *
+ * An optional block in front of the data, compressed, signed and encrypted
+ * with it, so only readers of the message learn the file name.
+ *
+ * Metadata block (with the metadata extension flag):
+ *   [0]    Magic "M"
+ *   [1-2]  Length of the fields that follow (2 bytes LE)
+ *   [3..n] Fields, each:
+ *            [0]    Field ID (1=file name, 2=MIME type, 3=creation time, 4=label)
+ *            [1]    Value length (up to 255)
+ *            [2..]  Value (UTF-8 text; creation time is Unix seconds, 4 bytes LE)
+ *   Receivers skip fields with IDs they do not know.
+ */
+import { METADATA } from '../utils/constants';
+import { stringToBytes, writeUint16LE } from '../utils/helpers';
+
+export interface MessageMetadata {
+  /** Original file name (no directories) */
+  filename?: string;
+  /** MIME type, e.g. "application/json" */
+  mimeType?: string;
+  /** When the content was created (second precision) */
+  createdAt?: Date;
+  /** Free-form label, e.g. "office wifi" */
+  label?: string;
+}
+
+export type MetadataField = keyof MessageMetadata;
+
+/** Field IDs carried in the metadata block */
+export const METADATA_FIELD_IDS: Record<MetadataField, number> = {
+  filename: 1,
+  mimeType: 2,
+  createdAt: 3,
+  label: 4,
+};
+
+/**
+ * Create the metadata block for a message
+ * Throws when a value does not fit its 255-byte field
+ */
+export function createMetadataBlock(metadata: MessageMetadata): Uint8Array {
+  const fields: Uint8Array[] = [];
+
+  const addField = (field: MetadataField, value: Uint8Array) => {
+    if (value.length > METADATA.MAX_FIELD_BYTES) {
+      throw new Error(`Metadata ${field} is too long (max ${METADATA.MAX_FIELD_BYTES} bytes)`);
+    }
+    const encoded = new Uint8Array(2 + value.length);
+    encoded[0] = METADATA_FIELD_IDS[field];
+    encoded[1] = value.length;
+    encoded.set(value, 2);
+    fields.push(encoded);
+  };
+
+  if (metadata.filename) addField('filename', stringToBytes(metadata.filename));
+  if (metadata.mimeType) addField('mimeType', stringToBytes(metadata.mimeType));
+  if (metadata.createdAt) {
+    const seconds = Math.floor(metadata.createdAt.getTime() / 1000);
+    if (!Number.isFinite(seconds) || seconds < 0 || seconds > 0xFFFFFFFF) {
+      throw new Error('Metadata creation time is out of range');
+    }
+    addField('createdAt', new Uint8Array([seconds, seconds >>> 8, seconds >>> 16, seconds >>> 24]));
+  }
+  if (metadata.label) addField('label', stringToBytes(metadata.label));
+
+  const fieldsLength = fields.reduce((sum, f) => sum + f.length, 0);
+  const block = new Uint8Array(METADATA.BLOCK_HEADER_SIZE + fieldsLength);
+  block[0] = METADATA.MAGIC.charCodeAt(0);
+  writeUint16LE(block, 1, fieldsLength);
+
+  let offset = METADATA.BLOCK_HEADER_SIZE;
+  for (const field of fields) {
+    block.set(field, offset);
+    offset += field.length;
+  }
+
+  return block;
+}
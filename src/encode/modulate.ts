@@ -1,8 +1,9 @@
 /**
  * MFSK Modulation - converts bytes to audio
  * Phone-compatible mode: 8 tones (3 bits/symbol) in 600-3050 Hz range
+ * Multitone mode: one tone per subcarrier, all subcarriers at once
  */
-import { AUDIO, TONE_FREQUENCIES } from '../utils/constants';
+import { AUDIO, TONE_FREQUENCIES, MULTITONE, PROBE, getAudioMode, getSubcarrierFrequencies } from '../utils/constants';
 
 // Simple seeded PRNG for reproducible frequency jitter
 let jitterSeed = 12345;
@@ -37,27 +38,28 @@ function generateTone(
 
   for (let i = 0; i < totalSamples; i++) {
     // Generate sine wave at slightly lower amplitude (less harsh)
-    let sample = Math.sin(angularFreq * i) * 0.85;
-
-    // Apply Hann window for fade in/out (guard interval)
-    if (guardSamples > 0) {
-      if (i < guardSamples) {
-        // Fade in
-        const t = i / guardSamples;
-        sample *= 0.5 * (1 - Math.cos(Math.PI * t));
-      } else if (i >= totalSamples - guardSamples) {
-        // Fade out
-        const t = (totalSamples - i) / guardSamples;
-        sample *= 0.5 * (1 - Math.cos(Math.PI * t));
-      }
-    }
-
-    samples[i] = sample;
+    samples[i] = Math.sin(angularFreq * i) * 0.85 * guardFade(i, totalSamples, guardSamples);
   }
 
   return samples;
 }
 
+/**
+ * Hann window fade in/out over the guard interval at both ends of a symbol
+ */
+function guardFade(i: number, totalSamples: number, guardSamples: number): number {
+  if (guardSamples <= 0) return 1;
+  if (i < guardSamples) {
+    // Fade in
+    return 0.5 * (1 - Math.cos(Math.PI * i / guardSamples));
+  }
+  if (i >= totalSamples - guardSamples) {
+    // Fade out
+    return 0.5 * (1 - Math.cos(Math.PI * (totalSamples - i) / guardSamples));
+  }
+  return 1;
+}
+
 /**
  * Generate chirp signal for preamble (linear frequency sweep)
  */
@@ -89,11 +91,11 @@ function generateChirp(
  * 3. Calibration: Known tones (repeated for reliability)
  * 4. Sync word: 8-symbol pattern for frame alignment
  */
-export function generatePreamble(sampleRate: number): Float32Array {
+export function generatePreamble(sampleRate: number, syncPattern: number[] = AUDIO.SYNC_PATTERN): Float32Array {
   const parts: Float32Array[] = [];
 
-  // Warmup tone - use lower frequency for better speaker response
-  const warmupFreq = Math.min(TONE_FREQUENCIES[Math.floor(TONE_FREQUENCIES.length / 2)], 2000);
+  // Warmup tone - use lower frequency for better speaker response (capped per mode)
+  const warmupFreq = Math.min(TONE_FREQUENCIES[Math.floor(TONE_FREQUENCIES.length / 2)], AUDIO.WARMUP_MAX_HZ);
   parts.push(generateTone(warmupFreq, AUDIO.WARMUP_DURATION_MS, sampleRate, 20));
 
   // Up chirp (half duration)
@@ -122,7 +124,7 @@ export function generatePreamble(sampleRate: number): Float32Array {
   }
 
   // Sync word (8 symbols) - use standard symbol duration for reliable detection
-  for (const toneIndex of AUDIO.SYNC_PATTERN) {
+  for (const toneIndex of syncPattern) {
     const freq = TONE_FREQUENCIES[toneIndex];
     parts.push(generateTone(freq, AUDIO.SYMBOL_DURATION_MS, sampleRate, AUDIO.GUARD_INTERVAL_MS));
   }
@@ -189,6 +191,10 @@ export function calculateSymbolCount(byteCount: number): number {
  * Uses frequency jitter for less detectability
  */
 export function modulateBytes(bytes: Uint8Array, sampleRate: number): Float32Array {
+  if (getAudioMode() === 'multitone') {
+    return modulateMultitone(bytes, sampleRate);
+  }
+
   const symbolDurationMs = AUDIO.SYMBOL_DURATION_MS;
   const guardMs = AUDIO.GUARD_INTERVAL_MS;
 
@@ -205,6 +211,49 @@ export function modulateBytes(bytes: Uint8Array, sampleRate: number): Float32Arr
   return concatenateSamples(parts);
 }
 
+/**
+ * Modulate bytes into multitone symbols
+ * Each symbol sends 2 bits on every subcarrier, MSB first from subcarrier 0,
+ * and the last symbol is padded with zero bits
+ */
+function modulateMultitone(bytes: Uint8Array, sampleRate: number): Float32Array {
+  const symbolSamples = Math.floor((AUDIO.SYMBOL_DURATION_MS / 1000) * sampleRate);
+  const guardSamples = Math.floor((AUDIO.GUARD_INTERVAL_MS / 1000) * sampleRate);
+  const symbolCount = calculateSymbolCount(bytes.length);
+  const subcarriers = Array.from({ length: MULTITONE.SUBCARRIERS }, (_, c) => getSubcarrierFrequencies(c));
+  const result = new Float32Array(symbolCount * symbolSamples);
+  const symbol = new Float32Array(symbolSamples);
+
+  for (let s = 0; s < symbolCount; s++) {
+    symbol.fill(0);
+
+    for (let c = 0; c < MULTITONE.SUBCARRIERS; c++) {
+      const bit = s * AUDIO.BITS_PER_SYMBOL + c * 2;
+      const tone = ((bytes[bit >> 3] ?? 0) >> (6 - (bit & 7))) & 0x03;
+      const angularFreq = (2 * Math.PI * subcarriers[c][tone]) / sampleRate;
+      // Spread the subcarriers' phases (Schroeder) so they don't all peak together
+      const phase = (Math.PI * c * c) / MULTITONE.SUBCARRIERS;
+
+      for (let i = 0; i < symbolSamples; i++) {
+        symbol[i] += Math.sin(angularFreq * i + phase);
+      }
+    }
+
+    // Scale each symbol to the same peak level as a single tone
+    let peak = 0;
+    for (let i = 0; i < symbolSamples; i++) {
+      peak = Math.max(peak, Math.abs(symbol[i]));
+    }
+    const gain = peak > 0 ? 0.85 / peak : 0;
+
+    for (let i = 0; i < symbolSamples; i++) {
+      result[s * symbolSamples + i] = symbol[i] * gain * guardFade(i, symbolSamples, guardSamples);
+    }
+  }
+
+  return result;
+}
+
 /**
  * Generate complete audio transmission
  *
@@ -257,6 +306,23 @@ export function generateTransmission(
   return concatenateSamples(parts);
 }
 
+/**
+ * Generate a channel probe for the current audio mode's preamble
+ * Preamble with the probe sync pattern, a silent slot, then one tone per
+ * sounding frequency (see PROBE)
+ */
+export function generateProbe(sampleRate: number): Float32Array {
+  const parts: Float32Array[] = [generatePreamble(sampleRate, PROBE.SYNC_PATTERN)];
+
+  parts.push(new Float32Array(Math.floor((PROBE.SILENCE_MS / 1000) * sampleRate)));
+
+  for (const freq of PROBE.FREQUENCIES) {
+    parts.push(generateTone(freq, PROBE.TONE_MS, sampleRate, PROBE.GUARD_MS));
+  }
+
+  return concatenateSamples(parts);
+}
+
 /**
  * Calculate transmission duration in seconds
  */
@@ -0,0 +1,105 @@
+/**
+ * Repair frames - rateless erasure coding for one-way broadcasts
+ *
+ * RS inside each frame corrects damaged bytes but cannot bring back a frame
+ * that is lost entirely. In repair mode the data frames are grouped into
+ * blocks of up to 128, and each block is followed (after all data frames)
+ * by repair frames: XOR combinations of the block's frames, each scaled by
+ * a GF(256) coefficient. The coefficients form a Cauchy matrix, so any N
+ * frames out of a block's N data + K repair frames rebuild the block.
+ *
+ * Repair frames are numbered after the data frames (N+1, N+2, ...) and are
+ * always full frame size; shorter data frames count as zero-padded.
+ */
+import { REPAIR } from '../utils/constants';
+import { gfMul, gfInverse } from '../lib/reed-solomon';
+
+export interface RepairBlock {
+  /** 1-based index of the block's first data frame */
+  firstFrame: number;
+  frameCount: number;
+  /** 1-based frame index of the block's first repair frame */
+  firstRepair: number;
+  repairCount: number;
+}
+
+/**
+ * Split data frames into repair blocks of nearly equal size
+ *
+ * @param totalFrames - Number of data frames
+ * @param overheadPercent - Repair frames per block as a percentage of its data frames
+ */
+export function getRepairBlocks(totalFrames: number, overheadPercent: number): RepairBlock[] {
+  if (overheadPercent <= 0 || totalFrames < 1) return [];
+
+  const blockCount = Math.ceil(totalFrames / REPAIR.MAX_BLOCK_FRAMES);
+  const blocks: RepairBlock[] = [];
+  let firstFrame = 1;
+  let firstRepair = totalFrames + 1;
+
+  for (let b = 0; b < blockCount; b++) {
+    // Spread the remainder over the first blocks
+    const frameCount = Math.floor(totalFrames / blockCount) + (b < totalFrames % blockCount ? 1 : 0);
+    const repairCount = Math.ceil(frameCount * overheadPercent / 100);
+    blocks.push({ firstFrame, frameCount, firstRepair, repairCount });
+    firstFrame += frameCount;
+    firstRepair += repairCount;
+  }
+
+  return blocks;
+}
+
+/**
+ * Get the number of repair frames sent after the data frames
+ */
+export function getRepairFrameCount(totalFrames: number, overheadPercent: number): number {
+  return getRepairBlocks(totalFrames, overheadPercent).reduce((sum, block) => sum + block.repairCount, 0);
+}
+
+/**
+ * Coefficient of a block's data frame in one of its repair frames
+ * Cauchy matrix 1 / (x_r + y_d) with x_r = frameCount + r and y_d = d, all
+ * distinct elements of GF(256), so every square submatrix is invertible.
+ *
+ * @param repairOffset - 0-based position of the repair frame in its block
+ * @param frameOffset - 0-based position of the data frame in its block
+ */
+export function getRepairCoefficient(block: RepairBlock, repairOffset: number, frameOffset: number): number {
+  return gfInverse((block.frameCount + repairOffset) ^ frameOffset);
+}
+
+/**
+ * Create the repair frame payloads for a payload split into data frames
+ *
+ * @param payload - Payload that was split into data frames
+ * @param frameSize - Data frame payload size (repair frames have this size)
+ * @param overheadPercent - Repair frames per block as a percentage of its data frames
+ * @returns Repair payloads, in frame index order
+ */
+export function createRepairPayloads(
+  payload: Uint8Array,
+  frameSize: number,
+  overheadPercent: number
+): Uint8Array[] {
+  const totalFrames = Math.ceil(payload.length / frameSize);
+  const repairs: Uint8Array[] = [];
+
+  for (const block of getRepairBlocks(totalFrames, overheadPercent)) {
+    for (let r = 0; r < block.repairCount; r++) {
+      const repair = new Uint8Array(frameSize);
+
+      for (let d = 0; d < block.frameCount; d++) {
+        const coefficient = getRepairCoefficient(block, r, d);
+        const start = (block.firstFrame - 1 + d) * frameSize;
+        const frame = payload.subarray(start, Math.min(start + frameSize, payload.length));
+        for (let i = 0; i < frame.length; i++) {
+          repair[i] ^= gfMul(coefficient, frame[i]);
+        }
+      }
+
+      repairs.push(repair);
+    }
+  }
+
+  return repairs;
+}
@@ -13,11 +13,13 @@
  */
 
 import { RSEncoder } from '../lib/reed-solomon';
-import { FRAME } from '../utils/constants';
+import { FRAME, FRAME_V3 } from '../utils/constants';
 import { scramble, LFSR_SEED } from './scramble';
+import { getRepairFrameCount } from './repair';
 import {
   ConvolutionalEncoder,
   CONVOLUTIONAL_CONFIG,
+  countPuncturedBits,
 } from './convolutional';
 
 // Cache encoder instances
@@ -47,22 +49,82 @@ export const V3_FEC_CONFIG = {
   SCRAMBLER_SEED: LFSR_SEED,
 } as const;
 
+/**
+ * FEC strength profile for data frames
+ *
+ * The header (and header extension) always use the normal profile so the
+ * receiver can decode them before it knows which profile the sender chose.
+ */
+export type FECProfile = 'light' | 'normal' | 'heavy';
+
+export interface FECProfileParams {
+  /** RS parity bytes per frame (corrects half as many byte errors) */
+  RS_PARITY_SIZE: number;
+
+  /** Puncture the rate 1/2 convolutional output */
+  USE_PUNCTURING: boolean;
+
+  /** Puncture pattern (1 = keep, 0 = delete), ignored without puncturing */
+  PUNCTURE_PATTERN: readonly number[];
+}
+
+/**
+ * FEC profile parameters
+ *
+ * - light:  RS(8),  keeps 6 of 10 convolutional bits (1.2x expansion)
+ * - normal: RS(16), keeps 4 of 6 convolutional bits (1.33x expansion)
+ * - heavy:  RS(32), unpunctured rate 1/2 (2x expansion)
+ */
+export const FEC_PROFILES: Record<FECProfile, FECProfileParams> = {
+  light: {
+    RS_PARITY_SIZE: 8,
+    USE_PUNCTURING: true,
+    PUNCTURE_PATTERN: [1, 1, 1, 0, 0, 1, 1, 0, 0, 1],
+  },
+  normal: {
+    RS_PARITY_SIZE: V3_FEC_CONFIG.RS_PARITY_SIZE,
+    USE_PUNCTURING: V3_FEC_CONFIG.USE_PUNCTURING,
+    PUNCTURE_PATTERN: CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN,
+  },
+  heavy: {
+    RS_PARITY_SIZE: 32,
+    USE_PUNCTURING: false,
+    PUNCTURE_PATTERN: CONVOLUTIONAL_CONFIG.PUNCTURE_PATTERN,
+  },
+};
+
+/** Frame kinds, used to derive the raw frame size before FEC */
+export type V3FrameType = 'header' | 'extension' | 'data' | 'wide-data';
+
+/** Default profile (matches transmissions without a header extension) */
+export const DEFAULT_FEC_PROFILE: FECProfile = 'normal';
+
+/**
+ * Check if a string names a valid FEC profile
+ */
+export function isFECProfile(value: string): value is FECProfile {
+  return Object.prototype.hasOwnProperty.call(FEC_PROFILES, value);
+}
+
 /**
  * Encode a frame with v3 FEC (RS + Scramble + Convolutional)
  *
  * @param frame - Raw frame data
+ * @param profile - FEC profile (default: normal)
  * @returns Encoded frame with FEC
  */
-export function encodeV3FEC(frame: Uint8Array): Uint8Array {
+export function encodeV3FEC(frame: Uint8Array, profile: FECProfile = DEFAULT_FEC_PROFILE): Uint8Array {
+  const params = FEC_PROFILES[profile];
+
   // Step 1: RS encode (add parity bytes)
-  const rsEncoder = getRSEncoder(V3_FEC_CONFIG.RS_PARITY_SIZE);
+  const rsEncoder = getRSEncoder(params.RS_PARITY_SIZE);
   const rsEncoded = rsEncoder.encode(frame);
 
   // Step 2: Scramble (helps with sync and avoids long runs)
   const scrambled = scramble(rsEncoded, V3_FEC_CONFIG.SCRAMBLER_SEED);
 
   // Step 3: Convolutional encode
-  const convEncoder = new ConvolutionalEncoder(V3_FEC_CONFIG.USE_PUNCTURING);
+  const convEncoder = new ConvolutionalEncoder(params.USE_PUNCTURING, params.PUNCTURE_PATTERN);
   const convEncoded = convEncoder.encodeBytes(scrambled);
 
   return convEncoded;
@@ -78,42 +140,56 @@ export function encodeHeaderV3FEC(headerFrame: Uint8Array): Uint8Array {
 /**
  * Encode data frame with v3 FEC
  */
-export function encodeDataV3FEC(dataFrame: Uint8Array): Uint8Array {
-  return encodeV3FEC(dataFrame);
+export function encodeDataV3FEC(
+  dataFrame: Uint8Array,
+  profile: FECProfile = DEFAULT_FEC_PROFILE
+): Uint8Array {
+  return encodeV3FEC(dataFrame, profile);
 }
 
 /**
  * Encode all frames with v3 FEC
+ *
+ * The header and header extension always use the normal profile;
+ * data frames use the requested profile.
  */
 export function encodeWithV3FEC(
   headerFrame: Uint8Array,
-  dataFrames: Uint8Array[]
-): { encodedHeader: Uint8Array; encodedDataFrames: Uint8Array[] } {
+  dataFrames: Uint8Array[],
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  extensionFrame?: Uint8Array
+): { encodedHeader: Uint8Array; encodedExtension?: Uint8Array; encodedDataFrames: Uint8Array[] } {
   const encodedHeader = encodeHeaderV3FEC(headerFrame);
-  const encodedDataFrames = dataFrames.map(encodeDataV3FEC);
+  const encodedExtension = extensionFrame ? encodeHeaderV3FEC(extensionFrame) : undefined;
+  const encodedDataFrames = dataFrames.map(frame => encodeDataV3FEC(frame, profile));
 
-  return { encodedHeader, encodedDataFrames };
+  return { encodedHeader, encodedExtension, encodedDataFrames };
 }
 
 /**
  * Calculate v3 encoded size for a raw frame
  *
  * @param rawBytes - Size of raw frame (before FEC)
+ * @param profile - FEC profile (default: normal)
  * @returns Size after v3 FEC encoding
  */
-export function calculateV3EncodedSize(rawBytes: number): number {
+export function calculateV3EncodedSize(
+  rawBytes: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE
+): number {
+  const params = FEC_PROFILES[profile];
+
   // RS adds parity bytes
-  const rsSize = rawBytes + V3_FEC_CONFIG.RS_PARITY_SIZE;
+  const rsSize = rawBytes + params.RS_PARITY_SIZE;
 
   // Convolutional adds overhead based on rate
-  // Rate 2/3 with tail bits: (bits + 6 tail) * 1.5 expansion
+  // Rate 1/2 mother code with tail bits: (bits + 6 tail) * 2, minus punctured bits
   const bitCount = rsSize * 8;
   const tailBits = CONVOLUTIONAL_CONFIG.MEMORY;
   const totalBits = bitCount + tailBits;
 
-  if (V3_FEC_CONFIG.USE_PUNCTURING) {
-    // Punctured rate 2/3: 4 bits out per 3 bits in
-    const outputBits = Math.ceil(totalBits * 4 / 3);
+  if (params.USE_PUNCTURING) {
+    const outputBits = countPuncturedBits(totalBits * 2, params.PUNCTURE_PATTERN);
     return Math.ceil(outputBits / 8);
   } else {
     // Rate 1/2: 2 bits out per 1 bit in
@@ -124,9 +200,17 @@ export function calculateV3EncodedSize(rawBytes: number): number {
 
 /**
  * Calculate total v3 encoded size for a payload
+ *
+ * @param repairOverhead - Repair frames per block in percent (0 = none)
  */
-export function calculateV3TotalSize(payloadBytes: number): {
+export function calculateV3TotalSize(
+  payloadBytes: number,
+  profile: FECProfile = DEFAULT_FEC_PROFILE,
+  originalBytes: number = payloadBytes,
+  repairOverhead: number = 0
+): {
   dataFrames: number;
+  repairFrames: number;
   headerBytes: number;
   dataBytes: number;
   totalBytes: number;
@@ -135,11 +219,27 @@ export function calculateV3TotalSize(payloadBytes: number): {
   // Use optimal frame size
   const frameSize = payloadBytes <= 32 ? 32 : payloadBytes <= 64 ? 64 : FRAME.PAYLOAD_SIZE;
   const dataFrames = Math.ceil(payloadBytes / frameSize);
+  const repairFrames = getRepairFrameCount(dataFrames, repairOverhead);
+
+  // More than 255 frames need 2-byte frame indices
+  const wideIndex = dataFrames + repairFrames > FRAME_V3.MAX_NARROW_FRAMES;
+  const dataHeaderSize = wideIndex ? FRAME_V3.WIDE_DATA_HEADER_SIZE : FRAME_V3.DATA_HEADER_SIZE;
 
   // Header: 12 bytes raw → v3 encoded
   const headerRepeat = dataFrames > 1 ? 2 : 1;
   const rawHeaderSize = FRAME.HEADER_SIZE;
-  const headerBytes = calculateV3EncodedSize(rawHeaderSize) * headerRepeat;
+  let headerBytes = calculateV3EncodedSize(rawHeaderSize) * headerRepeat;
+
+  // Non-default profiles, repair frames and oversized payloads are announced
+  // in a header extension (sent once)
+  const extended = profile !== DEFAULT_FEC_PROFILE
+    || repairFrames > 0
+    || wideIndex
+    || payloadBytes > 0xFFFF
+    || originalBytes > 0xFFFF;
+  if (extended) {
+    headerBytes += calculateV3EncodedSize(FRAME_V3.EXTENSION_SIZE);
+  }
 
   // Data frames: variable length
   let dataBytes = 0;
@@ -147,15 +247,18 @@ export function calculateV3TotalSize(payloadBytes: number): {
     const start = i * frameSize;
     const end = Math.min(start + frameSize, payloadBytes);
     const thisPayload = end - start;
-    const rawFrameSize = 3 + thisPayload; // 3 byte header + payload
-    dataBytes += calculateV3EncodedSize(rawFrameSize);
+    const rawFrameSize = dataHeaderSize + thisPayload; // frame header + payload
+    dataBytes += calculateV3EncodedSize(rawFrameSize, profile);
   }
 
+  // Repair frames are always full size
+  dataBytes += repairFrames * calculateV3EncodedSize(dataHeaderSize + frameSize, profile);
+
   const totalBytes = headerBytes + dataBytes;
 
   // Calculate raw size for comparison
   const rawHeaderBytes = (rawHeaderSize + V3_FEC_CONFIG.RS_PARITY_SIZE) * headerRepeat;
-  const rawDataBytes = dataFrames * (3 + frameSize + V3_FEC_CONFIG.RS_PARITY_SIZE);
+  const rawDataBytes = (dataFrames + repairFrames) * (dataHeaderSize + frameSize + FEC_PROFILES[profile].RS_PARITY_SIZE);
   const rawTotal = rawHeaderBytes + rawDataBytes;
 
   // v3 adds ~1.5x overhead from convolutional on top of RS
@@ -164,6 +267,7 @@ export function calculateV3TotalSize(payloadBytes: number): {
 
   return {
     dataFrames,
+    repairFrames,
     headerBytes,
     dataBytes,
     totalBytes,
@@ -175,23 +279,29 @@ export function calculateV3TotalSize(payloadBytes: number): {
  * Get the number of original bits for a v3 encoded frame
  * Used by Viterbi decoder to know how many bits to expect
  *
- * @param frameType - 'header' or 'data'
+ * @param frameType - 'header', 'extension', 'data' or 'wide-data' (2-byte frame index)
  * @param payloadSize - For data frames, the payload size (0-128)
+ * @param profile - FEC profile of the frame (header and extension are always normal)
  */
 export function getOriginalBitCount(
-  frameType: 'header' | 'data',
-  payloadSize: number = 0
+  frameType: V3FrameType,
+  payloadSize: number = 0,
+  profile: FECProfile = DEFAULT_FEC_PROFILE
 ): number {
   let rawBytes: number;
 
   if (frameType === 'header') {
     rawBytes = FRAME.HEADER_SIZE;
+  } else if (frameType === 'extension') {
+    rawBytes = FRAME_V3.EXTENSION_SIZE;
+  } else if (frameType === 'wide-data') {
+    rawBytes = FRAME_V3.WIDE_DATA_HEADER_SIZE + payloadSize; // 4 byte header + payload
   } else {
-    rawBytes = 3 + payloadSize; // 3 byte header + payload
+    rawBytes = FRAME_V3.DATA_HEADER_SIZE + payloadSize; // 3 byte header + payload
   }
 
   // After RS encoding
-  const rsSize = rawBytes + V3_FEC_CONFIG.RS_PARITY_SIZE;
+  const rsSize = rawBytes + FEC_PROFILES[profile].RS_PARITY_SIZE;
 
   // Return bit count (what convolutional encoder received)
   return rsSize * 8;
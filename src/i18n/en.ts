@@ -16,10 +16,16 @@ export const en = {
     inputLabel: 'Enter text or upload a file',
     inputPlaceholder: 'Paste your config file, password, URL, or any text here...',
     uploadButton: 'Upload File',
+    bundleFiles: '{count} files: {names}',
     generateButton: 'Generate Audio',
+    derivingKey: 'Deriving key from password... {percent}%',
     playButton: 'Play',
     pauseButton: 'Pause',
     downloadButton: 'Download WAV',
+    downloadOggButton: 'Download OGG',
+    formatWav: 'WAV',
+    formatOgg: 'OGG',
+    oggHint: 'OGG/Opus, to send as a messenger voice note',
     qrTitle: 'QR Code (for small payloads)',
     checksumLabel: 'SHA-256 Checksum',
     duration: 'Duration',
@@ -28,18 +34,33 @@ export const en = {
     tooLarge: 'Payload exceeds maximum size (100KB)',
     largeWarning: 'Large payload - transmission may take several minutes',
     widebandHint: 'For HD Voice calls or direct speaker-to-mic',
+    ultrasonicHint: 'Near-inaudible, devices close together',
+    multitoneHint: 'Fastest, for audio cables or quiet rooms',
     // Mode & Encrypt toggles
     mode: 'Mode',
     modePhone: 'Phone',
     modeWideband: 'Wideband',
-    encryptOn: 'On',
+    modeUltrasonic: 'Ultrasonic',
+    modeMultitone: 'Multitone',
     encryptOff: 'Off',
+    encryptPassword: 'Password',
+    encryptKey: 'Public Key',
+    encryptShared: 'Shared Key',
+    // Compact configs toggle
+    compact: 'Compact Configs',
+    compactOff: 'Off',
+    compactOn: 'On',
+    compactHint: 'Proxy links and WireGuard configs are sent shorter when possible',
     // Tips
     tips: {
       phoneMode: 'Phone mode: For standard phone calls. Slower but works through voice codecs.',
       widebandMode: 'Wideband mode: For HD Voice calls or direct device-to-device. Faster transmission.',
-      encryption: 'Encryption: Protect sensitive data with a password. Share the password separately.',
+      ultrasonicMode: 'Ultrasonic mode: Near-inaudible tones for devices a few centimeters apart. Not all speakers and mics reach 20 kHz.',
+      multitoneMode: 'Multitone mode: 16 tones at once, about 8x faster than Wideband. Needs a clean link such as an audio cable or a quiet room.',
+      encryption: 'Encryption: Protect sensitive data with a password shared separately, or encrypt to the recipient\'s public key so no password has to be shared at all.',
       checksum: 'Checksum: Compare checksums on both ends to verify data integrity.',
+      compact: 'Compact configs: Proxy links (vless, vmess, ss, trojan) and WireGuard configs go out in a shorter binary form; the receiver gets the exact same text back.',
+      voiceMessage: 'Voice messages: Download as OGG to send the audio as a voice note in a messenger. Phone mode copes best with the voice codec; Ultrasonic does not survive it.',
     },
     // Encryption
     encrypt: 'Encrypt',
@@ -51,6 +72,17 @@ export const en = {
       strong: 'Strong',
     },
     encrypted: 'Encrypted',
+    // Half-duplex ARQ
+    listenForReply: 'Listen for Reply',
+    stopListening: 'Stop Listening',
+    arqListening: 'Listening for the receiver\'s reply...',
+    arqResending: 'Resending {count} missing frames...',
+    arqAcknowledged: 'Receiver confirmed the whole message',
+    arqNotAReply: 'Heard a transmission, but not a reply to this message',
+    // Channel test
+    playTestSignal: 'Play Test Signal',
+    stopTestSignal: 'Stop Test Signal',
+    testSignalHint: 'Let the receiver use "Test Channel" to pick the best mode',
   },
   receive: {
     title: 'Receive',
@@ -66,7 +98,7 @@ export const en = {
     },
     stopButton: 'Stop',
     uploadAudio: 'Upload Audio File',
-    uploadHint: 'or drag & drop an audio file',
+    uploadHint: 'or drag & drop audio files',
     dropToUpload: 'Drop audio file to decode',
     processingFile: 'Processing audio...',
     decodingAudio: 'Decoding audio...',
@@ -78,11 +110,21 @@ export const en = {
     receivingHeader: 'Receiving header...',
     receivingData: 'Receiving data...',
     frameProgress: 'Frame {current} of {total}',
+    segmentProgress: 'Segment {current} of {total} received',
+    framesMissing: '{count} frames missing - ask the sender to resend them',
+    requestMissing: 'Request Missing Frames',
+    playingRequest: 'Playing request...',
+    sendAck: 'Play Confirmation',
+    partialSaved: '{count} frames kept from an unfinished message. Listen again or upload another recording of it to finish.',
+    discardPartial: 'Discard',
     complete: 'Transfer complete!',
     checksumMatch: 'Checksum verified',
     checksumMismatch: 'Checksum mismatch - data may be corrupted',
     copyButton: 'Copy to Clipboard',
     saveButton: 'Save as File',
+    createdAt: 'Created {date}',
+    bundleFiles: '{count} files',
+    saveFile: 'Save',
     saveAudio: 'Save Audio',
     copied: 'Copied!',
     errorsFixed: '{count} errors corrected',
@@ -95,8 +137,46 @@ export const en = {
     encrypted: 'Encrypted',
     passwordRequired: 'Password Required',
     passwordPrompt: 'This data is encrypted. Enter password to decrypt:',
+    sharedKeyPrompt: 'This data is encrypted with shared key {keyId}. Add that key below, or paste it, to decrypt:',
     decryptButton: 'Decrypt',
+    derivingKey: 'Deriving key from password... {percent}%',
     decryptionFailed: 'Decryption failed - wrong password or corrupted data',
+    keyRequired: 'Private Key Required',
+    keyPrompt: 'This data is encrypted to a public key. Generate or import the matching private key to decrypt:',
+    keyDecryptionFailed: 'Decryption failed - wrong private key or corrupted data',
+    // Signatures
+    signedBy: 'Signed by',
+    signatureValid: 'Valid signature',
+    signatureInvalid: 'Invalid signature - the message was altered or not signed by this key',
+    // Channel test
+    testChannel: 'Test Channel',
+    testingChannel: 'Listening for the sender\'s test signal...',
+    probeNotFound: 'No test signal heard - ask the sender to play it again',
+    probeRecommendation: 'Recommended: {mode} mode, {fec} error correction',
+    probeOffset: 'Frequency offset: {offset} Hz',
+  },
+  keys: {
+    myKey: 'My Key',
+    myKeyHint: 'Give your public key to senders. Messages encrypted to it can only be decrypted with your private key, which stays in this browser.',
+    generate: 'Generate Key',
+    importPrivate: 'Import',
+    privateKeyPlaceholder: 'Private key (nedagram-sk-...)',
+    copyPublic: 'Copy Public Key',
+    exportPrivate: 'Copy Private Key',
+    remove: 'Remove',
+    removeConfirm: 'Remove your private key? Messages encrypted to it can no longer be decrypted here.',
+    copied: 'Copied!',
+    invalidKey: 'Not a valid key',
+    contacts: 'Recipients',
+    noContacts: 'No recipients yet. Add the public key of the person you are sending to.',
+    contactName: 'Name',
+    publicKeyPlaceholder: 'Public key (nedagram-pk-...)',
+    add: 'Add',
+    sharedKeys: 'Shared Keys',
+    sharedKeysHint: 'A shared key encrypts for everyone who holds it, with nothing to type. Messages name the key they were encrypted with, so keep old keys until nobody uses them.',
+    sharedKeyPlaceholder: 'Shared key (nedagram-psk-...)',
+    keyId: 'ID',
+    copyKey: 'Copy',
   },
   help: {
     title: 'Help',
@@ -153,6 +233,20 @@ export const en = {
       'High-quality VoIP',
     ],
     widebandModeTradeoff: 'Faster (~50-60 bps) but requires wideband audio (up to 6 kHz)',
+    ultrasonicMode: 'Ultrasonic Mode',
+    ultrasonicModeDesc: 'Use when devices are close together and the transfer should not be heard.',
+    ultrasonicModeExamples: [
+      'Phone held next to a laptop',
+      'Quiet rooms, libraries or meetings',
+    ],
+    ultrasonicModeTradeoff: 'Slow (~20-25 bps), short range (17-20 kHz); does not survive phone calls or voice messages',
+    multitoneMode: 'Multitone Mode',
+    multitoneModeDesc: 'Use for large transfers over a clean link, where noise and echo are low.',
+    multitoneModeExamples: [
+      'Audio cable between two devices',
+      'Laptop speaker to a phone next to it in a quiet room',
+    ],
+    multitoneModeTradeoff: 'Fastest (~400-450 bps) but needs a clean link (1-7.3 kHz); fails over phone calls, voice messages or noisy rooms',
     // Technical Specs section
     technicalSpecs: 'Technical Specs',
     versionInfo: 'Version Info',
@@ -18,10 +18,16 @@ export const fa: Translations = {
     inputLabel: 'متن را وارد کنید یا فایل بارگذاری کنید',
     inputPlaceholder: 'فایل تنظیمات، رمز عبور، لینک یا هر متنی را اینجا وارد کنید...',
     uploadButton: 'بارگذاری فایل',
+    bundleFiles: '{count} فایل: {names}',
     generateButton: 'ایجاد ندا',
+    derivingKey: 'در حال ساخت کلید از رمز عبور... {percent}٪',
     playButton: 'پخش',
     pauseButton: 'توقف',
     downloadButton: 'دانلود WAV',
+    downloadOggButton: 'دانلود OGG',
+    formatWav: 'WAV',
+    formatOgg: 'OGG',
+    oggHint: 'OGG/Opus، برای ارسال به‌عنوان پیام صوتی در پیام‌رسان',
     qrTitle: 'کد QR (برای داده‌های کوچک)',
     checksumLabel: 'جمع کنترلی SHA-256',
     duration: 'مدت',
@@ -30,18 +36,33 @@ export const fa: Translations = {
     tooLarge: 'حجم داده بیش از حد مجاز است (۱۰۰ کیلوبایت)',
     largeWarning: 'داده حجیم - انتقال ممکن است چند دقیقه طول بکشد',
     widebandHint: 'برای تماس HD Voice یا مستقیم بلندگو به میکروفون',
+    ultrasonicHint: 'تقریباً بی‌صدا، دستگاه‌ها نزدیک هم',
+    multitoneHint: 'سریع‌ترین، برای کابل صوتی یا اتاق ساکت',
     // Mode & Encrypt toggles
     mode: 'حالت',
     modePhone: 'Phone',
     modeWideband: 'Wideband',
-    encryptOn: 'روشن',
+    modeUltrasonic: 'Ultrasonic',
+    modeMultitone: 'Multitone',
     encryptOff: 'خاموش',
+    encryptPassword: 'رمز عبور',
+    encryptKey: 'کلید عمومی',
+    encryptShared: 'کلید مشترک',
+    // Compact configs toggle
+    compact: 'کانفیگ فشرده',
+    compactOff: 'خاموش',
+    compactOn: 'روشن',
+    compactHint: 'لینک‌های پروکسی و کانفیگ‌های WireGuard در صورت امکان کوتاه‌تر ارسال می‌شوند',
     // Tips
     tips: {
       phoneMode: 'حالت Phone: برای تماس تلفنی معمولی. کندتر ولی با کُدِک صوتی کار می‌کند.',
       widebandMode: 'حالت Wideband: برای تماس HD Voice یا مستقیم بین دستگاه‌ها. سریع‌تر.',
-      encryption: 'رمزگذاری: داده حساس را با رمز عبور محافظت کنید. رمز را جداگانه به اشتراک بگذارید.',
+      ultrasonicMode: 'حالت Ultrasonic: صدای تقریباً نامسموع برای دستگاه‌هایی که چند سانتی‌متر از هم فاصله دارند. همه بلندگوها و میکروفون‌ها تا 20 kHz کار نمی‌کنند.',
+      multitoneMode: 'حالت Multitone: ۱۶ صدا هم‌زمان، حدود ۸ برابر سریع‌تر از Wideband. به ارتباط تمیز مثل کابل صوتی یا اتاق ساکت نیاز دارد.',
+      encryption: 'رمزگذاری: داده حساس را با رمز عبوری که جداگانه به اشتراک می‌گذارید محافظت کنید، یا آن را با کلید عمومی گیرنده رمزگذاری کنید تا اصلاً نیازی به اشتراک رمز نباشد.',
       checksum: 'جمع کنترلی: جمع کنترلی را در دو طرف مقایسه کنید تا صحت داده تأیید شود.',
+      compact: 'کانفیگ فشرده: لینک‌های پروکسی (vless، vmess، ss، trojan) و کانفیگ‌های WireGuard به شکل دودویی کوتاه‌تری ارسال می‌شوند و گیرنده دقیقاً همان متن را دریافت می‌کند.',
+      voiceMessage: 'پیام صوتی: با دانلود OGG صدا را به‌عنوان پیام صوتی در پیام‌رسان بفرستید. حالت Phone بهتر از همه از کُدِک صوتی عبور می‌کند؛ Ultrasonic از آن عبور نمی‌کند.',
     },
     // Encryption
     encrypt: 'رمزگذاری',
@@ -53,6 +74,17 @@ export const fa: Translations = {
       strong: 'قوی',
     },
     encrypted: 'رمزگذاری شده',
+    // Half-duplex ARQ
+    listenForReply: 'گوش دادن به پاسخ',
+    stopListening: 'توقف گوش دادن',
+    arqListening: 'در انتظار پاسخ گیرنده...',
+    arqResending: 'ارسال دوباره {count} فریم گم‌شده...',
+    arqAcknowledged: 'گیرنده دریافت کامل پیام را تأیید کرد',
+    arqNotAReply: 'یک انتقال شنیده شد، ولی پاسخی به این پیام نبود',
+    // Channel test
+    playTestSignal: 'پخش سیگنال آزمایشی',
+    stopTestSignal: 'توقف سیگنال آزمایشی',
+    testSignalHint: 'گیرنده با «آزمایش کانال» بهترین حالت را انتخاب می‌کند',
   },
   receive: {
     title: 'دریافت',
@@ -68,7 +100,7 @@ export const fa: Translations = {
     },
     stopButton: 'توقف',
     uploadAudio: 'بارگذاری فایل صوتی',
-    uploadHint: 'یا فایل صوتی را بکشید و رها کنید',
+    uploadHint: 'یا فایل‌های صوتی را بکشید و رها کنید',
     dropToUpload: 'فایل صوتی را برای رمزگشایی رها کنید',
     processingFile: 'در حال پردازش صدا...',
     decodingAudio: 'در حال رمزگشایی صدا...',
@@ -80,11 +112,21 @@ export const fa: Translations = {
     receivingHeader: 'دریافت هدر...',
     receivingData: 'دریافت داده...',
     frameProgress: 'فریم {current} از {total}',
+    segmentProgress: 'بخش {current} از {total} دریافت شد',
+    framesMissing: '{count} فریم گم شده است - از فرستنده بخواهید دوباره بفرستد',
+    requestMissing: 'درخواست فریم‌های گم‌شده',
+    playingRequest: 'در حال پخش درخواست...',
+    sendAck: 'پخش تأیید',
+    partialSaved: '{count} فریم از یک پیام ناتمام نگه داشته شده است. دوباره گوش دهید یا ضبط دیگری از آن را بارگذاری کنید تا کامل شود.',
+    discardPartial: 'حذف',
     complete: 'انتقال کامل شد!',
     checksumMatch: 'جمع کنترلی تأیید شد',
     checksumMismatch: 'عدم تطابق جمع کنترلی - داده ممکن است خراب باشد',
     copyButton: 'کپی',
     saveButton: 'ذخیره فایل',
+    createdAt: 'ساخته شده در {date}',
+    bundleFiles: '{count} فایل',
+    saveFile: 'ذخیره',
     saveAudio: 'ذخیره صدا',
     copied: 'کپی شد!',
     errorsFixed: '{count} خطا اصلاح شد',
@@ -97,8 +139,46 @@ export const fa: Translations = {
     encrypted: 'رمزگذاری شده',
     passwordRequired: 'رمز عبور لازم است',
     passwordPrompt: 'این داده رمزگذاری شده است. رمز عبور را وارد کنید:',
+    sharedKeyPrompt: 'این داده با کلید مشترک {keyId} رمزگذاری شده است. برای باز کردن رمز، آن کلید را در زیر اضافه یا اینجا وارد کنید:',
     decryptButton: 'باز کردن رمز',
+    derivingKey: 'در حال ساخت کلید از رمز عبور... {percent}٪',
     decryptionFailed: 'باز کردن رمز ناموفق بود - رمز عبور اشتباه یا داده خراب است',
+    keyRequired: 'کلید خصوصی لازم است',
+    keyPrompt: 'این داده با یک کلید عمومی رمزگذاری شده است. برای باز کردن رمز، کلید خصوصی متناظر را بسازید یا وارد کنید:',
+    keyDecryptionFailed: 'باز کردن رمز ناموفق بود - کلید خصوصی اشتباه یا داده خراب است',
+    // Signatures
+    signedBy: 'امضا شده توسط',
+    signatureValid: 'امضای معتبر',
+    signatureInvalid: 'امضای نامعتبر - پیام تغییر کرده یا با این کلید امضا نشده است',
+    // Channel test
+    testChannel: 'آزمایش کانال',
+    testingChannel: 'در انتظار سیگنال آزمایشی فرستنده...',
+    probeNotFound: 'سیگنال آزمایشی شنیده نشد - از فرستنده بخواهید دوباره پخش کند',
+    probeRecommendation: 'پیشنهاد: حالت {mode}، تصحیح خطای {fec}',
+    probeOffset: 'انحراف فرکانس: {offset} هرتز',
+  },
+  keys: {
+    myKey: 'کلید من',
+    myKeyHint: 'کلید عمومی خود را به فرستندگان بدهید. پیام‌هایی که با آن رمزگذاری شوند فقط با کلید خصوصی شما باز می‌شوند که در همین مرورگر می‌ماند.',
+    generate: 'ساخت کلید',
+    importPrivate: 'وارد کردن',
+    privateKeyPlaceholder: 'کلید خصوصی (nedagram-sk-...)',
+    copyPublic: 'کپی کلید عمومی',
+    exportPrivate: 'کپی کلید خصوصی',
+    remove: 'حذف',
+    removeConfirm: 'کلید خصوصی حذف شود؟ پیام‌هایی که با آن رمزگذاری شده‌اند دیگر اینجا باز نمی‌شوند.',
+    copied: 'کپی شد!',
+    invalidKey: 'کلید معتبر نیست',
+    contacts: 'گیرندگان',
+    noContacts: 'هنوز گیرنده‌ای ندارید. کلید عمومی کسی را که برایش می‌فرستید اضافه کنید.',
+    contactName: 'نام',
+    publicKeyPlaceholder: 'کلید عمومی (nedagram-pk-...)',
+    add: 'افزودن',
+    sharedKeys: 'کلیدهای مشترک',
+    sharedKeysHint: 'کلید مشترک برای همه کسانی که آن را دارند رمزگذاری می‌کند و نیازی به تایپ چیزی نیست. هر پیام کلیدی را که با آن رمزگذاری شده نام می‌برد، پس کلیدهای قدیمی را تا وقتی کسی از آن‌ها استفاده می‌کند نگه دارید.',
+    sharedKeyPlaceholder: 'کلید مشترک (nedagram-psk-...)',
+    keyId: 'شناسه',
+    copyKey: 'کپی',
   },
   help: {
     title: 'راهنما',
@@ -155,6 +235,20 @@ export const fa: Translations = {
       'VoIP با کیفیت بالا',
     ],
     widebandModeTradeoff: 'سریع‌تر (~50-60 bps) اما نیاز به صدای باند وسیع دارد (تا 6 kHz)',
+    ultrasonicMode: 'حالت Ultrasonic',
+    ultrasonicModeDesc: 'وقتی دستگاه‌ها نزدیک هم هستند و انتقال نباید شنیده شود.',
+    ultrasonicModeExamples: [
+      'گوشی کنار لپ‌تاپ',
+      'اتاق‌های ساکت، کتابخانه یا جلسه',
+    ],
+    ultrasonicModeTradeoff: 'کند (~20-25 bps)، برد کوتاه (17-20 kHz)؛ از تماس تلفنی یا پیام صوتی عبور نمی‌کند',
+    multitoneMode: 'حالت Multitone',
+    multitoneModeDesc: 'برای انتقال‌های حجیم روی ارتباط تمیز، با نویز و پژواک کم.',
+    multitoneModeExamples: [
+      'کابل صوتی بین دو دستگاه',
+      'بلندگوی لپ‌تاپ به گوشی کنارش در اتاق ساکت',
+    ],
+    multitoneModeTradeoff: 'سریع‌ترین (~400-450 bps) اما به ارتباط تمیز نیاز دارد (1-7.3 kHz)؛ در تماس تلفنی، پیام صوتی یا اتاق پرسر و صدا کار نمی‌کند',
     // Technical Specs section
     technicalSpecs: 'مشخصات فنی',
     versionInfo: 'اطلاعات نسخه',
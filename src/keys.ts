@@ -0,0 +1,150 @@
+import { signal } from '@preact/signals';
+import {
+  generateKeyPair,
+  generatePreSharedKey,
+  getKeyId,
+  getPublicKey,
+  isValidPreSharedKey,
+  isValidPublicKey,
+  type KeyPair,
+} from './lib/crypto';
+
+/** A recipient's public key saved for sending */
+export interface Contact {
+  name: string;
+  publicKey: string;
+}
+
+/** A pre-shared key kept for encrypting to and decrypting from a group */
+export interface SharedKey {
+  name: string;
+  key: string;
+  keyId: string;
+}
+
+const KEY_PAIR_STORAGE_KEY = 'nedagram-keypair';
+const CONTACTS_STORAGE_KEY = 'nedagram-contacts';
+const SHARED_KEYS_STORAGE_KEY = 'nedagram-shared-keys';
+
+// Load our key pair, if one was generated or imported
+function loadKeyPair(): KeyPair | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEY_PAIR_STORAGE_KEY) ?? 'null');
+    if (typeof saved?.publicKey === 'string' && typeof saved?.privateKey === 'string') return saved;
+  } catch {
+    // Fall through: an unreadable entry is dropped
+  }
+  return null;
+}
+
+// Load saved recipients, skipping entries without a valid public key
+function loadContacts(): Contact[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONTACTS_STORAGE_KEY) ?? '[]');
+    if (Array.isArray(saved)) {
+      return saved.filter(c => typeof c?.name === 'string' && isValidPublicKey(c?.publicKey ?? ''));
+    }
+  } catch {
+    // Fall through: an unreadable entry is dropped
+  }
+  return [];
+}
+
+// Load saved pre-shared keys, skipping entries without a valid key
+function loadSharedKeys(): SharedKey[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHARED_KEYS_STORAGE_KEY) ?? '[]');
+    if (Array.isArray(saved)) {
+      return saved.filter(k => typeof k?.name === 'string' && typeof k?.keyId === 'string' && isValidPreSharedKey(k?.key ?? ''));
+    }
+  } catch {
+    // Fall through: an unreadable entry is dropped
+  }
+  return [];
+}
+
+export const keyPair = signal<KeyPair | null>(loadKeyPair());
+export const contacts = signal<Contact[]>(loadContacts());
+export const sharedKeys = signal<SharedKey[]>(loadSharedKeys());
+
+function saveKeyPair(pair: KeyPair | null) {
+  keyPair.value = pair;
+  if (pair) {
+    localStorage.setItem(KEY_PAIR_STORAGE_KEY, JSON.stringify(pair));
+  } else {
+    localStorage.removeItem(KEY_PAIR_STORAGE_KEY);
+  }
+}
+
+function saveContacts(list: Contact[]) {
+  contacts.value = list;
+  localStorage.setItem(CONTACTS_STORAGE_KEY, JSON.stringify(list));
+}
+
+function saveSharedKeys(list: SharedKey[]) {
+  sharedKeys.value = list;
+  localStorage.setItem(SHARED_KEYS_STORAGE_KEY, JSON.stringify(list));
+}
+
+/**
+ * Generate a new key pair for receiving, replacing the current one
+ */
+export async function createKeyPair(): Promise<void> {
+  saveKeyPair(await generateKeyPair());
+}
+
+/**
+ * Use an existing private key (exported from another device or the CLI)
+ * Throws if the key is not valid
+ */
+export async function importPrivateKey(privateKey: string): Promise<void> {
+  const trimmed = privateKey.trim();
+  saveKeyPair({ publicKey: await getPublicKey(trimmed), privateKey: trimmed });
+}
+
+export function removeKeyPair() {
+  saveKeyPair(null);
+}
+
+/**
+ * Save a recipient's public key; a key that is already saved is renamed
+ * Throws if the key is not valid
+ */
+export function addContact(name: string, publicKey: string) {
+  const key = publicKey.trim();
+  if (!isValidPublicKey(key)) {
+    throw new Error('Invalid public key');
+  }
+  saveContacts([...contacts.value.filter(c => c.publicKey !== key), { name: name.trim() || key.slice(-8), publicKey: key }]);
+}
+
+export function removeContact(publicKey: string) {
+  saveContacts(contacts.value.filter(c => c.publicKey !== publicKey));
+}
+
+/**
+ * Save a pre-shared key (generated with the CLI or on another device); a
+ * key that is already saved is renamed. Returns the saved entry.
+ * Throws if the key is not valid
+ */
+export async function addSharedKey(name: string, preSharedKey: string): Promise<SharedKey> {
+  const key = preSharedKey.trim();
+  const keyId = await getKeyId(key);
+  const entry = { name: name.trim() || keyId, key, keyId };
+  saveSharedKeys([...sharedKeys.value.filter(k => k.key !== key), entry]);
+  return entry;
+}
+
+/**
+ * Generate a new pre-shared key to give to a group
+ */
+export function createSharedKey(name: string): Promise<SharedKey> {
+  return addSharedKey(name, generatePreSharedKey());
+}
+
+export function removeSharedKey(key: string) {
+  saveSharedKeys(sharedKeys.value.filter(k => k.key !== key));
+}
@@ -0,0 +1,486 @@
+/**
+ * Channel simulator - what real audio links do to a transmission
+ *
+ * Applies the impairments of a phone call, a voice message or a speaker
+ * and microphone to encoded audio, so modes and FEC profiles can be
+ * compared without playing and recording anything. They are applied in
+ * the order a signal meets them:
+ *   clipping (overdriven speaker) → echo (room) → noise (microphone) →
+ *   clock drift and frequency offset (receiver) → telephone band-pass →
+ *   AGC (phone) → speech codec → dropouts (network)
+ *
+ * Every random choice comes from a generator seeded by the config, so a
+ * run is repeatable: the same seed gives the same samples.
+ */
+
+export type CodecModel = 'gsm' | 'amr';
+
+export interface ChannelConfig {
+  /** White noise over the full band at this SNR (dB, against the transmission's average power) */
+  snrDb?: number;
+  /** Telephone band-pass (300-3400 Hz) */
+  telephone?: boolean;
+  /** Sample clock error of the receiver (ppm); positive: tones come out lower and symbols longer */
+  driftPpm?: number;
+  /** Shift of every frequency (Hz), as over an SSB radio link */
+  frequencyOffsetHz?: number;
+  /** Clip at this fraction of the peak (0-1) */
+  clipLevel?: number;
+  /** AGC that boosts quiet passages by up to this much (dB) and pumps at every change of level */
+  agcDb?: number;
+  /** Echo delay (ms) */
+  echoMs?: number;
+  /** Level of each echo against the sound before it (0-1) */
+  echoGain?: number;
+  /** Average number of dropouts per second */
+  dropoutRate?: number;
+  /** Length of each dropout (ms) */
+  dropoutMs?: number;
+  /** Speech codec model */
+  codec?: CodecModel;
+  /** Seed of the random generator (noise and dropouts) */
+  seed?: number;
+}
+
+/** Typical links, as starting points */
+export const CHANNEL_PRESETS: Record<string, ChannelConfig> = {
+  // Mobile call on a modern network (AMR-NB 12.2)
+  'phone-call': { telephone: true, codec: 'amr', snrDb: 25, agcDb: 10, driftPpm: 20, dropoutRate: 0.05, dropoutMs: 20 },
+  // Older GSM call: harsher codec, more noise
+  'gsm-call': { telephone: true, codec: 'gsm', snrDb: 20, agcDb: 12, driftPpm: 50, dropoutRate: 0.1, dropoutMs: 20 },
+  // Speaker to microphone across a room
+  'speaker': { snrDb: 20, echoMs: 35, echoGain: 0.3, clipLevel: 0.8, agcDb: 10, driftPpm: 100 },
+  // Voice over an SSB radio link
+  'radio': { telephone: true, snrDb: 15, frequencyOffsetHz: 15, agcDb: 20 },
+};
+
+const DEFAULT_DROPOUT_MS = 20;
+const DEFAULT_ECHO_GAIN = 0.3;
+
+// Telephone band edges (Hz)
+const TELEPHONE_LOW_HZ = 300;
+const TELEPHONE_HIGH_HZ = 3400;
+
+// Level the AGC aims for, and how fast it follows the signal (seconds)
+const AGC_TARGET = 0.3;
+const AGC_ATTACK_S = 0.005;
+const AGC_RELEASE_S = 0.3;
+
+// Taps of the Hilbert transformer for the frequency offset (odd)
+const HILBERT_TAPS = 127;
+
+/**
+ * Check a channel config, returning what is wrong with it (null when valid)
+ */
+export function validateChannel(config: ChannelConfig): string | null {
+  const { snrDb, driftPpm, frequencyOffsetHz, clipLevel, agcDb, echoMs, echoGain, dropoutRate, dropoutMs, codec } = config;
+  if (snrDb !== undefined && !Number.isFinite(snrDb)) return 'SNR must be a number of dB';
+  if (driftPpm !== undefined && !(Math.abs(driftPpm) <= 10000)) return 'Clock drift must be within ±10000 ppm';
+  if (frequencyOffsetHz !== undefined && !(Math.abs(frequencyOffsetHz) <= 1000)) return 'Frequency offset must be within ±1000 Hz';
+  if (clipLevel !== undefined && !(clipLevel > 0 && clipLevel <= 1)) return 'Clip level must be above 0 and at most 1';
+  if (agcDb !== undefined && !(agcDb >= 0 && agcDb <= 60)) return 'AGC gain must be 0 to 60 dB';
+  if (echoMs !== undefined && !(echoMs > 0 && echoMs <= 2000)) return 'Echo delay must be above 0 and at most 2000 ms';
+  if (echoGain !== undefined && !(echoGain >= 0 && echoGain < 1)) return 'Echo gain must be at least 0 and below 1';
+  if (dropoutRate !== undefined && !(dropoutRate >= 0 && dropoutRate <= 100)) return 'Dropout rate must be 0 to 100 per second';
+  if (dropoutMs !== undefined && !(dropoutMs > 0 && dropoutMs <= 10000)) return 'Dropout length must be above 0 and at most 10000 ms';
+  if (codec !== undefined && codec !== 'gsm' && codec !== 'amr') return 'Codec must be "gsm" or "amr"';
+  return null;
+}
+
+/**
+ * Push audio through the impairments of a channel
+ * @param samples Audio samples (not modified)
+ * @param sampleRate Sample rate in Hz
+ * @param config Impairments to apply (none by default)
+ * @returns Received audio; longer or shorter than the input with clock drift
+ */
+export function applyChannel(samples: Float32Array, sampleRate: number, config: ChannelConfig): Float32Array {
+  const random = createRandom(config.seed ?? 1);
+  let audio: Float32Array = new Float32Array(samples);
+
+  if (config.clipLevel !== undefined && config.clipLevel < 1) {
+    audio = clip(audio, config.clipLevel);
+  }
+  if (config.echoMs) {
+    audio = addEcho(audio, sampleRate, config.echoMs, config.echoGain ?? DEFAULT_ECHO_GAIN);
+  }
+  if (config.snrDb !== undefined) {
+    audio = addNoise(audio, config.snrDb, random);
+  }
+  if (config.driftPpm) {
+    audio = resample(audio, 1 + config.driftPpm / 1e6);
+  }
+  if (config.frequencyOffsetHz) {
+    audio = shiftFrequency(audio, sampleRate, config.frequencyOffsetHz);
+  }
+  if (config.telephone) {
+    audio = bandPass(audio, sampleRate, TELEPHONE_LOW_HZ, TELEPHONE_HIGH_HZ);
+  }
+  if (config.agcDb) {
+    audio = applyAgc(audio, sampleRate, config.agcDb);
+  }
+  if (config.codec) {
+    audio = applyCodec(audio, sampleRate, config.codec);
+  }
+  if (config.dropoutRate) {
+    audio = addDropouts(audio, sampleRate, config.dropoutRate, config.dropoutMs ?? DEFAULT_DROPOUT_MS, random);
+  }
+  return audio;
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number): number {
+  const u1 = random() || 1e-12;
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Average power of the sound in the audio; exact zeros (padding, gaps
+ * between segments) are not counted
+ */
+export function signalPower(samples: Float32Array): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i] !== 0) {
+      sum += samples[i] * samples[i];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+function clip(samples: Float32Array, level: number): Float32Array {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const limit = peak * level;
+  return samples.map(x => Math.max(-limit, Math.min(limit, x)));
+}
+
+// Feedback comb: each echo repeats the one before, fading like a reverb tail
+function addEcho(samples: Float32Array, sampleRate: number, delayMs: number, gain: number): Float32Array {
+  const delay = Math.max(1, Math.round(delayMs / 1000 * sampleRate));
+  const output = new Float32Array(samples);
+  for (let i = delay; i < output.length; i++) {
+    output[i] += gain * output[i - delay];
+  }
+  return output;
+}
+
+function addNoise(samples: Float32Array, snrDb: number, random: () => number): Float32Array {
+  const sigma = Math.sqrt(signalPower(samples) / Math.pow(10, snrDb / 10));
+  return samples.map(x => x + sigma * gaussian(random));
+}
+
+// Resample by cubic (Catmull-Rom) interpolation: the output has ratio
+// times as many samples
+function resample(samples: Float32Array, ratio: number): Float32Array {
+  const last = samples.length - 1;
+  const at = (i: number) => samples[Math.max(0, Math.min(last, i))];
+  const output = new Float32Array(Math.floor(last * ratio) + 1);
+  for (let i = 0; i < output.length; i++) {
+    const position = i / ratio;
+    const index = Math.floor(position);
+    const t = position - index;
+    const p0 = at(index - 1), p1 = at(index), p2 = at(index + 1), p3 = at(index + 2);
+    output[i] = p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)));
+  }
+  return output;
+}
+
+// Single-sideband shift: rotate the analytic signal (x + j·Hilbert(x))
+function shiftFrequency(samples: Float32Array, sampleRate: number, offsetHz: number): Float32Array {
+  const half = (HILBERT_TAPS - 1) / 2;
+  // Hamming-windowed ideal Hilbert transformer: 2/(πk) for odd k
+  const taps = new Float64Array(HILBERT_TAPS);
+  for (let k = 1; k <= half; k += 2) {
+    const window = 0.54 + 0.46 * Math.cos(Math.PI * k / half);
+    taps[half + k] = 2 / (Math.PI * k) * window;
+    taps[half - k] = -taps[half + k];
+  }
+
+  const output = new Float32Array(samples.length);
+  const step = 2 * Math.PI * offsetHz / sampleRate;
+  for (let n = 0; n < samples.length; n++) {
+    // The whole signal is at hand, so the filter can look ahead without a delay
+    let quadrature = 0;
+    for (let k = 1; k <= half; k += 2) {
+      const before = n - k;
+      const after = n + k;
+      quadrature += taps[half + k] * ((before >= 0 ? samples[before] : 0) - (after < samples.length ? samples[after] : 0));
+    }
+    const phase = step * n;
+    output[n] = samples[n] * Math.cos(phase) - quadrature * Math.sin(phase);
+  }
+  return output;
+}
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+// Butterworth sections (Q = 1/√2), from the Audio EQ Cookbook
+function lowPassSection(sampleRate: number, cutoffHz: number): Biquad {
+  const w = 2 * Math.PI * cutoffHz / sampleRate;
+  const alpha = Math.sin(w) / Math.SQRT2;
+  const a0 = 1 + alpha;
+  const b = (1 - Math.cos(w)) / 2;
+  return [b / a0, 2 * b / a0, b / a0, -2 * Math.cos(w) / a0, (1 - alpha) / a0];
+}
+
+function highPassSection(sampleRate: number, cutoffHz: number): Biquad {
+  const w = 2 * Math.PI * cutoffHz / sampleRate;
+  const alpha = Math.sin(w) / Math.SQRT2;
+  const a0 = 1 + alpha;
+  const b = (1 + Math.cos(w)) / 2;
+  return [b / a0, -2 * b / a0, b / a0, -2 * Math.cos(w) / a0, (1 - alpha) / a0];
+}
+
+function filter(samples: Float32Array, [b0, b1, b2, a1, a2]: Biquad): Float32Array {
+  const output = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+// Fourth-order band-pass: two high-pass and two low-pass sections
+function bandPass(samples: Float32Array, sampleRate: number, lowHz: number, highHz: number): Float32Array {
+  let output = samples;
+  for (let i = 0; i < 2; i++) {
+    output = filter(output, highPassSection(sampleRate, lowHz));
+    if (highHz < sampleRate / 2) {
+      output = filter(output, lowPassSection(sampleRate, highHz));
+    }
+  }
+  return output;
+}
+
+function lowPass(samples: Float32Array, sampleRate: number, cutoffHz: number): Float32Array {
+  return filter(filter(samples, lowPassSection(sampleRate, cutoffHz)), lowPassSection(sampleRate, cutoffHz));
+}
+
+// Envelope-following AGC: quick to duck when the level rises, slow to
+// recover, so the gain overshoots at every onset and drifts up in pauses
+function applyAgc(samples: Float32Array, sampleRate: number, maxGainDb: number): Float32Array {
+  const attack = Math.exp(-1 / (AGC_ATTACK_S * sampleRate));
+  const release = Math.exp(-1 / (AGC_RELEASE_S * sampleRate));
+  const maxGain = Math.pow(10, maxGainDb / 20);
+  const output = new Float32Array(samples.length);
+  let envelope = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const level = Math.abs(samples[i]);
+    const coefficient = level > envelope ? attack : release;
+    envelope = coefficient * envelope + (1 - coefficient) * level;
+    const gain = Math.min(maxGain, AGC_TARGET / Math.max(envelope, 1e-9));
+    output[i] = samples[i] * gain;
+  }
+  return output;
+}
+
+function addDropouts(samples: Float32Array, sampleRate: number, rate: number, lengthMs: number, random: () => number): Float32Array {
+  const output = new Float32Array(samples);
+  const length = Math.round(lengthMs / 1000 * sampleRate);
+  // Poisson arrivals: exponential gaps between dropout starts
+  let position = 0;
+  for (;;) {
+    position += Math.round(-Math.log(1 - random()) / rate * sampleRate);
+    if (position >= output.length) break;
+    output.fill(0, position, Math.min(position + length, output.length));
+  }
+  return output;
+}
+
+// ─── Speech codec model ──────────────────────────────────────────────────────
+
+// Narrowband codecs work at 8 kHz in 20 ms frames of 5 ms subframes
+const CODEC_SAMPLE_RATE = 8000;
+const CODEC_FRAME = 160;
+const CODEC_SUBFRAME = 40;
+const LPC_ORDER = 10;
+// Widens the formant peaks so the synthesis filter stays stable
+const LPC_BANDWIDTH_EXPANSION = 0.994;
+
+/**
+ * Model of a GSM/AMR speech codec: a linear predictor per 20 ms frame,
+ * and an excitation of a few quantized pulses per 5 ms subframe
+ *
+ * - amr: the 10 strongest pulses of each subframe (as ACELP at 12.2 kbit/s)
+ * - gsm: every third sample on the best of three grids (as the regular
+ *   pulse excitation of GSM full rate)
+ *
+ * Pulse amplitudes are quantized to 3 bits against the subframe's peak;
+ * their gain is chosen by analysis by synthesis, as the codecs do.
+ * Neither model has a pitch predictor, so tones lose a little more than
+ * through the real codecs: a margin on the safe side.
+ */
+function applyCodec(samples: Float32Array, sampleRate: number, model: CodecModel): Float32Array {
+  const ratio = CODEC_SAMPLE_RATE / sampleRate;
+  const narrowband = ratio < 1 ? resample(lowPass(samples, sampleRate, TELEPHONE_HIGH_HZ), ratio) : new Float32Array(samples);
+
+  const frames = Math.ceil(narrowband.length / CODEC_FRAME);
+  const input = new Float64Array(frames * CODEC_FRAME);
+  input.set(narrowband);
+  const output = new Float32Array(input.length);
+  const target = new Float64Array(CODEC_SUBFRAME);
+  const residual = new Float64Array(CODEC_SUBFRAME);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const start = frame * CODEC_FRAME;
+    const a = predictor(input.subarray(start, start + CODEC_FRAME));
+
+    for (let sub = start; sub < start + CODEC_FRAME; sub += CODEC_SUBFRAME) {
+      // What the synthesis filter must add to its ringing from the last
+      // subframe, and the excitation that would give exactly that
+      const ringing = synthesize(new Float64Array(CODEC_SUBFRAME), a, output, sub);
+      for (let n = 0; n < CODEC_SUBFRAME; n++) {
+        target[n] = input[sub + n] - ringing[n];
+      }
+      for (let n = 0; n < CODEC_SUBFRAME; n++) {
+        let e = target[n];
+        for (let k = 1; k <= LPC_ORDER && n - k >= 0; k++) {
+          e += a[k] * target[n - k];
+        }
+        residual[n] = e;
+      }
+
+      // The receiver's excitation: a few quantized pulses of it, at the gain
+      // that brings their output closest to the target (analysis by synthesis)
+      const excitation = model === 'amr' ? strongestPulses(residual, 10) : regularPulses(residual, 3);
+      const pulses = synthesize(excitation, a, null, 0);
+      let correlation = 0;
+      let energy = 0;
+      for (let n = 0; n < CODEC_SUBFRAME; n++) {
+        correlation += target[n] * pulses[n];
+        energy += pulses[n] * pulses[n];
+      }
+      const gain = energy > 0 ? correlation / energy : 0;
+      for (let n = 0; n < CODEC_SUBFRAME; n++) {
+        output[sub + n] = ringing[n] + gain * pulses[n];
+      }
+    }
+  }
+
+  const decoded = output.subarray(0, narrowband.length);
+  return ratio < 1 ? lowPass(resample(decoded, 1 / ratio), sampleRate, TELEPHONE_HIGH_HZ) : new Float32Array(decoded);
+}
+
+// Linear predictor coefficients (a[0] = 1) of a frame, by Levinson-Durbin
+function predictor(frame: Float64Array): Float64Array {
+  const windowed = frame.map((x, i) => x * (0.54 - 0.46 * Math.cos(2 * Math.PI * i / (frame.length - 1))));
+  const r = new Float64Array(LPC_ORDER + 1);
+  for (let lag = 0; lag <= LPC_ORDER; lag++) {
+    for (let i = lag; i < windowed.length; i++) {
+      r[lag] += windowed[i] * windowed[i - lag];
+    }
+  }
+
+  const a = new Float64Array(LPC_ORDER + 1);
+  a[0] = 1;
+  // A little white noise keeps pure tones from making the system singular
+  let error = r[0] * 1.0001;
+  if (error <= 0) return a;
+
+  for (let i = 1; i <= LPC_ORDER; i++) {
+    let acc = r[i];
+    for (let j = 1; j < i; j++) {
+      acc += a[j] * r[i - j];
+    }
+    const k = -acc / error;
+    // A reflection coefficient of 1 or more would make the filter unstable
+    if (Math.abs(k) >= 1) break;
+    const previous = a.slice();
+    for (let j = 1; j < i; j++) {
+      a[j] = previous[j] + k * previous[i - j];
+    }
+    a[i] = k;
+    error *= 1 - k * k;
+  }
+
+  for (let k = 1; k <= LPC_ORDER; k++) {
+    a[k] *= Math.pow(LPC_BANDWIDTH_EXPANSION, k);
+  }
+  return a;
+}
+
+// Run an excitation through the synthesis filter 1/A(z), starting from
+// the output before position start (or from silence without a history)
+function synthesize(excitation: Float64Array, a: Float64Array, history: Float32Array | null, start: number): Float64Array {
+  const output = new Float64Array(excitation.length);
+  for (let n = 0; n < excitation.length; n++) {
+    let s = excitation[n];
+    for (let k = 1; k <= LPC_ORDER; k++) {
+      if (n - k >= 0) {
+        s -= a[k] * output[n - k];
+      } else if (history && start + n - k >= 0) {
+        s -= a[k] * history[start + n - k];
+      }
+    }
+    output[n] = s;
+  }
+  return output;
+}
+
+// 3-bit magnitude against the subframe's peak, keeping the sign
+function quantizePulse(value: number, peak: number): number {
+  const levels = 8;
+  const step = Math.max(1, Math.round(Math.abs(value) / peak * levels));
+  return Math.sign(value) * peak * step / levels;
+}
+
+function strongestPulses(residual: Float64Array, count: number): Float64Array {
+  const order = Array.from(residual.keys()).sort((i, j) => Math.abs(residual[j]) - Math.abs(residual[i]));
+  const peak = Math.abs(residual[order[0]]);
+  const excitation = new Float64Array(residual.length);
+  if (peak === 0) return excitation;
+  for (const i of order.slice(0, count)) {
+    excitation[i] = quantizePulse(residual[i], peak);
+  }
+  return excitation;
+}
+
+function regularPulses(residual: Float64Array, spacing: number): Float64Array {
+  let bestGrid = 0;
+  let bestEnergy = -1;
+  for (let grid = 0; grid < spacing; grid++) {
+    let energy = 0;
+    for (let i = grid; i < residual.length; i += spacing) {
+      energy += residual[i] * residual[i];
+    }
+    if (energy > bestEnergy) {
+      bestEnergy = energy;
+      bestGrid = grid;
+    }
+  }
+
+  let peak = 0;
+  for (let i = bestGrid; i < residual.length; i += spacing) {
+    peak = Math.max(peak, Math.abs(residual[i]));
+  }
+  const excitation = new Float64Array(residual.length);
+  if (peak === 0) return excitation;
+  for (let i = bestGrid; i < residual.length; i += spacing) {
+    excitation[i] = quantizePulse(residual[i], peak);
+  }
+  return excitation;
+}
@@ -5,7 +5,7 @@
  * The correlation peak indicates when the chirp occurred, even in noisy conditions.
  */
 
-import { AUDIO, PHONE_MODE, WIDEBAND_MODE, type AudioMode } from '../utils/constants';
+import { AUDIO, AUDIO_MODES, type AudioMode } from '../utils/constants';
 
 /**
  * Generate a chirp signal template for matched filtering
@@ -35,9 +35,7 @@ export function generateChirpTemplate(
  * If mode is specified, uses that mode's frequencies; otherwise uses current AUDIO settings
  */
 export function generatePreambleChirpTemplate(sampleRate: number, mode?: AudioMode): Float32Array {
-  const settings = mode
-    ? (mode === 'phone' ? PHONE_MODE : WIDEBAND_MODE)
-    : AUDIO;
+  const settings = mode ? AUDIO_MODES[mode] : AUDIO;
 
   const upChirp = generateChirpTemplate(
     settings.CHIRP_START_HZ,
@@ -165,12 +163,12 @@ export function detectChirpSync(
 /**
  * Incremental chirp detector for streaming audio
  * Maintains a buffer and detects chirp as audio comes in
- * Now detects which mode (phone/wideband) the chirp belongs to
+ * Now detects which mode (phone/wideband/ultrasonic) the chirp belongs to
  */
 export class ChirpDetector {
   private sampleRate: number;
-  private phoneTemplate: Float32Array;
-  private widebandTemplate: Float32Array;
+  private templates: { mode: AudioMode; template: Float32Array }[];
+  private maxTemplateLength: number;
   private buffer: Float32Array;
   private bufferWritePos: number = 0;
   private bufferFilled: boolean = false;
@@ -180,18 +178,30 @@ export class ChirpDetector {
   private detectedMode: AudioMode | null = null;
   private threshold: number;
   private lastCheckPos: number = 0;
+  private samplesReceived: number = 0;  // Samples added since the last reset
 
   constructor(sampleRate: number, threshold: number = 0.35) {
     this.sampleRate = sampleRate;
     this.threshold = threshold;
 
-    // Generate templates for both modes
-    this.phoneTemplate = generatePreambleChirpTemplate(sampleRate, 'phone');
-    this.widebandTemplate = generatePreambleChirpTemplate(sampleRate, 'wideband');
+    // Generate templates for every mode with its own chirp (modes sharing
+    // a chirp are told apart later by their sync pattern)
+    const chirpModes = (Object.keys(AUDIO_MODES) as AudioMode[]).filter((mode, i, modes) => {
+      const { CHIRP_START_HZ, CHIRP_PEAK_HZ, CHIRP_DURATION_MS } = AUDIO_MODES[mode];
+      return !modes.slice(0, i).some(other =>
+        AUDIO_MODES[other].CHIRP_START_HZ === CHIRP_START_HZ &&
+        AUDIO_MODES[other].CHIRP_PEAK_HZ === CHIRP_PEAK_HZ &&
+        AUDIO_MODES[other].CHIRP_DURATION_MS === CHIRP_DURATION_MS
+      );
+    });
+    this.templates = chirpModes.map(mode => ({
+      mode,
+      template: generatePreambleChirpTemplate(sampleRate, mode),
+    }));
 
     // Buffer needs to hold at least 2x larger template length for detection
-    const maxTemplateLen = Math.max(this.phoneTemplate.length, this.widebandTemplate.length);
-    const bufferSize = maxTemplateLen * 3;
+    this.maxTemplateLength = Math.max(...this.templates.map(t => t.template.length));
+    const bufferSize = this.maxTemplateLength * 3;
     this.buffer = new Float32Array(bufferSize);
   }
 
@@ -205,6 +215,7 @@ export class ChirpDetector {
     }
 
     // Add samples to circular buffer
+    this.samplesReceived += samples.length;
     for (let i = 0; i < samples.length; i++) {
       this.buffer[this.bufferWritePos] = samples[i];
       this.bufferWritePos = (this.bufferWritePos + 1) % this.buffer.length;
@@ -213,7 +224,7 @@ export class ChirpDetector {
 
     // Need at least template length to detect
     const availableSamples = this.bufferFilled ? this.buffer.length : this.bufferWritePos;
-    const minRequired = Math.max(this.phoneTemplate.length, this.widebandTemplate.length) * 1.5;
+    const minRequired = this.maxTemplateLength * 1.5;
     if (availableSamples < minRequired) {
       return { detected: false, chirpEndSample: -1, confidence: 0, mode: null };
     }
@@ -222,25 +233,18 @@ export class ChirpDetector {
     const linearBuffer = this.getLinearBuffer();
     const stepSize = Math.floor(this.sampleRate / 50); // 20ms steps for speed
 
-    // Try both templates and use the one with better correlation
-    const phoneResult = correlateWithTemplate(linearBuffer, this.phoneTemplate, stepSize);
-    const widebandResult = correlateWithTemplate(linearBuffer, this.widebandTemplate, stepSize);
-
-    // Determine which mode matches better
-    let bestMode: AudioMode;
-    let bestTemplate: Float32Array;
-    let bestResult: { peakIndex: number; peakValue: number };
-
-    if (phoneResult.peakValue >= widebandResult.peakValue) {
-      bestMode = 'phone';
-      bestTemplate = this.phoneTemplate;
-      bestResult = phoneResult;
-    } else {
-      bestMode = 'wideband';
-      bestTemplate = this.widebandTemplate;
-      bestResult = widebandResult;
+    // Try every template and use the one with the best correlation
+    // (earlier modes win ties)
+    const results = this.templates.map(({ template }) => correlateWithTemplate(linearBuffer, template, stepSize));
+    let best = 0;
+    for (let i = 1; i < results.length; i++) {
+      if (results[i].peakValue > results[best].peakValue) best = i;
     }
 
+    const bestMode = this.templates[best].mode;
+    const bestTemplate = this.templates[best].template;
+    const bestResult = results[best];
+
     if (bestResult.peakValue >= this.threshold) {
       // Refine detection
       const refineStart = Math.max(0, bestResult.peakIndex - stepSize);
@@ -251,20 +255,21 @@ export class ChirpDetector {
         const refined = correlateWithTemplate(refineSignal, bestTemplate, 1);
 
         this.detected = true;
-        this.chirpEndSample = refineStart + refined.peakIndex + bestTemplate.length;
+        // Buffer index -> samples since the last reset
+        const bufferStart = this.samplesReceived - linearBuffer.length;
+        this.chirpEndSample = bufferStart + refineStart + refined.peakIndex + bestTemplate.length;
         this.confidence = refined.peakValue;
         this.detectedMode = bestMode;
 
         console.log('[ChirpDetector] Chirp detected! Mode:', bestMode,
                     'Confidence:', this.confidence.toFixed(3),
-                    'Phone:', phoneResult.peakValue.toFixed(3),
-                    'Wideband:', widebandResult.peakValue.toFixed(3));
+                    this.templates.map((t, i) => `${t.mode}: ${results[i].peakValue.toFixed(3)}`).join(', '));
 
         return { detected: true, chirpEndSample: this.chirpEndSample, confidence: this.confidence, mode: bestMode };
       }
     }
 
-    return { detected: false, chirpEndSample: -1, confidence: Math.max(phoneResult.peakValue, widebandResult.peakValue), mode: null };
+    return { detected: false, chirpEndSample: -1, confidence: bestResult.peakValue, mode: null };
   }
 
   /**
@@ -294,6 +299,7 @@ export class ChirpDetector {
     this.confidence = 0;
     this.detectedMode = null;
     this.lastCheckPos = 0;
+    this.samplesReceived = 0;
     this.buffer.fill(0);
   }
 
@@ -305,7 +311,8 @@ export class ChirpDetector {
   }
 
   /**
-   * Get the sample index where calibration tones start (after chirp)
+   * Get the sample index where calibration tones start (after chirp),
+   * counted from the first sample added since the last reset
    */
   getChirpEndSample(): number {
     return this.chirpEndSample;
@@ -319,7 +326,7 @@ export class ChirpDetector {
   }
 
   /**
-   * Get the detected audio mode (phone or wideband)
+   * Get the detected audio mode
    */
   getDetectedMode(): AudioMode | null {
     return this.detectedMode;
@@ -1,13 +1,61 @@
 /**
- * Encryption module using ChaCha20-Poly1305 with PBKDF2 key derivation
+ * Encryption module using ChaCha20-Poly1305 with Argon2id or PBKDF2 key
+ * derivation from a password, a pre-shared key named by its key ID, or
+ * X25519 key agreement for messages encrypted to a recipient's public key,
+ * and Ed25519 signatures proving who sent a message
  */
 import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { argon2idAsync } from '@noble/hashes/argon2.js';
+import { signal } from '@preact/signals';
 
 // Constants
 const SALT_SIZE = 16;
 const NONCE_SIZE = 12;
 const KEY_SIZE = 32;
-const PBKDF2_ITERATIONS = 100000;
+const PBKDF2_ITERATIONS = 100000;  // Legacy layout (no envelope header)
+const X25519_KEY_SIZE = 32;
+const TAG_SIZE = 16;
+const ED25519_KEY_SIZE = 32;
+const ED25519_SIGNATURE_SIZE = 64;
+
+// Text form of X25519 keys: prefix + base64url of the 32 raw key bytes
+const PUBLIC_KEY_PREFIX = 'nedagram-pk-';
+const PRIVATE_KEY_PREFIX = 'nedagram-sk-';
+const SIGNING_PUBLIC_KEY_PREFIX = 'nedagram-spk-';
+const SIGNING_PRIVATE_KEY_PREFIX = 'nedagram-ssk-';
+const PRE_SHARED_KEY_PREFIX = 'nedagram-psk-';
+
+// PKCS#8 wrapping of a raw X25519 private key (WebCrypto has no raw import
+// for private keys)
+const X25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20,
+]);
+
+// PKCS#8 wrapping of a raw Ed25519 private key
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+// Password envelope header: version (1) + KDF id (1) + KDF parameters (3)
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_HEADER_SIZE = 5;
+const KDF_ID_PBKDF2 = 0;
+const KDF_ID_ARGON2ID = 1;
+const KDF_ID_PRE_SHARED_KEY = 2;  // Parameters hold the key ID instead
+const KEY_ID_SIZE = 3;
+
+// Largest KDF costs a receiver accepts, so a corrupted or hostile header
+// cannot make it allocate gigabytes or hash for hours
+const MAX_ARGON2_MEMORY_KIB = 256 * 1024;
+const MAX_ARGON2_ITERATIONS = 32;
+const MAX_ARGON2_PARALLELISM = 16;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+// HKDF context for the message key of public-key encryption
+const X25519_HKDF_INFO = 'nedagram x25519 chacha20poly1305';
+
+// HKDF context for the message key of pre-shared key encryption
+const PRE_SHARED_KEY_HKDF_INFO = 'nedagram psk chacha20poly1305';
 
 /**
  * Generate cryptographically secure random bytes
@@ -16,10 +64,101 @@ function getRandomBytes(size: number): Uint8Array {
   return crypto.getRandomValues(new Uint8Array(size));
 }
 
+/**
+ * Key derivation for password encryption, carried in the envelope header
+ * Argon2id memory must be a power of two KiB (it is sent as log2).
+ */
+export type KdfParams =
+  | { kdf: 'argon2id'; iterations: number; memoryKiB: number; parallelism: number }
+  | { kdf: 'pbkdf2'; iterations: number };
+
+/** Default KDF for new messages: memory-hard, about a second in the browser */
+export const DEFAULT_KDF: Extract<KdfParams, { kdf: 'argon2id' }> = { kdf: 'argon2id', iterations: 3, memoryKiB: 32 * 1024, parallelism: 1 };
+
+/**
+ * Serialize KDF parameters as the envelope header
+ * Throws if they cannot be represented or exceed what receivers accept
+ */
+function writeEnvelopeHeader(params: KdfParams): Uint8Array {
+  if (params.kdf === 'argon2id') {
+    const memoryLog2 = Math.log2(params.memoryKiB);
+    if (!Number.isInteger(memoryLog2) || params.memoryKiB < 8 * params.parallelism || params.memoryKiB > MAX_ARGON2_MEMORY_KIB) {
+      throw new Error(`Argon2id memory must be a power of two from ${8 * params.parallelism} KiB to ${MAX_ARGON2_MEMORY_KIB / 1024} MiB`);
+    }
+    if (!Number.isInteger(params.iterations) || params.iterations < 1 || params.iterations > MAX_ARGON2_ITERATIONS) {
+      throw new Error(`Argon2id iterations must be 1 to ${MAX_ARGON2_ITERATIONS}`);
+    }
+    if (!Number.isInteger(params.parallelism) || params.parallelism < 1 || params.parallelism > MAX_ARGON2_PARALLELISM) {
+      throw new Error(`Argon2id parallelism must be 1 to ${MAX_ARGON2_PARALLELISM}`);
+    }
+    return new Uint8Array([ENVELOPE_VERSION, KDF_ID_ARGON2ID, params.iterations, memoryLog2, params.parallelism]);
+  }
+
+  // PBKDF2 iterations are sent in thousands
+  const thousands = params.iterations / 1000;
+  if (!Number.isInteger(thousands) || thousands < 1 || params.iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`PBKDF2 iterations must be a multiple of 1000 up to ${MAX_PBKDF2_ITERATIONS}`);
+  }
+  return new Uint8Array([ENVELOPE_VERSION, KDF_ID_PBKDF2, thousands, thousands >>> 8, thousands >>> 16]);
+}
+
+/**
+ * Parse an envelope header; null for an unknown version or KDF, or costs
+ * beyond the limits
+ */
+function readEnvelopeHeader(header: Uint8Array): KdfParams | null {
+  if (header[0] !== ENVELOPE_VERSION) {
+    return null;
+  }
+  if (header[1] === KDF_ID_ARGON2ID) {
+    const params = { kdf: 'argon2id' as const, iterations: header[2], memoryKiB: 2 ** header[3], parallelism: header[4] };
+    const valid = params.iterations >= 1 && params.iterations <= MAX_ARGON2_ITERATIONS
+      && params.parallelism >= 1 && params.parallelism <= MAX_ARGON2_PARALLELISM
+      && params.memoryKiB >= 8 * params.parallelism && params.memoryKiB <= MAX_ARGON2_MEMORY_KIB;
+    return valid ? params : null;
+  }
+  if (header[1] === KDF_ID_PBKDF2) {
+    const iterations = (header[2] | (header[3] << 8) | (header[4] << 16)) * 1000;
+    return iterations >= 1000 && iterations <= MAX_PBKDF2_ITERATIONS ? { kdf: 'pbkdf2', iterations } : null;
+  }
+  return null;
+}
+
+/**
+ * Progress of the running Argon2id derivation (0 to 1), null when none runs
+ * It takes about a second in the browser, long enough to show.
+ */
+export const keyDerivationProgress = signal<number | null>(null);
+
+// Longest stretch of Argon2id work between yields to the UI (ms)
+const ARGON2_ASYNC_TICK_MS = 10;
+
+/**
+ * Derive encryption key from password with the given KDF
+ */
+async function deriveKey(password: string, salt: Uint8Array, params: KdfParams): Promise<Uint8Array> {
+  if (params.kdf === 'argon2id') {
+    keyDerivationProgress.value = 0;
+    try {
+      return await argon2idAsync(new TextEncoder().encode(password), salt, {
+        t: params.iterations,
+        m: params.memoryKiB,
+        p: params.parallelism,
+        dkLen: KEY_SIZE,
+        asyncTick: ARGON2_ASYNC_TICK_MS,
+        onProgress: progress => { keyDerivationProgress.value = progress; },
+      });
+    } finally {
+      keyDerivationProgress.value = null;
+    }
+  }
+  return deriveKeyPbkdf2(password, salt, params.iterations);
+}
+
 /**
  * Derive encryption key from password using PBKDF2
  */
-async function deriveKey(password: string, salt: Uint8Array): Promise<Uint8Array> {
+async function deriveKeyPbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
   const encoder = new TextEncoder();
   const passwordBytes = encoder.encode(password);
 
@@ -37,7 +176,7 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<Uint8Array
     {
       name: 'PBKDF2',
       salt: salt as unknown as BufferSource,
-      iterations: PBKDF2_ITERATIONS,
+      iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
@@ -49,34 +188,86 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<Uint8Array
 
 /**
  * Encrypt data with password
- * Output format: salt (16) + nonce (12) + ciphertext + tag (16)
+ * Output format: envelope header (5) + salt (16) + nonce (12) + ciphertext + tag (16)
+ * The header names the KDF and its parameters and is authenticated with the ciphertext.
  */
-export async function encrypt(data: Uint8Array, password: string): Promise<Uint8Array> {
+export async function encrypt(data: Uint8Array, password: string, kdf: KdfParams = DEFAULT_KDF): Promise<Uint8Array> {
+  return sealEnvelope(data, writeEnvelopeHeader(kdf), salt => deriveKey(password, salt, kdf));
+}
+
+/**
+ * Encrypt under an envelope header with a key derived from the random salt
+ */
+async function sealEnvelope(
+  data: Uint8Array,
+  header: Uint8Array,
+  deriveMessageKey: (salt: Uint8Array) => Promise<Uint8Array>
+): Promise<Uint8Array> {
   // Generate random salt and nonce
   const salt = getRandomBytes(SALT_SIZE);
   const nonce = getRandomBytes(NONCE_SIZE);
 
-  // Derive key from password
-  const key = await deriveKey(password, salt);
+  const key = await deriveMessageKey(salt);
 
   // Encrypt using ChaCha20-Poly1305
-  const cipher = chacha20poly1305(key, nonce);
+  const cipher = chacha20poly1305(key, nonce, header);
   const ciphertext = cipher.encrypt(data);
 
-  // Combine: salt + nonce + ciphertext (includes auth tag)
-  const result = new Uint8Array(SALT_SIZE + NONCE_SIZE + ciphertext.length);
-  result.set(salt, 0);
-  result.set(nonce, SALT_SIZE);
-  result.set(ciphertext, SALT_SIZE + NONCE_SIZE);
+  // Combine: header + salt + nonce + ciphertext (includes auth tag)
+  const result = new Uint8Array(ENVELOPE_HEADER_SIZE + SALT_SIZE + NONCE_SIZE + ciphertext.length);
+  result.set(header, 0);
+  result.set(salt, ENVELOPE_HEADER_SIZE);
+  result.set(nonce, ENVELOPE_HEADER_SIZE + SALT_SIZE);
+  result.set(ciphertext, ENVELOPE_HEADER_SIZE + SALT_SIZE + NONCE_SIZE);
 
   return result;
 }
 
 /**
- * Decrypt data with password
- * Returns null if decryption fails (wrong password or corrupted data)
+ * Decrypt data with password (envelope written by encrypt)
+ * Returns null if decryption fails (wrong password, corrupted data, or an
+ * envelope this version does not know)
  */
 export async function decrypt(encryptedData: Uint8Array, password: string): Promise<Uint8Array | null> {
+  if (encryptedData.length < ENVELOPE_HEADER_SIZE + SALT_SIZE + NONCE_SIZE + TAG_SIZE) {
+    return null;
+  }
+
+  const kdf = readEnvelopeHeader(encryptedData.subarray(0, ENVELOPE_HEADER_SIZE));
+  if (!kdf) {
+    return null;
+  }
+  return openEnvelope(encryptedData, salt => deriveKey(password, salt, kdf));
+}
+
+/**
+ * Decrypt an envelope with a key derived from its salt
+ * Returns null if decryption fails (wrong key or corrupted data)
+ */
+async function openEnvelope(
+  encryptedData: Uint8Array,
+  deriveMessageKey: (salt: Uint8Array) => Promise<Uint8Array>
+): Promise<Uint8Array | null> {
+  try {
+    const header = encryptedData.slice(0, ENVELOPE_HEADER_SIZE);
+    const salt = encryptedData.slice(ENVELOPE_HEADER_SIZE, ENVELOPE_HEADER_SIZE + SALT_SIZE);
+    const nonce = encryptedData.slice(ENVELOPE_HEADER_SIZE + SALT_SIZE, ENVELOPE_HEADER_SIZE + SALT_SIZE + NONCE_SIZE);
+    const ciphertext = encryptedData.slice(ENVELOPE_HEADER_SIZE + SALT_SIZE + NONCE_SIZE);
+
+    const key = await deriveMessageKey(salt);
+    return chacha20poly1305(key, nonce, header).decrypt(ciphertext);
+  } catch {
+    // Decryption failed (wrong key or corrupted data)
+    return null;
+  }
+}
+
+/**
+ * Decrypt data in the legacy layout (before the envelope header):
+ * salt (16) + nonce (12) + ciphertext + tag (16), PBKDF2 with 100,000 iterations
+ * Returns null if decryption fails (wrong password or corrupted data)
+ */
+export async function decryptLegacy(encryptedData: Uint8Array, password: string): Promise<Uint8Array | null> {
   if (encryptedData.length < SALT_SIZE + NONCE_SIZE + 16) {
     // Too short to be valid (need at least salt + nonce + auth tag)
     return null;
@@ -89,7 +280,7 @@ export async function decrypt(encryptedData: Uint8Array, password: string): Prom
     const ciphertext = encryptedData.slice(SALT_SIZE + NONCE_SIZE);
 
     // Derive key from password
-    const key = await deriveKey(password, salt);
+    const key = await deriveKeyPbkdf2(password, salt, PBKDF2_ITERATIONS);
 
     // Decrypt using ChaCha20-Poly1305
     const cipher = chacha20poly1305(key, nonce);
@@ -102,6 +293,365 @@ export async function decrypt(encryptedData: Uint8Array, password: string): Prom
   }
 }
 
+export interface KeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) return null;
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Decode a key from its text form; throws on a wrong prefix or length
+ */
+function parseKey(text: string, prefix: string, kind: string): Uint8Array {
+  const trimmed = text.trim();
+  const bytes = trimmed.startsWith(prefix) ? fromBase64Url(trimmed.slice(prefix.length)) : null;
+  if (!bytes || bytes.length !== X25519_KEY_SIZE) {
+    throw new Error(`Invalid ${kind} key (expected ${prefix}...)`);
+  }
+  return bytes;
+}
+
+function importPublicKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw as unknown as BufferSource, { name: 'X25519' }, true, []);
+}
+
+function importPrivateKey(raw: Uint8Array): Promise<CryptoKey> {
+  return importPkcs8(raw, X25519_PKCS8_PREFIX, 'X25519', ['deriveBits']);
+}
+
+function importPkcs8(raw: Uint8Array, prefix: Uint8Array, algorithm: string, usages: KeyUsage[]): Promise<CryptoKey> {
+  const pkcs8 = new Uint8Array(prefix.length + raw.length);
+  pkcs8.set(prefix);
+  pkcs8.set(raw, prefix.length);
+  return crypto.subtle.importKey('pkcs8', pkcs8 as unknown as BufferSource, { name: algorithm }, true, usages);
+}
+
+async function exportPrivateKey(key: CryptoKey): Promise<Uint8Array> {
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', key));
+  return pkcs8.slice(pkcs8.length - X25519_KEY_SIZE);
+}
+
+// Public half of an imported private key
+async function publicKeyOf(privateKey: CryptoKey): Promise<Uint8Array> {
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+  return fromBase64Url(jwk.x!)!;
+}
+
+/**
+ * Derive the message key from an X25519 shared secret, bound to both
+ * public keys
+ */
+async function deriveSharedKey(
+  privateKey: CryptoKey,
+  peerPublic: Uint8Array,
+  ephemeralPublic: Uint8Array,
+  recipientPublic: Uint8Array
+): Promise<Uint8Array> {
+  const shared = await crypto.subtle.deriveBits(
+    { name: 'X25519', public: await importPublicKey(peerPublic) } as unknown as AlgorithmIdentifier,
+    privateKey,
+    X25519_KEY_SIZE * 8
+  );
+
+  const salt = new Uint8Array(X25519_KEY_SIZE * 2);
+  salt.set(ephemeralPublic);
+  salt.set(recipientPublic, X25519_KEY_SIZE);
+
+  return hkdf(new Uint8Array(shared), salt, X25519_HKDF_INFO);
+}
+
+/**
+ * HKDF-SHA256 to a message key
+ */
+async function hkdf(secret: Uint8Array, salt: Uint8Array, info: string): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey('raw', secret as unknown as BufferSource, 'HKDF', false, ['deriveBits']);
+  const keyBits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: salt as unknown as BufferSource,
+      info: new TextEncoder().encode(info),
+    },
+    keyMaterial,
+    KEY_SIZE * 8
+  );
+
+  return new Uint8Array(keyBits);
+}
+
+/**
+ * Generate an X25519 key pair in text form
+ */
+export async function generateKeyPair(): Promise<KeyPair> {
+  const pair = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const privateKey = await exportPrivateKey(pair.privateKey);
+  return {
+    publicKey: PUBLIC_KEY_PREFIX + toBase64Url(publicKey),
+    privateKey: PRIVATE_KEY_PREFIX + toBase64Url(privateKey),
+  };
+}
+
+/**
+ * Get the public key belonging to a private key
+ * Throws if the private key is not valid
+ */
+export async function getPublicKey(privateKey: string): Promise<string> {
+  const key = await importPrivateKey(parseKey(privateKey, PRIVATE_KEY_PREFIX, 'private'));
+  return PUBLIC_KEY_PREFIX + toBase64Url(await publicKeyOf(key));
+}
+
+/**
+ * Check that a public key is well formed (for validating input)
+ */
+export function isValidPublicKey(publicKey: string): boolean {
+  try {
+    parseKey(publicKey, PUBLIC_KEY_PREFIX, 'public');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a private key is well formed (for validating input)
+ */
+export function isValidPrivateKey(privateKey: string): boolean {
+  try {
+    parseKey(privateKey, PRIVATE_KEY_PREFIX, 'private');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encrypt data to a recipient's public key
+ * Output format: ephemeral public key (32) + ciphertext + tag (16)
+ *
+ * Each message uses a fresh ephemeral key pair, so its derived key is
+ * never reused and the nonce can be fixed at zero.
+ */
+export async function encryptForRecipient(data: Uint8Array, publicKey: string): Promise<Uint8Array> {
+  const recipientPublic = parseKey(publicKey, PUBLIC_KEY_PREFIX, 'public');
+
+  const ephemeral = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const key = await deriveSharedKey(ephemeral.privateKey, recipientPublic, ephemeralPublic, recipientPublic);
+
+  const cipher = chacha20poly1305(key, new Uint8Array(NONCE_SIZE));
+  const ciphertext = cipher.encrypt(data);
+
+  const result = new Uint8Array(X25519_KEY_SIZE + ciphertext.length);
+  result.set(ephemeralPublic, 0);
+  result.set(ciphertext, X25519_KEY_SIZE);
+
+  return result;
+}
+
+/**
+ * Decrypt data encrypted to our public key
+ * Returns null if decryption fails (wrong key or corrupted data); throws if
+ * the private key is not valid
+ */
+export async function decryptWithPrivateKey(encryptedData: Uint8Array, privateKey: string): Promise<Uint8Array | null> {
+  const key = await importPrivateKey(parseKey(privateKey, PRIVATE_KEY_PREFIX, 'private'));
+
+  if (encryptedData.length < X25519_KEY_SIZE + TAG_SIZE) {
+    return null;
+  }
+
+  try {
+    const ephemeralPublic = encryptedData.slice(0, X25519_KEY_SIZE);
+    const recipientPublic = await publicKeyOf(key);
+    const messageKey = await deriveSharedKey(key, ephemeralPublic, ephemeralPublic, recipientPublic);
+
+    const cipher = chacha20poly1305(messageKey, new Uint8Array(NONCE_SIZE));
+    return cipher.decrypt(encryptedData.slice(X25519_KEY_SIZE));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a 256-bit pre-shared key in text form
+ */
+export function generatePreSharedKey(): string {
+  return PRE_SHARED_KEY_PREFIX + toBase64Url(getRandomBytes(KEY_SIZE));
+}
+
+/**
+ * Check that a pre-shared key is well formed (for validating input)
+ */
+export function isValidPreSharedKey(preSharedKey: string): boolean {
+  try {
+    parseKey(preSharedKey, PRE_SHARED_KEY_PREFIX, 'pre-shared');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function keyIdBytes(raw: Uint8Array): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', raw as unknown as BufferSource);
+  return new Uint8Array(digest, 0, KEY_ID_SIZE);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Get the key ID of a pre-shared key: the first 3 bytes of its SHA-256, as
+ * hex. Messages carry it so receivers know which key to use.
+ * Throws if the key is not valid
+ */
+export async function getKeyId(preSharedKey: string): Promise<string> {
+  return toHex(await keyIdBytes(parseKey(preSharedKey, PRE_SHARED_KEY_PREFIX, 'pre-shared')));
+}
+
+/**
+ * Encrypt data with a pre-shared key
+ * Output format is the password envelope, with the key ID in place of the
+ * KDF parameters; the message key is derived from the key and salt with HKDF.
+ */
+export async function encryptWithPreSharedKey(data: Uint8Array, preSharedKey: string): Promise<Uint8Array> {
+  const raw = parseKey(preSharedKey, PRE_SHARED_KEY_PREFIX, 'pre-shared');
+  const header = new Uint8Array([ENVELOPE_VERSION, KDF_ID_PRE_SHARED_KEY, ...await keyIdBytes(raw)]);
+  return sealEnvelope(data, header, salt => hkdf(raw, salt, PRE_SHARED_KEY_HKDF_INFO));
+}
+
+/**
+ * Get the ID of the pre-shared key an envelope was encrypted with, or null
+ * when it was encrypted with a password
+ */
+export function getEnvelopeKeyId(encryptedData: Uint8Array): string | null {
+  if (encryptedData.length < ENVELOPE_HEADER_SIZE
+    || encryptedData[0] !== ENVELOPE_VERSION || encryptedData[1] !== KDF_ID_PRE_SHARED_KEY) {
+    return null;
+  }
+  return toHex(encryptedData.subarray(ENVELOPE_HEADER_SIZE - KEY_ID_SIZE, ENVELOPE_HEADER_SIZE));
+}
+
+/**
+ * Decrypt data encrypted with a pre-shared key
+ * Returns null if decryption fails (a key with another ID, wrong key or
+ * corrupted data); throws if the key is not valid
+ */
+export async function decryptWithPreSharedKey(encryptedData: Uint8Array, preSharedKey: string): Promise<Uint8Array | null> {
+  const raw = parseKey(preSharedKey, PRE_SHARED_KEY_PREFIX, 'pre-shared');
+
+  if (encryptedData.length < ENCRYPTION_OVERHEAD || getEnvelopeKeyId(encryptedData) !== toHex(await keyIdBytes(raw))) {
+    return null;
+  }
+  return openEnvelope(encryptedData, salt => hkdf(raw, salt, PRE_SHARED_KEY_HKDF_INFO));
+}
+
+/** Signer of a message and whether its signature matches the content */
+export interface SignatureInfo {
+  signer: string;
+  valid: boolean;
+}
+
+/**
+ * Generate an Ed25519 signing key pair in text form
+ */
+export async function generateSigningKeyPair(): Promise<KeyPair> {
+  const pair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const privateKey = await exportPrivateKey(pair.privateKey);
+  return {
+    publicKey: SIGNING_PUBLIC_KEY_PREFIX + toBase64Url(publicKey),
+    privateKey: SIGNING_PRIVATE_KEY_PREFIX + toBase64Url(privateKey),
+  };
+}
+
+/**
+ * Get the public (verification) key belonging to a signing key
+ * Throws if the signing key is not valid
+ */
+export async function getSigningPublicKey(signingKey: string): Promise<string> {
+  const key = await importSigningKey(signingKey);
+  return SIGNING_PUBLIC_KEY_PREFIX + toBase64Url(await publicKeyOf(key));
+}
+
+/**
+ * Check that a signing (private) key is well formed (for validating input)
+ */
+export function isValidSigningKey(signingKey: string): boolean {
+  try {
+    parseKey(signingKey, SIGNING_PRIVATE_KEY_PREFIX, 'signing');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a signer's public key is well formed (for validating input)
+ */
+export function isValidSignerKey(signerKey: string): boolean {
+  try {
+    parseKey(signerKey, SIGNING_PUBLIC_KEY_PREFIX, 'signer');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function importSigningKey(signingKey: string): Promise<CryptoKey> {
+  const raw = parseKey(signingKey, SIGNING_PRIVATE_KEY_PREFIX, 'signing');
+  return importPkcs8(raw, ED25519_PKCS8_PREFIX, 'Ed25519', ['sign']);
+}
+
+/**
+ * Sign data with an Ed25519 signing key
+ * Output format: signer public key (32) + signature (64), appended after
+ * the (compressed) data as the payload's signature trailer
+ */
+export async function createSignatureTrailer(data: Uint8Array, signingKey: string): Promise<Uint8Array> {
+  const key = await importSigningKey(signingKey);
+  const signature = new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, key, data as unknown as BufferSource));
+
+  const trailer = new Uint8Array(SIGNATURE_TRAILER_SIZE);
+  trailer.set(await publicKeyOf(key), 0);
+  trailer.set(signature, ED25519_KEY_SIZE);
+  return trailer;
+}
+
+/**
+ * Check a signature trailer against the data it signs
+ * A trailer whose key cannot be imported counts as an invalid signature.
+ */
+export async function verifySignatureTrailer(data: Uint8Array, trailer: Uint8Array): Promise<SignatureInfo> {
+  const signerKey = trailer.slice(0, ED25519_KEY_SIZE);
+  const signer = SIGNING_PUBLIC_KEY_PREFIX + toBase64Url(signerKey);
+
+  try {
+    const key = await crypto.subtle.importKey('raw', signerKey as unknown as BufferSource, { name: 'Ed25519' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      trailer.slice(ED25519_KEY_SIZE, SIGNATURE_TRAILER_SIZE) as unknown as BufferSource,
+      data as unknown as BufferSource
+    );
+    return { signer, valid };
+  } catch {
+    return { signer, valid: false };
+  }
+}
+
 /**
  * Calculate password strength (0-4)
  * 0: Very weak, 1: Weak, 2: Fair, 3: Strong, 4: Very strong
@@ -139,5 +689,11 @@ export function getPasswordStrengthLabel(strength: number): string {
   }
 }
 
-// Overhead added by encryption (salt + nonce + auth tag)
-export const ENCRYPTION_OVERHEAD = SALT_SIZE + NONCE_SIZE + 16; // 44 bytes
+// Overhead added by encryption (envelope header + salt + nonce + auth tag)
+export const ENCRYPTION_OVERHEAD = ENVELOPE_HEADER_SIZE + SALT_SIZE + NONCE_SIZE + TAG_SIZE; // 49 bytes
+
+// Overhead added by public-key encryption (ephemeral public key + auth tag)
+export const PUBLIC_KEY_ENCRYPTION_OVERHEAD = X25519_KEY_SIZE + TAG_SIZE; // 48 bytes
+
+// Signature trailer after a signed payload (signer public key + signature)
+export const SIGNATURE_TRAILER_SIZE = ED25519_KEY_SIZE + ED25519_SIGNATURE_SIZE; // 96 bytes
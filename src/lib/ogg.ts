@@ -0,0 +1,284 @@
+/**
+ * OGG/Opus files, to send a transmission as a voice message and to read
+ * voice messages as received
+ *
+ * Wraps Opus packets in an Ogg stream (RFC 3533, RFC 7845) with the
+ * identification and comment headers messengers expect of a voice note,
+ * and reads the packets and headers back out. The packets come from the
+ * browser's encoder (see audio/opus); the CLI decodes the ones it reads.
+ */
+
+/** Opus always runs at 48 kHz (other rates are resampled first) */
+export const OPUS_SAMPLE_RATE = 48000;
+
+// Encoder delay of libopus at 48 kHz, trimmed by the player
+const OPUS_PRE_SKIP = 312;
+
+// Packets per Ogg page: about one second of 20 ms packets
+const PACKETS_PER_PAGE = 50;
+
+// Ogg CRC32: polynomial 0x04C11DB7, not reflected, no initial or final XOR
+const OGG_CRC_TABLE = new Uint32Array(256);
+
+(function initOggCrcTable() {
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+    OGG_CRC_TABLE[i] = crc >>> 0;
+  }
+})();
+
+function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Number of 48 kHz samples an Opus packet decodes to, from its TOC byte
+ * (RFC 6716 section 3.1)
+ */
+export function opusPacketSamples(packet: Uint8Array): number {
+  if (packet.length === 0) return 0;
+  const config = packet[0] >> 3;
+  // Frame duration in units of 2.5 ms
+  const frameUnits = config < 12
+    ? [4, 8, 16, 24][config % 4]      // SILK: 10, 20, 40, 60 ms
+    : config < 16
+      ? [4, 8][config % 2]            // Hybrid: 10, 20 ms
+      : [1, 2, 4, 8][config % 4];     // CELT: 2.5, 5, 10, 20 ms
+  const code = packet[0] & 0x03;
+  const frames = code === 0 ? 1 : code < 3 ? 2 : (packet[1] ?? 0) & 0x3F;
+  return frames * frameUnits * 120;
+}
+
+/**
+ * Build one Ogg page holding whole packets
+ */
+function createPage(
+  packets: Uint8Array[],
+  granulePosition: number,
+  serial: number,
+  sequence: number,
+  headerType: number
+): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  const dataLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+
+  const page = new Uint8Array(27 + lacing.length + dataLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4F, 0x67, 0x67, 0x53]);  // "OggS"
+  page[4] = 0;                          // Version
+  page[5] = headerType;
+  view.setUint32(6, granulePosition >>> 0, true);
+  view.setUint32(10, Math.floor(granulePosition / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+/**
+ * Wrap mono Opus packets in an Ogg stream
+ * @param packets Opus packets in order
+ * @param sampleCount Length of the audio before encoding (48 kHz samples),
+ *   so the player drops the padding of the last packet
+ * @param inputSampleRate Sample rate of the original audio (informational)
+ * @returns OGG/Opus file
+ */
+export function createOggOpus(
+  packets: Uint8Array[],
+  sampleCount: number,
+  inputSampleRate = OPUS_SAMPLE_RATE,
+  preSkip = OPUS_PRE_SKIP
+): Uint8Array {
+  const serial = Math.floor(Math.random() * 0x100000000) >>> 0;
+  const pages: Uint8Array[] = [];
+
+  // Identification header (RFC 7845 section 5.1): mono, channel mapping 0
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1;                              // Version
+  head[9] = 1;                              // Channels
+  headView.setUint16(10, preSkip, true);
+  headView.setUint32(12, inputSampleRate, true);
+  headView.setInt16(16, 0, true);           // Output gain
+  head[18] = 0;                             // Channel mapping family
+  pages.push(createPage([head], 0, serial, 0, 0x02));
+
+  // Comment header (section 5.2): vendor string, no comments
+  const vendor = new TextEncoder().encode('Nedagram');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const tagsView = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  tagsView.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  tagsView.setUint32(12 + vendor.length, 0, true);
+  pages.push(createPage([tags], 0, serial, 1, 0));
+
+  // Audio pages: the granule position counts the samples of every packet
+  // that ends on the page, the last one trimmed to the real length
+  const end = preSkip + sampleCount;
+  let granule = preSkip;
+  let first = 0;
+  do {
+    // A page holds at most 255 lacing values
+    let next = first;
+    let segments = 0;
+    while (next < packets.length && next - first < PACKETS_PER_PAGE &&
+      segments + Math.floor(packets[next].length / 255) + 1 <= 255) {
+      segments += Math.floor(packets[next].length / 255) + 1;
+      granule += opusPacketSamples(packets[next]);
+      next++;
+    }
+    const last = next >= packets.length;
+    pages.push(createPage(packets.slice(first, next), last ? Math.min(granule, end) : granule, serial, pages.length, last ? 0x04 : 0));
+    first = next;
+  } while (first < packets.length);
+
+  const file = new Uint8Array(pages.reduce((sum, page) => sum + page.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    file.set(page, offset);
+    offset += page.length;
+  }
+  return file;
+}
+
+/** Identification header of an Opus stream (RFC 7845 section 5.1) */
+export interface OpusHead {
+  channels: number;
+  /** Samples to drop from the start of the decoded audio (48 kHz) */
+  preSkip: number;
+  inputSampleRate: number;
+  /** Channel mapping family; streams above 2 channels need the table */
+  mappingFamily: number;
+  streamCount: number;
+  coupledStreamCount: number;
+  channelMapping: number[];
+}
+
+/**
+ * Parse an OpusHead packet; null if the packet is not one
+ */
+export function readOpusHead(packet: Uint8Array): OpusHead | null {
+  if (packet.length < 19 || String.fromCharCode(...packet.subarray(0, 8)) !== 'OpusHead') {
+    return null;
+  }
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  const channels = packet[9];
+  const mappingFamily = packet[18];
+  // Family 0 is mono or stereo in one stream; the others name their streams
+  if (mappingFamily !== 0 && packet.length < 21 + channels) {
+    return null;
+  }
+  return {
+    channels,
+    preSkip: view.getUint16(10, true),
+    inputSampleRate: view.getUint32(12, true),
+    mappingFamily,
+    streamCount: mappingFamily === 0 ? 1 : packet[19],
+    coupledStreamCount: mappingFamily === 0 ? channels - 1 : packet[20],
+    channelMapping: mappingFamily === 0 ? [0, 1].slice(0, channels) : Array.from(packet.subarray(21, 21 + channels)),
+  };
+}
+
+/**
+ * Reads the packets of an Ogg stream back as its bytes arrive
+ *
+ * Packets continued across pages are joined. Only the first logical
+ * stream is read; a page whose CRC does not match is dropped along with
+ * the packet it continues.
+ */
+export class OggPacketReader {
+  private buffer = new Uint8Array(0);
+  private serial: number | null = null;
+  // Segments of a packet that continues on the next page
+  private partial: Uint8Array[] = [];
+
+  /**
+   * Add bytes of the stream
+   * @returns The packets they complete, in order
+   * @throws If the bytes are not an Ogg stream
+   */
+  push(data: Uint8Array): Uint8Array[] {
+    const buffer = new Uint8Array(this.buffer.length + data.length);
+    buffer.set(this.buffer);
+    buffer.set(data, this.buffer.length);
+
+    const packets: Uint8Array[] = [];
+    let offset = 0;
+    while (buffer.length - offset >= 27) {
+      if (buffer[offset] !== 0x4F || buffer[offset + 1] !== 0x67 || buffer[offset + 2] !== 0x67 || buffer[offset + 3] !== 0x53) {
+        throw new Error('Not an Ogg stream (page does not start with "OggS")');
+      }
+      const segments = buffer[offset + 26];
+      const lacing = buffer.subarray(offset + 27, offset + 27 + segments);
+      if (lacing.length < segments) break;
+      const length = 27 + segments + lacing.reduce((sum, value) => sum + value, 0);
+      if (buffer.length - offset < length) break;
+
+      const page = buffer.slice(offset, offset + length);
+      offset += length;
+      this.readPage(page, lacing, packets);
+    }
+
+    this.buffer = buffer.slice(offset);
+    return packets;
+  }
+
+  private readPage(page: Uint8Array, lacing: Uint8Array, packets: Uint8Array[]): void {
+    const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+    const serial = view.getUint32(14, true);
+    this.serial ??= serial;
+    if (serial !== this.serial) return;
+
+    const crc = view.getUint32(22, true);
+    view.setUint32(22, 0, true);
+    if (oggCrc(page) !== crc) {
+      this.partial = [];
+      return;
+    }
+
+    // A page that does not continue a packet drops what was left of one
+    if (!(page[5] & 0x01)) {
+      this.partial = [];
+    }
+    let start = 27 + lacing.length;
+    for (const value of lacing) {
+      this.partial.push(page.subarray(start, start + value));
+      start += value;
+      if (value < 255) {
+        const size = this.partial.reduce((sum, segment) => sum + segment.length, 0);
+        const packet = new Uint8Array(size);
+        let position = 0;
+        for (const segment of this.partial) {
+          packet.set(segment, position);
+          position += segment.length;
+        }
+        packets.push(packet);
+        this.partial = [];
+      }
+    }
+  }
+}
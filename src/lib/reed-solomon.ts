@@ -27,13 +27,13 @@ const GF_LOG = new Uint8Array(256);
 })();
 
 // Galois Field multiplication
-function gfMul(a: number, b: number): number {
+export function gfMul(a: number, b: number): number {
   if (a === 0 || b === 0) return 0;
   return GF_EXP[(GF_LOG[a] + GF_LOG[b]) % 255];
 }
 
 // Galois Field division
-function gfDiv(a: number, b: number): number {
+export function gfDiv(a: number, b: number): number {
   if (b === 0) throw new Error('Division by zero');
   if (a === 0) return 0;
   return GF_EXP[(GF_LOG[a] - GF_LOG[b] + 255) % 255];
@@ -46,7 +46,7 @@ function gfPow(x: number, power: number): number {
 }
 
 // Galois Field inverse
-function gfInverse(x: number): number {
+export function gfInverse(x: number): number {
   if (x === 0) throw new Error('Zero has no inverse');
   return GF_EXP[255 - GF_LOG[x]];
 }
@@ -1,9 +1,16 @@
 import { useState, useCallback } from 'preact/hooks';
 import { useI18n } from '../i18n';
 import { BUILD_VERSION, formatBuildTime } from '../utils/version';
-import { getAudioMode } from '../utils/constants';
+import { getAudioMode, type AudioMode } from '../utils/constants';
 import './Help.css';
 
+const MODE_LABELS: Record<AudioMode, string> = {
+  phone: 'Phone (800-2300 Hz, 4 tones)',
+  wideband: 'Wideband (1800-5700 Hz, 16 tones)',
+  ultrasonic: 'Ultrasonic (17600-19400 Hz, 4 tones)',
+  multitone: 'Multitone (1000-7300 Hz, 16 subcarriers x 4 tones)',
+};
+
 // Command block with copy button
 function CommandBlock({ command, label }: { command: string; label: string }) {
   const [copied, setCopied] = useState(false);
@@ -166,6 +173,28 @@ export function Help() {
           <p class="mode-tradeoff">{t.help.widebandModeTradeoff}</p>
         </div>
 
+        <div class="mode-card">
+          <h5>{t.help.ultrasonicMode}</h5>
+          <p>{t.help.ultrasonicModeDesc}</p>
+          <ul class="mode-examples">
+            {t.help.ultrasonicModeExamples.map((example, i) => (
+              <li key={i}>{example}</li>
+            ))}
+          </ul>
+          <p class="mode-tradeoff">{t.help.ultrasonicModeTradeoff}</p>
+        </div>
+
+        <div class="mode-card">
+          <h5>{t.help.multitoneMode}</h5>
+          <p>{t.help.multitoneModeDesc}</p>
+          <ul class="mode-examples">
+            {t.help.multitoneModeExamples.map((example, i) => (
+              <li key={i}>{example}</li>
+            ))}
+          </ul>
+          <p class="mode-tradeoff">{t.help.multitoneModeTradeoff}</p>
+        </div>
+
       </section>
 
       <section class="help-section specs">
@@ -279,10 +308,19 @@ export function Help() {
             <dd>ChaCha20-Poly1305 (AEAD)</dd>
 
             <dt>Key Derivation</dt>
-            <dd>PBKDF2-SHA256 (100,000 iterations)</dd>
+            <dd>Argon2id (3 iterations, 32 MiB)</dd>
 
             <dt>Overhead</dt>
-            <dd>44 bytes (16 salt + 12 nonce + 16 auth tag)</dd>
+            <dd>49 bytes (5 envelope + 16 salt + 12 nonce + 16 auth tag)</dd>
+
+            <dt>Shared Key</dt>
+            <dd>256-bit key + HKDF-SHA256, 3-byte key ID, 49 bytes overhead</dd>
+
+            <dt>Public Key</dt>
+            <dd>X25519 + HKDF-SHA256, 48 bytes overhead</dd>
+
+            <dt>Signature</dt>
+            <dd>Ed25519, 96 bytes overhead</dd>
           </dl>
         </div>
 
@@ -337,7 +375,7 @@ export function Help() {
           <dd>{formatBuildTime()}</dd>
 
           <dt>Audio Mode</dt>
-          <dd>{mode === 'phone' ? 'Phone (800-2300 Hz, 4 tones)' : 'Wideband (1800-5700 Hz, 16 tones)'}</dd>
+          <dd>{MODE_LABELS[mode]}</dd>
 
           <dt>Source Code</dt>
           <dd><a href="https://github.com/shayanb/nedagram" target="_blank" rel="noopener noreferrer">github.com/shayanb/nedagram</a></dd>
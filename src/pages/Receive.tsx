@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef } from 'preact/hooks';
+import { useState, useCallback, useRef, useEffect } from 'preact/hooks';
 import { signal } from '@preact/signals';
 import { useI18n, interpolate } from '../i18n';
 import { Button } from '../components/Button';
@@ -6,12 +6,23 @@ import { ProgressBar } from '../components/ProgressBar';
 import { SignalMeter } from '../components/SignalMeter';
 import { ChecksumDisplay } from '../components/ChecksumDisplay';
 import { QRDisplay } from '../components/QRDisplay';
+import { KeyManager } from '../components/KeyManager';
 import { Decoder, type DecodeResult, type DecodeState } from '../decode';
+import { type PartialReception } from '../decode/deframe';
+import { countPartialFrames, parsePartialReceptions, serializePartialReceptions } from '../decode/partial';
+import { evaluateProbe, type ProbeResult } from '../decode/probe';
+import { getSafeFilename } from '../decode/metadata';
+import { type BundleFile } from '../encode/bundle';
+import { encodeArqMessage } from '../encode';
+import { type ArqMessage } from '../encode/arq';
+import { playAudio } from '../audio/player';
 import { startRecording, stopRecording, requestMicrophonePermission, getRecordedAudio, clearRecordedAudio } from '../audio/recorder';
 import { getSampleRate } from '../audio/context';
 import { downloadWAV, parseAudioFile } from '../lib/wav';
+import { keyDerivationProgress } from '../lib/crypto';
 import { formatBytes } from '../utils/helpers';
 import { LIMITS } from '../utils/constants';
+import { keyPair, sharedKeys } from '../keys';
 import './Receive.css';
 
 const decoder = signal<Decoder | null>(null);
@@ -25,12 +36,74 @@ const chirpDetected = signal(false);
 const hasAudioRecording = signal(false);
 const lastRecordingTime = signal<Date | null>(null);
 const needsPassword = signal(false);
+const needsKey = signal(false); // Encrypted to a public key we have no private key for
 const decryptPassword = signal('');
 const showDecryptPassword = signal(false);
 const isProcessingFile = signal(false);
 const fileProgress = signal(0);
 const isDragging = signal(false);
 const dragCounter = signal(0); // Track nested drag enter/leave events
+const retransmitRequest = signal<ArqMessage | null>(null); // NACK waiting to be played to the sender
+const isPlayingReply = signal(false);
+const savedFrames = signal(0); // Frames kept from an unfinished message
+const isTestingChannel = signal(false);
+const probeResult = signal<ProbeResult | null>(null);
+
+const PARTIAL_STORAGE_KEY = 'nedagram-partial';
+
+// Channel test: how often the recording is checked for a probe, how much of
+// it (longer than a probe), and when to give up
+const PROBE_CHECK_INTERVAL_S = 2;
+const PROBE_WINDOW_S = 10;
+const PROBE_TIMEOUT_S = 30;
+
+/**
+ * Load the frames kept from earlier receptions that did not complete
+ */
+function loadPartialReceptions(): PartialReception[] {
+  const saved = localStorage.getItem(PARTIAL_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return parsePartialReceptions(saved);
+  } catch (err) {
+    console.warn('[Receive] Discarding unreadable partial reception:', err);
+    localStorage.removeItem(PARTIAL_STORAGE_KEY);
+    return [];
+  }
+}
+
+/**
+ * Keep the frames of messages that did not decode completely, so another
+ * playback or recording can finish them later
+ */
+function savePartialReceptions(partials: PartialReception[]): void {
+  savedFrames.value = countPartialFrames(partials);
+  try {
+    if (partials.length > 0) {
+      localStorage.setItem(PARTIAL_STORAGE_KEY, serializePartialReceptions(partials));
+    } else {
+      localStorage.removeItem(PARTIAL_STORAGE_KEY);
+    }
+  } catch (err) {
+    console.warn('[Receive] Could not save partial reception:', err);
+  }
+}
+
+/**
+ * Save bytes as a download
+ */
+function downloadFile(data: Uint8Array, filename: string, mimeType: string): void {
+  const blob = new Blob([data as unknown as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 const showReceiveTips = signal(false);
 
@@ -39,12 +112,17 @@ export function Receive() {
   const [isRequestingPermission, setIsRequestingPermission] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    savedFrames.value = countPartialFrames(loadPartialReceptions());
+  }, []);
+
   const handleStart = useCallback(async () => {
     errorMessage.value = null;
     result.value = null;
     debugInfo.value = 'Requesting microphone access...';
     chirpDetected.value = false;
     hasAudioRecording.value = false;
+    retransmitRequest.value = null;
     setIsRequestingPermission(true);
 
     // Request permission on button click (required for iOS)
@@ -76,10 +154,15 @@ export function Receive() {
         receiveState.value = 'complete';
         hasAudioRecording.value = true;
         errorMessage.value = null; // Clear any error
-        // Check if password is needed for encrypted data
+        // Check if password or private key is needed for encrypted data
         if (decodeResult.needsPassword) {
           needsPassword.value = true;
         }
+        if (decodeResult.needsKey) {
+          needsKey.value = true;
+        }
+        retransmitRequest.value = null;
+        savePartialReceptions(dec.getPartialReceptions());
         stopRecording();
       },
       (err) => {
@@ -87,15 +170,31 @@ export function Receive() {
         errorMessage.value = err.message;
         receiveState.value = 'error';
         hasAudioRecording.value = true;
+        savePartialReceptions(dec.getPartialReceptions());
         stopRecording();
       }
     );
 
+    // Frames kept from an unfinished reception are merged with this one
+    dec.resumeReceptions(loadPartialReceptions());
+    if (keyPair.value) {
+      dec.setPrivateKey(keyPair.value.privateKey);
+    }
+    dec.setPreSharedKeys(sharedKeys.value.map(k => k.key));
+
+    // Half-duplex ARQ: a transmission that ends with frames missing
+    // offers to play a NACK, and the decoder waits for the retransmission
+    dec.setArqHandler((message) => {
+      retransmitRequest.value = message;
+    });
+
     receiveState.value = 'listening';
 
     try {
       await startRecording({
         onSamples: (samples) => {
+          // Don't decode our own NACK while it plays
+          if (isPlayingReply.value) return;
           try {
             dec.processSamples(samples);
           } catch (err) {
@@ -128,13 +227,114 @@ export function Receive() {
 
   const handleStop = useCallback(() => {
     stopRecording();
-    decoder.value?.stop();
+    if (decoder.value) {
+      savePartialReceptions(decoder.value.getPartialReceptions());
+      decoder.value.stop();
+    }
+    retransmitRequest.value = null;
     receiveState.value = 'idle';
     debugInfo.value = '';
     hasAudioRecording.value = true;
     lastRecordingTime.value = new Date();
   }, []);
 
+  const handlePlayReply = useCallback(async (message: ArqMessage) => {
+    const sampleRate = getSampleRate();
+    const reply = encodeArqMessage(message, sampleRate);
+    isPlayingReply.value = true;
+    await playAudio(reply.audio, sampleRate, undefined, () => {
+      isPlayingReply.value = false;
+    });
+  }, []);
+
+  const handleRequestMissing = useCallback(() => {
+    if (retransmitRequest.value) {
+      handlePlayReply(retransmitRequest.value);
+    }
+  }, [handlePlayReply]);
+
+  const handleSendAck = useCallback(() => {
+    if (!result.value) return;
+    handlePlayReply({ type: 'ack', sessionId: result.value.sessionId, segmentIndex: 1, missingFrames: [] });
+  }, [handlePlayReply]);
+
+  const handleDiscardPartial = useCallback(() => {
+    savePartialReceptions([]);
+  }, []);
+
+  const handleTestChannel = useCallback(async () => {
+    errorMessage.value = null;
+    probeResult.value = null;
+
+    const permission = await requestMicrophonePermission();
+    if (permission !== 'granted') {
+      errorMessage.value = permission === 'insecure-context' ? t.errors.insecureContext : t.errors.microphoneBlocked;
+      return;
+    }
+
+    const sampleRate = getSampleRate();
+    const windowSamples = PROBE_WINDOW_S * sampleRate;
+    let chunks: Float32Array[] = [];
+    let buffered = 0;
+    let sinceCheck = 0;
+    let listened = 0;
+
+    isTestingChannel.value = true;
+
+    try {
+      await startRecording({
+        onSamples: (samples) => {
+          if (!isTestingChannel.value) return;
+          chunks.push(samples.slice());
+          buffered += samples.length;
+          sinceCheck += samples.length;
+          listened += samples.length;
+
+          // Keep only the last window of audio
+          while (buffered - chunks[0].length >= windowSamples) {
+            buffered -= chunks.shift()!.length;
+          }
+
+          if (sinceCheck < PROBE_CHECK_INTERVAL_S * sampleRate) return;
+          sinceCheck = 0;
+
+          const recent = new Float32Array(buffered);
+          let offset = 0;
+          for (const chunk of chunks) {
+            recent.set(chunk, offset);
+            offset += chunk.length;
+          }
+
+          const probe = evaluateProbe(recent, sampleRate);
+          if (probe) {
+            probeResult.value = probe;
+            isTestingChannel.value = false;
+            chunks = [];
+            stopRecording();
+          } else if (listened >= PROBE_TIMEOUT_S * sampleRate) {
+            errorMessage.value = t.receive.probeNotFound;
+            isTestingChannel.value = false;
+            chunks = [];
+            stopRecording();
+          }
+        },
+        onError: (err) => {
+          errorMessage.value = err.message;
+          isTestingChannel.value = false;
+        },
+      });
+    } catch (err) {
+      console.error('[Receive] Channel test error:', err);
+      errorMessage.value = t.errors.microphoneBlocked;
+      isTestingChannel.value = false;
+    }
+  }, [t]);
+
+  const handleStopTest = useCallback(() => {
+    stopRecording();
+    isTestingChannel.value = false;
+  }, []);
+
   const handleCopy = useCallback(async () => {
     if (!result.value) return;
 
@@ -152,15 +352,13 @@ export function Receive() {
   const handleSave = useCallback(() => {
     if (!result.value) return;
 
-    const blob = new Blob([result.value.text], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'received.txt';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    // Saved under the sender's file name and type when the message carries them
+    const { data, metadata } = result.value;
+    downloadFile(data, getSafeFilename(metadata?.filename) ?? 'received.txt', metadata?.mimeType || 'text/plain');
+  }, []);
+
+  const handleSaveFile = useCallback((file: BundleFile) => {
+    downloadFile(file.data, getSafeFilename(file.name) ?? 'received.bin', 'application/octet-stream');
   }, []);
 
   const handleClear = useCallback(() => {
@@ -172,17 +370,21 @@ export function Receive() {
     hasAudioRecording.value = false;
     lastRecordingTime.value = null;
     needsPassword.value = false;
+    needsKey.value = false;
     decryptPassword.value = '';
     showDecryptPassword.value = false;
     clearRecordedAudio();
   }, []);
 
   const handleDecrypt = useCallback(async () => {
-    if (!decoder.value || !decryptPassword.value) return;
+    // A message encrypted with a pre-shared key can also be retried with a
+    // key just added to the shared keys
+    if (!decoder.value || (!decryptPassword.value && !result.value?.keyId)) return;
 
     errorMessage.value = null;
 
     try {
+      decoder.value.setPreSharedKeys(sharedKeys.value.map(k => k.key));
       await decoder.value.retryWithPassword(decryptPassword.value);
       // If successful, onComplete will be called with decrypted result
       // Check if result updated
@@ -196,6 +398,22 @@ export function Receive() {
     }
   }, [t]);
 
+  const handleDecryptWithKey = useCallback(async () => {
+    if (!decoder.value || !keyPair.value) return;
+
+    errorMessage.value = null;
+
+    try {
+      await decoder.value.retryWithKey(keyPair.value.privateKey);
+      if (result.value && !result.value.needsKey) {
+        needsKey.value = false;
+      }
+    } catch (err) {
+      console.error('[Receive] Decryption error:', err);
+      errorMessage.value = t.receive.keyDecryptionFailed;
+    }
+  }, [t]);
+
   const handleSaveAudio = useCallback(() => {
     const recording = getRecordedAudio();
     if (!recording) return;
@@ -203,8 +421,8 @@ export function Receive() {
     downloadWAV(recording.samples, recording.sampleRate, 'nedagram-recording.wav');
   }, []);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    if (!file || isProcessingFile.value) return;
+  const handleFileUpload = useCallback(async (files: File[]) => {
+    if (files.length === 0 || isProcessingFile.value) return;
 
     // Reset state
     errorMessage.value = null;
@@ -215,74 +433,90 @@ export function Receive() {
     isProcessingFile.value = true;
     fileProgress.value = 0;
 
+    // Recordings of the same message are merged until one completes it
+    let partials = loadPartialReceptions();
+    let lastError: Error | null = null;
+
     try {
-      // Parse the audio file
-      debugInfo.value = t.receive.decodingAudio;
-      const { samples, sampleRate } = await parseAudioFile(file);
-
-      console.log('[Receive] Loaded audio file:', file.name, 'samples:', samples.length, 'rate:', sampleRate);
-      debugInfo.value = `Loaded ${(samples.length / sampleRate).toFixed(1)}s of audio`;
-
-      // Create decoder
-      const dec = new Decoder(sampleRate);
-      decoder.value = dec;
-
-      dec.start(
-        (decodeResult) => {
-          console.log('[Receive] File decode complete!', decodeResult);
-          result.value = decodeResult;
-          receiveState.value = 'complete';
-          isProcessingFile.value = false;
-          errorMessage.value = null; // Clear any error that was set prematurely
-          if (decodeResult.needsPassword) {
-            needsPassword.value = true;
+      for (const [fileIndex, file] of files.entries()) {
+        // Parse the audio file
+        debugInfo.value = t.receive.decodingAudio;
+        const { samples, sampleRate } = await parseAudioFile(file);
+
+        console.log('[Receive] Loaded audio file:', file.name, 'samples:', samples.length, 'rate:', sampleRate);
+        debugInfo.value = `Loaded ${(samples.length / sampleRate).toFixed(1)}s of audio`;
+
+        // Create decoder
+        const dec = new Decoder(sampleRate);
+        decoder.value = dec;
+
+        dec.start(
+          (decodeResult) => {
+            console.log('[Receive] File decode complete!', decodeResult);
+            result.value = decodeResult;
+            receiveState.value = 'complete';
+            isProcessingFile.value = false;
+            errorMessage.value = null; // Clear any error that was set prematurely
+            if (decodeResult.needsPassword) {
+              needsPassword.value = true;
+            }
+            if (decodeResult.needsKey) {
+              needsKey.value = true;
+            }
+          },
+          (err) => {
+            console.error('[Receive] File decode error:', err);
+            lastError = err;
           }
-        },
-        (err) => {
-          console.error('[Receive] File decode error:', err);
-          errorMessage.value = err.message;
-          receiveState.value = 'error';
-          isProcessingFile.value = false;
+        );
+        dec.resumeReceptions(partials);
+        if (keyPair.value) {
+          dec.setPrivateKey(keyPair.value.privateKey);
         }
-      );
+        dec.setPreSharedKeys(sharedKeys.value.map(k => k.key));
 
-      receiveState.value = 'detecting_preamble';
+        receiveState.value = 'detecting_preamble';
 
-      // Process audio in chunks to avoid blocking UI
-      const chunkSize = 4096;
-      const totalChunks = Math.ceil(samples.length / chunkSize);
+        // Process audio in chunks to avoid blocking UI
+        const chunkSize = 4096;
 
-      for (let i = 0; i < samples.length; i += chunkSize) {
-        const chunk = samples.subarray(i, Math.min(i + chunkSize, samples.length));
-        dec.processSamples(chunk);
+        for (let i = 0; i < samples.length; i += chunkSize) {
+          const chunk = samples.subarray(i, Math.min(i + chunkSize, samples.length));
+          dec.processSamples(chunk);
+
+          // Update progress
+          const progress = dec.progress.value;
+          signalLevel.value = progress.signalLevel;
+          receiveState.value = progress.state;
+          debugInfo.value = progress.debugInfo || '';
+          fileProgress.value = ((fileIndex + i / samples.length) / files.length) * 100;
 
-        // Update progress
-        const progress = dec.progress.value;
-        signalLevel.value = progress.signalLevel;
-        receiveState.value = progress.state;
-        debugInfo.value = progress.debugInfo || '';
-        fileProgress.value = ((i / samples.length) * 100);
+          if (progress.chirpDetected && !chirpDetected.value) {
+            chirpDetected.value = true;
+          }
 
-        if (progress.chirpDetected && !chirpDetected.value) {
-          chirpDetected.value = true;
-        }
+          // Check if complete or error
+          if (progress.state === 'complete' || progress.state === 'error') {
+            break;
+          }
 
-        // Check if complete or error
-        if (progress.state === 'complete' || progress.state === 'error') {
-          break;
+          // Yield to UI every few chunks
+          if ((i / chunkSize) % 10 === 0) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+          }
         }
 
-        // Yield to UI every few chunks
-        if ((i / chunkSize) % 10 === 0) {
-          await new Promise(resolve => setTimeout(resolve, 0));
-        }
+        partials = dec.getPartialReceptions();
+        // Note: Check result.value as well since the success callback may have fired
+        if (receiveState.value === 'complete' || result.value) break;
       }
 
-      // If not complete yet, finalize
-      // Note: Check result.value as well since the success callback may have fired
-      if (receiveState.value !== 'complete' && receiveState.value !== 'error' && !result.value) {
+      savePartialReceptions(partials);
+
+      // No file completed the message
+      if (receiveState.value !== 'complete' && !result.value) {
         debugInfo.value = 'Processing complete - no valid transmission found';
-        errorMessage.value = t.receive.noTransmissionFound;
+        errorMessage.value = (lastError as Error | null)?.message ?? t.receive.noTransmissionFound;
         receiveState.value = 'error';
       }
 
@@ -299,9 +533,9 @@ export function Receive() {
 
   const handleFileInputChange = useCallback((e: Event) => {
     const input = e.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (file) {
-      handleFileUpload(file);
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0) {
+      handleFileUpload(files);
       // Reset input so same file can be selected again
       input.value = '';
     }
@@ -338,9 +572,10 @@ export function Receive() {
     dragCounter.value = 0;
     isDragging.value = false;
 
-    const file = e.dataTransfer?.files?.[0];
-    if (file && (file.type.startsWith('audio/') || file.name.match(/\.(wav|mp3|m4a|ogg|webm)$/i))) {
-      handleFileUpload(file);
+    const files = Array.from(e.dataTransfer?.files ?? [])
+      .filter(file => file.type.startsWith('audio/') || file.name.match(/\.(wav|mp3|m4a|ogg|webm)$/i));
+    if (files.length > 0) {
+      handleFileUpload(files);
     }
   }, [handleFileUpload]);
 
@@ -420,12 +655,20 @@ export function Receive() {
         ref={fileInputRef}
         type="file"
         accept="audio/*,.wav,.mp3,.m4a,.ogg,.webm"
+        multiple
         style={{ display: 'none' }}
         onChange={handleFileInputChange}
       />
 
       <div class="control-section">
-        {!isListening && receiveState.value !== 'complete' && !isProcessingFile.value ? (
+        {isTestingChannel.value ? (
+          <>
+            <Button onClick={handleStopTest} variant="secondary" fullWidth>
+              {t.receive.stopButton}
+            </Button>
+            <p class="upload-hint">{t.receive.testingChannel}</p>
+          </>
+        ) : !isListening && receiveState.value !== 'complete' && !isProcessingFile.value ? (
           <>
             <Button onClick={handleStart} fullWidth disabled={isRequestingPermission}>
               {isRequestingPermission ? 'Requesting access...' : t.receive.listenButton}
@@ -439,6 +682,17 @@ export function Receive() {
               {t.receive.uploadAudio}
             </button>
             <p class="upload-hint">{t.receive.uploadHint}</p>
+            <Button onClick={handleTestChannel} variant="ghost" disabled={isRequestingPermission}>
+              {t.receive.testChannel}
+            </Button>
+            {savedFrames.value > 0 && (
+              <div class="partial-saved">
+                <span>{interpolate(t.receive.partialSaved, { count: savedFrames.value })}</span>
+                <Button onClick={handleDiscardPartial} variant="ghost">
+                  {t.receive.discardPartial}
+                </Button>
+              </div>
+            )}
           </>
         ) : isListening ? (
           <Button onClick={handleStop} variant="secondary" fullWidth>
@@ -452,6 +706,31 @@ export function Receive() {
         ) : null}
       </div>
 
+      {/* Channel test result */}
+      {probeResult.value && !isListening && (
+        <div class="probe-result">
+          <div class="probe-recommendation">
+            {interpolate(t.receive.probeRecommendation, {
+              mode: probeResult.value.recommendedMode,
+              fec: probeResult.value.recommendedFec,
+            })}
+          </div>
+          <div class="probe-details">
+            {probeResult.value.modes.map(mode => (
+              <span key={mode.mode} class={`probe-mode ${mode.usable ? 'usable' : ''}`}>
+                {mode.mode}: {mode.minSnrDb.toFixed(0)} dB
+              </span>
+            ))}
+          </div>
+          <div class="probe-details">
+            {interpolate(t.receive.probeOffset, { offset: probeResult.value.frequencyOffsetHz.toFixed(1) })}
+          </div>
+          <Button onClick={() => { probeResult.value = null; }} variant="ghost">
+            {t.receive.clear}
+          </Button>
+        </div>
+      )}
+
       {/* Last recording - shown in idle state when a previous recording exists */}
       {!isListening && receiveState.value === 'idle' && hasAudioRecording.value && (
         <div class="last-recording">
@@ -469,6 +748,11 @@ export function Receive() {
         </div>
       )}
 
+      {/* Our key for messages encrypted to a public key */}
+      {!isListening && receiveState.value === 'idle' && !isProcessingFile.value && !isTestingChannel.value && (
+        <KeyManager variant="own" />
+      )}
+
       {/* Drag overlay */}
       {isDragging.value && (
         <div class="drag-overlay">
@@ -527,6 +811,24 @@ export function Receive() {
             </div>
           )}
 
+          {retransmitRequest.value && receiveState.value === 'detecting_preamble' && (
+            <div class="arq-request">
+              <span>{interpolate(t.receive.framesMissing, { count: retransmitRequest.value.missingFrames.length })}</span>
+              <Button onClick={handleRequestMissing} variant="secondary" disabled={isPlayingReply.value}>
+                {isPlayingReply.value ? t.receive.playingRequest : t.receive.requestMissing}
+              </Button>
+            </div>
+          )}
+
+          {progress && progress.totalSegments !== undefined && progress.totalSegments > 1 && (
+            <div class="symbols-count">
+              {interpolate(t.receive.segmentProgress, {
+                current: progress.segmentsReceived ?? 0,
+                total: progress.totalSegments,
+              })}
+            </div>
+          )}
+
           {progress && progress.totalFrames > 0 && (
             <>
               <ProgressBar
@@ -547,7 +849,7 @@ export function Receive() {
         </div>
       )}
 
-      {errorMessage.value && !needsPassword.value && (
+      {errorMessage.value && !needsPassword.value && !needsKey.value && (
         <div class="error-section">
           <div class="error-message">{errorMessage.value}</div>
           <div class="error-actions">
@@ -573,7 +875,11 @@ export function Receive() {
             <span class="result-status encrypted">{t.receive.encrypted}</span>
           </div>
 
-          <p class="password-prompt">{t.receive.passwordPrompt}</p>
+          <p class="password-prompt">
+            {result.value.keyId ? interpolate(t.receive.sharedKeyPrompt, { keyId: result.value.keyId }) : t.receive.passwordPrompt}
+          </p>
+
+          {result.value.keyId && <KeyManager variant="shared" />}
 
           <div class="password-input-wrapper">
             <div class="password-input-container">
@@ -615,7 +921,39 @@ export function Receive() {
           )}
 
           <div class="result-actions">
-            <Button onClick={handleDecrypt} disabled={!decryptPassword.value}>
+            <Button onClick={handleDecrypt} disabled={(!decryptPassword.value && !result.value.keyId) || keyDerivationProgress.value !== null}>
+              {keyDerivationProgress.value !== null
+                ? interpolate(t.receive.derivingKey, { percent: Math.round(keyDerivationProgress.value * 100) })
+                : t.receive.decryptButton}
+            </Button>
+            {hasAudioRecording.value && (
+              <Button onClick={handleSaveAudio} variant="secondary">
+                {t.receive.saveAudio}
+              </Button>
+            )}
+            <Button onClick={handleClear} variant="ghost">
+              {t.receive.clear}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {result.value && needsKey.value && (
+        <div class="result-section password-section">
+          <div class="result-header">
+            <span class="result-status encrypted">{t.receive.keyRequired}</span>
+          </div>
+
+          <p class="password-prompt">{t.receive.keyPrompt}</p>
+
+          <KeyManager variant="own" />
+
+          {errorMessage.value && (
+            <div class="error-message">{errorMessage.value}</div>
+          )}
+
+          <div class="result-actions">
+            <Button onClick={handleDecryptWithKey} disabled={!keyPair.value}>
               {t.receive.decryptButton}
             </Button>
             {hasAudioRecording.value && (
@@ -630,7 +968,7 @@ export function Receive() {
         </div>
       )}
 
-      {result.value && !needsPassword.value && (
+      {result.value && !needsPassword.value && !needsKey.value && (
         <div class="result-section">
           <div class="result-header">
             <span class="result-status success">{t.receive.complete}</span>
@@ -640,16 +978,51 @@ export function Receive() {
             )}
           </div>
 
-          <div class="result-text">
-            <pre>{result.value.text}</pre>
-          </div>
+          {result.value.metadata && (
+            <div class="result-metadata">
+              {result.value.metadata.filename && (
+                <code class="result-filename">{result.value.metadata.filename}</code>
+              )}
+              {result.value.metadata.label && <span>{result.value.metadata.label}</span>}
+              {result.value.metadata.mimeType && <span>{result.value.metadata.mimeType}</span>}
+              {result.value.metadata.createdAt && (
+                <span>{interpolate(t.receive.createdAt, { date: result.value.metadata.createdAt.toLocaleString() })}</span>
+              )}
+            </div>
+          )}
+
+          {result.value.files ? (
+            <div class="result-files">
+              <span class="result-files-count">{interpolate(t.receive.bundleFiles, { count: result.value.files.length })}</span>
+              {result.value.files.map(file => (
+                <div class="result-file" key={file.name}>
+                  <code class="result-filename">{file.name}</code>
+                  <span class="result-file-size">{formatBytes(file.data.length)}</span>
+                  <Button onClick={() => handleSaveFile(file)} variant="secondary">
+                    {t.receive.saveFile}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div class="result-text">
+              <pre>{result.value.text}</pre>
+            </div>
+          )}
 
           <div class="result-actions">
-            <Button onClick={handleCopy}>
-              {copied.value ? t.receive.copied : t.receive.copyButton}
-            </Button>
-            <Button onClick={handleSave} variant="secondary">
-              {t.receive.saveButton}
+            {!result.value.files && (
+              <>
+                <Button onClick={handleCopy}>
+                  {copied.value ? t.receive.copied : t.receive.copyButton}
+                </Button>
+                <Button onClick={handleSave} variant="secondary">
+                  {t.receive.saveButton}
+                </Button>
+              </>
+            )}
+            <Button onClick={handleSendAck} variant="secondary" disabled={isPlayingReply.value}>
+              {t.receive.sendAck}
             </Button>
             {hasAudioRecording.value && (
               <Button onClick={handleSaveAudio} variant="secondary">
@@ -665,9 +1038,10 @@ export function Receive() {
             <ChecksumDisplay
               checksum={result.value.checksum}
               label={t.send.checksumLabel}
+              signature={result.value.signature}
             />
 
-            {result.value.stats.originalSize <= LIMITS.QR_MAX_BYTES && (
+            {!result.value.files && result.value.stats.originalSize <= LIMITS.QR_MAX_BYTES && (
               <div class="qr-section">
                 <QRDisplay data={result.value.text} title={t.receive.scanToCopy} />
               </div>
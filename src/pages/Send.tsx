@@ -1,21 +1,29 @@
 import { useState, useCallback } from 'preact/hooks';
 import { signal } from '@preact/signals';
-import { useI18n } from '../i18n';
+import { useI18n, interpolate } from '../i18n';
 import { TextInput } from '../components/TextInput';
 import { FileUpload } from '../components/FileUpload';
 import { Button } from '../components/Button';
 import { ProgressBar } from '../components/ProgressBar';
 import { QRDisplay } from '../components/QRDisplay';
 import { ChecksumDisplay } from '../components/ChecksumDisplay';
-import { encodeString, checkPayloadSize, estimateEncode, type EncodeResult } from '../encode';
+import { KeyManager } from '../components/KeyManager';
+import { encodeString, encodeFiles, checkPayloadSize, estimateEncode, encodeRetransmission, encodeProbe, type EncodeResult } from '../encode';
+import { type MessageMetadata } from '../encode/metadata';
+import { createBundle, type BundleFile } from '../encode/bundle';
+import { Decoder } from '../decode';
 import { playAudio, stopAudio, pauseAudio, isPlaying, getCurrentTime } from '../audio/player';
+import { startRecording, stopRecording, requestMicrophonePermission } from '../audio/recorder';
+import { getSampleRate } from '../audio/context';
 import { downloadWAV } from '../lib/wav';
+import { downloadOGG, isOggOpusSupported } from '../audio/opus';
 import { LIMITS, getAudioMode, setAudioMode, type AudioMode } from '../utils/constants';
 import { formatBytes, formatDuration, stringToBytes } from '../utils/helpers';
-import { calculatePasswordStrength, getPasswordStrengthLabel } from '../lib/crypto';
+import { calculatePasswordStrength, getPasswordStrengthLabel, isValidPreSharedKey, isValidPublicKey, keyDerivationProgress } from '../lib/crypto';
 import './Send.css';
 
 type SendState = 'idle' | 'encoding' | 'ready' | 'playing';
+type ArqState = 'idle' | 'listening' | 'resending' | 'acknowledged';
 
 // Global signals - persist across navigation
 const sendState = signal<SendState>('idle');
@@ -25,36 +33,81 @@ const playbackProgress = signal<number>(0);
 const audioMode = signal<AudioMode>(getAudioMode());
 const isResultStale = signal(false);
 
+// Half-duplex ARQ: listening for the receiver's ACK/NACK
+const arqState = signal<ArqState>('idle');
+const arqResendCount = signal(0);
+const replyDecoder = signal<Decoder | null>(null);
+
+// Channel test signal for the receiver's "Test Channel"
+const isPlayingProbe = signal(false);
+
 // Input state - persists across navigation
 const inputText = signal('');
-const fileName = signal<string | null>(null);
-const encryptEnabled = signal(false);
+// Name, type and time of the uploaded file, sent along with its content
+const fileMetadata = signal<MessageMetadata | null>(null);
+// Several uploaded files, sent together as a bundle instead of the text
+const bundleFiles = signal<BundleFile[] | null>(null);
+// Encryption: none, a shared password, a recipient's public key, or a pre-shared key
+type EncryptMode = 'off' | 'password' | 'key' | 'shared';
+const encryptMode = signal<EncryptMode>('off');
 const password = signal('');
+const recipient = signal('');
+const sharedKey = signal('');
+// Send proxy links and WireGuard configs as a compact config
+const compactConfig = signal(false);
+// Download as WAV, or as OGG/Opus to send as a voice message (where the browser can encode Opus)
+type DownloadFormat = 'wav' | 'ogg';
+const downloadFormat = signal<DownloadFormat>('wav');
+const oggSupported = signal(false);
+const isDownloading = signal(false);
+isOggOpusSupported().then(supported => { oggSupported.value = supported; });
 
 export function Send() {
   const { t } = useI18n();
   const [showPassword, setShowPassword] = useState(false);
 
-  const inputData = stringToBytes(inputText.value);
+  const inputData = bundleFiles.value ? createBundle(bundleFiles.value) : stringToBytes(inputText.value);
   const inputBytes = inputData.length;
   const sizeCheck = inputBytes > 0 ? checkPayloadSize(inputData) : null;
   const estimate = inputBytes > 0 ? estimateEncode(inputBytes, inputData) : null;
 
-  const canEncode = inputText.value.length > 0 && (sizeCheck?.valid ?? true) && (!encryptEnabled.value || password.value.length > 0);
+  const encryptReady = encryptMode.value === 'off'
+    || (encryptMode.value === 'password' && password.value.length > 0)
+    || (encryptMode.value === 'key' && isValidPublicKey(recipient.value))
+    || (encryptMode.value === 'shared' && isValidPreSharedKey(sharedKey.value));
+  const canEncode = (inputText.value.length > 0 || bundleFiles.value !== null) && (sizeCheck?.valid ?? true) && encryptReady;
   // Show QR for small payloads - when encrypted, only show after encoding (with ciphertext)
-  const showInputQR = inputBytes > 0 && inputBytes <= LIMITS.QR_MAX_BYTES && !encryptEnabled.value && sendState.value === 'idle';
-  const passwordStrength = encryptEnabled.value && password.value.length > 0 ? calculatePasswordStrength(password.value) : 0;
+  const showInputQR = inputBytes > 0 && inputBytes <= LIMITS.QR_MAX_BYTES && encryptMode.value === 'off' && sendState.value === 'idle' && !bundleFiles.value;
+  const passwordStrength = encryptMode.value === 'password' && password.value.length > 0 ? calculatePasswordStrength(password.value) : 0;
   const strengthLabel = getPasswordStrengthLabel(passwordStrength);
 
-  const handleFileSelect = useCallback((content: string, name: string) => {
+  const handleFileSelect = useCallback((content: string, metadata: MessageMetadata) => {
     inputText.value = content;
-    fileName.value = name;
+    fileMetadata.value = metadata;
+    bundleFiles.value = null;
     // Mark result as stale when file is loaded
     if (encodeResult.value) {
       isResultStale.value = true;
     }
   }, []);
 
+  const handleFilesSelect = useCallback((files: BundleFile[]) => {
+    try {
+      createBundle(files);
+    } catch (err) {
+      errorMessage.value = err instanceof Error ? err.message : 'Invalid files';
+      return;
+    }
+    errorMessage.value = null;
+    inputText.value = '';
+    fileMetadata.value = null;
+    bundleFiles.value = files;
+    // Mark result as stale when files are loaded
+    if (encodeResult.value) {
+      isResultStale.value = true;
+    }
+  }, []);
+
   const handleGenerate = useCallback(async () => {
     if (!canEncode) return;
 
@@ -62,9 +115,16 @@ export function Send() {
     errorMessage.value = null;
 
     try {
-      const result = await encodeString(inputText.value, {
-        password: encryptEnabled.value ? password.value : undefined,
-      });
+      const options = {
+        password: encryptMode.value === 'password' ? password.value : undefined,
+        recipient: encryptMode.value === 'key' ? recipient.value : undefined,
+        preSharedKey: encryptMode.value === 'shared' ? sharedKey.value : undefined,
+        metadata: fileMetadata.value ?? undefined,
+        compactConfig: compactConfig.value,
+      };
+      const result = bundleFiles.value
+        ? await encodeFiles(bundleFiles.value, options)
+        : await encodeString(inputText.value, options);
       encodeResult.value = result;
       isResultStale.value = false;
       sendState.value = 'ready';
@@ -103,32 +163,140 @@ export function Send() {
     }
   }, []);
 
-  const handleDownload = useCallback(() => {
+  const handlePlayProbe = useCallback(async () => {
+    if (isPlayingProbe.value) {
+      stopAudio();
+      isPlayingProbe.value = false;
+      return;
+    }
+
+    const sampleRate = getSampleRate();
+    const probe = encodeProbe(sampleRate);
+    isPlayingProbe.value = true;
+    await playAudio(probe.audio, sampleRate, undefined, () => {
+      isPlayingProbe.value = false;
+    });
+  }, []);
+
+  const handleStopListening = useCallback(() => {
+    stopRecording();
+    replyDecoder.value?.stop();
+    replyDecoder.value = null;
+    arqState.value = 'idle';
+  }, []);
+
+  const handleListenForReply = useCallback(async () => {
+    const context = encodeResult.value?.retransmit;
+    if (!context) return;
+
+    errorMessage.value = null;
+    const permission = await requestMicrophonePermission();
+    if (permission !== 'granted') {
+      errorMessage.value = permission === 'insecure-context' ? t.errors.insecureContext : t.errors.microphoneBlocked;
+      return;
+    }
+
+    const dec = new Decoder(getSampleRate());
+    replyDecoder.value = dec;
+
+    dec.start(
+      async (reply) => {
+        stopRecording();
+        replyDecoder.value = null;
+        // Decoding switched to the reply's audio mode; resend in ours
+        setAudioMode(audioMode.value);
+
+        if (!reply.arq || reply.arq.sessionId !== context.sessionId) {
+          errorMessage.value = t.send.arqNotAReply;
+          arqState.value = 'idle';
+          return;
+        }
+
+        try {
+          // Null for an ACK, and for a NACK that lists no frames: nothing is missing
+          const retransmission = encodeRetransmission(context, reply.arq);
+          if (!retransmission) {
+            arqState.value = 'acknowledged';
+            return;
+          }
+          arqResendCount.value = retransmission.frameCount;
+          arqState.value = 'resending';
+          await playAudio(retransmission.audio, context.sampleRate, undefined, () => {
+            arqState.value = 'idle';
+          });
+        } catch (err) {
+          errorMessage.value = err instanceof Error ? err.message : 'Retransmission failed';
+          arqState.value = 'idle';
+        }
+      },
+      (err) => {
+        stopRecording();
+        replyDecoder.value = null;
+        setAudioMode(audioMode.value);
+        errorMessage.value = err.message;
+        arqState.value = 'idle';
+      }
+    );
+
+    arqState.value = 'listening';
+
+    try {
+      await startRecording({
+        onSamples: (samples) => dec.processSamples(samples),
+        onError: (err) => {
+          errorMessage.value = err.message;
+          arqState.value = 'idle';
+        },
+      });
+    } catch (err) {
+      errorMessage.value = t.errors.microphoneBlocked;
+      arqState.value = 'idle';
+    }
+  }, [t]);
+
+  const handleDownload = useCallback(async () => {
     if (!encodeResult.value) return;
 
-    const filename = fileName.value
-      ? fileName.value.replace(/\.[^.]+$/, '') + '.wav'
-      : 'nedagram.wav';
+    const extension = downloadFormat.value === 'ogg' ? '.ogg' : '.wav';
+    const filename = fileMetadata.value?.filename
+      ? fileMetadata.value.filename.replace(/\.[^.]+$/, '') + extension
+      : 'nedagram' + extension;
+
+    if (downloadFormat.value === 'wav') {
+      downloadWAV(encodeResult.value.audio, encodeResult.value.sampleRate, filename);
+      return;
+    }
 
-    downloadWAV(encodeResult.value.audio, encodeResult.value.sampleRate, filename);
+    isDownloading.value = true;
+    try {
+      await downloadOGG(encodeResult.value.audio, encodeResult.value.sampleRate, filename);
+    } catch (err) {
+      errorMessage.value = err instanceof Error ? err.message : String(err);
+    } finally {
+      isDownloading.value = false;
+    }
   }, []);
 
   const handleClear = useCallback(() => {
     stopAudio();
+    handleStopListening();
     inputText.value = '';
-    fileName.value = null;
-    encryptEnabled.value = false;
+    fileMetadata.value = null;
+    bundleFiles.value = null;
+    encryptMode.value = 'off';
     password.value = '';
+    recipient.value = '';
+    sharedKey.value = '';
     setShowPassword(false);
     sendState.value = 'idle';
     encodeResult.value = null;
     errorMessage.value = null;
     isResultStale.value = false;
-  }, []);
+  }, [handleStopListening]);
 
-  const handleEncryptToggle = useCallback((enabled: boolean) => {
-    encryptEnabled.value = enabled;
-    if (!enabled) {
+  const handleEncryptToggle = useCallback((mode: EncryptMode) => {
+    encryptMode.value = mode;
+    if (mode !== 'password') {
       password.value = '';
     }
     // Mark result as stale when encryption toggle changes
@@ -137,6 +305,14 @@ export function Send() {
     }
   }, []);
 
+  const handleCompactToggle = useCallback((enabled: boolean) => {
+    compactConfig.value = enabled;
+    // Mark result as stale when compact toggle changes
+    if (encodeResult.value) {
+      isResultStale.value = true;
+    }
+  }, []);
+
   const handlePasswordChange = useCallback((newPassword: string) => {
     password.value = newPassword;
     // Mark result as stale when password changes
@@ -145,8 +321,26 @@ export function Send() {
     }
   }, []);
 
+  const handleRecipientSelect = useCallback((publicKey: string) => {
+    recipient.value = publicKey;
+    // Mark result as stale when the recipient changes
+    if (encodeResult.value) {
+      isResultStale.value = true;
+    }
+  }, []);
+
+  const handleSharedKeySelect = useCallback((key: string) => {
+    sharedKey.value = key;
+    // Mark result as stale when the shared key changes
+    if (encodeResult.value) {
+      isResultStale.value = true;
+    }
+  }, []);
+
   const handleTextChange = useCallback((newText: string) => {
     inputText.value = newText;
+    // Typed text replaces uploaded files
+    bundleFiles.value = null;
     // Mark result as stale when text changes
     if (encodeResult.value) {
       isResultStale.value = true;
@@ -156,6 +350,10 @@ export function Send() {
   const handleModeChange = useCallback((mode: AudioMode) => {
     setAudioMode(mode);
     audioMode.value = mode;
+    // Opus removes ultrasonic tones, so that mode is only downloaded as WAV
+    if (mode === 'ultrasonic') {
+      downloadFormat.value = 'wav';
+    }
     // Mark result as stale when mode changes
     if (encodeResult.value) {
       isResultStale.value = true;
@@ -185,8 +383,12 @@ export function Send() {
           <ul>
             <li>{t.send.tips.phoneMode}</li>
             <li>{t.send.tips.widebandMode}</li>
+            <li>{t.send.tips.ultrasonicMode}</li>
+            <li>{t.send.tips.multitoneMode}</li>
             <li>{t.send.tips.encryption}</li>
             <li>{t.send.tips.checksum}</li>
+            <li>{t.send.tips.compact}</li>
+            {oggSupported.value && <li>{t.send.tips.voiceMessage}</li>}
           </ul>
         </div>
       )}
@@ -205,10 +407,19 @@ export function Send() {
         <div class="input-actions">
           <FileUpload
             onFileSelect={handleFileSelect}
+            onFilesSelect={handleFilesSelect}
             label={t.send.uploadButton}
             disabled={sendState.value === 'encoding'}
           />
-          {fileName.value && <span class="file-name">{fileName.value}</span>}
+          {fileMetadata.value?.filename && <span class="file-name">{fileMetadata.value.filename}</span>}
+          {bundleFiles.value && (
+            <span class="file-name">
+              {interpolate(t.send.bundleFiles, {
+                count: bundleFiles.value.length,
+                names: bundleFiles.value.map(f => f.name).join(', '),
+              })}
+            </span>
+          )}
         </div>
 
         <div class="options-row">
@@ -229,32 +440,93 @@ export function Send() {
               >
                 {t.send.modeWideband}
               </button>
+              <button
+                class={`toggle-btn ${audioMode.value === 'ultrasonic' ? 'active' : ''}`}
+                onClick={() => handleModeChange('ultrasonic')}
+                title="Near-inaudible (17-20 kHz)"
+              >
+                {t.send.modeUltrasonic}
+              </button>
+              <button
+                class={`toggle-btn ${audioMode.value === 'multitone' ? 'active' : ''}`}
+                onClick={() => handleModeChange('multitone')}
+                title="16 tones at once (audio cable or quiet room)"
+              >
+                {t.send.modeMultitone}
+              </button>
             </div>
             {audioMode.value === 'wideband' && (
               <span class="mode-hint">{t.send.widebandHint}</span>
             )}
+            {audioMode.value === 'ultrasonic' && (
+              <span class="mode-hint">{t.send.ultrasonicHint}</span>
+            )}
+            {audioMode.value === 'multitone' && (
+              <span class="mode-hint">{t.send.multitoneHint}</span>
+            )}
           </div>
 
           <div class="option-group">
             <span class="option-label">{t.send.encrypt}</span>
             <div class="segmented-toggle">
               <button
-                class={`toggle-btn ${!encryptEnabled.value ? 'active' : ''}`}
-                onClick={() => handleEncryptToggle(false)}
+                class={`toggle-btn ${encryptMode.value === 'off' ? 'active' : ''}`}
+                onClick={() => handleEncryptToggle('off')}
               >
                 {t.send.encryptOff}
               </button>
               <button
-                class={`toggle-btn ${encryptEnabled.value ? 'active' : ''}`}
-                onClick={() => handleEncryptToggle(true)}
+                class={`toggle-btn ${encryptMode.value === 'password' ? 'active' : ''}`}
+                onClick={() => handleEncryptToggle('password')}
+              >
+                {t.send.encryptPassword}
+              </button>
+              <button
+                class={`toggle-btn ${encryptMode.value === 'key' ? 'active' : ''}`}
+                onClick={() => handleEncryptToggle('key')}
+              >
+                {t.send.encryptKey}
+              </button>
+              <button
+                class={`toggle-btn ${encryptMode.value === 'shared' ? 'active' : ''}`}
+                onClick={() => handleEncryptToggle('shared')}
+              >
+                {t.send.encryptShared}
+              </button>
+            </div>
+          </div>
+
+          <div class="option-group">
+            <span class="option-label">{t.send.compact}</span>
+            <div class="segmented-toggle">
+              <button
+                class={`toggle-btn ${!compactConfig.value ? 'active' : ''}`}
+                onClick={() => handleCompactToggle(false)}
               >
-                {t.send.encryptOn}
+                {t.send.compactOff}
+              </button>
+              <button
+                class={`toggle-btn ${compactConfig.value ? 'active' : ''}`}
+                onClick={() => handleCompactToggle(true)}
+              >
+                {t.send.compactOn}
               </button>
             </div>
+            {compactConfig.value && !bundleFiles.value && (
+              <span class="mode-hint">{t.send.compactHint}</span>
+            )}
           </div>
         </div>
 
-        {encryptEnabled.value && (
+        {encryptMode.value === 'key' && (
+          <KeyManager variant="contacts" selected={recipient.value} onSelect={handleRecipientSelect} />
+        )}
+
+        {encryptMode.value === 'shared' && (
+          <KeyManager variant="shared" selected={sharedKey.value} onSelect={handleSharedKeySelect} />
+        )}
+
+        {encryptMode.value === 'password' && (
           <div class="password-row">
             <div class="password-input-container">
               <input
@@ -312,7 +584,11 @@ export function Send() {
           disabled={!canEncode || sendState.value === 'encoding' || (encodeResult.value !== null && !isResultStale.value)}
           fullWidth
         >
-          {sendState.value === 'encoding' ? '...' : t.send.generateButton}
+          {sendState.value !== 'encoding'
+            ? t.send.generateButton
+            : keyDerivationProgress.value !== null
+              ? interpolate(t.send.derivingKey, { percent: Math.round(keyDerivationProgress.value * 100) })
+              : '...'}
         </Button>
 
         {inputBytes > 0 && (
@@ -322,6 +598,17 @@ export function Send() {
             {estimate && <span>{estimate.estimatedFrames} {t.send.frames}</span>}
           </div>
         )}
+
+        <div class="probe-row">
+          <Button
+            onClick={handlePlayProbe}
+            variant="ghost"
+            disabled={sendState.value === 'playing'}
+          >
+            {isPlayingProbe.value ? t.send.stopTestSignal : t.send.playTestSignal}
+          </Button>
+          <span class="mode-hint">{t.send.testSignalHint}</span>
+        </div>
       </div>
 
       {encodeResult.value && (
@@ -334,8 +621,34 @@ export function Send() {
               {sendState.value === 'playing' ? t.send.pauseButton : t.send.playButton}
             </Button>
 
-            <Button onClick={handleDownload} variant="secondary">
-              {t.send.downloadButton}
+            {oggSupported.value && audioMode.value !== 'ultrasonic' && (
+              <div class="segmented-toggle">
+                <button
+                  class={`toggle-btn ${downloadFormat.value === 'wav' ? 'active' : ''}`}
+                  onClick={() => { downloadFormat.value = 'wav'; }}
+                >
+                  {t.send.formatWav}
+                </button>
+                <button
+                  class={`toggle-btn ${downloadFormat.value === 'ogg' ? 'active' : ''}`}
+                  onClick={() => { downloadFormat.value = 'ogg'; }}
+                  title={t.send.oggHint}
+                >
+                  {t.send.formatOgg}
+                </button>
+              </div>
+            )}
+
+            <Button onClick={handleDownload} variant="secondary" disabled={isDownloading.value}>
+              {downloadFormat.value === 'ogg' ? t.send.downloadOggButton : t.send.downloadButton}
+            </Button>
+
+            <Button
+              onClick={arqState.value === 'listening' ? handleStopListening : handleListenForReply}
+              variant="secondary"
+              disabled={sendState.value === 'playing' || arqState.value === 'resending' || isResultStale.value}
+            >
+              {arqState.value === 'listening' ? t.send.stopListening : t.send.listenForReply}
             </Button>
 
             <Button onClick={handleClear} variant="ghost">
@@ -366,6 +679,14 @@ export function Send() {
             <ProgressBar value={playbackProgress.value} label={`Playing... ${Math.round(playbackProgress.value)}%`} />
           )}
 
+          {arqState.value !== 'idle' && (
+            <div class={`arq-status ${arqState.value}`}>
+              {arqState.value === 'listening' && t.send.arqListening}
+              {arqState.value === 'resending' && interpolate(t.send.arqResending, { count: arqResendCount.value })}
+              {arqState.value === 'acknowledged' && t.send.arqAcknowledged}
+            </div>
+          )}
+
           <ChecksumDisplay
             checksum={encodeResult.value.checksum}
             label={t.send.checksumLabel}
@@ -1,5 +1,5 @@
 // Audio mode type
-export type AudioMode = 'phone' | 'wideband';
+export type AudioMode = 'phone' | 'wideband' | 'ultrasonic' | 'multitone';
 
 // Phone-compatible mode: optimized for GSM/AMR codecs
 // Based on real-world phone codec analysis:
@@ -16,6 +16,7 @@ export const PHONE_MODE = {
   TONE_SPACING: 500,          // Wide spacing to avoid confusion
   FREQUENCY_JITTER: 20,       // Slightly more tolerance
   WARMUP_DURATION_MS: 200,
+  WARMUP_MAX_HZ: 2000,        // Warmup tone stays where speakers respond well
   CHIRP_DURATION_MS: 800,
   CALIBRATION_DURATION_MS: 150,
   CALIBRATION_REPEATS: 2,
@@ -40,6 +41,7 @@ export const WIDEBAND_MODE = {
   TONE_SPACING: 260,
   FREQUENCY_JITTER: 10,
   WARMUP_DURATION_MS: 400,       // Longer warmup for AGC settling (was 200)
+  WARMUP_MAX_HZ: 2000,
   CHIRP_DURATION_MS: 1200,       // Longer chirp for reliable detection (was 800)
   CALIBRATION_DURATION_MS: 120,
   CALIBRATION_REPEATS: 3,        // More calibration repeats for reliability (was 2)
@@ -51,6 +53,81 @@ export const WIDEBAND_MODE = {
   BITS_PER_SYMBOL: 4,
 };
 
+// Ultrasonic mode: near-inaudible transfers between laptops in the same room
+// - Most adults hear little above 17 kHz, while laptop speakers and mics
+//   still reproduce up to ~20 kHz
+// - Needs a 44.1/48 kHz path end to end (no phone calls or voice codecs)
+// - Few, widely spaced tones: speaker response falls off steeply near 20 kHz
+export const ULTRASONIC_MODE = {
+  SAMPLE_RATE: 48000,
+  FALLBACK_SAMPLE_RATE: 44100,
+  SYMBOL_DURATION_MS: 50,
+  GUARD_INTERVAL_MS: 12,         // Long fades keep tone changes from clicking audibly
+  NUM_TONES: 4,
+  BASE_FREQUENCY: 17600,
+  TONE_SPACING: 600,
+  FREQUENCY_JITTER: 20,
+  WARMUP_DURATION_MS: 400,
+  WARMUP_MAX_HZ: 20000,          // Warmup stays in the inaudible band too
+  CHIRP_DURATION_MS: 1200,
+  CALIBRATION_DURATION_MS: 150,
+  CALIBRATION_REPEATS: 2,
+  SYNC_DURATION_MS: 100,
+  CHIRP_START_HZ: 17200,
+  CHIRP_PEAK_HZ: 19800,
+  CALIBRATION_TONES: [0, 1, 2, 3] as number[],
+  SYNC_PATTERN: [0, 3, 0, 3, 0, 3, 0, 3] as number[],
+  BITS_PER_SYMBOL: 2,
+  // Tone frequencies: 17600, 18200, 18800, 19400 Hz
+};
+
+// Multitone mode: several tones at once for cable or quiet-room transfers
+// - Preamble is wideband's (same chirp and calibration); only the sync
+//   pattern differs, which is how the decoder tells the two apart
+// - After the sync, every symbol sends one tone in each of the MULTITONE
+//   subcarriers (see below), so it carries 32 bits instead of 4
+export const MULTITONE_MODE = {
+  ...WIDEBAND_MODE,
+  SYNC_PATTERN: [0, 15, 15, 0, 0, 15, 15, 0] as number[],  // Never matches wideband's alternation
+  BITS_PER_SYMBOL: 32,           // SUBCARRIERS x 2 bits per data symbol
+};
+
+// Multitone data symbols: SUBCARRIERS groups of 4 adjacent tones, one tone
+// sent from each group (2 bits per subcarrier)
+// 100 Hz spacing is three times the resolution of the 30 ms analysis window
+export const MULTITONE = {
+  SUBCARRIERS: 16,
+  TONES_PER_SUBCARRIER: 4,
+  BASE_FREQUENCY: 1000,
+  TONE_SPACING: 100,             // Tones: 1000-7300 Hz
+};
+
+/**
+ * Get the frequencies of a multitone subcarrier's tones
+ */
+export function getSubcarrierFrequencies(subcarrier: number): number[] {
+  const first = subcarrier * MULTITONE.TONES_PER_SUBCARRIER;
+  return Array.from(
+    { length: MULTITONE.TONES_PER_SUBCARRIER },
+    (_, t) => MULTITONE.BASE_FREQUENCY + (first + t) * MULTITONE.TONE_SPACING
+  );
+}
+
+/** Parameter block of each audio mode */
+export const AUDIO_MODES: Record<AudioMode, typeof PHONE_MODE> = {
+  phone: PHONE_MODE,
+  wideband: WIDEBAND_MODE,
+  ultrasonic: ULTRASONIC_MODE,
+  multitone: MULTITONE_MODE,
+};
+
+/**
+ * Check if a string names an audio mode
+ */
+export function isAudioMode(value: string): value is AudioMode {
+  return Object.prototype.hasOwnProperty.call(AUDIO_MODES, value);
+}
+
 // Current audio mode - mutable object that gets updated
 export const AUDIO = { ...PHONE_MODE };
 
@@ -62,7 +139,7 @@ let currentMode: AudioMode = 'phone';
 
 export function setAudioMode(mode: AudioMode): void {
   currentMode = mode;
-  const settings = mode === 'phone' ? PHONE_MODE : WIDEBAND_MODE;
+  const settings = AUDIO_MODES[mode];
 
   // Update AUDIO object in place
   Object.assign(AUDIO, settings);
@@ -104,9 +181,15 @@ export const FRAME = {
   DATA_MAGIC: 'D',
   CURRENT_VERSION: 0x02,
 
-  // Compression algorithms (in flags)
+  // Compression algorithms (the header flags say whether the data is
+  // compressed; the header extension names any algorithm but DEFLATE)
   COMPRESSION_NONE: 0,
   COMPRESSION_DEFLATE: 1,
+  COMPRESSION_DEFLATE_RAW: 2,     // DEFLATE without the zlib header and checksum (6 bytes less)
+  COMPRESSION_DICTIONARY: 3,      // Raw DEFLATE with the preset dictionary (encode/dictionary.ts)
+  COMPRESSION_DIGITS: 4,          // Digits and a few separators, 4 bits each (encode/alphabet.ts)
+  COMPRESSION_UPPERCASE: 5,       // Uppercase letters, digits and punctuation, 6 bits each
+  COMPRESSION_PERSIAN: 6,         // Persian letters, digits and punctuation, 6 bits each
 };
 
 /**
@@ -125,6 +208,20 @@ export const FRAME_V3 = {
   HEADER_MAGIC: 'N3',       // v3 magic
   DATA_MAGIC: 'D',          // Same data magic
 
+  // Header extension (sent after the header when FLAG_EXTENDED is set)
+  EXTENSION_MAGIC: 'X',
+  EXTENSION_SIZE: 12,
+
+  // Data frame header: magic + index + length (index is 2 bytes when wide)
+  DATA_HEADER_SIZE: 3,
+  WIDE_DATA_HEADER_SIZE: 4,
+
+  // Largest frame count that fits the 1-byte header field / frame index
+  MAX_NARROW_FRAMES: 255,
+
+  // Largest number of chained segments (1-byte segment count)
+  MAX_SEGMENTS: 255,
+
   // Version
   CURRENT_VERSION: 0x03,    // v3 protocol
 
@@ -133,11 +230,88 @@ export const FRAME_V3 = {
 } as const;
 
 
+/**
+ * ARQ control messages (half-duplex ACK/NACK replies)
+ * Sent as the payload of a transmission whose header extension carries
+ * the control flag
+ */
+export const ARQ = {
+  MAGIC: 'A',
+  RECORD_HEADER_SIZE: 7,    // magic + type + session ID + segment + missing count
+  MAX_RETRANSMIT_FRAMES: 255, // frames per retransmission (1-byte extension field)
+} as const;
+
+/**
+ * Message metadata block (file name, MIME type, creation time, label)
+ * Precedes the data when the header extension carries the metadata flag
+ */
+export const METADATA = {
+  MAGIC: 'M',
+  BLOCK_HEADER_SIZE: 3,     // magic + fields length
+  MAX_FIELD_BYTES: 255,     // 1-byte field length
+} as const;
+
+/**
+ * File bundle: several files sent as one message
+ * The data is a bundle when the header extension carries the bundle flag
+ */
+export const BUNDLE = {
+  MAGIC: 'B',
+  HEADER_SIZE: 2,           // magic + file count
+  ENTRY_FIXED_SIZE: 9,      // name length + size (4) + CRC32 (4)
+  MAX_FILES: 255,           // 1-byte file count
+  MAX_NAME_BYTES: 255,      // 1-byte name length
+} as const;
+
+/**
+ * Compact config: proxy links and WireGuard configs in a binary form
+ * The data is a compact config when the header extension carries the config flag
+ */
+export const COMPACT_CONFIG = {
+  MAGIC: 'C',
+  MAX_LITERAL_BYTES: 255,   // 1-byte literal length; longer text takes several literals
+  MAX_STRINGS: 128,         // String token IDs 0x80-0xFF
+  MIN_SAVING: 3,            // Bytes a token must save (splitting a literal costs 2)
+  MIN_BASE64_TEXT: 16,      // Shortest base64 run tried as encoded text
+} as const;
+
+/**
+ * Channel probe (sounding) transmission
+ * A phone-mode preamble (it survives every channel) with its own sync
+ * pattern, then a silent slot for the noise floor and one tone per sounding
+ * frequency, from low to high
+ */
+export const PROBE = {
+  MODE: 'phone' as AudioMode,
+  SYNC_PATTERN: [3, 0, 0, 3, 3, 0, 0, 3] as number[],  // Never matches phone's alternation
+  SILENCE_MS: 300,
+  TONE_MS: 60,
+  GUARD_MS: 5,
+  // Audible band in 250 Hz steps, then the ultrasonic band in 500 Hz steps
+  FREQUENCIES: [
+    ...Array.from({ length: 31 }, (_, i) => 500 + i * 250),    // 500-8000 Hz
+    ...Array.from({ length: 7 }, (_, i) => 17000 + i * 500),   // 17000-20000 Hz
+  ] as number[],
+};
+
+/**
+ * Repair frames (rateless broadcast mode)
+ * Data frames are grouped into blocks; each block gets repair frames that
+ * combine its frames, so any N of a block's N+K frames rebuild it
+ */
+export const REPAIR = {
+  MAX_BLOCK_FRAMES: 128,      // data frames per block (block + repair frames must fit GF(256))
+  MAX_OVERHEAD_PERCENT: 100,  // repair frames per block, as a share of its data frames
+} as const;
+
 // Limits
 export const LIMITS = {
   MAX_PAYLOAD_BYTES: 100 * 1024, // 100KB hard limit
   SOFT_LIMIT_BYTES: 50 * 1024,   // 50KB soft limit with warning
   QR_MAX_BYTES: 2 * 1024,        // 2KB max for QR code
+  MAX_CHAINED_PAYLOAD_BYTES: 1024 * 1024, // 1MB hard limit across chained segments
+  MIN_SEGMENT_BYTES: 1024,       // Smallest segment size for chained transmissions
+  SEGMENT_GAP_MS: 1000,          // Silence between chained segments
 } as const;
 
 // Effective bitrate calculation (phone-compatible mode):
@@ -12,6 +12,20 @@ export function bytesToString(bytes: Uint8Array): string {
   return new TextDecoder().decode(bytes);
 }
 
+/**
+ * Check whether bytes are text: valid UTF-8 without NUL bytes
+ * (binary files such as images and archives fail one or the other)
+ */
+export function isText(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Generate a random session ID (4 bytes)
  */
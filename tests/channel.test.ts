@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { applyChannel, createRandom, signalPower, validateChannel, CHANNEL_PRESETS } from '../src/lib/channel';
+import { simulateTransmission } from '../src/decode/simulate';
+import { encodeString } from '../src/encode/index';
+import { getAudioMode, setAudioMode } from '../src/utils/constants';
+
+const SAMPLE_RATE = 48000;
+
+function tone(frequency: number, seconds = 0.5, amplitude = 0.5): Float32Array {
+  return new Float32Array(Math.round(seconds * SAMPLE_RATE)).map((_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+}
+
+// Level of a frequency in the audio (correlation with a sine and cosine)
+function levelAt(samples: Float32Array, frequency: number): number {
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < samples.length; i++) {
+    re += samples[i] * Math.cos(2 * Math.PI * frequency * i / SAMPLE_RATE);
+    im += samples[i] * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+  }
+  return 2 * Math.hypot(re, im) / samples.length;
+}
+
+describe('Channel simulator', () => {
+  it('should give the same samples for the same seed', () => {
+    const input = tone(1000);
+    const config = { snrDb: 10, dropoutRate: 4, seed: 42 };
+
+    expect(applyChannel(input, SAMPLE_RATE, config)).toEqual(applyChannel(input, SAMPLE_RATE, config));
+    expect(applyChannel(input, SAMPLE_RATE, { ...config, seed: 43 })).not.toEqual(applyChannel(input, SAMPLE_RATE, config));
+  });
+
+  it('should leave the input unchanged', () => {
+    const input = tone(1000);
+    const copy = new Float32Array(input);
+    applyChannel(input, SAMPLE_RATE, CHANNEL_PRESETS['gsm-call']);
+    expect(input).toEqual(copy);
+  });
+
+  it('should add noise at the requested SNR', () => {
+    const input = tone(1000, 2);
+    const output = applyChannel(input, SAMPLE_RATE, { snrDb: 10 });
+    const noise = output.map((x, i) => x - input[i]);
+
+    expect(10 * Math.log10(signalPower(input) / signalPower(noise))).toBeCloseTo(10, 0);
+  });
+
+  it('should draw uniform numbers in [0, 1)', () => {
+    const random = createRandom(7);
+    const values = Array.from({ length: 10000 }, random);
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    expect(values.reduce((sum, x) => sum + x, 0) / values.length).toBeCloseTo(0.5, 1);
+  });
+
+  it('should pass the telephone band and cut below and above it', () => {
+    const filter = (frequency: number) => levelAt(applyChannel(tone(frequency), SAMPLE_RATE, { telephone: true }).subarray(4800), frequency) / 0.5;
+
+    expect(filter(1000)).toBeGreaterThan(0.9);
+    expect(filter(100)).toBeLessThan(0.15);
+    expect(filter(8000)).toBeLessThan(0.05);
+  });
+
+  it('should clip at the given fraction of the peak', () => {
+    const output = applyChannel(tone(1000), SAMPLE_RATE, { clipLevel: 0.5 });
+    expect(Math.max(...output.map(Math.abs))).toBeCloseTo(0.25, 5);
+  });
+
+  it('should stretch the audio and lower its tones with clock drift', () => {
+    const input = tone(1000, 1);
+    const output = applyChannel(input, SAMPLE_RATE, { driftPpm: 1000 });
+
+    expect(output.length).toBe(Math.floor((input.length - 1) * 1.001) + 1);
+    expect(levelAt(output, 999)).toBeGreaterThan(levelAt(output, 1001));
+  });
+
+  it('should shift tones by the frequency offset', () => {
+    const output = applyChannel(tone(1000), SAMPLE_RATE, { frequencyOffsetHz: 50 }).subarray(4800);
+
+    expect(levelAt(output, 1050)).toBeGreaterThan(0.45);
+    expect(levelAt(output, 950)).toBeLessThan(0.02);
+  });
+
+  it('should carry a phone-band tone through the codec models', () => {
+    for (const codec of ['amr', 'gsm'] as const) {
+      const output = applyChannel(tone(1200), SAMPLE_RATE, { codec }).subarray(4800);
+      expect(levelAt(output, 1200)).toBeGreaterThan(0.3);
+      expect(levelAt(output, 5000)).toBeLessThan(0.01);
+    }
+  });
+
+  it('should reject out-of-range settings', () => {
+    expect(validateChannel(CHANNEL_PRESETS['phone-call'])).toBeNull();
+    expect(validateChannel({ clipLevel: 0 })).toMatch(/Clip level/);
+    expect(validateChannel({ echoMs: 50, echoGain: 1 })).toMatch(/Echo gain/);
+    expect(validateChannel({ snrDb: NaN })).toMatch(/SNR/);
+  });
+});
+
+describe('Channel simulation', () => {
+  it('should decode a phone-mode message through a GSM call', async () => {
+    const previousMode = getAudioMode();
+    setAudioMode('phone');
+    try {
+      const transmission = await encodeString('Meet at the north gate at 9');
+      const result = await simulateTransmission(transmission, { ...CHANNEL_PRESETS['gsm-call'], seed: 3 });
+
+      expect(result.success).toBe(true);
+      expect(result.result?.text).toBe('Meet at the north gate at 9');
+      expect(result.framesReceived).toBe(result.totalFrames);
+      expect(result.errorsFixed).toBeGreaterThanOrEqual(0);
+    } finally {
+      setAudioMode(previousMode);
+    }
+  }, 60000);
+
+  it('should fail with a reason when the channel drops too much', async () => {
+    const transmission = await encodeString('x'.repeat(200) + ' the quick brown fox jumps over the lazy dog'.repeat(4));
+    const result = await simulateTransmission(transmission, { dropoutRate: 20, dropoutMs: 40, seed: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  }, 60000);
+});
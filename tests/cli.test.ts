@@ -1,9 +1,13 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { execSync, spawnSync, spawn, ChildProcess } from 'child_process';
-import { existsSync, unlinkSync, mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { existsSync, unlinkSync, mkdtempSync, rmSync, readFileSync, readdirSync, writeFileSync } from 'fs';
 import http from 'http';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import { parseWavFile, writeWavFile } from '../cli/wav-io';
+import OpusScript from 'opusscript';
+import { encodeArqMessage, encodeString } from '../src/encode/index';
+import { createOggOpus } from '../src/lib/ogg';
 
 // Build CLI before tests
 beforeAll(() => {
@@ -24,10 +28,12 @@ afterAll(() => {
   }
 });
 
-const cli = (args: string[]) => {
+const cli = (args: string[], input?: Buffer, env?: NodeJS.ProcessEnv) => {
   const result = spawnSync('node', ['dist-cli/nedagram-cli/index.cjs', ...args], {
     encoding: 'utf-8',
     timeout: 60000,
+    input,
+    env: env && { ...process.env, ...env },
   });
   return {
     stdout: result.stdout || '',
@@ -154,6 +160,83 @@ describe('CLI', () => {
       expect(result.status).toBe(1);
       expect(result.stderr).toContain('Error');
     });
+
+    it('should decode a WAV stream from stdin', () => {
+      const wavFile = join(testDir, 'decode-stdin.wav');
+      const message = 'Piped from a recorder';
+      cli(['encode', message, '-o', wavFile, '-q']);
+
+      // Streaming writers leave the data size at its maximum
+      const wav = readFileSync(wavFile);
+      wav.writeUInt32LE(0xffffffff, 40);
+
+      const result = cli(['decode', '-', '-q'], wav);
+      expect(result.status).toBe(0);
+      expect(result.stdout.trim()).toBe(message);
+    });
+
+    it('should decode raw PCM from stdin', () => {
+      const wavFile = join(testDir, 'decode-raw.wav');
+      const message = 'Raw samples';
+      cli(['encode', message, '-o', wavFile, '-q']);
+
+      const { samples } = parseWavFile(wavFile);
+      const s16 = Buffer.from(readFileSync(wavFile).subarray(44));
+      const f32 = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+
+      const fromS16 = cli(['decode', '-', '--raw', '--rate', '48000', '-q'], s16);
+      expect(fromS16.status).toBe(0);
+      expect(fromS16.stdout.trim()).toBe(message);
+
+      const fromF32 = cli(['decode', '-', '--raw', '--format', 'f32le', '-q'], f32);
+      expect(fromF32.status).toBe(0);
+      expect(fromF32.stdout.trim()).toBe(message);
+    });
+
+    it('should decode every message in a recording with --all', () => {
+      const first = join(testDir, 'all-1.wav');
+      const secret = join(testDir, 'all-2.wav');
+      const last = join(testDir, 'all-3.wav');
+      cli(['encode', 'First of many', '-m', 'wideband', '-o', first, '-q']);
+      cli(['encode', 'Locked', '-m', 'wideband', '-e', '-p', 'pw', '-o', secret, '-q']);
+      cli(['encode', 'Last of many', '-m', 'multitone', '-o', last, '-q']);
+
+      // Two seconds of silence before each message
+      const silence = new Float32Array(96000);
+      const parts = [first, secret, last].flatMap(f => [silence, parseWavFile(f).samples]);
+      const recording = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+      parts.reduce((offset, p) => (recording.set(p, offset), offset + p.length), 0);
+      const wavFile = join(testDir, 'all.wav');
+      writeWavFile(wavFile, recording, 48000);
+
+      const result = cli(['decode', wavFile, '--all', '--json']);
+      expect(result.status).toBe(0);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.decoded).toBe(2);
+      expect(json.failed).toBe(1);
+      expect(json.messages.map((m: { message?: string }) => m.message)).toEqual(['First of many', undefined, 'Last of many']);
+      expect(json.messages[1].encrypted).toBe(true);
+      expect(json.messages[0].start).toBeCloseTo(2, 1);
+      expect(json.messages[0].end).toBeLessThan(json.messages[1].start);
+
+      const text = cli(['decode', wavFile, '--all', '-q']);
+      expect(text.status).toBe(0);
+      expect(text.stdout.trim().split('\n')).toEqual(['First of many', 'Last of many']);
+      expect(text.stderr).toContain('[0:00:02.0 - ');
+    });
+
+    it('should reject --all with a single output file', () => {
+      const result = cli(['decode', 'any.wav', '--all', '-o', 'out.txt']);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('--all cannot be combined');
+    });
+
+    it('should reject an unknown raw format', () => {
+      const result = cli(['decode', '-', '--raw', '--format', 'u8'], Buffer.alloc(0));
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Invalid raw format');
+    });
   });
 
   describe('Encryption Roundtrip', () => {
@@ -192,6 +275,402 @@ describe('CLI', () => {
       // Should return empty or fail
       expect(result.stdout.trim()).not.toBe('Secret');
     });
+
+    it('should decode a message sealed with a chosen KDF', () => {
+      const wavFile = join(testDir, 'encrypted-pbkdf2.wav');
+      const message = 'Sealed with PBKDF2';
+
+      const encodeResult = cli(['encode', message, '-o', wavFile, '-e', '-p', 'secret', '--kdf', 'pbkdf2:i=1000']);
+      expect(encodeResult.status).toBe(0);
+      expect(encodeResult.stderr).toContain('pbkdf2 (1000 iterations)');
+
+      const decodeResult = cli(['decode', wavFile, '-p', 'secret', '-q']);
+      expect(decodeResult.stdout.trim()).toBe(message);
+    });
+
+    it('should reject --kdf without encryption or with an unknown KDF', () => {
+      const wavFile = join(testDir, 'kdf-fail.wav');
+
+      expect(cli(['encode', 'Test', '-o', wavFile, '--kdf', 'pbkdf2']).status).toBe(1);
+      const unknown = cli(['encode', 'Test', '-o', wavFile, '-e', '-p', 'secret', '--kdf', 'scrypt']);
+      expect(unknown.status).toBe(1);
+      expect(unknown.stderr).toContain('Unknown KDF');
+    });
+  });
+
+  describe('Public-Key Encryption', () => {
+    it('should write a key pair and export its public key', () => {
+      const name = join(testDir, 'keys-export');
+      const result = cli(['keygen', '-o', name, '--json']);
+      expect(result.status).toBe(0);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.publicKey).toMatch(/^nedagram-pk-/);
+      expect(json.privateKey).toBeUndefined();
+      expect(readFileSync(`${name}.key`, 'utf-8')).toMatch(/^nedagram-sk-/);
+      expect(readFileSync(`${name}.pub`, 'utf-8').trim()).toBe(json.publicKey);
+
+      const exported = cli(['keygen', '--from', `${name}.key`]);
+      expect(exported.stdout.trim()).toBe(json.publicKey);
+
+      // A private key is never overwritten
+      expect(cli(['keygen', '-o', name, '-q']).status).toBe(1);
+    });
+
+    it('should encode to a public key and decode with the private key', () => {
+      const name = join(testDir, 'keys-roundtrip');
+      const wavFile = join(testDir, 'public-key.wav');
+      const message = 'Only the holder of the private key reads this';
+      cli(['keygen', '-o', name, '-q']);
+
+      const encodeResult = cli(['encode', message, '--to', `${name}.pub`, '-o', wavFile, '--json']);
+      expect(encodeResult.status).toBe(0);
+      expect(JSON.parse(encodeResult.stdout).encrypted).toBe(true);
+
+      const decodeResult = cli(['decode', wavFile, '-k', `${name}.key`, '-q']);
+      expect(decodeResult.status).toBe(0);
+      expect(decodeResult.stdout.trim()).toBe(message);
+
+      // The private key can also be given directly
+      const privateKey = readFileSync(`${name}.key`, 'utf-8').trim();
+      expect(cli(['decode', wavFile, '--key', privateKey, '-q']).stdout.trim()).toBe(message);
+    });
+
+    it('should ask for the private key, and reject the wrong one', () => {
+      const name = join(testDir, 'keys-missing');
+      const other = join(testDir, 'keys-other');
+      const wavFile = join(testDir, 'public-key-locked.wav');
+      cli(['keygen', '-o', name, '-q']);
+      cli(['keygen', '-o', other, '-q']);
+      cli(['encode', 'Locked', '--to', `${name}.pub`, '-o', wavFile, '-q']);
+
+      const missing = cli(['decode', wavFile, '--json']);
+      expect(missing.status).toBe(1);
+      const json = JSON.parse(missing.stdout);
+      expect(json.encrypted).toBe(true);
+      expect(json.error).toContain('-k');
+
+      const wrong = cli(['decode', wavFile, '-k', `${other}.key`, '-q']);
+      expect(wrong.status).toBe(1);
+      expect(wrong.stdout.trim()).not.toBe('Locked');
+    });
+
+    it('should reject a password together with --to', () => {
+      const name = join(testDir, 'keys-both');
+      cli(['keygen', '-o', name, '-q']);
+
+      const result = cli(['encode', 'Hello', '--to', `${name}.pub`, '-e', '-p', 'pw', '-o', join(testDir, 'both.wav')]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('not both');
+    });
+  });
+
+  describe('Signatures', () => {
+    it('should report the signer in decode --json', () => {
+      const name = join(testDir, 'signing');
+      const wavFile = join(testDir, 'signed.wav');
+      const message = 'Signed by headquarters';
+      const keys = JSON.parse(cli(['keygen', '--sign', '-o', name, '--json']).stdout);
+      expect(keys.publicKey).toMatch(/^nedagram-spk-/);
+      expect(cli(['keygen', '--from', `${name}.key`]).stdout.trim()).toBe(keys.publicKey);
+
+      const encodeResult = cli(['encode', message, '--sign', `${name}.key`, '-o', wavFile, '--json']);
+      expect(encodeResult.status).toBe(0);
+      expect(JSON.parse(encodeResult.stdout).signer).toBe(keys.publicKey);
+
+      const decodeResult = cli(['decode', wavFile, '--json']);
+      expect(decodeResult.status).toBe(0);
+      const json = JSON.parse(decodeResult.stdout);
+      expect(json.message).toBe(message);
+      expect(json.signature).toEqual({ signer: keys.publicKey, valid: true });
+
+      // Unsigned messages carry no signature
+      cli(['encode', message, '-o', wavFile, '-q']);
+      expect(JSON.parse(cli(['decode', wavFile, '--json']).stdout).signature).toBeUndefined();
+    });
+
+    it('should reject an encryption key as a signing key', () => {
+      const name = join(testDir, 'signing-wrong-kind');
+      cli(['keygen', '-o', name, '-q']);
+
+      const result = cli(['encode', 'Hello', '--sign', `${name}.key`, '-o', join(testDir, 'wrong-kind.wav')]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('signing key');
+    });
+  });
+
+  describe('Pre-shared keys', () => {
+    it('should decode with the matching key from a keyring file', () => {
+      const lastWeek = join(testDir, 'week-41');
+      const thisWeek = join(testDir, 'week-42');
+      const wavFile = join(testDir, 'psk.wav');
+      const message = 'Rotate frequencies at noon';
+      cli(['keygen', '--psk', '-o', lastWeek, '-q']);
+      const keyId = cli(['keygen', '--psk', '-o', thisWeek, '-q']).stdout.trim();
+      expect(keyId).toMatch(/^[0-9a-f]{6}$/);
+      expect(cli(['keygen', '--from', `${thisWeek}.psk`]).stdout.trim()).toBe(keyId);
+
+      const encodeResult = cli(['encode', message, '--key-file', `${thisWeek}.psk`, '-o', wavFile, '--json']);
+      expect(encodeResult.status).toBe(0);
+      expect(JSON.parse(encodeResult.stdout).keyId).toBe(keyId);
+
+      const keyring = join(testDir, 'team-keys.psk');
+      writeFileSync(keyring, `# team keys\n${readFileSync(`${lastWeek}.psk`, 'utf-8')}${readFileSync(`${thisWeek}.psk`, 'utf-8')}`);
+      const decodeResult = cli(['decode', wavFile, '--key-file', keyring, '-q']);
+      expect(decodeResult.status).toBe(0);
+      expect(decodeResult.stdout.trim()).toBe(message);
+
+      // Without the key, the message asks for it by ID
+      const missing = cli(['decode', wavFile, '--key-file', `${lastWeek}.psk`, '--json']);
+      expect(missing.status).toBe(1);
+      expect(JSON.parse(missing.stdout).keyId).toBe(keyId);
+    });
+
+    it('should reject a pre-shared key combined with a password', () => {
+      const name = join(testDir, 'psk-conflict');
+      cli(['keygen', '--psk', '-o', name, '-q']);
+
+      const result = cli(['encode', 'Hello', '--key-file', `${name}.psk`, '-e', '-p', 'secret', '-o', join(testDir, 'psk-conflict.wav')]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('not both');
+    });
+  });
+
+  describe('Message Metadata', () => {
+    it('should save the message under the sender\'s file name in a directory', () => {
+      const inputFile = join(testDir, 'wg0.conf');
+      const wavFile = join(testDir, 'metadata.wav');
+      const outputDir = mkdtempSync(join(testDir, 'received-'));
+      const message = '[Interface]\nAddress = 10.0.0.2/24';
+      writeFileSync(inputFile, message);
+
+      const encoded = JSON.parse(cli(['encode', '-f', inputFile, '--meta', '--label', 'office vpn', '-o', wavFile, '--json']).stdout);
+      expect(encoded.metadata.filename).toBe('wg0.conf');
+      expect(encoded.metadata.label).toBe('office vpn');
+
+      const result = JSON.parse(cli(['decode', wavFile, '-o', outputDir, '--json']).stdout);
+      expect(result.metadata.filename).toBe('wg0.conf');
+      expect(result.metadata.label).toBe('office vpn');
+      expect(result.bytes).toBe(message.length);
+      expect(result.output).toBe(join(outputDir, 'wg0.conf'));
+      expect(readFileSync(join(outputDir, 'wg0.conf'), 'utf-8')).toBe(message);
+
+      // A second copy does not overwrite the first
+      const again = JSON.parse(cli(['decode', wavFile, '-o', outputDir, '--json']).stdout);
+      expect(again.output).toBe(join(outputDir, `wg0-${result.sha256.slice(0, 8)}.conf`));
+    });
+
+    it('should require an input file for --meta', () => {
+      const result = cli(['encode', 'Hello', '--meta', '-o', join(testDir, 'meta-invalid.wav')]);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Use it with -f');
+    });
+  });
+
+  describe('Binary Files', () => {
+    // Bytes that are not text: NULs and invalid UTF-8, as in images and archives
+    const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0xff, 0xfe, 0x20, 0x0a, 0x80, 0x00]);
+
+    it('should send a binary file byte for byte', () => {
+      const inputFile = join(testDir, 'image.png');
+      const wavFile = join(testDir, 'binary.wav');
+      const outputFile = join(testDir, 'image-received.png');
+      writeFileSync(inputFile, binary);
+
+      const encoded = JSON.parse(cli(['encode', '-f', inputFile, '-o', wavFile, '--json']).stdout);
+      expect(encoded.binary).toBe(true);
+      expect(encoded.bytes).toBe(binary.length);
+
+      const result = JSON.parse(cli(['decode', wavFile, '-o', outputFile, '--json']).stdout);
+      expect(result.binary).toBe(true);
+      expect(result.sha256).toBe(encoded.sha256);
+      expect(Buffer.from(result.message, 'base64').equals(binary)).toBe(true);
+      expect(readFileSync(outputFile).equals(binary)).toBe(true);
+
+      // Piped output is the raw bytes, without a trailing newline
+      const piped = spawnSync('node', ['dist-cli/nedagram-cli/index.cjs', 'decode', wavFile, '-q'], { timeout: 60000 });
+      expect(piped.stdout.equals(binary)).toBe(true);
+    });
+
+    it('should keep text untouched with --binary', () => {
+      const inputFile = join(testDir, 'exact.txt');
+      const wavFile = join(testDir, 'binary-text.wav');
+      const message = '  indented\r\nlines\r\n';
+      writeFileSync(inputFile, message);
+
+      cli(['encode', '-f', inputFile, '--binary', '-o', wavFile, '-q']);
+      const result = JSON.parse(cli(['decode', wavFile, '--binary', '--json']).stdout);
+
+      expect(result.binary).toBe(true);
+      expect(Buffer.from(result.message, 'base64').toString('utf-8')).toBe(message);
+    });
+  });
+
+  describe('File Bundles', () => {
+    it('should send several files and write them into a directory', () => {
+      const configFile = join(testDir, 'client.ovpn');
+      const certFile = join(testDir, 'ca.der');
+      const wavFile = join(testDir, 'bundle.wav');
+      const outputDir = join(testDir, 'bundle-received');
+      const config = 'client\nremote vpn.example.com 1194';
+      const cert = Buffer.from([0x30, 0x82, 0x01, 0x0a, 0x00, 0xff]);
+      writeFileSync(configFile, config);
+      writeFileSync(certFile, cert);
+
+      const encoded = JSON.parse(cli(['encode', '-f', configFile, '-f', certFile, '-o', wavFile, '--json']).stdout);
+      expect(encoded.files).toEqual([{ name: 'client.ovpn', bytes: config.length }, { name: 'ca.der', bytes: cert.length }]);
+
+      const result = JSON.parse(cli(['decode', wavFile, '-o', outputDir, '--json']).stdout);
+      expect(result.sha256).toBe(encoded.sha256);
+      expect(result.message).toBeUndefined();
+      expect(result.files.map((file: { name: string }) => file.name)).toEqual(['client.ovpn', 'ca.der']);
+      expect(Buffer.from(result.files[1].data, 'base64').equals(cert)).toBe(true);
+      expect(readFileSync(join(outputDir, 'client.ovpn'), 'utf-8')).toBe(config);
+      expect(readFileSync(join(outputDir, 'ca.der')).equals(cert)).toBe(true);
+    });
+
+    it('should not take --meta for several files', () => {
+      const file = join(testDir, 'bundle-meta.txt');
+      writeFileSync(file, 'x');
+      const result = cli(['encode', '-f', file, '-f', join(testDir, 'client.ovpn'), '--meta', '-o', join(testDir, 'bundle-meta.wav')]);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('--meta');
+    });
+  });
+
+  describe('Compact Configs', () => {
+    it('should send a link as a compact config and decode the same text', () => {
+      const wavFile = join(testDir, 'compact.wav');
+      const link = 'vmess://' + Buffer.from('{"v":"2","ps":"home","add":"203.0.113.20","port":"443","id":"a3482e88-686a-4a58-8126-99c9df64b7bf","aid":"0","net":"ws"}').toString('base64');
+
+      const encoded = JSON.parse(cli(['encode', link, '--compact', '-o', wavFile, '--json']).stdout);
+      expect(encoded.compact).toBe(true);
+
+      const result = JSON.parse(cli(['decode', wavFile, '--json']).stdout);
+      expect(result.message).toBe(link);
+      expect(result.sha256).toBe(encoded.sha256);
+    });
+  });
+
+  describe('Compressed Recordings', () => {
+    // Stands in for ffmpeg: its "OGG" and "AMR" files are the format's magic
+    // followed by a 48 kHz 16-bit WAV
+    let decoder: string;
+    let oggFile: string;
+
+    beforeAll(() => {
+      decoder = join(testDir, 'fake-ffmpeg.cjs');
+      writeFileSync(decoder, `#!/usr/bin/env node
+const args = process.argv.slice(2);
+if (args[0] === '-version') process.exit(0);
+const chunks = [];
+process.stdin.on('data', chunk => chunks.push(chunk));
+process.stdin.on('end', () => {
+  const input = Buffer.concat(chunks);
+  if (args.includes('-c:a')) {
+    const magic = { ogg: 'OggS', amr: '#!AMR\\n' }[args[args.lastIndexOf('-f') + 1]];
+    const wav = Buffer.alloc(44 + input.length / 2);
+    wav.write('RIFF', 0); wav.writeUInt32LE(wav.length - 8, 4); wav.write('WAVEfmt ', 8);
+    wav.writeUInt32LE(16, 16); wav.writeUInt16LE(1, 20); wav.writeUInt16LE(1, 22);
+    wav.writeUInt32LE(48000, 24); wav.writeUInt32LE(96000, 28); wav.writeUInt16LE(2, 32); wav.writeUInt16LE(16, 34);
+    wav.write('data', 36); wav.writeUInt32LE(input.length / 2, 40);
+    for (let i = 0; i < input.length / 4; i++) wav.writeInt16LE(Math.round(input.readFloatLE(i * 4) * 32767), 44 + i * 2);
+    process.stdout.write(Buffer.concat([Buffer.from(magic), wav]));
+    return;
+  }
+  const pcm = input.subarray(input.indexOf('RIFF') + 44);
+  const out = Buffer.alloc(pcm.length * 2);
+  for (let i = 0; i + 1 < pcm.length; i += 2) out.writeFloatLE(pcm.readInt16LE(i) / 32768, i * 2);
+  process.stdout.write(out);
+});
+`, { mode: 0o755 });
+
+      const wavFile = join(testDir, 'voice.wav');
+      cli(['encode', 'Sent as a voice message', '-o', wavFile, '-q']);
+      oggFile = join(testDir, 'voice.ogg');
+      writeFileSync(oggFile, Buffer.concat([Buffer.from('OggS'), readFileSync(wavFile)]));
+    });
+
+    it('should decode a compressed recording through the decoder', () => {
+      const result = cli(['decode', oggFile, '-q'], undefined, { NEDAGRAM_FFMPEG: decoder });
+      expect(result.status).toBe(0);
+      expect(result.stdout.trim()).toBe('Sent as a voice message');
+    });
+
+    it('should decode a compressed recording from stdin', () => {
+      const result = cli(['decode', '-', '-q'], readFileSync(oggFile), { NEDAGRAM_FFMPEG: decoder });
+      expect(result.status).toBe(0);
+      expect(result.stdout.trim()).toBe('Sent as a voice message');
+    });
+
+    it('should analyze a compressed recording', () => {
+      const result = cli(['analyze', oggFile, '--json'], undefined, { NEDAGRAM_FFMPEG: decoder });
+      expect(result.status).toBe(0);
+      expect(JSON.parse(result.stdout).chirpDetected).toBe(true);
+    });
+
+    it('should explain that ffmpeg is needed when it is missing', () => {
+      const result = cli(['decode', oggFile], undefined, { NEDAGRAM_FFMPEG: join(testDir, 'no-ffmpeg') });
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('OGG audio needs ffmpeg to decode, and it was not found (only OGG/Opus decodes without it).');
+    });
+
+    it('should decode an OGG/Opus voice note without ffmpeg', async () => {
+      // Opus packets from libopus, as a messenger would send them
+      const { audio } = await encodeString('Sent as an Opus voice note');
+      const encoder = new OpusScript(48000, 1, OpusScript.Application.AUDIO);
+      encoder.setBitrate(24000);
+      const packets: Uint8Array[] = [];
+      for (let offset = 0; offset < audio.length; offset += 960) {
+        const pcm = Buffer.alloc(960 * 2);
+        for (let i = 0; i < 960 && offset + i < audio.length; i++) {
+          pcm.writeInt16LE(Math.round(audio[offset + i] * 32767), i * 2);
+        }
+        packets.push(new Uint8Array(encoder.encode(pcm, 960)));
+      }
+      encoder.delete();
+      const opusFile = join(testDir, 'voice-note.opus');
+      writeFileSync(opusFile, createOggOpus(packets, audio.length));
+
+      const env = { NEDAGRAM_FFMPEG: join(testDir, 'no-ffmpeg') };
+      const result = cli(['decode', opusFile, '-q'], undefined, env);
+      expect(result.status).toBe(0);
+      expect(result.stdout.trim()).toBe('Sent as an Opus voice note');
+
+      const streamed = cli(['decode', '-', '-q'], readFileSync(opusFile), env);
+      expect(streamed.stdout.trim()).toBe('Sent as an Opus voice note');
+    }, 60000);
+
+    it('should encode a voice message in OGG and AMR', () => {
+      for (const format of ['ogg', 'amr']) {
+        const file = join(testDir, `voice-note.${format}`);
+        const encoded = JSON.parse(cli(['encode', 'Voice note', '-m', 'phone', '--format', format, '-o', file, '--json'], undefined, { NEDAGRAM_FFMPEG: decoder }).stdout);
+        expect(encoded.format).toBe(format);
+        expect(readFileSync(file).toString('latin1', 0, 4)).toBe(format === 'ogg' ? 'OggS' : '#!AM');
+
+        const result = cli(['decode', file, '-q'], undefined, { NEDAGRAM_FFMPEG: decoder });
+        expect(result.stdout.trim()).toBe('Voice note');
+      }
+    });
+
+    it('should reject output formats that cannot carry the mode', () => {
+      const env = { NEDAGRAM_FFMPEG: decoder };
+      expect(cli(['encode', 'Hi', '--format', 'amr', '-o', join(testDir, 'wide.amr')], undefined, env).stderr).toContain('Use it with -m phone');
+      expect(cli(['encode', 'Hi', '-m', 'ultrasonic', '--format', 'ogg', '-o', join(testDir, 'quiet.ogg')], undefined, env).stderr).toContain('removes ultrasonic tones');
+      expect(cli(['encode', 'Hi', '--format', 'mp3'], undefined, env).stderr).toContain('Invalid output format');
+      expect(cli(['encode', 'Hi', '--bitrate', '24', '-o', join(testDir, 'plain.wav')], undefined, env).stderr).toContain('--bitrate applies to compressed output');
+      expect(cli(['encode', 'Hi', '-m', 'phone', '--format', 'amr', '--bitrate', '16', '-o', join(testDir, 'fast.amr')], undefined, env).stderr).toContain('Invalid bitrate');
+      expect(cli(['encode', 'Hi', '-m', 'phone', '--format', 'amr', '--bitrate', '8', '-o', join(testDir, 'between.amr')], undefined, env).stderr)
+        .toContain('Use one of the AMR-NB modes 4.75, 5.15, 5.9, 6.7, 7.4, 7.95, 10.2 or 12.2 kbit/s');
+    });
+
+    it('should explain that ffmpeg is needed to encode', () => {
+      const result = cli(['encode', 'Hi', '--format', 'ogg', '-o', join(testDir, 'missing.ogg')], undefined, { NEDAGRAM_FFMPEG: join(testDir, 'no-ffmpeg') });
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('OGG/Opus output needs ffmpeg to encode');
+    });
   });
 
   describe('Checksum Verification', () => {
@@ -231,6 +710,237 @@ describe('CLI', () => {
 
       expect(result.stdout.trim()).toBe(message);
     });
+
+    it('should roundtrip with ultrasonic mode', () => {
+      const wavFile = join(testDir, 'ultrasonic-roundtrip.wav');
+      const message = 'Ultrasonic mode roundtrip';
+
+      cli(['encode', message, '-o', wavFile, '-m', 'ultrasonic', '-q']);
+      const result = cli(['decode', wavFile, '-q']);
+
+      expect(result.stdout.trim()).toBe(message);
+    });
+
+    it('should roundtrip with multitone mode', () => {
+      const wavFile = join(testDir, 'multitone-roundtrip.wav');
+      const message = 'Multitone mode roundtrip. '.repeat(40);
+
+      cli(['encode', message, '-o', wavFile, '-m', 'multitone', '-q']);
+      const result = cli(['decode', wavFile, '-q']);
+
+      expect(result.stdout.trim()).toBe(message.trim());
+    });
+
+        it('should reject an unknown mode', () => {
+      const output = join(testDir, 'mode-invalid.wav');
+      const result = cli(['encode', 'Test', '-o', output, '-m', 'infrasonic']);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Invalid mode');
+    });
+  });
+
+  describe('FEC Profiles', () => {
+    it('should roundtrip with light and heavy FEC', () => {
+      for (const fec of ['light', 'heavy']) {
+        const wavFile = join(testDir, `fec-${fec}.wav`);
+        const message = `FEC profile ${fec} roundtrip`;
+
+        const encoded = cli(['encode', message, '-o', wavFile, '--fec', fec, '--json']);
+        expect(JSON.parse(encoded.stdout).fec).toBe(fec);
+
+        const result = cli(['decode', wavFile, '-q']);
+        expect(result.stdout.trim()).toBe(message);
+      }
+    });
+
+    it('should reject an unknown FEC profile', () => {
+      const output = join(testDir, 'fec-invalid.wav');
+      const result = cli(['encode', 'Test', '-o', output, '--fec', 'ultra']);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Invalid FEC profile');
+    });
+  });
+
+  describe('Chained Transmissions', () => {
+    it('should roundtrip a message split into segments', () => {
+      const wavFile = join(testDir, 'chained.wav');
+      const inputFile = join(testDir, 'chained.txt');
+      // Random base64 barely compresses, so 1 KB segments give several transmissions
+      const message = Array.from({ length: 2000 }, () =>
+        'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'[Math.floor(Math.random() * 64)]
+      ).join('');
+      writeFileSync(inputFile, message);
+
+      const encoded = cli(['encode', '-f', inputFile, '-o', wavFile, '--segment', '1', '--json']);
+      expect(JSON.parse(encoded.stdout).segments).toBeGreaterThan(1);
+
+      const result = cli(['decode', wavFile, '-q']);
+      expect(result.stdout.trim()).toBe(message);
+    });
+
+    it('should reject an invalid segment size', () => {
+      const output = join(testDir, 'segment-invalid.wav');
+      const result = cli(['encode', 'Test', '-o', output, '--segment', 'abc']);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Invalid segment size');
+    });
+  });
+
+  describe('Repair Frames', () => {
+    it('should rebuild lost frames without a retransmission', () => {
+      const wavFile = join(testDir, 'repair.wav');
+      const damagedFile = join(testDir, 'repair-damaged.wav');
+      const inputFile = join(testDir, 'repair.txt');
+      const message = Array.from({ length: 400 }, () =>
+        'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'[Math.floor(Math.random() * 64)]
+      ).join('');
+      writeFileSync(inputFile, message);
+
+      const encoded = JSON.parse(cli(['encode', '-f', inputFile, '-o', wavFile, '--repair', '50', '--json']).stdout);
+      expect(encoded.repair).toBe(50);
+
+      // Silence part of the data frames
+      const { samples, sampleRate } = parseWavFile(wavFile);
+      const damaged = samples.slice();
+      damaged.fill(0, Math.floor(samples.length * 0.3), Math.floor(samples.length * 0.36));
+      writeWavFile(damagedFile, damaged, sampleRate);
+
+      const result = cli(['decode', damagedFile, '-q']);
+      expect(result.status).toBe(0);
+      expect(result.stdout.trim()).toBe(message);
+    });
+
+    it('should reject an invalid repair overhead', () => {
+      const output = join(testDir, 'repair-invalid.wav');
+      const result = cli(['encode', 'Test', '-o', output, '--repair', '150']);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Invalid repair overhead');
+    });
+  });
+
+  describe('Half-duplex ARQ', () => {
+    it('should resend only the frames a NACK lists', () => {
+      const wavFile = join(testDir, 'arq.wav');
+      const damagedFile = join(testDir, 'arq-damaged.wav');
+      const nackFile = join(testDir, 'arq-nack.wav');
+      const resendFile = join(testDir, 'arq-resend.wav');
+      const combinedFile = join(testDir, 'arq-combined.wav');
+      const ackFile = join(testDir, 'arq-ack.wav');
+      const inputFile = join(testDir, 'arq.txt');
+      // Random base64 barely compresses, so the message spans several frames
+      const message = Array.from({ length: 400 }, () =>
+        'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'[Math.floor(Math.random() * 64)]
+      ).join('');
+      writeFileSync(inputFile, message);
+
+      const encoded = JSON.parse(cli(['send', '-f', inputFile, '-o', wavFile, '--arq', '--json']).stdout);
+      expect(encoded.session).toBe(`${wavFile}.arq.json`);
+      expect(encoded.frames).toBeGreaterThan(2);
+
+      // Silence part of the data frames
+      const { samples, sampleRate } = parseWavFile(wavFile);
+      const damaged = samples.slice();
+      damaged.fill(0, Math.floor(samples.length * 0.6), Math.floor(samples.length * 0.65));
+      writeWavFile(damagedFile, damaged, sampleRate);
+
+      const partial = cli(['decode', damagedFile, '--arq', nackFile, '-q']);
+      expect(partial.status).toBe(1);
+      expect(partial.stderr).toContain('NACK written to');
+
+      const reply = cli(['send', '--reply', nackFile, '--session', encoded.session, '-o', resendFile, '--json']);
+      const replyResult = JSON.parse(reply.stdout);
+      expect(replyResult.reply).toBe('nack');
+      expect(replyResult.missingFrames.length).toBeGreaterThan(0);
+      expect(replyResult.missingFrames.length).toBeLessThan(encoded.frames);
+
+      // The receiver hears the damaged transmission, then the retransmission
+      const resend = parseWavFile(resendFile).samples;
+      const combined = new Float32Array(damaged.length + sampleRate + resend.length);
+      combined.set(damaged);
+      combined.set(resend, damaged.length + sampleRate);
+      writeWavFile(combinedFile, combined, sampleRate);
+
+      const result = cli(['decode', combinedFile, '--arq', ackFile, '-q']);
+      expect(result.stdout.trim()).toBe(message);
+
+      const ack = JSON.parse(cli(['send', '--reply', ackFile, '--session', encoded.session, '--json']).stdout);
+      expect(ack.reply).toBe('ack');
+    });
+
+    it('should resend nothing for a NACK that lists no frames', () => {
+      const wavFile = join(testDir, 'arq-empty.wav');
+      const nackFile = join(testDir, 'arq-empty-nack.wav');
+      const encoded = JSON.parse(cli(['send', 'Nothing missing', '-o', wavFile, '--arq', '--json']).stdout);
+      const { sessionId } = JSON.parse(readFileSync(encoded.session, 'utf-8'));
+
+      const nack = encodeArqMessage({ type: 'nack', sessionId, segmentIndex: 1, missingFrames: [] });
+      writeWavFile(nackFile, nack.audio, 48000);
+
+      const reply = cli(['send', '--reply', nackFile, '--session', encoded.session]);
+      expect(reply.status).toBe(0);
+      expect(reply.stderr).toContain('Receiver reported no missing frames. Nothing to resend.');
+    });
+
+    it('should require a session file to answer a reply', () => {
+      const result = cli(['send', '--reply', join(testDir, 'missing.wav')]);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('Session file required');
+    });
+  });
+
+  describe('Partial Receptions', () => {
+    // Two playbacks of the same transmission, each losing a different frame
+    const setup = () => {
+      const wavFile = join(testDir, 'partial.wav');
+      const inputFile = join(testDir, 'partial.txt');
+      const message = Array.from({ length: 400 }, () =>
+        'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'[Math.floor(Math.random() * 64)]
+      ).join('');
+      writeFileSync(inputFile, message);
+      cli(['encode', '-f', inputFile, '-o', wavFile]);
+
+      const { samples, sampleRate } = parseWavFile(wavFile);
+      const playbacks = [[0.6, 0.65], [0.85, 0.9]].map(([from, to], i) => {
+        const damaged = samples.slice();
+        damaged.fill(0, Math.floor(samples.length * from), Math.floor(samples.length * to));
+        const file = join(testDir, `partial-${i + 1}.wav`);
+        writeWavFile(file, damaged, sampleRate);
+        return file;
+      });
+      return { message, playbacks };
+    };
+
+    it('should merge frames from several recordings', () => {
+      const { message, playbacks } = setup();
+
+      expect(cli(['decode', playbacks[0], '-q']).status).toBe(1);
+      expect(cli(['decode', playbacks[1], '-q']).status).toBe(1);
+
+      const result = cli(['decode', ...playbacks, '-q']);
+      expect(result.status).toBe(0);
+      expect(result.stdout.trim()).toBe(message);
+    });
+
+    it('should resume a saved partial reception', () => {
+      const { message, playbacks } = setup();
+      const partialFile = join(testDir, 'reception.json');
+
+      const first = cli(['decode', playbacks[0], '--partial', partialFile, '-q']);
+      expect(first.status).toBe(1);
+      expect(first.stderr).toContain('Saved');
+      expect(existsSync(partialFile)).toBe(true);
+
+      const second = cli(['decode', playbacks[1], '--partial', partialFile, '-q']);
+      expect(second.status).toBe(0);
+      expect(second.stdout.trim()).toBe(message);
+      // Nothing left to resume
+      expect(existsSync(partialFile)).toBe(false);
+    });
   });
 
   describe('Serve Command', () => {
@@ -482,7 +1192,7 @@ describe('CLI', () => {
     it('should show analyze help', () => {
       const result = cli(['analyze', '--help']);
       expect(result.status).toBe(0);
-      expect(result.stdout).toContain('Analyze a WAV file for signal quality');
+      expect(result.stdout).toContain('Analyze a recording for signal quality');
     });
 
     it('should analyze an encoded WAV file', () => {
@@ -517,6 +1227,141 @@ describe('CLI', () => {
     });
   });
 
+  describe('Channel Probe', () => {
+    it('should generate and evaluate a probe', () => {
+      const wavFile = join(testDir, 'probe.wav');
+      const generated = cli(['probe', 'generate', '-o', wavFile, '-q']);
+      expect(generated.status).toBe(0);
+      expect(existsSync(wavFile)).toBe(true);
+
+      const result = cli(['probe', 'evaluate', wavFile]);
+      expect(result.status).toBe(0);
+      expect(result.stderr).toContain('Frequency Response');
+      expect(result.stderr).toContain('Recommended: -m multitone --fec light');
+    });
+
+    it('should output JSON when --json flag is used', () => {
+      const wavFile = join(testDir, 'probe-json.wav');
+      cli(['probe', 'generate', '-o', wavFile, '-q']);
+
+      const result = cli(['probe', 'evaluate', wavFile, '--json']);
+      expect(result.status).toBe(0);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.success).toBe(true);
+      expect(json.modes).toHaveLength(4);
+      expect(json.recommendedMode).toBe('multitone');
+    });
+
+    it('should fail on a recording without a probe', () => {
+      const wavFile = join(testDir, 'probe-missing.wav');
+      cli(['encode', 'Not a probe', '-o', wavFile, '-q']);
+
+      const result = cli(['probe', 'evaluate', wavFile]);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('No channel probe found');
+    });
+  });
+
+  describe('Channel Simulation', () => {
+    it('should report each trial of each FEC profile through a phone call', () => {
+      const result = cli(['simulate', 'Hello over the phone', '-m', 'phone', '--fec', 'light,heavy', '--preset', 'phone-call', '--json']);
+      expect(result.status).toBe(0);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.success).toBe(true);
+      expect(json.channel).toMatchObject({ telephone: true, codec: 'amr' });
+      expect(json.runs.map((run: { fec: string }) => run.fec)).toEqual(['light', 'heavy']);
+      for (const run of json.runs) {
+        expect(run.decoded).toBe(1);
+        expect(run.trials[0]).toMatchObject({ seed: 1, success: true, framesReceived: run.trials[0].totalFrames });
+      }
+    });
+
+    it('should write the received audio, which decodes like a recording', () => {
+      const wavFile = join(testDir, 'simulated.wav');
+      const result = cli(['simulate', 'Through the codec', '-m', 'phone', '--snr', '10', '--codec', 'gsm', '--seed', '7', '-o', wavFile]);
+      expect(result.status).toBe(0);
+      expect(result.stderr).toContain('Channel: SNR 10 dB, GSM codec');
+      expect(result.stderr).toMatch(/phone\s+normal\s+[\d.]+s\s+1\/1/);
+
+      const decoded = cli(['decode', wavFile]);
+      expect(decoded.status).toBe(0);
+      expect(decoded.stdout).toContain('Through the codec');
+    });
+
+    it('should repeat a run exactly with the same seed', () => {
+      const run = (wavFile: string) => cli(['simulate', 'Same every time', '-m', 'phone', '--snr', '5', '--seed', '11', '-o', wavFile, '--json']);
+      const first = run(join(testDir, 'repeat-1.wav'));
+      const second = run(join(testDir, 'repeat-2.wav'));
+
+      expect(first.status).toBe(0);
+      expect(JSON.parse(second.stdout).runs).toEqual(JSON.parse(first.stdout).runs);
+      expect(readFileSync(join(testDir, 'repeat-2.wav'))).toEqual(readFileSync(join(testDir, 'repeat-1.wav')));
+    });
+
+    it('should reject invalid channel settings', () => {
+      expect(cli(['simulate', 'Hi', '--preset', 'moon']).stderr).toContain('Unknown preset');
+      expect(cli(['simulate', 'Hi', '--clip', '2']).stderr).toContain('Clip level must be above 0 and at most 1');
+      expect(cli(['simulate', 'Hi', '--codec', 'opus']).stderr).toContain('Codec must be "gsm" or "amr"');
+      expect(cli(['simulate', 'Hi', '--trials', '0']).stderr).toContain('Invalid number of trials');
+      expect(cli(['simulate', 'Hi', '--snr', 'loud']).status).toBe(1);
+    });
+  });
+
+  describe('Listen', () => {
+    // Raw s16le stream: each message's samples after a second of silence
+    const stream = (wavFiles: string[]) => {
+      const silence = Buffer.alloc(48000 * 2);
+      return Buffer.concat([...wavFiles.flatMap(f => [silence, readFileSync(f).subarray(44)]), silence]);
+    };
+
+    it('should decode every message in a stream', () => {
+      const first = join(testDir, 'listen-1.wav');
+      const second = join(testDir, 'listen-2.wav');
+      cli(['encode', 'First message', '-m', 'wideband', '-o', first, '-q']);
+      cli(['encode', 'Second message', '-m', 'multitone', '-o', second, '-q']);
+
+      const result = cli(['listen', '-', '--raw', '--json'], stream([first, second]));
+      expect(result.status).toBe(0);
+
+      const events = result.stdout.trim().split('\n').map(line => JSON.parse(line));
+      expect(events.map(e => e.message)).toEqual(['First message', 'Second message']);
+      expect(events.every(e => e.success)).toBe(true);
+      expect(events[0].end).toBeLessThan(events[1].start);
+    });
+
+    it('should save each message to the output directory', () => {
+      const wavFile = join(testDir, 'listen-dir.wav');
+      const outputDir = join(testDir, 'inbox');
+      cli(['encode', 'Saved message', '-m', 'wideband', '-o', wavFile, '-q']);
+
+      const result = cli(['listen', '-', '--raw', '-d', outputDir], stream([wavFile, wavFile]));
+      expect(result.status).toBe(0);
+      expect(result.stderr).toContain('2 messages decoded, 0 failed');
+
+      const files = readdirSync(outputDir);
+      expect(files).toHaveLength(2);
+      expect(readFileSync(join(outputDir, files[0]), 'utf-8')).toBe('Saved message');
+    });
+
+    it('should report an encrypted message without a password and keep listening', () => {
+      const secret = join(testDir, 'listen-secret.wav');
+      const plain = join(testDir, 'listen-plain.wav');
+      cli(['encode', 'Secret', '-m', 'wideband', '-e', '-p', 'pw', '-o', secret, '-q']);
+      cli(['encode', 'Plain', '-m', 'wideband', '-o', plain, '-q']);
+
+      const result = cli(['listen', '-', '--raw', '--json'], stream([secret, plain]));
+      expect(result.status).toBe(0);
+
+      const events = result.stdout.trim().split('\n').map(line => JSON.parse(line));
+      expect(events).toHaveLength(2);
+      expect(events[0].success).toBe(false);
+      expect(events[0].encrypted).toBe(true);
+      expect(events[1].message).toBe('Plain');
+    });
+  });
+
   describe('Salvage Mode', () => {
     it('should show salvage option in decode help', () => {
       const result = cli(['decode', '--help']);
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encrypt,
+  decrypt,
+  decryptLegacy,
+  DEFAULT_KDF,
+  ENCRYPTION_OVERHEAD,
+  generateKeyPair,
+  getPublicKey,
+  isValidPublicKey,
+  isValidPrivateKey,
+  encryptForRecipient,
+  decryptWithPrivateKey,
+  PUBLIC_KEY_ENCRYPTION_OVERHEAD,
+  generateSigningKeyPair,
+  getSigningPublicKey,
+  isValidSigningKey,
+  isValidSignerKey,
+  createSignatureTrailer,
+  verifySignatureTrailer,
+  SIGNATURE_TRAILER_SIZE,
+  generatePreSharedKey,
+  isValidPreSharedKey,
+  getKeyId,
+  encryptWithPreSharedKey,
+  decryptWithPreSharedKey,
+  getEnvelopeKeyId,
+  keyDerivationProgress,
+} from '../src/lib/crypto';
+
+const message = new TextEncoder().encode('Meet at the north gate at 0600');
+
+// Cheap Argon2id costs so the tests stay fast
+const lightArgon2 = { kdf: 'argon2id', iterations: 1, memoryKiB: 64, parallelism: 1 } as const;
+
+// "Meet at the north gate at 0600" encrypted with "correct horse" before
+// the envelope header existed (PBKDF2, 100,000 iterations)
+const LEGACY_CIPHERTEXT = 'a0528e6643905d7d3ed43f1ebe512aef9a5453c5deea490acc025d30a16b68fe' +
+  '8534a6a6c04e82737dec9550b90e0a8daa0e4b4e6677eeff257f5bde4ee2feb81b8955314507d5a46eca';
+
+// The same message encrypted by an earlier version with Argon2id (t=2, 256 KiB,
+// 2 lanes), before the KDF came from @noble/hashes
+const ARGON2_CIPHERTEXT = '01010208026edffa8889c8faa7c1d1a29632c732ab13e3e75b17783dfa7af812' +
+  '60251b5d5f876742e1e8e3fb530653ad9e1917100c54a93a3af4e18601bb15257e3c8460f13e2375d695bab9142c6e';
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+describe('Password encryption', () => {
+  it('should decrypt with the same password only', async () => {
+    const encrypted = await encrypt(message, 'correct horse');
+
+    expect(await decrypt(encrypted, 'correct horse')).toEqual(message);
+    expect(await decrypt(encrypted, 'wrong horse')).toBeNull();
+  });
+
+  it('should name the KDF and its costs in the envelope header', async () => {
+    const argon = await encrypt(message, 'correct horse', lightArgon2);
+    const pbkdf2 = await encrypt(message, 'correct horse', { kdf: 'pbkdf2', iterations: 2000 });
+    const byDefault = await encrypt(message, 'correct horse');
+
+    expect(Array.from(argon.subarray(0, 5))).toEqual([1, 1, 1, 6, 1]);
+    expect(Array.from(pbkdf2.subarray(0, 5))).toEqual([1, 0, 2, 0, 0]);
+    expect(Array.from(byDefault.subarray(0, 5))).toEqual([1, 1, DEFAULT_KDF.iterations, 15, 1]);
+    expect(argon.length).toBe(message.length + ENCRYPTION_OVERHEAD);
+    expect(await decrypt(argon, 'correct horse')).toEqual(message);
+    expect(await decrypt(pbkdf2, 'correct horse')).toEqual(message);
+  });
+
+  it('should decrypt Argon2id messages from earlier versions', async () => {
+    expect(await decrypt(fromHex(ARGON2_CIPHERTEXT), 'correct horse')).toEqual(message);
+  });
+
+  it('should report the progress of the key derivation while it runs', async () => {
+    const progress: (number | null)[] = [];
+    const unsubscribe = keyDerivationProgress.subscribe(value => { progress.push(value); });
+    try {
+      await encrypt(message, 'correct horse', { ...lightArgon2, memoryKiB: 4096 });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(progress[0]).toBeNull();
+    expect(progress).toContain(0);
+    expect(progress[progress.length - 1]).toBeNull();
+  });
+
+  it('should reject a tampered or unknown envelope header', async () => {
+    const encrypted = await encrypt(message, 'correct horse', lightArgon2);
+
+    const costlier = encrypted.slice();
+    costlier[2] = 2;
+    expect(await decrypt(costlier, 'correct horse')).toBeNull();
+
+    const unknownVersion = encrypted.slice();
+    unknownVersion[0] = 2;
+    expect(await decrypt(unknownVersion, 'correct horse')).toBeNull();
+
+    // Costs beyond what receivers accept are not even attempted
+    const huge = encrypted.slice();
+    huge[3] = 30;
+    expect(await decrypt(huge, 'correct horse')).toBeNull();
+  });
+
+  it('should refuse KDF costs the envelope cannot carry', async () => {
+    await expect(encrypt(message, 'pw', { ...lightArgon2, memoryKiB: 100 })).rejects.toThrow('power of two');
+    await expect(encrypt(message, 'pw', { kdf: 'pbkdf2', iterations: 1500 })).rejects.toThrow('multiple of 1000');
+  });
+
+  it('should still decrypt the legacy layout', async () => {
+    const legacy = fromHex(LEGACY_CIPHERTEXT);
+
+    expect(await decryptLegacy(legacy, 'correct horse')).toEqual(message);
+    expect(await decryptLegacy(legacy, 'wrong horse')).toBeNull();
+    expect(await decrypt(legacy, 'correct horse')).toBeNull();
+  });
+});
+
+describe('Pre-shared keys', () => {
+  it('should generate keys in their text form', async () => {
+    const key = generatePreSharedKey();
+
+    expect(key).toMatch(/^nedagram-psk-[A-Za-z0-9_-]{43}$/);
+    expect(isValidPreSharedKey(key)).toBe(true);
+    expect(isValidPreSharedKey('nedagram-pk-' + key.slice(13))).toBe(false);
+    expect(await getKeyId(key)).toMatch(/^[0-9a-f]{6}$/);
+    expect(await getKeyId(`${key}\n`)).toBe(await getKeyId(key));
+  });
+
+  it('should name the key ID in the envelope and decrypt with that key only', async () => {
+    const key = generatePreSharedKey();
+    const other = generatePreSharedKey();
+    const encrypted = await encryptWithPreSharedKey(message, key);
+
+    expect(encrypted.length).toBe(message.length + ENCRYPTION_OVERHEAD);
+    expect(getEnvelopeKeyId(encrypted)).toBe(await getKeyId(key));
+    expect(await decryptWithPreSharedKey(encrypted, key)).toEqual(message);
+    expect(await decryptWithPreSharedKey(encrypted, other)).toBeNull();
+    // Not a password envelope
+    expect(await decrypt(encrypted, key)).toBeNull();
+    expect(getEnvelopeKeyId(await encrypt(message, 'pw', lightArgon2))).toBeNull();
+  });
+
+  it('should reject a tampered key ID', async () => {
+    const key = generatePreSharedKey();
+    const encrypted = await encryptWithPreSharedKey(message, key);
+
+    encrypted[2] ^= 0x01;
+
+    expect(await decryptWithPreSharedKey(encrypted, key)).toBeNull();
+  });
+
+  it('should throw on a malformed pre-shared key', async () => {
+    await expect(encryptWithPreSharedKey(message, 'correct horse')).rejects.toThrow('Invalid pre-shared key');
+  });
+});
+
+describe('Public-key encryption', () => {
+  it('should generate keys in their text form', async () => {
+    const { publicKey, privateKey } = await generateKeyPair();
+
+    expect(publicKey).toMatch(/^nedagram-pk-[A-Za-z0-9_-]{43}$/);
+    expect(privateKey).toMatch(/^nedagram-sk-[A-Za-z0-9_-]{43}$/);
+    expect(isValidPublicKey(publicKey)).toBe(true);
+    expect(isValidPrivateKey(privateKey)).toBe(true);
+    expect(isValidPublicKey(privateKey)).toBe(false);
+    expect(isValidPublicKey('nedagram-pk-tooshort')).toBe(false);
+  });
+
+  it('should export the public key of a private key', async () => {
+    const { publicKey, privateKey } = await generateKeyPair();
+
+    expect(await getPublicKey(privateKey)).toBe(publicKey);
+    expect(await getPublicKey(`  ${privateKey}\n`)).toBe(publicKey);
+  });
+
+  it('should decrypt with the recipient private key only', async () => {
+    const recipient = await generateKeyPair();
+    const other = await generateKeyPair();
+
+    const encrypted = await encryptForRecipient(message, recipient.publicKey);
+
+    expect(encrypted.length).toBe(message.length + PUBLIC_KEY_ENCRYPTION_OVERHEAD);
+    expect(await decryptWithPrivateKey(encrypted, recipient.privateKey)).toEqual(message);
+    expect(await decryptWithPrivateKey(encrypted, other.privateKey)).toBeNull();
+  });
+
+  it('should use a fresh ephemeral key for every message', async () => {
+    const { publicKey } = await generateKeyPair();
+
+    const first = await encryptForRecipient(message, publicKey);
+    const second = await encryptForRecipient(message, publicKey);
+
+    expect(first.subarray(0, 32)).not.toEqual(second.subarray(0, 32));
+    expect(first.subarray(32)).not.toEqual(second.subarray(32));
+  });
+
+  it('should reject tampered ciphertext', async () => {
+    const { publicKey, privateKey } = await generateKeyPair();
+    const encrypted = await encryptForRecipient(message, publicKey);
+
+    encrypted[40] ^= 0x01;
+
+    expect(await decryptWithPrivateKey(encrypted, privateKey)).toBeNull();
+  });
+
+  it('should throw on malformed keys', async () => {
+    await expect(encryptForRecipient(message, 'not a key')).rejects.toThrow('Invalid public key');
+    await expect(decryptWithPrivateKey(message, 'nedagram-pk-AAAA')).rejects.toThrow('Invalid private key');
+  });
+});
+
+describe('Signatures', () => {
+  it('should generate signing keys in their text form', async () => {
+    const { publicKey, privateKey } = await generateSigningKeyPair();
+
+    expect(publicKey).toMatch(/^nedagram-spk-[A-Za-z0-9_-]{43}$/);
+    expect(privateKey).toMatch(/^nedagram-ssk-[A-Za-z0-9_-]{43}$/);
+    expect(isValidSignerKey(publicKey)).toBe(true);
+    expect(isValidSigningKey(privateKey)).toBe(true);
+    expect(isValidSigningKey(publicKey)).toBe(false);
+    expect(await getSigningPublicKey(privateKey)).toBe(publicKey);
+  });
+
+  it('should verify a signature and report the signer', async () => {
+    const { publicKey, privateKey } = await generateSigningKeyPair();
+    const trailer = await createSignatureTrailer(message, privateKey);
+
+    expect(trailer.length).toBe(SIGNATURE_TRAILER_SIZE);
+    expect(await verifySignatureTrailer(message, trailer)).toEqual({ signer: publicKey, valid: true });
+  });
+
+  it('should reject a signature over different data', async () => {
+    const { privateKey } = await generateSigningKeyPair();
+    const trailer = await createSignatureTrailer(message, privateKey);
+    const altered = message.slice();
+    altered[0] ^= 0x01;
+
+    expect((await verifySignatureTrailer(altered, trailer)).valid).toBe(false);
+  });
+
+  it('should throw on a malformed signing key', async () => {
+    const { privateKey } = await generateKeyPair();
+
+    await expect(createSignatureTrailer(message, privateKey)).rejects.toThrow('Invalid signing key');
+  });
+});
@@ -1,14 +1,35 @@
 import { describe, it, expect } from 'vitest';
-import { encodeString } from '../../src/encode';
-import { tryCompress, decompress } from '../../src/encode/compress';
-import { packetize, createHeaderFrame, createDataFrame, FLAG_CRC32_PRESENT } from '../../src/encode/frame';
-import { parseHeaderFrame, parseDataFrame, FrameCollector } from '../../src/decode/deframe';
+import { encodeString, encodeFiles } from '../../src/encode';
+import { compress, tryCompress, decompress } from '../../src/encode/compress';
+import { packetize, createHeaderFrame, createDataFrame, FLAG_CRC32_PRESENT, FLAG_EXTENDED } from '../../src/encode/frame';
+import { parseHeaderFrame, parseHeaderExtension, applyHeaderExtension, parseDataFrame, FrameCollector } from '../../src/decode/deframe';
+import { parsePartialReceptions, serializePartialReceptions, countPartialFrames } from '../../src/decode/partial';
 import { processPayload } from '../../src/decode/decompress';
 import { encodeDataV3FEC, V3_FEC_CONFIG } from '../../src/encode/v3-fec';
 import { decodeDataV3FEC, decodeDataV3FECSoft } from '../../src/decode/v3-fec';
 import { hardToSoft, unpackBits } from '../../src/decode/viterbi';
 import { stringToBytes, bytesToString } from '../../src/utils/helpers';
 import { crc32Bytes } from '../../src/lib/crc32';
+import { createArqRecord } from '../../src/encode/arq';
+import { parseArqRecord } from '../../src/decode/arq';
+import { createMetadataBlock } from '../../src/encode/metadata';
+import { parseMetadataBlock, getSafeFilename } from '../../src/decode/metadata';
+import { createBundle } from '../../src/encode/bundle';
+import { parseBundle } from '../../src/decode/bundle';
+import { createCompactConfig } from '../../src/encode/config';
+import { parseCompactConfig } from '../../src/decode/config';
+import { sha256Hex } from '../../src/lib/sha256';
+import {
+  generateKeyPair,
+  encryptForRecipient,
+  generateSigningKeyPair,
+  createSignatureTrailer,
+  encrypt,
+  generatePreSharedKey,
+  encryptWithPreSharedKey,
+  getKeyId,
+} from '../../src/lib/crypto';
+import { FRAME, FRAME_V3 } from '../../src/utils/constants';
 
 describe('End-to-End Roundtrip', () => {
   describe('Compression roundtrip', () => {
@@ -23,6 +44,108 @@ describe('End-to-End Roundtrip', () => {
       const decompressed = decompress(compressed);
       expect(bytesToString(decompressed)).toBe(original);
     });
+
+    const wireguard = '[Interface]\nPrivateKey = yAnz5TF+lXXJte14tji3zlMNq+hd2rYUIgJBgB3fBmk=\nAddress = 10.0.0.2/32\nDNS = 1.1.1.1\n\n' +
+      '[Peer]\nPublicKey = xTIBA5rboUvnH4htodjb6e697QjLERt1NAB4mZqp8Dg=\nAllowedIPs = 0.0.0.0/0, ::/0\nEndpoint = vpn.example.com:51820\n';
+
+    it('should decompress each algorithm with the same algorithm', () => {
+      const bytes = stringToBytes(wireguard);
+      for (const algorithm of [FRAME.COMPRESSION_DEFLATE, FRAME.COMPRESSION_DEFLATE_RAW, FRAME.COMPRESSION_DICTIONARY]) {
+        expect(bytesToString(decompress(compress(bytes, algorithm), algorithm))).toBe(wireguard);
+      }
+      expect(() => compress(bytes, 7)).toThrow('Unknown compression algorithm');
+    });
+
+    it('should shrink configs further with the dictionary', () => {
+      const bytes = stringToBytes(wireguard);
+      const deflate = compress(bytes, FRAME.COMPRESSION_DEFLATE);
+      const dictionary = compress(bytes, FRAME.COMPRESSION_DICTIONARY);
+      expect(dictionary.length).toBeLessThan(deflate.length - FRAME_V3.EXTENSION_SIZE);
+
+      const best = tryCompress(bytes, FRAME_V3.EXTENSION_SIZE);
+      expect(best.algorithm).toBe(FRAME.COMPRESSION_DICTIONARY);
+      expect(best.data).toEqual(dictionary);
+    });
+
+    it('should only pick another algorithm when it pays for the extension', () => {
+      const bytes = stringToBytes('Hello, world! '.repeat(100));
+
+      // Without a cost, only zlib DEFLATE is tried
+      expect(tryCompress(bytes).algorithm).toBe(FRAME.COMPRESSION_DEFLATE);
+      // Raw DEFLATE saves 6 bytes, less than the extension costs
+      expect(tryCompress(bytes, FRAME_V3.EXTENSION_SIZE).algorithm).toBe(FRAME.COMPRESSION_DEFLATE);
+      // With the extension sent anyway, the smaller raw variants win
+      expect(tryCompress(bytes, 0).algorithm).not.toBe(FRAME.COMPRESSION_DEFLATE);
+    });
+
+    it('should carry the algorithm in the header extension', () => {
+      const packets = packetize(new Uint8Array(60), 200, {
+        compressed: true,
+        hasCrc32: true,
+        compressionAlgo: FRAME.COMPRESSION_DICTIONARY,
+      });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.compressionAlgo).toBe(FRAME.COMPRESSION_DEFLATE);
+      const extension = parseHeaderExtension(packets.extensionFrame!)!;
+      expect(extension.compressionAlgo).toBe(FRAME.COMPRESSION_DICTIONARY);
+      expect(applyHeaderExtension(header, extension).compressionAlgo).toBe(FRAME.COMPRESSION_DICTIONARY);
+    });
+
+    it('should decode a message compressed with the dictionary', async () => {
+      const result = await encodeString(wireguard);
+      const { payloads, compressed, compressionAlgo, originalLength } = result.retransmit;
+      expect(compressionAlgo).toBe(FRAME.COMPRESSION_DICTIONARY);
+
+      const processed = await processPayload(payloads[0], false, compressed, compressionAlgo, originalLength, true);
+      expect(processed.success).toBe(true);
+      expect(bytesToString(processed.data!)).toBe(wireguard.trim());
+    });
+
+    const persian = 'سلام، فردا ساعت ۱۰ صبح در پارک منتظرت هستم.';
+
+    it('should pack texts that fit an alphabet', () => {
+      for (const [text, algorithm] of [
+        ['+98 912 345 6789', FRAME.COMPRESSION_DIGITS],
+        ['CQ CQ DE W1AW K', FRAME.COMPRESSION_UPPERCASE],
+        [persian, FRAME.COMPRESSION_PERSIAN],
+      ] as const) {
+        const bytes = stringToBytes(text);
+        const packed = compress(bytes, algorithm);
+        expect(packed.length).toBeLessThan(bytes.length);
+        expect(bytesToString(decompress(packed, algorithm, bytes.length))).toBe(text);
+      }
+    });
+
+    it('should not pack texts outside the alphabet', () => {
+      expect(() => compress(stringToBytes('Call 911'), FRAME.COMPRESSION_DIGITS)).toThrow('digits alphabet');
+      expect(() => compress(stringToBytes('cq de w1aw'), FRAME.COMPRESSION_UPPERCASE)).toThrow('uppercase alphabet');
+      expect(() => compress(stringToBytes('سلام world'), FRAME.COMPRESSION_PERSIAN)).toThrow('persian alphabet');
+      expect(() => decompress(new Uint8Array(2), FRAME.COMPRESSION_DIGITS, 5)).toThrow('Packed text ends');
+    });
+
+    it('should only pick an alphabet when it pays for the extension', () => {
+      const code = stringToBytes('482913');
+      expect(tryCompress(code, FRAME_V3.EXTENSION_SIZE).compressed).toBe(false);
+      expect(tryCompress(code, 0).algorithm).toBe(FRAME.COMPRESSION_DIGITS);
+
+      // A Persian sentence packs well below DEFLATE, extension included
+      const bytes = stringToBytes(persian);
+      const best = tryCompress(bytes, FRAME_V3.EXTENSION_SIZE);
+      expect(best.algorithm).toBe(FRAME.COMPRESSION_PERSIAN);
+      expect(best.data.length + FRAME_V3.EXTENSION_SIZE).toBeLessThan(compress(bytes).length);
+    });
+
+    it('should decode a message packed into an alphabet', async () => {
+      const result = await encodeString(persian);
+      const { payloads, compressed, compressionAlgo, originalLength } = result.retransmit;
+      expect(compressionAlgo).toBe(FRAME.COMPRESSION_PERSIAN);
+
+      const processed = await processPayload(payloads[0], false, compressed, compressionAlgo, originalLength, true);
+      expect(processed.success).toBe(true);
+      expect(bytesToString(processed.data!)).toBe(persian);
+    });
   });
 
   describe('Frame roundtrip', () => {
@@ -93,6 +216,776 @@ describe('End-to-End Roundtrip', () => {
       expect(parsed!.hasCrc32).toBe(false);
       expect(parsed!.encrypted).toBe(true);
     });
+
+    it('should only add a header extension for non-default FEC profiles', () => {
+      const payload = new Uint8Array(100).fill(1);
+
+      const normal = packetize(payload, 100, { hasCrc32: true });
+      expect(normal.extensionFrame).toBeUndefined();
+      expect(normal.headerFrame[2] & FLAG_EXTENDED).toBe(0);
+      expect(parseHeaderFrame(normal.headerFrame)!.extended).toBe(false);
+
+      const heavy = packetize(payload, 100, { hasCrc32: true, fecProfile: 'heavy' });
+      expect(heavy.extensionFrame).toBeDefined();
+      const header = parseHeaderFrame(heavy.headerFrame);
+      expect(header!.crcValid).toBe(true);
+      expect(header!.extended).toBe(true);
+      expect(header!.fecProfile).toBe('normal'); // Until the extension is decoded
+      expect(parseHeaderExtension(heavy.extensionFrame!)!.fecProfile).toBe('heavy');
+    });
+
+    it('should reject header extensions with unknown FEC profiles', () => {
+      expect(parseHeaderExtension(new Uint8Array([0x58, 7, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x44, 1, 0, 1, 0, 0, 0, 0, 0, 0]))).toBeNull();
+    });
+
+    it('should use an extended header and wide frame indices beyond 255 frames', () => {
+      const payload = new Uint8Array(70000);
+      for (let i = 0; i < payload.length; i++) payload[i] = (i * 7) & 0xFF;
+
+      const { headerFrame, extensionFrame, dataFrames } = packetize(payload, 90000, { compressed: true });
+      expect(dataFrames.length).toBe(547);
+      expect(extensionFrame).toBeDefined();
+
+      const header = parseHeaderFrame(headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.totalFrames).toBe(255); // Capped in the 1-byte field
+
+      const merged = applyHeaderExtension(header, parseHeaderExtension(extensionFrame!)!);
+      expect(merged.totalFrames).toBe(547);
+      expect(merged.payloadLength).toBe(70000);
+      expect(merged.originalLength).toBe(90000);
+      expect(merged.wideFrameIndex).toBe(true);
+
+      // Frame 300 would wrap with a 1-byte index
+      const frame300 = parseDataFrame(dataFrames[299], true);
+      expect(frame300!.frameIndex).toBe(300);
+
+      const collector = new FrameCollector();
+      collector.setHeader(merged);
+      for (const frame of dataFrames) {
+        const parsed = parseDataFrame(frame, true)!;
+        expect(collector.addFrame(parsed.frameIndex, parsed.payload, merged.sessionId)).toBe(true);
+      }
+      expect(collector.isComplete()).toBe(true);
+      expect(collector.reassemble()).toEqual(payload);
+    });
+
+    it('should extend the header when only the original length overflows', () => {
+      const { headerFrame, extensionFrame, dataFrames } = packetize(new Uint8Array(2000), 80000, { compressed: true });
+      expect(dataFrames.length).toBeLessThanOrEqual(255);
+      expect(parseDataFrame(dataFrames[0])!.frameIndex).toBe(1); // Narrow index
+
+      const merged = applyHeaderExtension(
+        parseHeaderFrame(headerFrame)!,
+        parseHeaderExtension(extensionFrame!)!
+      );
+      expect(merged.originalLength).toBe(80000);
+      expect(merged.wideFrameIndex).toBe(false);
+    });
+
+    it('should reject frame indices outside the announced range', () => {
+      const { headerFrame } = packetize(new Uint8Array(300), 300);
+      const collector = new FrameCollector();
+      collector.setHeader(parseHeaderFrame(headerFrame)!);
+
+      expect(collector.addFrame(0, new Uint8Array(1), collector.getHeader()!.sessionId)).toBe(false);
+      expect(collector.addFrame(4, new Uint8Array(1), collector.getHeader()!.sessionId)).toBe(false);
+      expect(collector.addFrame(3, new Uint8Array(1), collector.getHeader()!.sessionId)).toBe(true);
+    });
+  });
+
+  describe('Chained segments', () => {
+    const payload = new Uint8Array(2500).map((_, i) => (i * 31) & 0xFF);
+
+    // Packetize payload as chained segments sharing one session ID
+    const packetizeChain = (segmentBytes: number, sessionId?: number) => {
+      const count = Math.ceil(payload.length / segmentBytes);
+      return Array.from({ length: count }, (_, i) => {
+        const packets = packetize(payload.subarray(i * segmentBytes, (i + 1) * segmentBytes), payload.length, {
+          segment: { index: i + 1, count },
+          sessionId,
+        });
+        sessionId = packets.sessionId;
+        return packets;
+      });
+    };
+
+    // Feed one segment into the collector the way the decoder does:
+    // clear the previous transmission, set the plain header, then the
+    // header with its extension applied
+    const collectSegment = (collector: FrameCollector, packets: ReturnType<typeof packetize>) => {
+      collector.resetSegment();
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      collector.setHeader(header);
+      const merged = applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!);
+      collector.setHeader(merged);
+      for (const frame of packets.dataFrames) {
+        const parsed = parseDataFrame(frame)!;
+        collector.addFrame(parsed.frameIndex, parsed.payload, merged.sessionId);
+      }
+      return collector.completeSegment();
+    };
+
+    it('should carry the segment position in the header extension', () => {
+      const segments = packetizeChain(1000);
+      expect(segments).toHaveLength(3);
+      expect(new Set(segments.map(s => s.sessionId)).size).toBe(1);
+
+      segments.forEach((packets, i) => {
+        const header = parseHeaderFrame(packets.headerFrame)!;
+        expect(header.extended).toBe(true);
+        expect(header.originalLength).toBe(2500);
+
+        const merged = applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!);
+        expect(merged.segmentIndex).toBe(i + 1);
+        expect(merged.segmentCount).toBe(3);
+        expect(merged.payloadLength).toBe(i < 2 ? 1000 : 500);
+      });
+    });
+
+    it('should reassemble segments received in any order', () => {
+      const segments = packetizeChain(1000);
+      const collector = new FrameCollector();
+
+      expect(collectSegment(collector, segments[2])).toBe(true);
+      expect(collectSegment(collector, segments[0])).toBe(true);
+      expect(collector.isChainComplete()).toBe(false);
+      expect(collector.getMissingSegments()).toEqual([2]);
+      expect(collector.reassemble()).toBeNull();
+
+      expect(collectSegment(collector, segments[1])).toBe(true);
+      expect(collector.isChainComplete()).toBe(true);
+      expect(collector.getChainTotals()).toEqual({
+        totalFrames: segments.reduce((sum, s) => sum + s.dataFrames.length, 0),
+        payloadLength: 2500,
+      });
+      expect(collector.reassemble()).toEqual(payload);
+    });
+
+    it('should keep the finished segments of each session apart', () => {
+      const first = packetizeChain(1000, 0x1111);
+      const other = packetizeChain(1000, 0x2222);
+      const collector = new FrameCollector();
+
+      collectSegment(collector, first[0]);
+      collectSegment(collector, first[1]);
+      expect(collector.getSegmentsReceived()).toBe(2);
+
+      collectSegment(collector, other[2]);
+      expect(collector.getSegmentsReceived()).toBe(1);
+      expect(collector.getMissingSegments()).toEqual([1, 2]);
+
+      collectSegment(collector, first[2]);
+      expect(collector.getSegmentsReceived()).toBe(3);
+      expect(collector.isChainComplete()).toBe(true);
+    });
+
+    it('should reject impossible segment positions', () => {
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x02, 1, 0, 0, 0, 3, 2, 0, 0, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x02, 1, 0, 0, 0, 1, 1, 0, 0, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x02, 1, 0, 0, 0, 0, 2, 0, 0, 0]))).toBeNull();
+    });
+  });
+
+  describe('ARQ retransmission', () => {
+    const payload = new Uint8Array(600).map((_, i) => (i * 37) & 0xFF);
+
+    const collectFrames = (collector: FrameCollector, packets: ReturnType<typeof packetize>) => {
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      const merged = applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!);
+      collector.setHeader(merged);
+      for (const frame of packets.dataFrames) {
+        const parsed = parseDataFrame(frame)!;
+        collector.addFrame(parsed.frameIndex, parsed.payload, merged.sessionId);
+      }
+      return merged;
+    };
+
+    it('should resend listed frames with their original indices', () => {
+      const original = packetize(payload, payload.length);
+      const resend = packetize(payload, payload.length, { sessionId: original.sessionId, retransmit: [2, 4] });
+
+      expect(resend.sessionId).toBe(original.sessionId);
+      expect(resend.totalFrames).toBe(original.dataFrames.length);
+      expect(resend.dataFrames.map(f => parseDataFrame(f)!.frameIndex)).toEqual([2, 4]);
+
+      const extension = parseHeaderExtension(resend.extensionFrame!)!;
+      expect(extension.retransmitFrames).toBe(2);
+      expect(extension.totalFrames).toBe(original.dataFrames.length);
+      expect(extension.control).toBe(false);
+    });
+
+    it('should complete a partial frame set with a retransmission', () => {
+      const original = packetize(payload, payload.length);
+      const collector = new FrameCollector();
+
+      // Frames 2 and 4 were lost
+      const header = parseHeaderFrame(original.headerFrame)!;
+      collector.setHeader(header);
+      for (const frame of original.dataFrames) {
+        const parsed = parseDataFrame(frame)!;
+        if (parsed.frameIndex !== 2 && parsed.frameIndex !== 4) {
+          collector.addFrame(parsed.frameIndex, parsed.payload, header.sessionId);
+        }
+      }
+      expect(collector.getMissingFrames()).toEqual([2, 4]);
+
+      const resend = packetize(payload, payload.length, {
+        sessionId: original.sessionId,
+        retransmit: collector.getMissingFrames(),
+      });
+      collectFrames(collector, resend);
+
+      expect(collector.isComplete()).toBe(true);
+      expect(collector.reassemble()).toEqual(payload);
+    });
+
+    it('should flag control transmissions', () => {
+      const packets = packetize(new Uint8Array(20), 20, { hasCrc32: true, control: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(parseHeaderExtension(packets.extensionFrame!)!.control).toBe(true);
+    });
+
+    it('should roundtrip ACK and NACK records', () => {
+      const nack = { type: 'nack' as const, sessionId: 0xBEEF, segmentIndex: 2, missingFrames: [3, 300] };
+      expect(parseArqRecord(createArqRecord(nack))).toEqual(nack);
+
+      const ack = { type: 'ack' as const, sessionId: 0x1234, segmentIndex: 1, missingFrames: [] };
+      expect(parseArqRecord(createArqRecord(ack))).toEqual(ack);
+    });
+
+    it('should reject malformed ARQ records', () => {
+      const record = createArqRecord({ type: 'nack', sessionId: 1, segmentIndex: 1, missingFrames: [1, 2] });
+
+      expect(parseArqRecord(record.subarray(0, record.length - 1))).toBeNull();
+      expect(parseArqRecord(new Uint8Array([0x42, ...record.subarray(1)]))).toBeNull();
+      expect(parseArqRecord(new Uint8Array([0x41, 7, ...record.subarray(2)]))).toBeNull();
+    });
+
+    it('should reject impossible retransmission counts', () => {
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x04, 4, 0, 0, 0, 0, 0, 0, 0, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x04, 4, 0, 0, 0, 0, 0, 5, 0, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x04, 4, 0, 0, 0, 0, 0, 4, 0, 0]))!.retransmitFrames).toBe(4);
+    });
+  });
+
+  describe('Partial receptions', () => {
+    const payload = new Uint8Array(700).map((_, i) => (i * 53) & 0xFF);
+    const packets = packetize(payload, payload.length);
+
+    // One playback of the transmission, losing some frames
+    const receive = (collector: FrameCollector, lost: number[]) => {
+      collector.resetSegment();
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      collector.setHeader(header);
+      for (const frame of packets.dataFrames) {
+        const parsed = parseDataFrame(frame)!;
+        if (!lost.includes(parsed.frameIndex)) {
+          collector.addFrame(parsed.frameIndex, parsed.payload, header.sessionId);
+        }
+      }
+    };
+
+    it('should merge frames from several playbacks of a session', () => {
+      const collector = new FrameCollector();
+
+      receive(collector, [2, 5]);
+      expect(collector.getMissingFrames()).toEqual([2, 5]);
+
+      receive(collector, [3]);
+      expect(collector.isComplete()).toBe(true);
+      expect(collector.reassemble()).toEqual(payload);
+    });
+
+    it('should keep frames while another session is received', () => {
+      const other = packetize(new Uint8Array(50), 50);
+      const collector = new FrameCollector();
+
+      receive(collector, [2, 5]);
+      collector.resetSegment();
+      collector.setHeader(parseHeaderFrame(other.headerFrame)!);
+      receive(collector, [1, 3, 4, 6]);
+
+      expect(collector.isComplete()).toBe(true);
+    });
+
+    it('should resume a reception saved as JSON', () => {
+      const first = new FrameCollector();
+      receive(first, [1, 4]);
+
+      const saved = serializePartialReceptions(first.exportPartial());
+      const partials = parsePartialReceptions(saved);
+      expect(countPartialFrames(partials)).toBe(packets.dataFrames.length - 2);
+
+      const second = new FrameCollector();
+      second.importPartial(partials);
+      receive(second, [2, 3, 5, 6]);
+
+      expect(second.isComplete()).toBe(true);
+      expect(second.reassemble()).toEqual(payload);
+    });
+
+    it('should not export decoded sessions', () => {
+      const collector = new FrameCollector();
+      receive(collector, [2]);
+      expect(collector.exportPartial()).toHaveLength(1);
+
+      collector.discardSession(packets.sessionId);
+      expect(collector.exportPartial()).toEqual([]);
+    });
+
+    it('should reject files that are not saved receptions', () => {
+      expect(() => parsePartialReceptions('{"version": 9, "sessions": []}')).toThrow();
+      expect(() => parsePartialReceptions(JSON.stringify({
+        version: 1,
+        sessions: [{ sessionId: 1, segmentCount: 1, segments: [], frames: [{ segment: 2, index: 1, payload: '' }] }],
+      }))).toThrow();
+    });
+  });
+
+  describe('Repair frames', () => {
+    // Receive one playback of a transmission, dropping the listed frame indices
+    const receive = (packets: ReturnType<typeof packetize>, lost: number[]) => {
+      const collector = new FrameCollector();
+      const header = applyHeaderExtension(
+        parseHeaderFrame(packets.headerFrame)!,
+        parseHeaderExtension(packets.extensionFrame!)!
+      );
+      collector.setHeader(header);
+      for (const frame of packets.dataFrames) {
+        const parsed = parseDataFrame(frame, header.wideFrameIndex)!;
+        if (!lost.includes(parsed.frameIndex)) {
+          collector.addFrame(parsed.frameIndex, parsed.payload, header.sessionId);
+        }
+      }
+      return collector;
+    };
+
+    it('should announce repair frames and append them after the data frames', () => {
+      const payload = new Uint8Array(1000).map((_, i) => (i * 29) & 0xFF);
+      const packets = packetize(payload, payload.length, { repairOverhead: 25 });
+
+      expect(packets.totalFrames).toBe(8);
+      expect(packets.dataFrames).toHaveLength(10);
+      expect(parseDataFrame(packets.dataFrames[9])!.frameIndex).toBe(10);
+      expect(parseHeaderExtension(packets.extensionFrame!)!.repairOverhead).toBe(25);
+    });
+
+    it('should rebuild the payload from any N of N+K frames', () => {
+      // 3 data frames (the last one short)
+      const payload = new Uint8Array(300).map((_, i) => (i * 71 + 5) & 0xFF);
+
+      for (const overhead of [50, 100]) {
+        const packets = packetize(payload, payload.length, { repairOverhead: overhead });
+        const total = packets.dataFrames.length;
+        const repairCount = total - packets.totalFrames;
+        expect(repairCount).toBe(overhead === 50 ? 2 : 3);
+
+        // Every way of losing K of the N+K frames
+        for (let mask = 0; mask < 1 << total; mask++) {
+          const lost = Array.from({ length: total }, (_, i) => i + 1).filter(i => mask & (1 << (i - 1)));
+          if (lost.length !== repairCount) continue;
+
+          const collector = receive(packets, lost);
+          expect(collector.isComplete()).toBe(true);
+          expect(collector.reassemble()).toEqual(payload);
+        }
+      }
+    });
+
+    it('should recover lost frames in every block of a long transmission', () => {
+      const payload = new Uint8Array(40000).map((_, i) => (i * 13 + (i >> 8)) & 0xFF);
+      const packets = packetize(payload, payload.length, { repairOverhead: 10 });
+
+      // 313 data frames in 3 blocks of 105/104/104 with 11 repair frames each
+      expect(packets.totalFrames).toBe(313);
+      expect(packets.dataFrames).toHaveLength(313 + 33);
+
+      // Lose 11 frames of each block, including the short last frame
+      const lost = [
+        ...Array.from({ length: 11 }, (_, i) => 1 + i * 9),
+        ...Array.from({ length: 11 }, (_, i) => 106 + i * 3),
+        ...Array.from({ length: 10 }, (_, i) => 210 + i * 10),
+        313,
+      ];
+      const collector = receive(packets, lost);
+
+      expect(collector.isComplete()).toBe(true);
+      expect(collector.reassemble()).toEqual(payload);
+    });
+
+    it('should report missing frames when too many are lost', () => {
+      const payload = new Uint8Array(1000).map((_, i) => i & 0xFF);
+      const packets = packetize(payload, payload.length, { repairOverhead: 25 });
+
+      const collector = receive(packets, [1, 2, 3]);
+      expect(collector.isComplete()).toBe(false);
+      expect(collector.getMissingFrames()).toEqual([1, 2, 3]);
+    });
+
+    it('should combine repair frames with an ARQ retransmission', () => {
+      const payload = new Uint8Array(1000).map((_, i) => (i * 7) & 0xFF);
+      const packets = packetize(payload, payload.length, { repairOverhead: 25 });
+      const collector = receive(packets, [1, 2, 3]);
+
+      // Resending one frame leaves two missing, which the repair frames cover
+      const resend = packetize(payload, payload.length, {
+        sessionId: packets.sessionId,
+        retransmit: [1],
+        repairOverhead: 25,
+      });
+      expect(resend.dataFrames).toHaveLength(1);
+
+      const header = applyHeaderExtension(parseHeaderFrame(resend.headerFrame)!, parseHeaderExtension(resend.extensionFrame!)!);
+      collector.resetSegment();
+      collector.setHeader(header);
+      const parsed = parseDataFrame(resend.dataFrames[0])!;
+      collector.addFrame(parsed.frameIndex, parsed.payload, header.sessionId);
+
+      expect(collector.isComplete()).toBe(true);
+      expect(collector.reassemble()).toEqual(payload);
+    });
+
+    it('should reject impossible repair overheads', () => {
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x10, 4, 0, 0, 0, 0, 0, 0, 0, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x10, 4, 0, 0, 0, 0, 0, 0, 101, 0]))).toBeNull();
+      expect(parseHeaderExtension(new Uint8Array([0x58, 0, 0x10, 4, 0, 0, 0, 0, 0, 0, 50, 0]))!.repairOverhead).toBe(50);
+    });
+  });
+
+  describe('Public-key encryption', () => {
+    it('should flag public-key encryption in the header extension', () => {
+      const packets = packetize(new Uint8Array(60), 40, { compressed: true, encrypted: true, publicKey: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.encrypted).toBe(true);
+      expect(header.publicKey).toBe(false);
+      expect(applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!).publicKey).toBe(true);
+    });
+
+    it('should keep password-encrypted transmissions unextended', () => {
+      const packets = packetize(new Uint8Array(60), 40, { compressed: true, encrypted: true });
+
+      expect(parseHeaderFrame(packets.headerFrame)!.extended).toBe(false);
+      expect(packets.extensionFrame).toBeUndefined();
+    });
+
+    it('should decrypt with the private key, not a password', async () => {
+      const { publicKey, privateKey } = await generateKeyPair();
+      const original = stringToBytes('Coordinates follow the usual grid');
+      const payload = await encryptForRecipient(original, publicKey);
+
+      const locked = await processPayload(payload, true, false, 0, original.length, false, 'password', true);
+      expect(locked.success).toBe(false);
+      expect(locked.needsKey).toBe(true);
+
+      const result = await processPayload(payload, true, false, 0, original.length, false, undefined, true, privateKey);
+      expect(result.success).toBe(true);
+      expect(bytesToString(result.data!)).toBe('Coordinates follow the usual grid');
+
+      const other = await generateKeyPair();
+      const wrong = await processPayload(payload, true, false, 0, original.length, false, undefined, true, other.privateKey);
+      expect(wrong.success).toBe(false);
+      expect(wrong.error).toContain('wrong private key');
+    });
+  });
+
+  describe('Password envelope', () => {
+    it('should flag the password envelope in the header extension', () => {
+      const packets = packetize(new Uint8Array(60), 40, { compressed: true, encrypted: true, kdfEnvelope: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.kdfEnvelope).toBe(false);
+      expect(applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!).kdfEnvelope).toBe(true);
+    });
+
+    it('should only open the envelope when the header says so', async () => {
+      const original = stringToBytes('Rendezvous moved to the bridge');
+      const payload = await encrypt(original, 'password', { kdf: 'pbkdf2', iterations: 1000 });
+
+      const result = await processPayload(payload, true, false, 0, original.length, false, 'password', false, undefined, false, true);
+      expect(result.success).toBe(true);
+      expect(bytesToString(result.data!)).toBe('Rendezvous moved to the bridge');
+
+      // Read as the legacy layout, the envelope header shifts salt and nonce
+      const legacy = await processPayload(payload, true, false, 0, original.length, false, 'password');
+      expect(legacy.success).toBe(false);
+    });
+
+    it('should pick the pre-shared key by its ID from the keyring', async () => {
+      const original = stringToBytes('Rendezvous moved to the bridge');
+      const lastWeek = generatePreSharedKey();
+      const thisWeek = generatePreSharedKey();
+      const payload = await encryptWithPreSharedKey(original, thisWeek);
+
+      const result = await processPayload(payload, true, false, 0, original.length, false, undefined, false, undefined, false, true, [lastWeek, thisWeek]);
+      expect(result.success).toBe(true);
+      expect(bytesToString(result.data!)).toBe('Rendezvous moved to the bridge');
+
+      // A key pasted as the password works too
+      const pasted = await processPayload(payload, true, false, 0, original.length, false, thisWeek, false, undefined, false, true);
+      expect(pasted.success).toBe(true);
+    });
+
+    it('should ask for a missing pre-shared key by its ID', async () => {
+      const original = stringToBytes('Rendezvous moved to the bridge');
+      const key = generatePreSharedKey();
+      const payload = await encryptWithPreSharedKey(original, key);
+
+      const result = await processPayload(payload, true, false, 0, original.length, false, 'password', false, undefined, false, true, [generatePreSharedKey()]);
+      expect(result.success).toBe(false);
+      expect(result.needsPassword).toBe(true);
+      expect(result.keyId).toBe(await getKeyId(key));
+    });
+  });
+
+  describe('Signatures', () => {
+    // Payload as encodeBytes builds it: compressed data, signature trailer, CRC32
+    async function signedPayload(original: Uint8Array, signingKey: string) {
+      const { data: compressed, compressed: wasCompressed } = tryCompress(original);
+      const trailer = await createSignatureTrailer(original, signingKey);
+      const payload = new Uint8Array(compressed.length + trailer.length + 4);
+      payload.set(compressed);
+      payload.set(trailer, compressed.length);
+      payload.set(crc32Bytes(payload.subarray(0, compressed.length + trailer.length)), compressed.length + trailer.length);
+      return { payload, wasCompressed };
+    }
+
+    it('should flag signed payloads in the header extension', () => {
+      const packets = packetize(new Uint8Array(140), 40, { hasCrc32: true, signed: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.signed).toBe(false);
+      expect(applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!).signed).toBe(true);
+    });
+
+    it('should report the signer of a valid signature', async () => {
+      const { publicKey, privateKey } = await generateSigningKeyPair();
+      const original = stringToBytes('Relay station moves north. '.repeat(10));
+      const { payload, wasCompressed } = await signedPayload(original, privateKey);
+
+      const result = await processPayload(payload, false, wasCompressed, 1, original.length, true, undefined, false, undefined, true);
+      expect(result.success).toBe(true);
+      expect(bytesToString(result.data!)).toBe(bytesToString(original));
+      expect(result.signature).toEqual({ signer: publicKey, valid: true });
+    });
+
+    it('should decode but flag a signature that does not match', async () => {
+      const { privateKey } = await generateSigningKeyPair();
+      const original = stringToBytes('Relay station moves north');
+      const { payload } = await signedPayload(stringToBytes('Relay station moves south'), privateKey);
+      // Swap in different data under the same signature, with a fresh CRC32
+      payload.set(original);
+      payload.set(crc32Bytes(payload.subarray(0, payload.length - 4)), payload.length - 4);
+
+      const result = await processPayload(payload, false, false, 0, original.length, true, undefined, false, undefined, true);
+      expect(result.success).toBe(true);
+      expect(bytesToString(result.data!)).toBe('Relay station moves north');
+      expect(result.signature!.valid).toBe(false);
+    });
+
+    it('should leave unsigned payloads without a signature', async () => {
+      const original = stringToBytes('No signature here');
+      const payload = new Uint8Array(original.length + 4);
+      payload.set(original);
+      payload.set(crc32Bytes(original), original.length);
+
+      const result = await processPayload(payload, false, false, 0, original.length, true);
+      expect(result.success).toBe(true);
+      expect(result.signature).toBeUndefined();
+    });
+  });
+
+  describe('Message metadata', () => {
+    const metadata = {
+      filename: 'wg0.conf',
+      mimeType: 'text/plain',
+      createdAt: new Date('2026-03-01T08:30:00Z'),
+      label: 'office vpn',
+    };
+
+    it('should flag the metadata block in the header extension', () => {
+      const packets = packetize(new Uint8Array(60), 40, { hasCrc32: true, metadata: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.metadata).toBe(false);
+      expect(applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!).metadata).toBe(true);
+    });
+
+    it('should split the metadata block from the data', () => {
+      const data = stringToBytes('[Interface]');
+      const block = createMetadataBlock(metadata);
+      const payload = new Uint8Array(block.length + data.length);
+      payload.set(block);
+      payload.set(data, block.length);
+
+      const parsed = parseMetadataBlock(payload)!;
+      expect(parsed.metadata).toEqual(metadata);
+      expect(bytesToString(parsed.data)).toBe('[Interface]');
+      expect(parseMetadataBlock(payload.subarray(0, block.length - 1))).toBeNull();
+    });
+
+    it('should skip fields it does not know', () => {
+      // File name field, then a field with ID 200 from a newer sender
+      const block = new Uint8Array([0x4D, 9, 0, 1, 3, 0x61, 0x2E, 0x62, 200, 2, 0xFF, 0xFF, 0x2A]);
+
+      const parsed = parseMetadataBlock(block)!;
+      expect(parsed.metadata).toEqual({ filename: 'a.b' });
+      expect(Array.from(parsed.data)).toEqual([0x2A]);
+    });
+
+    it('should return the metadata apart from the data and its checksum', async () => {
+      const message = 'PrivateKey = abc\nAddress = 10.0.0.2/24';
+      const result = await encodeString(message, { metadata });
+      const { payloads, compressed, compressionAlgo, originalLength } = result.retransmit;
+
+      const processed = await processPayload(payloads[0], false, compressed, compressionAlgo, originalLength, true, undefined, false, undefined, false, false, [], true);
+      expect(processed.success).toBe(true);
+      expect(processed.metadata).toEqual(metadata);
+      expect(bytesToString(processed.data!)).toBe(message);
+      expect(await sha256Hex(processed.data!)).toBe(result.checksum);
+    });
+
+    it('should reduce received file names to safe ones', () => {
+      expect(getSafeFilename('wg0.conf')).toBe('wg0.conf');
+      expect(getSafeFilename('../../.ssh/authorized_keys')).toBe('authorized_keys');
+      expect(getSafeFilename('C:\\Windows\\evil.bat')).toBe('evil.bat');
+      expect(getSafeFilename('.bashrc')).toBe('bashrc');
+      expect(getSafeFilename('a\u0000b?.txt')).toBe('a_b_.txt');
+      expect(getSafeFilename('..')).toBeNull();
+      expect(getSafeFilename(undefined)).toBeNull();
+    });
+  });
+
+  describe('File bundles', () => {
+    const files = [
+      { name: 'client.ovpn', data: stringToBytes('client\nremote vpn.example.com 1194') },
+      { name: 'ca.crt', data: stringToBytes('-----BEGIN CERTIFICATE-----') },
+      { name: 'empty.txt', data: new Uint8Array(0) },
+    ];
+
+    it('should flag the bundle in the header extension', () => {
+      const packets = packetize(new Uint8Array(60), 40, { hasCrc32: true, bundle: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.bundle).toBe(false);
+      const merged = applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!);
+      expect(merged.bundle).toBe(true);
+      expect(merged.metadata).toBe(false);
+    });
+
+    it('should unpack the files of a bundle', () => {
+      const bundle = createBundle(files);
+
+      expect(parseBundle(bundle)).toEqual(files);
+      expect(parseBundle(bundle.subarray(0, bundle.length - 1))).toBeNull();
+
+      // A changed byte in a file fails its CRC32
+      const corrupted = bundle.slice();
+      corrupted[corrupted.length - 2] ^= 0xFF;
+      expect(parseBundle(corrupted)).toBeNull();
+    });
+
+    it('should reject bundles it cannot pack', () => {
+      expect(() => createBundle([])).toThrow('at least one file');
+      expect(() => createBundle([files[0], files[0]])).toThrow('two files named client.ovpn');
+      expect(() => createBundle([{ name: '', data: new Uint8Array(1) }])).toThrow('needs a name');
+    });
+
+    it('should return the files along with the bundle and its checksum', async () => {
+      const metadata = { label: 'office vpn' };
+      const result = await encodeFiles(files, { metadata });
+      const { payloads, compressed, compressionAlgo, originalLength } = result.retransmit;
+      expect(result.retransmit.bundle).toBe(true);
+
+      const processed = await processPayload(payloads[0], false, compressed, compressionAlgo, originalLength, true, undefined, false, undefined, false, false, [], true, true);
+      expect(processed.success).toBe(true);
+      expect(processed.metadata).toEqual(metadata);
+      expect(processed.files).toEqual(files);
+      expect(await sha256Hex(processed.data!)).toBe(result.checksum);
+    });
+  });
+
+  describe('Compact configs', () => {
+    const configs = {
+      wireguard: '[Interface]\nPrivateKey = yAnz5TF+lXXJte14tji3zlMNq+hd2rYUIgJBgB3fBmk=\nAddress = 10.0.0.2/32, fd42:42:42::2/128\n\n' +
+        '[Peer]\nPublicKey = xTIBA5rboUvnH4htodjb6e697QjLERt1NAB4mZqp8Dg=\nAllowedIPs = 0.0.0.0/0, ::/0\nEndpoint = 203.0.113.5:51820',
+      vless: 'vless://0b6f8d4e-3c1a-4f2b-9d7e-5a8c6b4e2f10@203.0.113.10:443?encryption=none&security=reality&sni=www.microsoft.com' +
+        '&fp=chrome&pbk=SbVKOEMjK0sIlbwg4akyBg5mL5KZwwB-ed4eEE7YnRc&sid=6ba85179e30d4fc2&type=tcp&flow=xtls-rprx-vision#my-server',
+      vmess: 'vmess://' + btoa('{"v":"2","ps":"home","add":"203.0.113.20","port":"443","id":"a3482e88-686a-4a58-8126-99c9df64b7bf","aid":"0","net":"ws","tls":"tls"}'),
+      shadowsocks: 'ss://' + btoa('chacha20-ietf-poly1305:Gx8vA3kPq9zL').replace(/=+$/, '') + '@198.51.100.7:8388#outline',
+      trojan: 'trojan://s3cret@[2001:db8:85a3::8a2e:370:7334]:443?security=tls&sni=example.com&type=tcp#t',
+    };
+
+    it('should rebuild each config exactly from a shorter form', () => {
+      for (const text of Object.values(configs)) {
+        const compact = createCompactConfig(stringToBytes(text))!;
+        expect(compact.length).toBeLessThan(text.length);
+        expect(bytesToString(parseCompactConfig(compact)!)).toBe(text);
+      }
+    });
+
+    it('should keep text that a token would not rebuild exactly', () => {
+      // Uppercase UUID, IPv6 with leading zeros, octet with a leading zero
+      const text = 'vless://0B6F8D4E-3C1A-4F2B-9D7E-5A8C6B4E2F10@[2001:0db8:0000:0000:0000:0000:0000:0001]:443#010.0.0.1 über';
+      const compact = createCompactConfig(stringToBytes(text))!;
+      expect(bytesToString(parseCompactConfig(compact)!)).toBe(text);
+
+      expect(createCompactConfig(stringToBytes('just a note'))).toBeNull();
+      expect(createCompactConfig(new Uint8Array([0x89, 0x50, 0x00, 0xFF]))).toBeNull();
+    });
+
+    it('should reject a damaged compact config', () => {
+      const compact = createCompactConfig(stringToBytes(configs.vless))!;
+
+      expect(parseCompactConfig(compact.subarray(0, compact.length - 1))).toBeNull();
+      expect(parseCompactConfig(new Uint8Array([0x43, 0x09]))).toBeNull();
+      expect(parseCompactConfig(new Uint8Array([0x43, 0xFF]))).toBeNull();
+      expect(parseCompactConfig(stringToBytes('Hello'))).toBeNull();
+    });
+
+    it('should flag the compact config in the header extension', () => {
+      const packets = packetize(new Uint8Array(60), 40, { hasCrc32: true, compactConfig: true });
+
+      const header = parseHeaderFrame(packets.headerFrame)!;
+      expect(header.extended).toBe(true);
+      expect(header.compactConfig).toBe(false);
+      const merged = applyHeaderExtension(header, parseHeaderExtension(packets.extensionFrame!)!);
+      expect(merged.compactConfig).toBe(true);
+      expect(merged.compressionAlgo).toBe(FRAME.COMPRESSION_NONE);
+    });
+
+    it('should send a link as a compact config only when asked and when smaller', async () => {
+      expect((await encodeString(configs.vmess)).stats.compactConfig).toBe(false);
+      expect((await encodeString('just a note', { compactConfig: true })).stats.compactConfig).toBe(false);
+
+      const plain = await encodeString(configs.vmess);
+      const result = await encodeString(configs.vmess, { compactConfig: true });
+      expect(result.stats.compactConfig).toBe(true);
+      expect(result.stats.compressedSize).toBeLessThan(plain.stats.compressedSize);
+      expect(result.checksum).toBe(plain.checksum);
+    });
+
+    it('should return the text of a compact config and its checksum', async () => {
+      const metadata = { filename: 'home.txt' };
+      const result = await encodeString(configs.vless, { compactConfig: true, metadata });
+      const { payloads, compressed, compressionAlgo, originalLength } = result.retransmit;
+      expect(result.retransmit.compactConfig).toBe(true);
+
+      const processed = await processPayload(payloads[0], false, compressed, compressionAlgo, originalLength, true, undefined, false, undefined, false, false, [], true, false, true);
+      expect(processed.success).toBe(true);
+      expect(processed.metadata).toEqual(metadata);
+      expect(bytesToString(processed.data!)).toBe(configs.vless);
+      expect(await sha256Hex(processed.data!)).toBe(result.checksum);
+    });
   });
 
   describe('CRC32 integrity verification', () => {
@@ -292,11 +1185,7 @@ SecretToken = XYZ0987654321`;
       const originalBytes = stringToBytes(originalText);
 
       const { data: maybeCompressed, compressed } = tryCompress(originalBytes);
-      const { headerFrame, dataFrames, sessionId } = packetize(
-        maybeCompressed,
-        originalBytes.length,
-        compressed
-      );
+      const { headerFrame, dataFrames, sessionId } = packetize(maybeCompressed, originalBytes.length, { compressed });
 
       // Parse header
       const header = parseHeaderFrame(headerFrame);
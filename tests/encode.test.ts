@@ -1,6 +1,9 @@
-import { describe, it, expect } from 'vitest';
-import { encodeString, encodeBytes, checkPayloadSize, estimateEncode } from '../src/encode';
-import { LIMITS } from '../src/utils/constants';
+import { describe, it, expect, afterEach } from 'vitest';
+import { encodeString, encodeBytes, checkPayloadSize, estimateEncode, encodeRetransmission, encodeArqMessage } from '../src/encode';
+import { AUDIO, LIMITS, setAudioMode, type AudioMode } from '../src/utils/constants';
+import { fft, magnitude } from '../src/lib/fft';
+import { ChirpDetector } from '../src/lib/chirp';
+import { generateKeyPair, generatePreSharedKey, generateSigningKeyPair, ENCRYPTION_OVERHEAD, SIGNATURE_TRAILER_SIZE } from '../src/lib/crypto';
 
 describe('Encode Pipeline', () => {
   describe('checkPayloadSize', () => {
@@ -98,6 +101,165 @@ describe('Encode Pipeline', () => {
       expect(estimate.estimatedAudioBytes).toBeGreaterThan(0);
     });
 
+    it('should estimate transmissions beyond 255 frames', () => {
+      // Without data the estimate assumes 60% of the input after compression
+      const small = estimateEncode(30000);
+      const large = estimateEncode(90000);
+
+      expect(large.estimatedFrames).toBeGreaterThan(255);
+      expect(large.estimatedDuration).toBeGreaterThan(small.estimatedDuration);
+    });
+
+    it('should chain oversized payloads into segments', async () => {
+      // Incompressible bytes so the payload really exceeds the segment size
+      let seed = 1;
+      const data = new Uint8Array(2500).map(() => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 24);
+
+      const result = await encodeBytes(data, { segmentBytes: 1024 });
+
+      expect(result.stats.segmentCount).toBe(3);
+      expect(result.segments).toHaveLength(3);
+      expect(result.stats.frameCount).toBe(result.segments!.reduce((sum, s) => sum + s.frameCount, 0));
+      // Segments plus the silence between them make up the whole audio
+      const segmentSeconds = result.segments!.reduce((sum, s) => sum + s.durationSeconds, 0);
+      expect(result.durationSeconds).toBeCloseTo(segmentSeconds + 2 * LIMITS.SEGMENT_GAP_MS / 1000, 2);
+    });
+
+    it('should not chain payloads that fit in one segment', async () => {
+      const result = await encodeString('short message', { segmentBytes: 1024 });
+
+      expect(result.stats.segmentCount).toBe(1);
+      expect(result.segments).toBeUndefined();
+    });
+
+    it('should reject segment sizes below the minimum', async () => {
+      await expect(encodeString('test', { segmentBytes: 100 })).rejects.toThrow('Segment size');
+    });
+
+    it('should append repair frames to the transmission', async () => {
+      let seed = 3;
+      const data = new Uint8Array(1000).map(() => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 24);
+      const plain = await encodeBytes(data);
+      const repaired = await encodeBytes(data, { repairOverhead: 50 });
+
+      // 8 data frames + 4 repair frames
+      expect(plain.stats.frameCount).toBe(8);
+      expect(repaired.stats.frameCount).toBe(12);
+      expect(repaired.durationSeconds).toBeGreaterThan(plain.durationSeconds);
+      expect(repaired.retransmit.repairOverhead).toBe(50);
+      expect(estimateEncode(1000, data, 'normal', 50).estimatedFrames).toBe(12);
+    });
+
+    it('should encrypt to a recipient public key', async () => {
+      const { publicKey } = await generateKeyPair();
+      const result = await encodeString('for the field team only', { recipient: publicKey });
+
+      expect(result.stats.encrypted).toBe(true);
+      expect(result.retransmit.publicKey).toBe(true);
+      expect(result.retransmit.hasCrc32).toBe(false);
+      await expect(encodeString('test', { recipient: publicKey, password: 'secret' })).rejects.toThrow('not both');
+      await expect(encodeString('test', { recipient: 'nedagram-pk-bogus' })).rejects.toThrow('Invalid public key');
+    });
+
+    it('should seal passwords in the KDF envelope', async () => {
+      const result = await encodeString('meet at dawn', { password: 'secret', kdf: { kdf: 'pbkdf2', iterations: 1000 } });
+
+      expect(result.stats.encrypted).toBe(true);
+      expect(result.retransmit.kdfEnvelope).toBe(true);
+      expect((await encodeString('meet at dawn')).retransmit.kdfEnvelope).toBe(false);
+      await expect(encodeString('test', { password: 'secret', kdf: { kdf: 'pbkdf2', iterations: 999 } })).rejects.toThrow('PBKDF2');
+    });
+
+    it('should encrypt with a pre-shared key', async () => {
+      const key = generatePreSharedKey();
+      const plain = await encodeString('meet at dawn');
+      const result = await encodeString('meet at dawn', { preSharedKey: key });
+
+      expect(result.stats.encrypted).toBe(true);
+      expect(result.retransmit.kdfEnvelope).toBe(true);
+      expect(result.retransmit.hasCrc32).toBe(false);
+      expect(result.retransmit.payloads[0].length).toBe(plain.retransmit.payloads[0].length - 4 + ENCRYPTION_OVERHEAD);
+      await expect(encodeString('test', { preSharedKey: key, password: 'secret' })).rejects.toThrow('not both');
+      await expect(encodeString('test', { preSharedKey: 'nedagram-psk-bogus' })).rejects.toThrow('Invalid pre-shared key');
+    });
+
+    it('should append a signature trailer when signing', async () => {
+      const { privateKey } = await generateSigningKeyPair();
+      // Compared with a transmission that has a header extension too, as the
+      // compression algorithm picked depends on it
+      const unsigned = await encodeString('orders from HQ', { fecProfile: 'heavy' });
+      const signed = await encodeString('orders from HQ', { signingKey: privateKey });
+
+      expect(signed.stats.signed).toBe(true);
+      expect(signed.retransmit.signed).toBe(true);
+      expect(signed.stats.compressedSize).toBe(unsigned.stats.compressedSize + SIGNATURE_TRAILER_SIZE);
+      await expect(encodeString('test', { signingKey: 'nedagram-ssk-bogus' })).rejects.toThrow('Invalid signing key');
+    });
+
+    it('should send metadata ahead of the data', async () => {
+      const plain = await encodeString('{"ssid": "office"}');
+      const result = await encodeString('{"ssid": "office"}', {
+        metadata: { filename: 'wifi.json', mimeType: 'application/json' },
+      });
+
+      expect(result.retransmit.metadata).toBe(true);
+      expect(plain.retransmit.metadata).toBe(false);
+      // The checksum covers the data alone
+      expect(result.checksum).toBe(plain.checksum);
+      expect(result.stats.originalSize).toBe(plain.stats.originalSize);
+      await expect(encodeString('test', { metadata: { filename: 'x'.repeat(256) } })).rejects.toThrow('filename is too long');
+    });
+
+    it('should reject invalid repair overheads', async () => {
+      await expect(encodeString('test', { repairOverhead: 101 })).rejects.toThrow('Repair overhead');
+      await expect(encodeString('test', { repairOverhead: 12.5 })).rejects.toThrow('Repair overhead');
+    });
+
+    it('should encode the same audio with a fixed session ID', async () => {
+      const first = await encodeString('Same audio', { sessionId: 1234 });
+      const second = await encodeString('Same audio', { sessionId: 1234 });
+
+      expect(first.retransmit.sessionId).toBe(1234);
+      expect(second.audio).toEqual(first.audio);
+      await expect(encodeString('test', { sessionId: 0x10000 })).rejects.toThrow('Session ID');
+    });
+
+    it('should resend only the frames a NACK lists', async () => {
+      let seed = 7;
+      const data = new Uint8Array(800).map(() => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 24);
+      const result = await encodeBytes(data);
+      const { sessionId } = result.retransmit;
+
+      const resend = encodeRetransmission(result.retransmit, {
+        type: 'nack', sessionId, segmentIndex: 1, missingFrames: [3, 1, 3],
+      })!;
+
+      expect(resend.frameCount).toBe(2);
+      expect(resend.durationSeconds).toBeLessThan(result.durationSeconds);
+      expect(encodeRetransmission(result.retransmit, {
+        type: 'ack', sessionId, segmentIndex: 1, missingFrames: [],
+      })).toBeNull();
+    });
+
+    it('should refuse NACKs that do not match the transmission', async () => {
+      const result = await encodeString('retransmit me');
+      const { sessionId } = result.retransmit;
+
+      expect(() => encodeRetransmission(result.retransmit, {
+        type: 'nack', sessionId: (sessionId + 1) & 0xFFFF, segmentIndex: 1, missingFrames: [1],
+      })).toThrow('session');
+      expect(() => encodeRetransmission(result.retransmit, {
+        type: 'nack', sessionId, segmentIndex: 1, missingFrames: [result.stats.frameCount + 1],
+      })).toThrow();
+    });
+
+    it('should encode ARQ replies as short transmissions', () => {
+      const reply = encodeArqMessage({ type: 'nack', sessionId: 42, segmentIndex: 1, missingFrames: [2, 5] });
+
+      expect(reply.audio.length).toBeGreaterThan(0);
+      expect(reply.frameCount).toBe(1);
+    });
+
     it('should encode bytes with v3 protocol', async () => {
       const data = new Uint8Array([0x48, 0x65, 0x6c, 0x6c, 0x6f]); // "Hello"
 
@@ -107,4 +269,90 @@ describe('Encode Pipeline', () => {
       expect(result.stats.originalSize).toBe(5);
     });
   });
+
+  describe('Ultrasonic mode', () => {
+    afterEach(() => setAudioMode('phone'));
+
+    function detectChirpMode(audio: Float32Array, sampleRate: number): AudioMode | null {
+      const detector = new ChirpDetector(sampleRate);
+      const chunkSize = Math.floor(sampleRate * 0.05);
+      for (let offset = 0; offset < audio.length; offset += chunkSize) {
+        const result = detector.addSamples(audio.subarray(offset, offset + chunkSize));
+        if (result.detected) return result.mode;
+      }
+      return null;
+    }
+
+    it('should keep the transmission above 17 kHz', async () => {
+      setAudioMode('ultrasonic');
+      const result = await encodeString('quiet please');
+
+      const binWidth = result.sampleRate / 4096;
+      let audible = 0;
+      let total = 0;
+      for (let offset = 0; offset + 4096 <= result.audio.length; offset += 4096) {
+        const magnitudes = magnitude(fft(result.audio.subarray(offset, offset + 4096)));
+        for (let bin = 1; bin < magnitudes.length; bin++) {
+          const energy = magnitudes[bin] * magnitudes[bin];
+          total += energy;
+          if (bin * binWidth < 17000) audible += energy;
+        }
+      }
+
+      expect(audible / total).toBeLessThan(0.01);
+    });
+
+    it('should tell the ultrasonic chirp from the audible ones', async () => {
+      for (const mode of ['phone', 'wideband', 'ultrasonic'] as AudioMode[]) {
+        setAudioMode(mode);
+        const result = await encodeString('chirp');
+        expect(detectChirpMode(result.audio, result.sampleRate)).toBe(mode);
+      }
+    });
+
+    it('should place the chirp end from the first sample, past silence', async () => {
+      const result = await encodeString('chirp');
+      const silence = result.sampleRate * 3;
+      const audio = new Float32Array(silence + result.audio.length);
+      audio.set(result.audio, silence);
+
+      const detector = new ChirpDetector(result.sampleRate);
+      const chunkSize = Math.floor(result.sampleRate * 0.05);
+      for (let offset = 0; offset < audio.length && !detector.isDetected(); offset += chunkSize) {
+        detector.addSamples(audio.subarray(offset, offset + chunkSize));
+      }
+
+      // Warmup and chirp come before the calibration tones
+      const expected = silence + ((AUDIO.WARMUP_DURATION_MS + AUDIO.CHIRP_DURATION_MS) / 1000) * result.sampleRate;
+      expect(Math.abs(detector.getChirpEndSample() - expected)).toBeLessThan(result.sampleRate * 0.005);
+    });
+  });
+
+  describe('Multitone mode', () => {
+    afterEach(() => setAudioMode('phone'));
+
+    it('should be several times shorter than wideband', async () => {
+      const message = 'A longer message for multitone. '.repeat(20);
+      setAudioMode('wideband');
+      const wideband = await encodeString(message);
+      setAudioMode('multitone');
+      const multitone = await encodeString(message);
+
+      expect(multitone.audio.length * 3).toBeLessThan(wideband.audio.length);
+    });
+
+    it('should send several subcarriers at once', async () => {
+      setAudioMode('multitone');
+      const result = await encodeString('multitone');
+
+      // A data symbol in the middle of the transmission carries 16 tones
+      const symbolSamples = Math.floor(result.sampleRate * 0.04);
+      const start = result.audio.length - symbolSamples * 12;
+      const magnitudes = magnitude(fft(result.audio.subarray(start, start + 1024)));
+      const peak = Math.max(...magnitudes);
+      const strongBins = magnitudes.filter(m => m > peak / 4).length;
+
+      expect(strongBins).toBeGreaterThanOrEqual(16);
+    });
+  });
 });
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { createOggOpus, opusPacketSamples, readOpusHead, OggPacketReader } from '../src/lib/ogg';
+
+interface Page {
+  headerType: number;
+  granule: number;
+  serial: number;
+  sequence: number;
+  crc: number;
+  /** The page with its CRC field zeroed */
+  unsigned: Uint8Array;
+  packets: Uint8Array[];
+  /** The last packet continues on the next page */
+  continued: boolean;
+}
+
+function parsePages(file: Uint8Array): Page[] {
+  const pages: Page[] = [];
+  let offset = 0;
+  while (offset < file.length) {
+    const view = new DataView(file.buffer, file.byteOffset + offset);
+    expect(String.fromCharCode(...file.subarray(offset, offset + 4))).toBe('OggS');
+    const segments = file[offset + 26];
+    const lacing = file.subarray(offset + 27, offset + 27 + segments);
+    const length = 27 + segments + lacing.reduce((sum, value) => sum + value, 0);
+
+    const packets: Uint8Array[] = [];
+    let start = offset + 27 + segments;
+    let size = 0;
+    for (const value of lacing) {
+      size += value;
+      if (value < 255) {
+        packets.push(file.slice(start, start + size));
+        start += size;
+        size = 0;
+      }
+    }
+
+    const unsigned = file.slice(offset, offset + length);
+    unsigned.fill(0, 22, 26);
+    pages.push({
+      headerType: file[offset + 5],
+      granule: view.getUint32(6, true) + view.getUint32(10, true) * 0x100000000,
+      serial: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      crc: view.getUint32(22, true),
+      unsigned,
+      packets,
+      continued: size > 0,
+    });
+    offset += length;
+  }
+  return pages;
+}
+
+// Bit-by-bit Ogg CRC (polynomial 0x04C11DB7, no reflection, no XOR)
+function referenceCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+  }
+  return crc >>> 0;
+}
+
+// CELT, 20 ms, one frame: 960 samples per packet
+const packet = (size: number, fill: number) => {
+  const data = new Uint8Array(size).fill(fill);
+  data[0] = 0xF8;
+  return data;
+};
+
+describe('OGG/Opus', () => {
+  it('should count the samples of an Opus packet from its TOC byte', () => {
+    expect(opusPacketSamples(new Uint8Array([0xF8]))).toBe(960);        // CELT 20 ms
+    expect(opusPacketSamples(new Uint8Array([0x78]))).toBe(960);        // Hybrid 20 ms
+    expect(opusPacketSamples(new Uint8Array([0x09]))).toBe(1920);       // SILK 20 ms, two frames
+    expect(opusPacketSamples(new Uint8Array([0xFB, 0x03]))).toBe(2880); // CELT 20 ms, three frames
+    expect(opusPacketSamples(new Uint8Array([0x80]))).toBe(120);        // CELT 2.5 ms
+  });
+
+  it('should start with the Opus identification and comment headers', () => {
+    const file = createOggOpus([packet(80, 1)], 960, 44100);
+    const [head, tags] = parsePages(file);
+
+    expect(head.headerType).toBe(0x02);
+    const id = head.packets[0];
+    expect(String.fromCharCode(...id.subarray(0, 8))).toBe('OpusHead');
+    const view = new DataView(id.buffer, id.byteOffset);
+    expect(id[8]).toBe(1);
+    expect(id[9]).toBe(1);
+    expect(view.getUint16(10, true)).toBe(312);
+    expect(view.getUint32(12, true)).toBe(44100);
+
+    expect(tags.headerType).toBe(0);
+    expect(String.fromCharCode(...tags.packets[0].subarray(0, 8))).toBe('OpusTags');
+  });
+
+  it('should carry every packet intact, on pages with valid CRCs', () => {
+    const packets = Array.from({ length: 120 }, (_, i) => packet([80, 255, 300, 510][i % 4], i));
+    const pages = parsePages(createOggOpus(packets, 120 * 960));
+
+    expect(pages.map(page => page.sequence)).toEqual(pages.map((_, i) => i));
+    expect(new Set(pages.map(page => page.serial)).size).toBe(1);
+    for (const page of pages) {
+      expect(page.crc).toBe(referenceCrc(page.unsigned));
+      expect(page.continued).toBe(false);
+    }
+    expect(pages.slice(2).flatMap(page => page.packets)).toEqual(packets);
+  });
+
+  it('should start a new page before the lacing table overflows', () => {
+    const packets = Array.from({ length: 50 }, (_, i) => packet(1275, i));
+    const pages = parsePages(createOggOpus(packets, 50 * 960)).slice(2);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.flatMap(page => page.packets)).toEqual(packets);
+  });
+
+  it('should end with the granule position of the real length', () => {
+    const packets = Array.from({ length: 60 }, (_, i) => packet(80, i));
+    const sampleCount = 60 * 960 - 500;
+    const pages = parsePages(createOggOpus(packets, sampleCount));
+    const audio = pages.slice(2);
+
+    expect(audio.map(page => page.headerType)).toEqual([0, 0x04]);
+    expect(audio[0].granule).toBe(312 + 50 * 960);
+    expect(audio[1].granule).toBe(312 + sampleCount);
+  });
+
+  it('should read the packets back, however the bytes arrive', () => {
+    const packets = Array.from({ length: 80 }, (_, i) => packet([80, 255, 300, 1275][i % 4], i));
+    const file = createOggOpus(packets, 80 * 960);
+
+    const whole = new OggPacketReader().push(file);
+    expect(whole.slice(2)).toEqual(packets);
+
+    const reader = new OggPacketReader();
+    const read: Uint8Array[] = [];
+    for (let offset = 0; offset < file.length; offset += 777) {
+      read.push(...reader.push(file.subarray(offset, offset + 777)));
+    }
+    expect(read).toEqual(whole);
+  });
+
+  it('should parse the identification header', () => {
+    const [head] = new OggPacketReader().push(createOggOpus([packet(80, 1)], 960, 16000));
+
+    expect(readOpusHead(head)).toEqual({
+      channels: 1,
+      preSkip: 312,
+      inputSampleRate: 16000,
+      mappingFamily: 0,
+      streamCount: 1,
+      coupledStreamCount: 0,
+      channelMapping: [0],
+    });
+    expect(readOpusHead(packet(80, 1))).toBeNull();
+  });
+
+  it('should drop a page whose CRC does not match', () => {
+    const packets = Array.from({ length: 120 }, (_, i) => packet(80, i));
+    const file = createOggOpus(packets, 120 * 960);
+    const pages = parsePages(file);
+    // Corrupt the first audio page
+    const corrupted = file.slice();
+    corrupted[pages[0].unsigned.length + pages[1].unsigned.length + 200] ^= 0xFF;
+
+    const read = new OggPacketReader().push(corrupted).slice(2);
+    expect(read).toEqual(packets.slice(pages[2].packets.length));
+  });
+
+  it('should refuse bytes that are not an Ogg stream', () => {
+    expect(() => new OggPacketReader().push(new Uint8Array(64))).toThrow('Not an Ogg stream');
+  });
+});
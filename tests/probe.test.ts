@@ -0,0 +1,88 @@
+/**
+ * Tests for the channel probe
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeProbe, encodeString } from '../src/encode';
+import { evaluateProbe } from '../src/decode/probe';
+import { getAudioMode, setAudioMode } from '../src/utils/constants';
+
+const sampleRate = 48000;
+
+// Seeded noise so the tests are reproducible
+function addNoise(samples: Float32Array, amplitude: number): Float32Array {
+  let seed = 42;
+  const noisy = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    noisy[i] = samples[i] + ((seed / 0x7fffffff) - 0.5) * 2 * amplitude;
+  }
+  return noisy;
+}
+
+// Cascaded one-pole low-pass for a band-limited channel like a phone call
+function lowPass(samples: Float32Array, cutoffHz: number, poles: number): Float32Array {
+  const alpha = 1 - Math.exp((-2 * Math.PI * cutoffHz) / sampleRate);
+  let filtered = samples;
+  for (let pass = 0; pass < poles; pass++) {
+    const input = filtered;
+    filtered = new Float32Array(input.length);
+    let y = 0;
+    for (let i = 0; i < input.length; i++) {
+      y += alpha * (input[i] - y);
+      filtered[i] = y;
+    }
+  }
+  return filtered;
+}
+
+function withSilence(samples: Float32Array, seconds: number): Float32Array {
+  const padding = Math.floor(seconds * sampleRate);
+  const padded = new Float32Array(samples.length + padding * 2);
+  padded.set(samples, padding);
+  return padded;
+}
+
+describe('Channel probe', () => {
+  it('should keep the current audio mode', () => {
+    setAudioMode('wideband');
+    encodeProbe(sampleRate);
+    expect(getAudioMode()).toBe('wideband');
+    setAudioMode('phone');
+  });
+
+  it('should recommend multitone with light FEC for a clean channel', () => {
+    const { audio } = encodeProbe(sampleRate);
+    const result = evaluateProbe(addNoise(withSilence(audio, 0.5), 0.0005), sampleRate);
+
+    expect(result).not.toBeNull();
+    expect(result!.recommendedMode).toBe('multitone');
+    expect(result!.recommendedFec).toBe('light');
+    expect(Math.abs(result!.frequencyOffsetHz)).toBeLessThan(15);
+  });
+
+  it('should fall back to slower modes on a noisy channel', () => {
+    const { audio } = encodeProbe(sampleRate);
+    const result = evaluateProbe(addNoise(withSilence(audio, 0.5), 1.2), sampleRate);
+
+    expect(result).not.toBeNull();
+    expect(result!.recommendedMode).not.toBe('multitone');
+    expect(result!.recommendedFec).not.toBe('light');
+  });
+
+  it('should measure the frequency response of a band-limited channel', () => {
+    const { audio } = encodeProbe(sampleRate);
+    const result = evaluateProbe(addNoise(lowPass(withSilence(audio, 0.5), 1000, 4), 0.01), sampleRate);
+
+    expect(result).not.toBeNull();
+    const level = (hz: number) => result!.tones.find(t => t.frequencyHz === hz)!.levelDb;
+    expect(level(1000)).toBeGreaterThan(level(3500) + 10);
+    expect(result!.modes.find(m => m.mode === 'ultrasonic')!.usable).toBe(false);
+    expect(result!.recommendedMode).toBe('phone');
+  });
+
+  it('should not mistake a message for a probe', async () => {
+    const message = await encodeString('not a probe');
+    expect(evaluateProbe(withSilence(message.audio, 0.5), sampleRate)).toBeNull();
+  });
+});
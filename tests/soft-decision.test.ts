@@ -5,10 +5,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   detectToneSoft,
+  detectMultitoneSoft,
   softSymbolsToSoftBits,
   SoftDetectionResult,
 } from '../src/decode/soft-decision';
-import { setAudioMode, TONE_FREQUENCIES, AUDIO } from '../src/utils/constants';
+import { setAudioMode, TONE_FREQUENCIES, AUDIO, MULTITONE } from '../src/utils/constants';
+import { modulateBytes } from '../src/encode/modulate';
 
 // Helper to generate a pure tone
 function generateTone(
@@ -157,6 +159,39 @@ describe('Soft-Decision Detection', () => {
     });
   });
 
+  describe('detectMultitoneSoft', () => {
+    it('should read every subcarrier of a multitone symbol', () => {
+      setAudioMode('multitone');
+
+      const bytes = new Uint8Array([0x1b, 0xe4, 0x72, 0x8d]);
+      const audio = modulateBytes(bytes, sampleRate);
+      const guard = Math.floor((AUDIO.GUARD_INTERVAL_MS / 1000) * sampleRate);
+
+      const result = detectMultitoneSoft(audio.subarray(guard, audio.length - guard), sampleRate);
+
+      expect(result.softValues.length).toBe(MULTITONE.SUBCARRIERS * MULTITONE.TONES_PER_SUBCARRIER);
+      expect(result.hardDecision).toBe(0x1be4728d);
+      expect(result.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should carry bit probabilities for the Viterbi decoder', () => {
+      setAudioMode('multitone');
+
+      const bytes = new Uint8Array([0xa5, 0x0f, 0xff, 0x00]);
+      const audio = modulateBytes(bytes, sampleRate);
+      const guard = Math.floor((AUDIO.GUARD_INTERVAL_MS / 1000) * sampleRate);
+
+      const result = detectMultitoneSoft(audio.subarray(guard, audio.length - guard), sampleRate);
+      const bits = softSymbolsToSoftBits([result], AUDIO.BITS_PER_SYMBOL);
+
+      expect(bits.length).toBe(32);
+      const expected = Array.from(bytes).flatMap(byte =>
+        Array.from({ length: 8 }, (_, b) => (byte >> (7 - b)) & 1)
+      );
+      bits.forEach((bit, i) => expect(Math.round(bit)).toBe(expected[i]));
+    });
+  });
+
   describe('softSymbolsToSoftBits', () => {
     it('should convert phone mode (4 tones, 2 bits) with clear signal', () => {
       // Tone 3 = binary 11 → both bits should be ~1.0
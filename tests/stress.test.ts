@@ -1,7 +1,8 @@
 /**
  * Stress Tests: FEC & Decoder Robustness
  *
- * Characterizes the error correction limits of the v3 protocol at every layer.
+ * Characterizes the error correction limits of the v3 protocol at every layer,
+ * and the whole modem through simulated channels (seeded, so repeatable).
  * These tests are expensive — run with: npm run test:stress
  *
  * Gated by STRESS=1 environment variable (skipped in normal test runs).
@@ -21,6 +22,11 @@ import { unpackBits, hardToSoft } from '../src/decode/viterbi';
 import { interleave, deinterleave, calculateInterleaverDepth } from '../src/encode/interleave';
 import { createHeaderFrame, createDataFrame } from '../src/encode/frame';
 import { parseHeaderFrame, parseDataFrame } from '../src/decode/deframe';
+import { encodeString } from '../src/encode/index';
+import { simulateTransmission } from '../src/decode/simulate';
+import { CHANNEL_PRESETS, type ChannelConfig } from '../src/lib/channel';
+import { getAudioMode, setAudioMode, type AudioMode } from '../src/utils/constants';
+import { type FECProfile } from '../src/encode/v3-fec';
 
 // ─── Test Helpers ────────────────────────────────────────────────────────────
 
@@ -506,6 +512,53 @@ describe.runIf(STRESS_ENABLED)('Stress Tests', () => {
       // Observational — 5% BER after interleaving may still be too much
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Layer 6: Audio Through Simulated Channels
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('Channel simulation', () => {
+    const CHANNEL_TRIALS = 3;
+    const message = 'Channel test: the quick brown fox jumps over the lazy dog 0123456789';
+
+    const channels: [string, ChannelConfig][] = [
+      ...Object.entries(CHANNEL_PRESETS),
+      ['snr 0dB', { snrDb: 0 }],
+      ['snr -10dB', { snrDb: -10 }],
+      ['echo 80ms', { echoMs: 80, echoGain: 0.5 }],
+      ['dropouts 1/s', { dropoutRate: 1, dropoutMs: 40 }],
+    ];
+
+    const cases: [AudioMode, FECProfile][] = [
+      ['phone', 'light'], ['phone', 'normal'], ['phone', 'heavy'],
+      ['wideband', 'normal'], ['wideband', 'heavy'],
+    ];
+
+    for (const [mode, fec] of cases) {
+      for (const [name, channel] of channels) {
+        it(`${mode}/${fec} through ${name}`, async () => {
+          const previousMode = getAudioMode();
+          setAudioMode(mode);
+          try {
+            const transmission = await encodeString(message, { fecProfile: fec });
+            let passed = 0;
+            for (let seed = 1; seed <= CHANNEL_TRIALS; seed++) {
+              const result = await simulateTransmission(transmission, { ...channel, seed });
+              if (result.success) passed++;
+            }
+            record('Channel', `${mode}/${fec} ${name}`, passed, CHANNEL_TRIALS);
+
+            // Phone mode is made for calls: it must get through the call presets
+            if (mode === 'phone' && (name === 'phone-call' || name === 'gsm-call')) {
+              expect(passed).toBe(CHANNEL_TRIALS);
+            }
+          } finally {
+            setAudioMode(previousMode);
+          }
+        }, 600000);
+      }
+    }
+  });
 });
 
 // ─── Utility ─────────────────────────────────────────────────────────────────
@@ -12,6 +12,8 @@ import {
   calculateV3TotalSize,
   getOriginalBitCount,
   V3_FEC_CONFIG,
+  FEC_PROFILES,
+  type FECProfile,
 } from '../src/encode/v3-fec';
 import {
   decodeV3FEC,
@@ -21,6 +23,7 @@ import {
   decodeHeaderV3FECWithRedundancy,
   getV3HeaderEncodedSize,
   getV3DataEncodedSize,
+  decodeDataV3FECSoft,
 } from '../src/decode/v3-fec';
 import { unpackBits, hardToSoft } from '../src/decode/viterbi';
 import { FRAME } from '../src/utils/constants';
@@ -317,6 +320,79 @@ describe('v3 FEC (Concatenated RS + Convolutional)', () => {
     });
   });
 
+  describe('FEC Profiles', () => {
+    const profiles: FECProfile[] = ['light', 'normal', 'heavy'];
+
+    it('should keep the normal profile identical to the default config', () => {
+      expect(FEC_PROFILES.normal.RS_PARITY_SIZE).toBe(V3_FEC_CONFIG.RS_PARITY_SIZE);
+      expect(calculateV3EncodedSize(131, 'normal')).toBe(calculateV3EncodedSize(131));
+      expect(Array.from(encodeDataV3FEC(new Uint8Array(40).fill(7), 'normal')))
+        .toEqual(Array.from(encodeDataV3FEC(new Uint8Array(40).fill(7))));
+    });
+
+    it('should order encoded sizes light < normal < heavy', () => {
+      const light = getV3DataEncodedSize(128, 'light');
+      const normal = getV3DataEncodedSize(128, 'normal');
+      const heavy = getV3DataEncodedSize(128, 'heavy');
+
+      expect(light).toBeLessThan(normal);
+      expect(normal).toBeLessThan(heavy);
+    });
+
+    it('should match actual encoded sizes for every profile', () => {
+      for (const profile of profiles) {
+        for (const payload of [1, 32, 64, 100, 128]) {
+          const frame = new Uint8Array(3 + payload);
+          expect(encodeDataV3FEC(frame, profile).length).toBe(getV3DataEncodedSize(payload, profile));
+        }
+      }
+    });
+
+    it('should roundtrip data frames with every profile', () => {
+      for (const profile of profiles) {
+        const frame = new Uint8Array(3 + 64);
+        for (let i = 0; i < frame.length; i++) frame[i] = (i * 37 + 11) & 0xFF;
+
+        const encoded = encodeDataV3FEC(frame, profile);
+        const decoded = decodeDataV3FEC(encoded, 64, profile);
+
+        expect(decoded.success).toBe(true);
+        expect(Array.from(decoded.data)).toEqual(Array.from(frame));
+      }
+    });
+
+    it('should correct more byte errors with the heavy profile', () => {
+      const frame = new Uint8Array(3 + 64).fill(0xA5);
+      const encoded = encodeDataV3FEC(frame, 'heavy');
+      const softBits = hardToSoft(unpackBits(encoded));
+
+      // Wipe out a long burst: beyond RS(16) after Viterbi, within RS(32)
+      for (let i = 200; i < 300; i++) softBits[i] = 0.5;
+
+      const decoded = decodeDataV3FECSoft(softBits, 64, 'heavy');
+      expect(decoded.success).toBe(true);
+      expect(Array.from(decoded.data)).toEqual(Array.from(frame));
+    });
+
+    it('should not decode with the wrong profile', () => {
+      const frame = new Uint8Array(3 + 32).fill(0x42);
+      const encoded = encodeDataV3FEC(frame, 'light');
+      const decoded = decodeDataV3FEC(encoded, 32, 'heavy');
+
+      expect(decoded.success).toBe(false);
+    });
+
+    it('should include the header extension in total size for non-default profiles', () => {
+      const normal = calculateV3TotalSize(500);
+      const light = calculateV3TotalSize(500, 'light');
+      const heavy = calculateV3TotalSize(500, 'heavy');
+
+      expect(light.headerBytes).toBeGreaterThan(normal.headerBytes);
+      expect(light.totalBytes).toBeLessThan(normal.totalBytes);
+      expect(heavy.totalBytes).toBeGreaterThan(normal.totalBytes);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle minimum payload size', () => {
       const frame = new Uint8Array(3 + 1); // Minimum: 3 header + 1 payload